@@ -23,6 +23,10 @@ import { PriceEngineModule } from './modules/price-engine/price-engine.module';
 import { AiNormalizationModule } from './modules/ai-normalization/ai-normalization.module';
 import { MonitoringModule } from './modules/monitoring/monitoring.module';
 import { SearchModule } from './modules/search/search.module';
+import { AffiliatesModule } from './modules/affiliates/affiliates.module';
+import { FeedsModule } from './modules/feeds/feeds.module';
+import { PriceWatchesModule } from './modules/price-watches/price-watches.module';
+import { RestocksModule } from './modules/restocks/restocks.module';
 
 // Common modules
 import { DatabaseModule } from './database/database.module';
@@ -86,6 +90,10 @@ import { HealthModule } from './health/health.module';
     PriceEngineModule,
     AiNormalizationModule,
     MonitoringModule,
+    AffiliatesModule,
+    FeedsModule,
+    PriceWatchesModule,
+    RestocksModule,
   ],
 })
 export class AppModule {}
\ No newline at end of file
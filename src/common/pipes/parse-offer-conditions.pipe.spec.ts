@@ -0,0 +1,20 @@
+import { BadRequestException } from '@nestjs/common';
+import { ParseOfferConditionsPipe } from './parse-offer-conditions.pipe';
+
+describe('ParseOfferConditionsPipe', () => {
+  const pipe = new ParseOfferConditionsPipe();
+
+  it('should split a comma-separated list of conditions', () => {
+    expect(pipe.transform('new, Used,open_box')).toEqual(['new', 'used', 'open_box']);
+  });
+
+  it('should leave a missing condition unset', () => {
+    expect(pipe.transform(undefined)).toBeUndefined();
+    expect(pipe.transform('')).toBeUndefined();
+  });
+
+  it('should reject unknown conditions', () => {
+    expect(() => pipe.transform('new,mint')).toThrow(BadRequestException);
+    expect(() => pipe.transform('new,mint')).toThrow('Unknown condition: mint');
+  });
+});
@@ -0,0 +1,22 @@
+import { BadRequestException, Injectable, PipeTransform } from '@nestjs/common';
+import { OFFER_CONDITIONS, OfferCondition } from '../../database/entities/price.entity';
+
+/**
+ * Parse a comma-separated condition query parameter, rejecting values that aren't offer conditions
+ */
+@Injectable()
+export class ParseOfferConditionsPipe implements PipeTransform<string | undefined, OfferCondition[] | undefined> {
+  transform(value: string | undefined): OfferCondition[] | undefined {
+    if (value === undefined || value === null || value === '') {
+      return undefined;
+    }
+
+    const conditions = String(value).split(',').map(condition => condition.trim().toLowerCase());
+    const unknown = conditions.filter(condition => !OFFER_CONDITIONS.includes(condition as OfferCondition));
+    if (unknown.length > 0) {
+      throw new BadRequestException(`Unknown condition: ${unknown.join(', ')}. Use one of ${OFFER_CONDITIONS.join(', ')}`);
+    }
+
+    return conditions as OfferCondition[];
+  }
+}
@@ -23,6 +23,8 @@ export class NotificationProcessor {
       
       switch (type) {
         case 'price_alert':
+        // Restocks are delivered through the same channel as price alerts
+        case 'back_in_stock':
           await this.sendPriceAlert(userId, data);
           break;
         case 'new_deal':
@@ -45,6 +45,16 @@ import { QueueService } from './queue.service';
           },
         },
       },
+      {
+        // A failed feed run is recorded on the run and re-run by hand
+        name: 'feeds',
+        defaultJobOptions: {
+          removeOnComplete: 50,
+          removeOnFail: 50,
+          attempts: 1,
+          timeout: 30 * 60 * 1000,
+        },
+      },
       {
         name: 'notifications',
         defaultJobOptions: {
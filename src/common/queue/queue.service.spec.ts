@@ -0,0 +1,106 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getQueueToken } from '@nestjs/bull';
+import { QueueService } from './queue.service';
+
+describe('QueueService', () => {
+  let service: QueueService;
+
+  const mockPriceUpdateQueue = {
+    add: jest.fn(),
+    getJob: jest.fn(),
+  };
+
+  const job = (state: string) => ({
+    getState: jest.fn().mockResolvedValue(state),
+    remove: jest.fn(),
+  });
+
+  const data = { productId: 'product-123', retailerId: 'retailer-123', priority: 'low' as const };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QueueService,
+        { provide: getQueueToken('price-updates'), useValue: mockPriceUpdateQueue },
+        { provide: getQueueToken('image-recognition'), useValue: {} },
+        { provide: getQueueToken('scraping'), useValue: {} },
+        { provide: getQueueToken('feeds'), useValue: {} },
+        { provide: getQueueToken('notifications'), useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<QueueService>(QueueService);
+    mockPriceUpdateQueue.getJob.mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('addPriceUpdateJob', () => {
+    it('should report a new job as added', async () => {
+      expect(await service.addPriceUpdateJob(data)).toBe(true);
+      expect(mockPriceUpdateQueue.add).toHaveBeenCalledWith('update-price', data, expect.objectContaining({
+        jobId: 'price-update-product-123-retailer-123',
+      }));
+    });
+
+    it('should not add or report a job while one is waiting for the pair', async () => {
+      mockPriceUpdateQueue.getJob.mockResolvedValue(job('waiting'));
+
+      expect(await service.addPriceUpdateJob(data)).toBe(false);
+      expect(mockPriceUpdateQueue.add).not.toHaveBeenCalled();
+    });
+
+    it('should replace a finished job that still holds the id', async () => {
+      const finished = job('completed');
+      mockPriceUpdateQueue.getJob.mockResolvedValue(finished);
+
+      expect(await service.addPriceUpdateJob(data)).toBe(true);
+      expect(finished.remove).toHaveBeenCalled();
+    });
+  });
+
+  describe('deferPriceUpdateJob', () => {
+    it('should defer under an id keyed on the product and retailer', async () => {
+      await service.deferPriceUpdateJob(data, 2000);
+
+      expect(mockPriceUpdateQueue.add).toHaveBeenCalledWith('update-price', data, expect.objectContaining({
+        delay: 2000,
+        jobId: 'price-update-product-123-retailer-123-deferred',
+        removeOnComplete: true,
+      }));
+    });
+
+    it('should not queue a second deferral while one is pending', async () => {
+      mockPriceUpdateQueue.getJob.mockImplementation(async (jobId: string) => (jobId.endsWith('-retry') ? null : job('delayed')));
+
+      await service.deferPriceUpdateJob(data, 2000);
+      await service.deferPriceUpdateJob(data, 1500);
+
+      expect(mockPriceUpdateQueue.add).not.toHaveBeenCalled();
+    });
+
+    it('should re-defer a running deferral into the retry slot', async () => {
+      mockPriceUpdateQueue.getJob.mockImplementation(async (jobId: string) => (jobId.endsWith('-retry') ? null : job('active')));
+
+      await service.deferPriceUpdateJob(data, 2000);
+
+      expect(mockPriceUpdateQueue.add).toHaveBeenCalledWith('update-price', data, expect.objectContaining({
+        jobId: 'price-update-product-123-retailer-123-deferred-retry',
+      }));
+    });
+
+    it('should replace a finished deferral that still holds the id', async () => {
+      const finished = job('failed');
+      mockPriceUpdateQueue.getJob.mockImplementation(async (jobId: string) => (jobId.endsWith('-retry') ? null : finished));
+
+      await service.deferPriceUpdateJob(data, 2000);
+
+      expect(finished.remove).toHaveBeenCalled();
+      expect(mockPriceUpdateQueue.add).toHaveBeenCalledWith('update-price', data, expect.objectContaining({
+        jobId: 'price-update-product-123-retailer-123-deferred',
+      }));
+    });
+  });
+});
@@ -22,9 +22,15 @@ export interface ScrapingJobData {
   retryCount?: number;
 }
 
+export interface FeedIngestionJobData {
+  runId: string;
+  // Uploaded feed saved to disk; polled runs download the retailer's feed URL instead
+  filePath?: string;
+}
+
 export interface NotificationJobData {
   userId: string;
-  type: 'price_alert' | 'new_deal' | 'scan_complete';
+  type: 'price_alert' | 'back_in_stock' | 'new_deal' | 'scan_complete';
   data: any;
 }
 
@@ -34,20 +40,68 @@ export class QueueService {
     @InjectQueue('price-updates') private priceUpdateQueue: Queue,
     @InjectQueue('image-recognition') private imageRecognitionQueue: Queue,
     @InjectQueue('scraping') private scrapingQueue: Queue,
+    @InjectQueue('feeds') private feedQueue: Queue,
     @InjectQueue('notifications') private notificationQueue: Queue,
   ) {}
 
   /**
-   * Add price update job
+   * Add price update job. Resolves false when an update for the pair is already queued or running.
    */
-  async addPriceUpdateJob(data: PriceUpdateJobData): Promise<void> {
+  async addPriceUpdateJob(data: PriceUpdateJobData): Promise<boolean> {
     const priority = data.priority || 'medium';
     const delay = priority === 'high' ? 0 : priority === 'medium' ? 5000 : 30000;
+    const jobId = `price-update-${data.productId}-${data.retailerId}`;
+
+    // Bull ignores an add while a job with the same id exists, including finished ones it still keeps
+    const existing = await this.priceUpdateQueue.getJob(jobId);
+    if (existing) {
+      const state = await existing.getState();
+      if (state !== 'completed' && state !== 'failed') {
+        return false;
+      }
+      await existing.remove();
+    }
 
     await this.priceUpdateQueue.add('update-price', data, {
       priority: priority === 'high' ? 10 : priority === 'medium' ? 5 : 1,
       delay,
-      jobId: `price-update-${data.productId}-${data.retailerId}`,
+      jobId,
+    });
+    return true;
+  }
+
+  /**
+   * Re-queue a price update once the retailer's API budget has refilled.
+   * Keeps at most one pending deferral per product and retailer.
+   */
+  async deferPriceUpdateJob(data: PriceUpdateJobData, delayMs: number): Promise<void> {
+    // A deferred job that runs into an empty budget again re-defers itself into the second slot
+    const baseId = `price-update-${data.productId}-${data.retailerId}-deferred`;
+    const slots = await Promise.all([baseId, `${baseId}-retry`].map(async jobId => {
+      const job = await this.priceUpdateQueue.getJob(jobId);
+      return { jobId, job, state: job ? await job.getState() : null };
+    }));
+
+    if (slots.some(slot => slot.state === 'delayed' || slot.state === 'waiting')) {
+      return;
+    }
+
+    const slot = slots.find(candidate => candidate.state !== 'active');
+    if (!slot) {
+      return;
+    }
+
+    // Finished jobs keep their id until removed, which would make Bull ignore the add
+    if (slot.job) {
+      await slot.job.remove();
+    }
+
+    await this.priceUpdateQueue.add('update-price', data, {
+      priority: 1,
+      delay: delayMs,
+      jobId: slot.jobId,
+      removeOnComplete: true,
+      removeOnFail: true,
     });
   }
 
@@ -72,6 +126,16 @@ export class QueueService {
     });
   }
 
+  /**
+   * Add feed ingestion job
+   */
+  async addFeedIngestionJob(data: FeedIngestionJobData): Promise<void> {
+    await this.feedQueue.add('ingest-feed', data, {
+      priority: 3,
+      jobId: `feed-ingestion-${data.runId}`,
+    });
+  }
+
   /**
    * Add notification job
    */
@@ -87,10 +151,11 @@ export class QueueService {
    * Get queue statistics
    */
   async getQueueStats(): Promise<any> {
-    const [priceUpdateStats, imageRecognitionStats, scrapingStats, notificationStats] = await Promise.all([
+    const [priceUpdateStats, imageRecognitionStats, scrapingStats, feedStats, notificationStats] = await Promise.all([
       this.priceUpdateQueue.getJobCounts(),
       this.imageRecognitionQueue.getJobCounts(),
       this.scrapingQueue.getJobCounts(),
+      this.feedQueue.getJobCounts(),
       this.notificationQueue.getJobCounts(),
     ]);
 
@@ -98,6 +163,7 @@ export class QueueService {
       priceUpdates: priceUpdateStats,
       imageRecognition: imageRecognitionStats,
       scraping: scrapingStats,
+      feeds: feedStats,
       notifications: notificationStats,
       timestamp: new Date().toISOString(),
     };
@@ -111,6 +177,7 @@ export class QueueService {
       this.priceUpdateQueue.clean(24 * 60 * 60 * 1000, 'completed'), // 24 hours
       this.imageRecognitionQueue.clean(12 * 60 * 60 * 1000, 'completed'), // 12 hours
       this.scrapingQueue.clean(48 * 60 * 60 * 1000, 'completed'), // 48 hours
+      this.feedQueue.clean(7 * 24 * 60 * 60 * 1000, 'completed'), // 7 days
       this.notificationQueue.clean(6 * 60 * 60 * 1000, 'completed'), // 6 hours
     ]);
   }
@@ -146,6 +213,8 @@ export class QueueService {
         return this.imageRecognitionQueue;
       case 'scraping':
         return this.scrapingQueue;
+      case 'feeds':
+        return this.feedQueue;
       case 'notifications':
         return this.notificationQueue;
       default:
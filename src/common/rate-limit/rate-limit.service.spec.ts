@@ -0,0 +1,96 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { createClient } from 'redis';
+import { RateLimitService } from './rate-limit.service';
+
+jest.mock('redis', () => ({ createClient: jest.fn() }));
+
+describe('RateLimitService', () => {
+  let service: RateLimitService;
+
+  const mockClient = {
+    on: jest.fn(),
+    connect: jest.fn().mockResolvedValue(undefined),
+    eval: jest.fn(),
+    hGetAll: jest.fn(),
+    quit: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    (createClient as jest.Mock).mockReturnValue(mockClient);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RateLimitService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string, defaultValue?: any) => defaultValue) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<RateLimitService>(RateLimitService);
+    jest.useFakeTimers().setSystemTime(new Date('2024-03-10T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.clearAllMocks();
+  });
+
+  describe('consume', () => {
+    it('should take tokens through the token bucket script in one round trip', async () => {
+      mockClient.eval.mockResolvedValue([1, '58.5', 0]);
+
+      const result = await service.consume('retailer:retailer-123', 60, 1);
+
+      expect(result).toEqual({ allowed: true, remaining: 58, retryAfterMs: 0 });
+      const [script, options] = mockClient.eval.mock.calls[0];
+      expect(script).toContain(`redis.call('HMGET', KEYS[1], 'tokens', 'ts')`);
+      expect(script).toContain('tokens = math.min(capacity, tokens + ((now - ts) / 1000) * refill)');
+      expect(options).toEqual({
+        keys: ['rate_limit:retailer:retailer-123'],
+        arguments: ['60', '1', '1', String(Date.parse('2024-03-10T12:00:00Z'))],
+      });
+    });
+
+    it('should report when to retry once the bucket is empty', async () => {
+      mockClient.eval.mockResolvedValue([0, '0.25', 750]);
+
+      const result = await service.consume('retailer:retailer-123', 60, 1);
+
+      expect(result).toEqual({ allowed: false, remaining: 0, retryAfterMs: 750 });
+    });
+
+    it('should fail open when Redis is unreachable', async () => {
+      mockClient.connect.mockRejectedValueOnce(new Error('ECONNREFUSED'));
+
+      const result = await service.consume('retailer:retailer-123', 60, 1);
+
+      expect(result).toEqual({ allowed: true, remaining: 60, retryAfterMs: 0 });
+      expect(mockClient.eval).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getBudget', () => {
+    it('should add tokens refilled since the last call without consuming any', async () => {
+      mockClient.hGetAll.mockResolvedValue({
+        tokens: '10',
+        ts: String(Date.now() - 5000),
+        capacity: '60',
+        refill: '1',
+      });
+
+      const budget = await service.getBudget('retailer:retailer-123');
+
+      expect(budget).toMatchObject({ capacity: 60, remaining: 15, refillPerSecond: 1 });
+      expect(mockClient.eval).not.toHaveBeenCalled();
+    });
+
+    it('should return null for a bucket that was never used', async () => {
+      mockClient.hGetAll.mockResolvedValue({});
+
+      expect(await service.getBudget('retailer:retailer-123')).toBeNull();
+    });
+  });
+});
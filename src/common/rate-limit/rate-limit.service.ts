@@ -0,0 +1,140 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createClient } from 'redis';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number;
+}
+
+export interface RateLimitBudget {
+  capacity: number;
+  remaining: number;
+  refillPerSecond: number;
+  updatedAt: Date;
+}
+
+// Refill and take tokens in one round trip so API and worker processes share a single bucket
+const TOKEN_BUCKET_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local refill = tonumber(ARGV[2])
+local cost = tonumber(ARGV[3])
+local now = tonumber(ARGV[4])
+
+local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(bucket[1]) or capacity
+local ts = tonumber(bucket[2]) or now
+
+tokens = math.min(capacity, tokens + ((now - ts) / 1000) * refill)
+
+local allowed = 0
+local retryAfter = 0
+if tokens >= cost then
+  tokens = tokens - cost
+  allowed = 1
+else
+  retryAfter = math.ceil(((cost - tokens) / refill) * 1000)
+end
+
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', tostring(now), 'capacity', tostring(capacity), 'refill', tostring(refill))
+redis.call('PEXPIRE', KEYS[1], math.ceil((capacity / refill) * 1000) + 60000)
+
+return { allowed, tostring(tokens), retryAfter }
+`;
+
+@Injectable()
+export class RateLimitService implements OnModuleDestroy {
+  private readonly logger = new Logger(RateLimitService.name);
+  private client: ReturnType<typeof createClient> | null = null;
+  private connecting: Promise<ReturnType<typeof createClient>> | null = null;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * Take tokens from a bucket. Fails open when Redis is unreachable.
+   */
+  async consume(key: string, capacity: number, refillPerSecond: number, cost = 1): Promise<RateLimitResult> {
+    try {
+      const client = await this.getClient();
+      const [allowed, tokens, retryAfterMs] = await client.eval(TOKEN_BUCKET_SCRIPT, {
+        keys: [this.bucketKey(key)],
+        arguments: [String(capacity), String(refillPerSecond), String(cost), String(Date.now())],
+      }) as [number, string, number];
+
+      return {
+        allowed: allowed === 1,
+        remaining: Math.floor(parseFloat(tokens)),
+        retryAfterMs,
+      };
+    } catch (error) {
+      this.logger.error(`Rate limit check failed for ${key}, allowing request:`, error);
+      return { allowed: true, remaining: capacity, retryAfterMs: 0 };
+    }
+  }
+
+  /**
+   * Read the current budget without consuming it
+   */
+  async getBudget(key: string): Promise<RateLimitBudget | null> {
+    try {
+      const client = await this.getClient();
+      const bucket = await client.hGetAll(this.bucketKey(key));
+      if (!bucket || !bucket.capacity) {
+        return null;
+      }
+
+      const capacity = parseFloat(bucket.capacity);
+      const refillPerSecond = parseFloat(bucket.refill);
+      const elapsed = (Date.now() - parseFloat(bucket.ts)) / 1000;
+
+      return {
+        capacity,
+        remaining: Math.floor(Math.min(capacity, parseFloat(bucket.tokens) + elapsed * refillPerSecond)),
+        refillPerSecond,
+        updatedAt: new Date(parseFloat(bucket.ts)),
+      };
+    } catch (error) {
+      this.logger.error(`Failed to read rate limit budget for ${key}:`, error);
+      return null;
+    }
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    if (this.client) {
+      await this.client.quit();
+    }
+  }
+
+  private bucketKey(key: string): string {
+    return `rate_limit:${key}`;
+  }
+
+  private async getClient(): Promise<ReturnType<typeof createClient>> {
+    if (this.client) {
+      return this.client;
+    }
+
+    if (!this.connecting) {
+      const client = createClient({
+        socket: {
+          host: this.configService.get<string>('REDIS_HOST', 'localhost'),
+          port: this.configService.get<number>('REDIS_PORT', 6379),
+        },
+        password: this.configService.get<string>('REDIS_PASSWORD'),
+      });
+      client.on('error', error => this.logger.error('Redis rate limit client error:', error));
+
+      this.connecting = client.connect()
+        .then(() => {
+          this.client = client;
+          return client;
+        })
+        .finally(() => {
+          this.connecting = null;
+        });
+    }
+
+    return this.connecting;
+  }
+}
@@ -0,0 +1,102 @@
+export interface SandboxProductFixture {
+  // Matched case-insensitively against image URLs, product names and normalization requests
+  keywords: string[];
+  name: string;
+  brand: string;
+  category: string;
+  subcategory?: string;
+  model?: string;
+  attributes?: { [key: string]: any };
+  // Price every sandbox retailer quotes around, in the listing currency
+  basePrice: number;
+}
+
+export interface SandboxRetailerFixture {
+  // Multiplier on basePrice so some retailers are consistently cheaper than others
+  priceFactor?: number;
+  // Share of products this retailer reports out of stock
+  outOfStockRate?: number;
+  // Number of seller offers returned by adapters with the 'marketplace' capability
+  sellers?: number;
+}
+
+export interface SandboxFixtures {
+  products: SandboxProductFixture[];
+  retailers: { [adapterId: string]: SandboxRetailerFixture };
+}
+
+/**
+ * Built-in catalog used when SANDBOX_FIXTURES_PATH is not set
+ */
+export const DEFAULT_SANDBOX_FIXTURES: SandboxFixtures = {
+  products: [
+    {
+      keywords: ['iphone', 'apple-phone'],
+      name: 'iPhone 15 Pro 128GB',
+      brand: 'Apple',
+      category: 'Electronics',
+      subcategory: 'Smartphones',
+      model: 'A3102',
+      attributes: { color: 'Natural Titanium', size: '128GB' },
+      basePrice: 999,
+    },
+    {
+      keywords: ['galaxy', 'samsung'],
+      name: 'Galaxy S24 256GB',
+      brand: 'Samsung',
+      category: 'Electronics',
+      subcategory: 'Smartphones',
+      model: 'SM-S921B',
+      attributes: { color: 'Onyx Black', size: '256GB' },
+      basePrice: 859,
+    },
+    {
+      keywords: ['headphones', 'wh-1000xm5', 'sony'],
+      name: 'WH-1000XM5 Wireless Noise Cancelling Headphones',
+      brand: 'Sony',
+      category: 'Electronics',
+      subcategory: 'Headphones',
+      model: 'WH-1000XM5',
+      attributes: { color: 'Black' },
+      basePrice: 399,
+    },
+    {
+      keywords: ['sneaker', 'air-max', 'nike'],
+      name: 'Air Max 90',
+      brand: 'Nike',
+      category: 'Fashion',
+      subcategory: 'Sneakers',
+      model: 'CN8490-002',
+      attributes: { color: 'White', size: '42', gender: 'unisex', material: 'leather' },
+      basePrice: 139,
+    },
+    {
+      keywords: ['jeans', 'levis', '501'],
+      name: '501 Original Fit Jeans',
+      brand: "Levi's",
+      category: 'Fashion',
+      subcategory: 'Jeans',
+      model: '00501-0114',
+      attributes: { color: 'Dark Stonewash', size: '32x32', gender: 'men', material: 'denim' },
+      basePrice: 79,
+    },
+    {
+      keywords: ['coffee', 'espresso', 'nespresso'],
+      name: 'Vertuo Next Coffee Machine',
+      brand: 'Nespresso',
+      category: 'Home & Kitchen',
+      subcategory: 'Coffee Machines',
+      model: 'ENV120',
+      attributes: { color: 'Matte Black' },
+      basePrice: 169,
+    },
+  ],
+  retailers: {
+    amazon: { priceFactor: 0.97, outOfStockRate: 0.05, sellers: 3 },
+    walmart: { priceFactor: 0.95, outOfStockRate: 0.1 },
+    ebay: { priceFactor: 0.9, outOfStockRate: 0.05, sellers: 4 },
+    bestbuy: { priceFactor: 1, outOfStockRate: 0.15 },
+    zalando: { priceFactor: 1.05, outOfStockRate: 0.1 },
+    farfetch: { priceFactor: 1.2, outOfStockRate: 0.2 },
+  },
+};
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { SandboxService } from './sandbox.service';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [SandboxService],
+  exports: [SandboxService],
+})
+export class SandboxModule {}
@@ -0,0 +1,107 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { SandboxService, SandboxFailureError } from './sandbox.service';
+import { SandboxRetailerAdapter } from '../../modules/price-engine/services/sandbox-retailer.adapter';
+import { SandboxRecognitionService } from '../../modules/image-recognition/services/sandbox-recognition.service';
+import { SandboxLlmService } from '../../modules/ai-normalization/services/sandbox-llm.service';
+
+describe('SandboxService', () => {
+  let service: SandboxService;
+  let config: { [key: string]: string };
+
+  const mockProduct = {
+    id: 'product-123',
+    name: 'Air Max 90',
+    brand: 'Nike',
+    model: 'CN8490-002',
+    upc: null,
+    ean: null,
+    isbn: null,
+  };
+
+  const mockRetailer = {
+    id: 'retailer-123',
+    name: 'eBay',
+    domain: 'ebay.com',
+    currency: 'USD',
+  };
+
+  const createService = async (): Promise<SandboxService> => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SandboxService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string, defaultValue?: string) => (key in config ? config[key] : defaultValue)) },
+        },
+      ],
+    }).compile();
+
+    return module.get<SandboxService>(SandboxService);
+  };
+
+  beforeEach(async () => {
+    config = { SANDBOX_MODE: 'true' };
+    service = await createService();
+  });
+
+  it('should quote the same offers on every run', async () => {
+    const adapter = new SandboxRetailerAdapter({ adapterId: 'ebay', capabilities: ['search', 'marketplace'] } as any, service);
+
+    const first = await adapter.getProductOffers(mockProduct as any, mockRetailer as any);
+    const second = await adapter.getProductOffers(mockProduct as any, mockRetailer as any);
+
+    expect(first).toHaveLength(4);
+    expect(first.map(offer => offer.price)).toEqual(second.map(offer => offer.price));
+    expect(first.map(offer => offer.condition)).toEqual(['new', 'used', 'refurbished', 'open_box']);
+    expect(first[0].price).toBeGreaterThan(139 * 0.9 * 0.9);
+    expect(first[0].listing).toMatchObject({ title: 'Nike Air Max 90', modelNumber: 'CN8490-002' });
+  });
+
+  it('should recognize the fixture product named in the image URL', async () => {
+    const recognition = new SandboxRecognitionService('google_vision', service);
+    const llm = new SandboxLlmService('claude', service);
+
+    const recognized = await recognition.recognizeProduct('https://cdn.example.com/scans/red-nike-sneaker.jpg');
+    const normalized = await llm.normalizeProduct({ productName: recognized.productName, brand: recognized.brand });
+
+    expect(recognized).toMatchObject({ provider: 'google_vision', productName: 'Air Max 90', brand: 'Nike' });
+    expect(recognized.confidence).toBeGreaterThanOrEqual(0.85);
+    expect(normalized).toMatchObject({ normalizedName: 'Air Max 90', normalizedSubcategory: 'Sneakers', provider: 'claude' });
+  });
+
+  it('should fail every call to a provider listed as failing', async () => {
+    config = { SANDBOX_MODE: 'true', SANDBOX_FAILING_PROVIDERS: 'walmart, roboflow' };
+    service = await createService();
+    const adapter = new SandboxRetailerAdapter({ adapterId: 'walmart', capabilities: ['search'] } as any, service);
+    const recognition = new SandboxRecognitionService('roboflow', service);
+
+    await expect(adapter.getProductPrice(mockProduct as any, mockRetailer as any)).rejects.toBeInstanceOf(SandboxFailureError);
+    expect(await recognition.recognizeProduct('https://cdn.example.com/sneaker.jpg')).toBeNull();
+  });
+
+  it('should inject failures at the configured rate, the same calls each time', async () => {
+    config = { SANDBOX_MODE: 'true', SANDBOX_FAILURE_RATE: '0.5' };
+    service = await createService();
+    const keys = Array.from({ length: 100 }, (_, i) => `product-${i}`);
+
+    const run = () => Promise.all(keys.map(key =>
+      service.simulate('amazon', key, () => true).catch(() => false),
+    ));
+    const first = await run();
+
+    expect(await run()).toEqual(first);
+    expect(first.filter(ok => !ok).length).toBeGreaterThan(30);
+    expect(first.filter(ok => !ok).length).toBeLessThan(70);
+  });
+
+  it('should delay calls by the configured latency', async () => {
+    config = { SANDBOX_MODE: 'true', SANDBOX_LATENCY_MS: '50' };
+    service = await createService();
+
+    const startedAt = Date.now();
+    await service.simulate('openai', 'key', () => true);
+
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(45);
+  });
+});
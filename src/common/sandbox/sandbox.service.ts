@@ -0,0 +1,133 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import {
+  DEFAULT_SANDBOX_FIXTURES,
+  SandboxFixtures,
+  SandboxProductFixture,
+  SandboxRetailerFixture,
+} from './sandbox.fixtures';
+
+/**
+ * Thrown by a sandbox provider when failure injection picks the call to fail
+ */
+export class SandboxFailureError extends Error {
+  constructor(
+    readonly provider: string,
+    readonly key: string,
+  ) {
+    super(`Sandbox ${provider} failure injected for ${key}`);
+    this.name = 'SandboxFailureError';
+  }
+}
+
+@Injectable()
+export class SandboxService {
+  private readonly logger = new Logger(SandboxService.name);
+  private readonly enabled: boolean;
+  private readonly seed: string;
+  private readonly latencyMs: number;
+  private readonly latencyJitterMs: number;
+  private readonly failureRate: number;
+  private readonly failingProviders: string[];
+  private readonly fixtures: SandboxFixtures;
+
+  constructor(private readonly configService: ConfigService) {
+    this.enabled = this.configService.get<string>('SANDBOX_MODE', 'false') === 'true';
+    this.seed = this.configService.get<string>('SANDBOX_SEED', 'sandbox');
+    this.latencyMs = parseInt(this.configService.get<string>('SANDBOX_LATENCY_MS', '0'), 10);
+    this.latencyJitterMs = parseInt(this.configService.get<string>('SANDBOX_LATENCY_JITTER_MS', '0'), 10);
+    this.failureRate = parseFloat(this.configService.get<string>('SANDBOX_FAILURE_RATE', '0'));
+    this.failingProviders = this.configService.get<string>('SANDBOX_FAILING_PROVIDERS', '')
+      .split(',')
+      .map(provider => provider.trim())
+      .filter(Boolean);
+    this.fixtures = this.enabled ? this.loadFixtures() : DEFAULT_SANDBOX_FIXTURES;
+
+    if (this.enabled) {
+      this.logger.warn(
+        `Sandbox mode enabled: retailer, recognition and LLM providers serve fixtures ` +
+        `(${this.fixtures.products.length} products, seed "${this.seed}")`,
+      );
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Run a stand-in provider call with the configured latency and failure injection.
+   * Both are derived from the key, so the same call behaves the same way on every run.
+   */
+  async simulate<T>(provider: string, key: string, fn: () => T | Promise<T>): Promise<T> {
+    const delay = this.latencyMs + Math.floor(this.random(`latency:${provider}:${key}`) * this.latencyJitterMs);
+    if (delay > 0) {
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+
+    if (this.failingProviders.includes(provider) || this.random(`failure:${provider}:${key}`) < this.failureRate) {
+      throw new SandboxFailureError(provider, key);
+    }
+
+    return await fn();
+  }
+
+  /**
+   * Stable pseudo-random number in [0, 1) for a key
+   */
+  random(key: string): number {
+    const hash = crypto.createHash('sha256').update(`${this.seed}:${key}`).digest();
+    return hash.readUInt32BE(0) / 0x100000000;
+  }
+
+  /**
+   * First fixture product with a keyword in the text
+   */
+  findProduct(text: string): SandboxProductFixture | null {
+    const haystack = (text || '').toLowerCase();
+    return this.fixtures.products.find(product =>
+      product.keywords.some(keyword => haystack.includes(keyword.toLowerCase())),
+    ) || null;
+  }
+
+  /**
+   * Fixture product for the text, or a stable pick from the catalog when no keyword matches
+   */
+  pickProduct(text: string): SandboxProductFixture {
+    const match = this.findProduct(text);
+    if (match) {
+      return match;
+    }
+
+    const products = this.fixtures.products;
+    return products[Math.floor(this.random(`product:${text}`) * products.length)];
+  }
+
+  getRetailer(adapterId: string): SandboxRetailerFixture {
+    return this.fixtures.retailers[adapterId] || {};
+  }
+
+  private loadFixtures(): SandboxFixtures {
+    const path = this.configService.get<string>('SANDBOX_FIXTURES_PATH');
+    if (!path) {
+      return DEFAULT_SANDBOX_FIXTURES;
+    }
+
+    try {
+      const fixtures = JSON.parse(fs.readFileSync(path, 'utf8')) as Partial<SandboxFixtures>;
+      if (!Array.isArray(fixtures.products) || fixtures.products.length === 0) {
+        throw new Error('fixtures must list at least one product');
+      }
+
+      return {
+        products: fixtures.products,
+        retailers: fixtures.retailers || DEFAULT_SANDBOX_FIXTURES.retailers,
+      };
+    } catch (error) {
+      this.logger.error(`Failed to load sandbox fixtures from ${path}:`, error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+@Entity('affiliate_clicks')
+@Index(['retailerId', 'createdAt'])
+@Index(['productId'])
+@Index(['userId'])
+@Index(['createdAt'])
+export class AffiliateClick {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // Anonymous clicks have no user
+  @Column({ nullable: true })
+  userId: string;
+
+  @Column({ nullable: true })
+  scanId: string;
+
+  @Column()
+  productId: string;
+
+  @Column()
+  retailerId: string;
+
+  @Column({ nullable: true })
+  priceId: string;
+
+  // Offer price when the shopper clicked, not whatever the price row says later
+  @Column({ type: 'decimal', precision: 10, scale: 2 })
+  price: number;
+
+  @Column({ length: 3 })
+  currency: string;
+
+  @Column({ type: 'text' })
+  productUrl: string;
+
+  @Column({ type: 'text' })
+  redirectUrl: string;
+
+  // False when the retailer has no affiliate program configured and the shopper got the plain link
+  @Column({ default: false })
+  tagged: boolean;
+
+  // Commission rate in force at click time, 0-1
+  @Column({ type: 'float', nullable: true })
+  commissionRate: number;
+
+  @Column({ nullable: true })
+  network: string;
+
+  @Column({ type: 'text', nullable: true })
+  referrer: string;
+
+  @Column({ type: 'text', nullable: true })
+  userAgent: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,72 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+export type FeedFormat = 'google_xml' | 'google_tsv' | 'csv';
+
+export type FeedRunStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+@Entity('feed_runs')
+@Index(['retailerId', 'createdAt'])
+@Index(['status'])
+export class FeedRun {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  retailerId: string;
+
+  @Column({ default: 'queued' })
+  status: FeedRunStatus;
+
+  @Column()
+  source: 'upload' | 'poll';
+
+  // Feed URL for polled runs, original file name for uploads
+  @Column({ type: 'text', nullable: true })
+  location: string;
+
+  @Column({ nullable: true })
+  format: FeedFormat;
+
+  @Column({ type: 'int', default: 0 })
+  totalRows: number;
+
+  // Rows that updated an offer we already had
+  @Column({ type: 'int', default: 0 })
+  matchedRows: number;
+
+  // Rows that created the retailer's first offer for a product
+  @Column({ type: 'int', default: 0 })
+  newRows: number;
+
+  @Column({ type: 'int', default: 0 })
+  rejectedRows: number;
+
+  // Reason counts for every rejected row, with the first rows kept as samples
+  @Column({ type: 'jsonb', nullable: true })
+  rejections: {
+    reasons: { [reason: string]: number };
+    samples: { row: number; id?: string; reason: string }[];
+  };
+
+  @Column({ type: 'text', nullable: true })
+  error: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  startedAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  finishedAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,36 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+@Entity('fx_rates')
+@Index(['baseCurrency', 'quoteCurrency'], { unique: true })
+export class FxRate {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ length: 3 })
+  baseCurrency: string;
+
+  @Column({ length: 3 })
+  quoteCurrency: string;
+
+  @Column({ type: 'decimal', precision: 18, scale: 8 })
+  rate: number;
+
+  @Column({ default: 'manual' })
+  source: 'scheduled' | 'file' | 'manual';
+
+  @Column({ type: 'timestamp' })
+  asOf: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -1,6 +1,18 @@
-export { User } from './user.entity';
-export { Product } from './product.entity';
-export { Retailer } from './retailer.entity';
-export { Price } from './price.entity';
-export { Scan } from './scan.entity';
-export { PriceHistory } from './price-history.entity';
\ No newline at end of file
+import { User } from './user.entity';
+import { Product } from './product.entity';
+import { Retailer } from './retailer.entity';
+import { Price } from './price.entity';
+import { Scan } from './scan.entity';
+import { PriceHistory } from './price-history.entity';
+import { FxRate } from './fx-rate.entity';
+import { PriceHistoryRollup } from './price-history-rollup.entity';
+import { ScraperFixture } from './scraper-fixture.entity';
+import { AffiliateClick } from './affiliate-click.entity';
+import { FeedRun } from './feed-run.entity';
+import { PriceWatch } from './price-watch.entity';
+import { StockEvent } from './stock-event.entity';
+import { RestockSubscription } from './restock-subscription.entity';
+
+export { User, Product, Retailer, Price, Scan, PriceHistory, FxRate, PriceHistoryRollup, ScraperFixture, AffiliateClick, FeedRun, PriceWatch, StockEvent, RestockSubscription };
+
+export const entities = [User, Product, Retailer, Price, Scan, PriceHistory, FxRate, PriceHistoryRollup, ScraperFixture, AffiliateClick, FeedRun, PriceWatch, StockEvent, RestockSubscription];
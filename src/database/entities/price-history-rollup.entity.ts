@@ -0,0 +1,55 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+@Entity('price_history_rollups')
+@Index(['productId', 'retailerId', 'granularity', 'periodStart'], { unique: true })
+@Index(['granularity', 'periodStart'])
+export class PriceHistoryRollup {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  productId: string;
+
+  @Column()
+  retailerId: string;
+
+  @Column()
+  granularity: 'day' | 'week';
+
+  @Column({ type: 'timestamp' })
+  periodStart: Date;
+
+  @Column({ length: 3, default: 'USD' })
+  currency: string;
+
+  @Column({ type: 'decimal', precision: 10, scale: 2 })
+  open: number;
+
+  @Column({ type: 'decimal', precision: 10, scale: 2 })
+  high: number;
+
+  @Column({ type: 'decimal', precision: 10, scale: 2 })
+  low: number;
+
+  @Column({ type: 'decimal', precision: 10, scale: 2 })
+  close: number;
+
+  @Column({ type: 'int', default: 0 })
+  sampleCount: number;
+
+  @Column({ type: 'float', nullable: true })
+  inStockRatio: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -5,6 +5,7 @@ import {
   CreateDateColumn,
   Index,
 } from 'typeorm';
+import { OfferCondition } from './price.entity';
 
 @Entity('price_history')
 @Index(['productId', 'retailerId', 'createdAt'])
@@ -20,6 +21,15 @@ export class PriceHistory {
   @Column()
   retailerId: string;
 
+  @Column({ default: '' })
+  marketplace: string;
+
+  @Column({ default: '' })
+  sellerId: string;
+
+  @Column({ default: 'new' })
+  condition: OfferCondition;
+
   @Column({ type: 'decimal', precision: 10, scale: 2 })
   price: number;
 
@@ -48,7 +58,7 @@ export class PriceHistory {
 
   @Column({ type: 'jsonb', nullable: true })
   metadata: {
-    source: 'api' | 'scraper' | 'manual';
+    source: 'api' | 'scraper' | 'feed' | 'manual';
     confidence: number;
     dataQuality: 'high' | 'medium' | 'low';
   };
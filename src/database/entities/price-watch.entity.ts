@@ -0,0 +1,63 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+@Entity('price_watches')
+@Index(['productId', 'isActive'])
+@Index(['userId'])
+export class PriceWatch {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  userId: string;
+
+  @Column()
+  productId: string;
+
+  // Watches every retailer when empty
+  @Column({ nullable: true })
+  retailerId: string;
+
+  // Alert when an offer is at or below this price, in the watch currency
+  @Column({ type: 'decimal', precision: 10, scale: 2, nullable: true })
+  targetPrice: number;
+
+  // Alert when an offer is this many percent below baselinePrice
+  @Column({ type: 'float', nullable: true })
+  dropPercent: number;
+
+  @Column({ length: 3 })
+  currency: string;
+
+  // Lowest offer when the watch was created, or the first one seen after
+  @Column({ type: 'decimal', precision: 10, scale: 2, nullable: true })
+  baselinePrice: number;
+
+  @Column({ nullable: true })
+  expiresAt: Date;
+
+  @Column({ default: true })
+  isActive: boolean;
+
+  // A later alert needs an offer below this price
+  @Column({ type: 'decimal', precision: 10, scale: 2, nullable: true })
+  lastAlertedPrice: number;
+
+  @Column({ nullable: true })
+  lastAlertedAt: Date;
+
+  @Column({ default: 0 })
+  alertCount: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
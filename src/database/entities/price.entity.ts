@@ -11,11 +11,17 @@ import {
 import { Product } from './product.entity';
 import { Retailer } from './retailer.entity';
 
+export type OfferCondition = 'new' | 'used' | 'refurbished' | 'open_box';
+
+export const OFFER_CONDITIONS: OfferCondition[] = ['new', 'used', 'refurbished', 'open_box'];
+
 @Entity('prices')
-@Index(['productId', 'retailerId'], { unique: true })
+@Index(['productId', 'retailerId', 'marketplace', 'sellerId', 'condition'], { unique: true })
+@Index(['productId', 'retailerId'])
 @Index(['price'])
 @Index(['currency'])
 @Index(['updatedAt'])
+@Index(['matchStatus'])
 export class Price {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -26,6 +32,23 @@ export class Price {
   @Column()
   retailerId: string;
 
+  // Country of the regional storefront the offer came from; empty for the retailer's default storefront
+  @Column({ default: '' })
+  marketplace: string;
+
+  // Empty for the retailer's own offer; marketplace offers carry the seller's id
+  @Column({ default: '' })
+  sellerId: string;
+
+  @Column({ nullable: true })
+  sellerName: string;
+
+  @Column({ type: 'float', nullable: true })
+  sellerRating: number;
+
+  @Column({ default: 'new' })
+  condition: OfferCondition;
+
   @Column({ type: 'decimal', precision: 10, scale: 2 })
   price: number;
 
@@ -89,12 +112,18 @@ export class Price {
 
   @Column({ type: 'jsonb', nullable: true })
   metadata: {
-    source: 'api' | 'scraper' | 'manual';
+    source: 'api' | 'scraper' | 'feed' | 'manual';
     confidence: number;
     lastVerified: Date;
     dataQuality: 'high' | 'medium' | 'low';
   };
 
+  @Column({ type: 'float', nullable: true })
+  matchScore: number;
+
+  @Column({ nullable: true })
+  matchStatus: 'verified' | 'flagged' | 'rejected' | 'unverified';
+
   @ManyToOne(() => Product, product => product.prices, { onDelete: 'CASCADE' })
   @JoinColumn({ name: 'productId' })
   product: Product;
@@ -8,11 +8,27 @@ import {
   Index,
 } from 'typeorm';
 import { Price } from './price.entity';
+import { FeedFormat } from './feed-run.entity';
+
+/**
+ * A regional storefront of a retailer, e.g. amazon.ae for shoppers in the UAE
+ */
+export interface RetailerMarketplaceConfig {
+  // Adapter-specific marketplace id, e.g. 'www.amazon.ae' or 'EBAY_DE'
+  marketplaceId?: string;
+  // Storefront domain used for scraping
+  domain?: string;
+  // API host when the region has its own endpoint
+  endpoint?: string;
+  currency?: string;
+  language?: string;
+}
 
 @Entity('retailers')
 @Index(['name'])
 @Index(['domain'])
 @Index(['country'])
+@Index(['adapterId'])
 export class Retailer {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -32,6 +48,9 @@ export class Retailer {
   @Column({ nullable: true })
   currency: string;
 
+  @Column({ nullable: true })
+  adapterId: string;
+
   @Column({ type: 'jsonb', nullable: true })
   apiConfig: {
     hasApi: boolean;
@@ -51,6 +70,29 @@ export class Retailer {
       availability: string;
       image: string;
     };
+    // Browser scraping: element to wait for instead of the price selector, and resource types to block
+    waitForSelector?: string;
+    blockResources?: string[];
+    // Placeholders {query} {brand} {name} {model} {sku} {gtin} {domain}; product looks a page up by sku
+    urlTemplates?: {
+      search?: string;
+      gtin?: string;
+      product?: string;
+    };
+    // Where candidate product links sit on the search results page
+    searchResultSelectors?: {
+      item: string;
+      link: string;
+      title?: string;
+    };
+    // Apify actor run for this retailer; input strings may use {productUrl} and {domain}
+    apify?: {
+      actorId: string;
+      input?: { [key: string]: any };
+      // Dot paths into the dataset item, first non-empty path wins
+      outputMapping?: { [field: string]: string | string[] };
+      timeoutSecs?: number;
+    };
     lastScraped: Date;
     successRate: number;
     averageResponseTime: number;
@@ -80,6 +122,57 @@ export class Retailer {
     refundMethod: string;
   };
 
+  @Column({ type: 'jsonb', nullable: true })
+  promotionPolicy: {
+    // 'best' applies only the most valuable promotion; 'all' stacks them
+    stacking: 'best' | 'all';
+    maxDiscountPercentage?: number;
+  };
+
+  @Column({ type: 'jsonb', nullable: true })
+  crawlPolicy: {
+    // robots.txt-style path patterns; deny wins, and a non-empty allow list must match
+    allow?: string[];
+    deny?: string[];
+    minDelayMs?: number;
+    maxConcurrency?: number;
+    respectRobotsTxt?: boolean;
+  };
+
+  @Column({ type: 'jsonb', nullable: true })
+  affiliateConfig: {
+    // Query parameters added to outbound product links; values may use {clickId}
+    params?: { [name: string]: string };
+    // Network deep link wrapping the tagged product URL, e.g. 'https://network.example/deeplink?id=123&murl={url}'
+    deepLinkTemplate?: string;
+    // Share of the order value paid out, 0-1, used for commission estimates
+    commissionRate?: number;
+    network?: string;
+  };
+
+  @Column({ type: 'jsonb', nullable: true })
+  feedConfig: {
+    // Polled when set; feeds can also be uploaded by hand
+    url?: string;
+    // Detected from the file contents when absent
+    format?: FeedFormat;
+    pollIntervalMinutes?: number;
+    headers?: { [name: string]: string };
+    // Used for rows whose price carries no currency
+    currency?: string;
+    // CSV column holding each feed attribute, for feeds that don't use Google Merchant names
+    columns?: { [attribute: string]: string };
+    delimiter?: string;
+  };
+
+  @Column({ type: 'jsonb', nullable: true })
+  regions: {
+    // ISO 3166-1 alpha-2 countries the retailer delivers to; '*' for anywhere
+    shipsTo?: string[];
+    // Regional storefronts keyed by the country they serve
+    marketplaces?: { [country: string]: RetailerMarketplaceConfig };
+  };
+
   @Column({ default: true })
   isActive: boolean;
 
@@ -90,6 +183,10 @@ export class Retailer {
     errorCount: number;
     successCount: number;
     averageResponseTime: number;
+    circuits?: {
+      api?: 'closed' | 'open' | 'half_open';
+      scraper?: 'closed' | 'open' | 'half_open';
+    };
   };
 
   @OneToMany(() => Price, price => price.retailer)
@@ -112,6 +209,7 @@ export class Retailer {
 
   get healthStatus(): 'healthy' | 'degraded' | 'unhealthy' {
     if (!this.metadata) return 'unhealthy';
+    if (this.metadata.circuits?.api === 'open' && this.metadata.circuits?.scraper === 'open') return 'unhealthy';
     
     const errorRate = this.metadata.errorCount / (this.metadata.errorCount + this.metadata.successCount);
     
@@ -0,0 +1,49 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+@Entity('scraper_fixtures')
+@Index(['retailerId'])
+export class ScraperFixture {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  retailerId: string;
+
+  @Column()
+  url: string;
+
+  @Column({ type: 'text' })
+  html: string;
+
+  // Selectors in force when the page was captured, used when the retailer no longer exists
+  @Column({ type: 'jsonb', nullable: true })
+  selectors: {
+    productName: string;
+    price: string;
+    availability: string;
+    image: string;
+  };
+
+  // Extraction output accepted as correct for this page, per source and merged
+  @Column({ type: 'jsonb' })
+  expected: {
+    listing: { [field: string]: any } | null;
+    sources: { [source: string]: { [field: string]: any } };
+  };
+
+  @Column({ type: 'timestamp' })
+  capturedAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
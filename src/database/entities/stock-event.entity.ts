@@ -0,0 +1,73 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Product } from './product.entity';
+import { Retailer } from './retailer.entity';
+import { Price, OfferCondition } from './price.entity';
+
+export type StockStatus = Price['availability']['status'];
+
+// back_in_stock: out of stock to available; low_stock: in stock to limited; released: pre-order to available
+export type StockTransition = 'back_in_stock' | 'low_stock' | 'released';
+
+@Entity('stock_events')
+@Index(['productId', 'createdAt'])
+@Index(['transition', 'createdAt'])
+export class StockEvent {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  priceId: string;
+
+  @Column()
+  productId: string;
+
+  @Column()
+  retailerId: string;
+
+  @Column({ default: '' })
+  marketplace: string;
+
+  @Column({ default: '' })
+  sellerId: string;
+
+  @Column({ default: 'new' })
+  condition: OfferCondition;
+
+  @Column()
+  transition: StockTransition;
+
+  @Column()
+  fromStatus: StockStatus;
+
+  @Column()
+  toStatus: StockStatus;
+
+  @Column({ nullable: true })
+  stockQuantity: number;
+
+  // Offer price when the transition was seen
+  @Column({ type: 'decimal', precision: 10, scale: 2 })
+  price: number;
+
+  @Column({ length: 3 })
+  currency: string;
+
+  @ManyToOne(() => Product, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'productId' })
+  product: Product;
+
+  @ManyToOne(() => Retailer, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'retailerId' })
+  retailer: Retailer;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddRetailerAdapterId1700000000001 implements MigrationInterface {
+  name = 'AddRetailerAdapterId1700000000001';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "retailers" ADD "adapterId" character varying`);
+    await queryRunner.query(`CREATE INDEX "IDX_retailers_adapter_id" ON "retailers" ("adapterId")`);
+
+    // Bind existing retailers to the adapters they were previously matched to by name
+    await queryRunner.query(`
+      UPDATE "retailers"
+      SET "adapterId" = lower(regexp_replace("name", '[^a-zA-Z0-9]', '', 'g'))
+      WHERE lower(regexp_replace("name", '[^a-zA-Z0-9]', '', 'g'))
+        IN ('amazon', 'walmart', 'ebay', 'bestbuy', 'zalando', 'farfetch')
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_retailers_adapter_id"`);
+    await queryRunner.query(`ALTER TABLE "retailers" DROP COLUMN "adapterId"`);
+  }
+}
@@ -0,0 +1,26 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateFxRates1700000000002 implements MigrationInterface {
+  name = 'CreateFxRates1700000000002';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "fx_rates" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "baseCurrency" character varying(3) NOT NULL,
+        "quoteCurrency" character varying(3) NOT NULL,
+        "rate" numeric(18,8) NOT NULL,
+        "source" character varying NOT NULL DEFAULT 'manual',
+        "asOf" TIMESTAMP NOT NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "UQ_fx_rates_base_quote" UNIQUE ("baseCurrency", "quoteCurrency"),
+        CONSTRAINT "PK_fx_rates_id" PRIMARY KEY ("id")
+      )
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "fx_rates"`);
+  }
+}
@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddPriceMatchScore1700000000003 implements MigrationInterface {
+  name = 'AddPriceMatchScore1700000000003';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "prices" ADD "matchScore" double precision`);
+    await queryRunner.query(`ALTER TABLE "prices" ADD "matchStatus" character varying`);
+    await queryRunner.query(`CREATE INDEX "IDX_prices_match_status" ON "prices" ("matchStatus")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_prices_match_status"`);
+    await queryRunner.query(`ALTER TABLE "prices" DROP COLUMN "matchStatus"`);
+    await queryRunner.query(`ALTER TABLE "prices" DROP COLUMN "matchScore"`);
+  }
+}
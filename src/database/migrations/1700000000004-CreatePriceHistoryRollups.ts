@@ -0,0 +1,34 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreatePriceHistoryRollups1700000000004 implements MigrationInterface {
+  name = 'CreatePriceHistoryRollups1700000000004';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "price_history_rollups" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "productId" uuid NOT NULL,
+        "retailerId" uuid NOT NULL,
+        "granularity" character varying NOT NULL,
+        "periodStart" TIMESTAMP NOT NULL,
+        "currency" character varying(3) NOT NULL DEFAULT 'USD',
+        "open" numeric(10,2) NOT NULL,
+        "high" numeric(10,2) NOT NULL,
+        "low" numeric(10,2) NOT NULL,
+        "close" numeric(10,2) NOT NULL,
+        "sampleCount" integer NOT NULL DEFAULT 0,
+        "inStockRatio" double precision,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "UQ_price_history_rollups_period" UNIQUE ("productId", "retailerId", "granularity", "periodStart"),
+        CONSTRAINT "PK_price_history_rollups_id" PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(`CREATE INDEX "IDX_price_history_rollups_granularity_period" ON "price_history_rollups" ("granularity", "periodStart")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_price_history_rollups_granularity_period"`);
+    await queryRunner.query(`DROP TABLE "price_history_rollups"`);
+  }
+}
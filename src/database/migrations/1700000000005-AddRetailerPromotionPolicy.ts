@@ -0,0 +1,13 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddRetailerPromotionPolicy1700000000005 implements MigrationInterface {
+  name = 'AddRetailerPromotionPolicy1700000000005';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "retailers" ADD "promotionPolicy" jsonb`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "retailers" DROP COLUMN "promotionPolicy"`);
+  }
+}
@@ -0,0 +1,45 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddPriceOffers1700000000006 implements MigrationInterface {
+  name = 'AddPriceOffers1700000000006';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "prices" ADD "sellerId" character varying NOT NULL DEFAULT ''`);
+    await queryRunner.query(`ALTER TABLE "prices" ADD "sellerName" character varying`);
+    await queryRunner.query(`ALTER TABLE "prices" ADD "sellerRating" double precision`);
+    await queryRunner.query(`ALTER TABLE "prices" ADD "condition" character varying NOT NULL DEFAULT 'new'`);
+
+    // A retailer can now hold one offer per seller and condition
+    await queryRunner.query(`ALTER TABLE "prices" DROP CONSTRAINT "UQ_prices_product_retailer"`);
+    await queryRunner.query(`
+      ALTER TABLE "prices" ADD CONSTRAINT "UQ_prices_product_retailer_seller_condition"
+      UNIQUE ("productId", "retailerId", "sellerId", "condition")
+    `);
+    await queryRunner.query(`CREATE INDEX "IDX_prices_condition" ON "prices" ("condition")`);
+
+    await queryRunner.query(`ALTER TABLE "price_history" ADD "sellerId" character varying NOT NULL DEFAULT ''`);
+    await queryRunner.query(`ALTER TABLE "price_history" ADD "condition" character varying NOT NULL DEFAULT 'new'`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "price_history" DROP COLUMN "condition"`);
+    await queryRunner.query(`ALTER TABLE "price_history" DROP COLUMN "sellerId"`);
+
+    // Collapse back to the cheapest new offer per retailer before restoring the old key
+    await queryRunner.query(`
+      DELETE FROM "prices" p
+      USING "prices" other
+      WHERE p."productId" = other."productId"
+        AND p."retailerId" = other."retailerId"
+        AND p."id" <> other."id"
+        AND (p."condition" <> 'new', p."price", p."id") > (other."condition" <> 'new', other."price", other."id")
+    `);
+    await queryRunner.query(`DROP INDEX "IDX_prices_condition"`);
+    await queryRunner.query(`ALTER TABLE "prices" DROP CONSTRAINT "UQ_prices_product_retailer_seller_condition"`);
+    await queryRunner.query(`ALTER TABLE "prices" ADD CONSTRAINT "UQ_prices_product_retailer" UNIQUE ("productId", "retailerId")`);
+    await queryRunner.query(`ALTER TABLE "prices" DROP COLUMN "condition"`);
+    await queryRunner.query(`ALTER TABLE "prices" DROP COLUMN "sellerRating"`);
+    await queryRunner.query(`ALTER TABLE "prices" DROP COLUMN "sellerName"`);
+    await queryRunner.query(`ALTER TABLE "prices" DROP COLUMN "sellerId"`);
+  }
+}
@@ -0,0 +1,28 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateScraperFixtures1700000000007 implements MigrationInterface {
+  name = 'CreateScraperFixtures1700000000007';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "scraper_fixtures" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "retailerId" uuid NOT NULL,
+        "url" character varying NOT NULL,
+        "html" text NOT NULL,
+        "selectors" jsonb,
+        "expected" jsonb NOT NULL,
+        "capturedAt" TIMESTAMP NOT NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_scraper_fixtures_id" PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(`CREATE INDEX "IDX_scraper_fixtures_retailer" ON "scraper_fixtures" ("retailerId")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_scraper_fixtures_retailer"`);
+    await queryRunner.query(`DROP TABLE "scraper_fixtures"`);
+  }
+}
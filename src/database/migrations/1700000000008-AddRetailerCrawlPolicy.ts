@@ -0,0 +1,13 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddRetailerCrawlPolicy1700000000008 implements MigrationInterface {
+  name = 'AddRetailerCrawlPolicy1700000000008';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "retailers" ADD "crawlPolicy" jsonb`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "retailers" DROP COLUMN "crawlPolicy"`);
+  }
+}
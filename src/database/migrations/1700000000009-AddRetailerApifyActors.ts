@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+// Actor settings that used to be hard-coded in ApifyService, keyed by lowercased retailer name
+const LEGACY_APIFY_ACTORS = ['amazon', 'walmart', 'ebay', 'bestbuy', 'zalando', 'farfetch'];
+
+const LEGACY_APIFY_CONFIG = {
+  actorId: 'apify/web-scraper',
+  input: {
+    startUrls: [{ url: '{productUrl}' }],
+    maxRequestsPerCrawl: 1,
+    maxConcurrency: 1,
+  },
+  timeoutSecs: 300,
+};
+
+export class AddRetailerApifyActors1700000000009 implements MigrationInterface {
+  name = 'AddRetailerApifyActors1700000000009';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `UPDATE "retailers"
+       SET "scraperConfig" = jsonb_set(COALESCE("scraperConfig", '{}'::jsonb), '{apify}', $1::jsonb)
+       WHERE lower("name") = ANY($2) AND NOT COALESCE("scraperConfig" ? 'apify', false)`,
+      [JSON.stringify(LEGACY_APIFY_CONFIG), LEGACY_APIFY_ACTORS],
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `UPDATE "retailers" SET "scraperConfig" = "scraperConfig" - 'apify' WHERE "scraperConfig" ? 'apify'`,
+    );
+  }
+}
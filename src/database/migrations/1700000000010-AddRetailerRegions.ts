@@ -0,0 +1,34 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddRetailerRegions1700000000010 implements MigrationInterface {
+  name = 'AddRetailerRegions1700000000010';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "retailers" ADD "regions" jsonb`);
+
+    // A retailer can hold the same offer once per regional storefront
+    await queryRunner.query(`ALTER TABLE "prices" ADD "marketplace" character varying NOT NULL DEFAULT ''`);
+    await queryRunner.query(`ALTER TABLE "prices" DROP CONSTRAINT "UQ_prices_product_retailer_seller_condition"`);
+    await queryRunner.query(`
+      ALTER TABLE "prices" ADD CONSTRAINT "UQ_prices_product_retailer_marketplace_seller_condition"
+      UNIQUE ("productId", "retailerId", "marketplace", "sellerId", "condition")
+    `);
+
+    await queryRunner.query(`ALTER TABLE "price_history" ADD "marketplace" character varying NOT NULL DEFAULT ''`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "price_history" DROP COLUMN "marketplace"`);
+
+    // Regional offers have no place under the old key
+    await queryRunner.query(`DELETE FROM "prices" WHERE "marketplace" <> ''`);
+    await queryRunner.query(`ALTER TABLE "prices" DROP CONSTRAINT "UQ_prices_product_retailer_marketplace_seller_condition"`);
+    await queryRunner.query(`
+      ALTER TABLE "prices" ADD CONSTRAINT "UQ_prices_product_retailer_seller_condition"
+      UNIQUE ("productId", "retailerId", "sellerId", "condition")
+    `);
+    await queryRunner.query(`ALTER TABLE "prices" DROP COLUMN "marketplace"`);
+
+    await queryRunner.query(`ALTER TABLE "retailers" DROP COLUMN "regions"`);
+  }
+}
@@ -0,0 +1,45 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateAffiliateClicks1700000000011 implements MigrationInterface {
+  name = 'CreateAffiliateClicks1700000000011';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "retailers" ADD "affiliateConfig" jsonb`);
+
+    await queryRunner.query(`
+      CREATE TABLE "affiliate_clicks" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "userId" uuid,
+        "scanId" uuid,
+        "productId" uuid NOT NULL,
+        "retailerId" uuid NOT NULL,
+        "priceId" uuid,
+        "price" numeric(10,2) NOT NULL,
+        "currency" character varying(3) NOT NULL,
+        "productUrl" text NOT NULL,
+        "redirectUrl" text NOT NULL,
+        "tagged" boolean NOT NULL DEFAULT false,
+        "commissionRate" double precision,
+        "network" character varying,
+        "referrer" text,
+        "userAgent" text,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_affiliate_clicks_id" PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(`CREATE INDEX "IDX_affiliate_clicks_retailer_created" ON "affiliate_clicks" ("retailerId", "createdAt")`);
+    await queryRunner.query(`CREATE INDEX "IDX_affiliate_clicks_product" ON "affiliate_clicks" ("productId")`);
+    await queryRunner.query(`CREATE INDEX "IDX_affiliate_clicks_user" ON "affiliate_clicks" ("userId")`);
+    await queryRunner.query(`CREATE INDEX "IDX_affiliate_clicks_created" ON "affiliate_clicks" ("createdAt")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_affiliate_clicks_created"`);
+    await queryRunner.query(`DROP INDEX "IDX_affiliate_clicks_user"`);
+    await queryRunner.query(`DROP INDEX "IDX_affiliate_clicks_product"`);
+    await queryRunner.query(`DROP INDEX "IDX_affiliate_clicks_retailer_created"`);
+    await queryRunner.query(`DROP TABLE "affiliate_clicks"`);
+
+    await queryRunner.query(`ALTER TABLE "retailers" DROP COLUMN "affiliateConfig"`);
+  }
+}
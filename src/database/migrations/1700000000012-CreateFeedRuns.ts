@@ -0,0 +1,41 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateFeedRuns1700000000012 implements MigrationInterface {
+  name = 'CreateFeedRuns1700000000012';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "retailers" ADD "feedConfig" jsonb`);
+
+    await queryRunner.query(`
+      CREATE TABLE "feed_runs" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "retailerId" uuid NOT NULL,
+        "status" character varying NOT NULL DEFAULT 'queued',
+        "source" character varying NOT NULL,
+        "location" text,
+        "format" character varying,
+        "totalRows" integer NOT NULL DEFAULT 0,
+        "matchedRows" integer NOT NULL DEFAULT 0,
+        "newRows" integer NOT NULL DEFAULT 0,
+        "rejectedRows" integer NOT NULL DEFAULT 0,
+        "rejections" jsonb,
+        "error" text,
+        "startedAt" TIMESTAMP,
+        "finishedAt" TIMESTAMP,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_feed_runs_id" PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(`CREATE INDEX "IDX_feed_runs_retailer_created" ON "feed_runs" ("retailerId", "createdAt")`);
+    await queryRunner.query(`CREATE INDEX "IDX_feed_runs_status" ON "feed_runs" ("status")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_feed_runs_status"`);
+    await queryRunner.query(`DROP INDEX "IDX_feed_runs_retailer_created"`);
+    await queryRunner.query(`DROP TABLE "feed_runs"`);
+
+    await queryRunner.query(`ALTER TABLE "retailers" DROP COLUMN "feedConfig"`);
+  }
+}
@@ -0,0 +1,36 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreatePriceWatches1700000000013 implements MigrationInterface {
+  name = 'CreatePriceWatches1700000000013';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "price_watches" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "userId" uuid NOT NULL,
+        "productId" uuid NOT NULL,
+        "retailerId" uuid,
+        "targetPrice" numeric(10,2),
+        "dropPercent" double precision,
+        "currency" character varying(3) NOT NULL,
+        "baselinePrice" numeric(10,2),
+        "expiresAt" TIMESTAMP,
+        "isActive" boolean NOT NULL DEFAULT true,
+        "lastAlertedPrice" numeric(10,2),
+        "lastAlertedAt" TIMESTAMP,
+        "alertCount" integer NOT NULL DEFAULT 0,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_price_watches_id" PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(`CREATE INDEX "IDX_price_watches_product_active" ON "price_watches" ("productId", "isActive")`);
+    await queryRunner.query(`CREATE INDEX "IDX_price_watches_user" ON "price_watches" ("userId")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_price_watches_user"`);
+    await queryRunner.query(`DROP INDEX "IDX_price_watches_product_active"`);
+    await queryRunner.query(`DROP TABLE "price_watches"`);
+  }
+}
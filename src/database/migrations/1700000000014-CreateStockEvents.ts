@@ -0,0 +1,60 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateStockEvents1700000000014 implements MigrationInterface {
+  name = 'CreateStockEvents1700000000014';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "stock_events" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "priceId" uuid NOT NULL,
+        "productId" uuid NOT NULL,
+        "retailerId" uuid NOT NULL,
+        "marketplace" character varying NOT NULL DEFAULT '',
+        "sellerId" character varying NOT NULL DEFAULT '',
+        "condition" character varying NOT NULL DEFAULT 'new',
+        "transition" character varying NOT NULL,
+        "fromStatus" character varying NOT NULL,
+        "toStatus" character varying NOT NULL,
+        "stockQuantity" integer,
+        "price" numeric(10,2) NOT NULL,
+        "currency" character varying(3) NOT NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_stock_events_id" PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(`CREATE INDEX "IDX_stock_events_product_created" ON "stock_events" ("productId", "createdAt")`);
+    await queryRunner.query(`CREATE INDEX "IDX_stock_events_transition_created" ON "stock_events" ("transition", "createdAt")`);
+    await queryRunner.query(`ALTER TABLE "stock_events" ADD CONSTRAINT "FK_stock_events_product" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE CASCADE`);
+    await queryRunner.query(`ALTER TABLE "stock_events" ADD CONSTRAINT "FK_stock_events_retailer" FOREIGN KEY ("retailerId") REFERENCES "retailers"("id") ON DELETE CASCADE`);
+
+    await queryRunner.query(`
+      CREATE TABLE "restock_subscriptions" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "userId" uuid NOT NULL,
+        "productId" uuid NOT NULL,
+        "retailerId" uuid,
+        "isActive" boolean NOT NULL DEFAULT true,
+        "lastNotifiedAt" TIMESTAMP,
+        "notificationCount" integer NOT NULL DEFAULT 0,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_restock_subscriptions_id" PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(`CREATE INDEX "IDX_restock_subscriptions_product_active" ON "restock_subscriptions" ("productId", "isActive")`);
+    await queryRunner.query(`CREATE INDEX "IDX_restock_subscriptions_user" ON "restock_subscriptions" ("userId")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_restock_subscriptions_user"`);
+    await queryRunner.query(`DROP INDEX "IDX_restock_subscriptions_product_active"`);
+    await queryRunner.query(`DROP TABLE "restock_subscriptions"`);
+
+    await queryRunner.query(`ALTER TABLE "stock_events" DROP CONSTRAINT "FK_stock_events_retailer"`);
+    await queryRunner.query(`ALTER TABLE "stock_events" DROP CONSTRAINT "FK_stock_events_product"`);
+    await queryRunner.query(`DROP INDEX "IDX_stock_events_transition_created"`);
+    await queryRunner.query(`DROP INDEX "IDX_stock_events_product_created"`);
+    await queryRunner.query(`DROP TABLE "stock_events"`);
+  }
+}
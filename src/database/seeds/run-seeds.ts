@@ -11,6 +11,17 @@ async function runSeeds() {
     const retailerRepository = AppDataSource.getRepository(Retailer);
     const userRepository = AppDataSource.getRepository(User);
 
+    // Generic Apify actor used as the scraping fallback for the seeded retailers
+    const webScraperActor = {
+      actorId: 'apify/web-scraper',
+      input: {
+        startUrls: [{ url: '{productUrl}' }],
+        maxRequestsPerCrawl: 1,
+        maxConcurrency: 1,
+      },
+      timeoutSecs: 300,
+    };
+
     // Seed retailers
     const retailers = [
       {
@@ -19,6 +30,7 @@ async function runSeeds() {
         logo: 'https://logo.clearbit.com/amazon.com',
         country: 'US',
         currency: 'USD',
+        adapterId: 'amazon',
         apiConfig: {
           hasApi: true,
           apiEndpoint: 'https://webservices.amazon.com/paapi5/searchitems',
@@ -35,6 +47,7 @@ async function runSeeds() {
             availability: '#availability span',
             image: '#landingImage',
           },
+          apify: webScraperActor,
           lastScraped: new Date(),
           successRate: 0.95,
           averageResponseTime: 1200,
@@ -53,6 +66,15 @@ async function runSeeds() {
           returnCost: 0,
           refundMethod: 'original_payment',
         },
+        regions: {
+          shipsTo: ['*'],
+          marketplaces: {
+            AE: { marketplaceId: 'www.amazon.ae', domain: 'www.amazon.ae', endpoint: 'webservices.amazon.ae', currency: 'AED', language: 'ar_AE' },
+            SA: { marketplaceId: 'www.amazon.sa', domain: 'www.amazon.sa', endpoint: 'webservices.amazon.sa', currency: 'SAR', language: 'ar_AE' },
+            GB: { marketplaceId: 'www.amazon.co.uk', domain: 'www.amazon.co.uk', endpoint: 'webservices.amazon.co.uk', currency: 'GBP' },
+            DE: { marketplaceId: 'www.amazon.de', domain: 'www.amazon.de', endpoint: 'webservices.amazon.de', currency: 'EUR' },
+          },
+        },
         isActive: true,
         metadata: {
           lastPriceUpdate: new Date(),
@@ -68,6 +90,7 @@ async function runSeeds() {
         logo: 'https://logo.clearbit.com/walmart.com',
         country: 'US',
         currency: 'USD',
+        adapterId: 'walmart',
         apiConfig: {
           hasApi: true,
           apiEndpoint: 'https://developer.walmartlabs.com/docs',
@@ -84,6 +107,7 @@ async function runSeeds() {
             availability: '.prod-ProductOfferAvailability',
             image: '.prod-ProductImageHero-image',
           },
+          apify: webScraperActor,
           lastScraped: new Date(),
           successRate: 0.92,
           averageResponseTime: 1500,
@@ -102,6 +126,9 @@ async function runSeeds() {
           returnCost: 0,
           refundMethod: 'original_payment',
         },
+        regions: {
+          shipsTo: ['US'],
+        },
         isActive: true,
         metadata: {
           lastPriceUpdate: new Date(),
@@ -117,6 +144,7 @@ async function runSeeds() {
         logo: 'https://logo.clearbit.com/ebay.com',
         country: 'US',
         currency: 'USD',
+        adapterId: 'ebay',
         apiConfig: {
           hasApi: true,
           apiEndpoint: 'https://api.ebay.com/buy/browse/v1',
@@ -133,6 +161,7 @@ async function runSeeds() {
             availability: '.u-flL.condText',
             image: '#icImg',
           },
+          apify: webScraperActor,
           lastScraped: new Date(),
           successRate: 0.85,
           averageResponseTime: 2000,
@@ -151,6 +180,13 @@ async function runSeeds() {
           returnCost: 0,
           refundMethod: 'original_payment',
         },
+        regions: {
+          shipsTo: ['*'],
+          marketplaces: {
+            GB: { marketplaceId: 'EBAY_GB', domain: 'www.ebay.co.uk', currency: 'GBP' },
+            DE: { marketplaceId: 'EBAY_DE', domain: 'www.ebay.de', currency: 'EUR' },
+          },
+        },
         isActive: true,
         metadata: {
           lastPriceUpdate: new Date(),
@@ -166,6 +202,7 @@ async function runSeeds() {
         logo: 'https://logo.clearbit.com/bestbuy.com',
         country: 'US',
         currency: 'USD',
+        adapterId: 'bestbuy',
         apiConfig: {
           hasApi: true,
           apiEndpoint: 'https://api.bestbuy.com/v1',
@@ -182,6 +219,7 @@ async function runSeeds() {
             availability: '.fulfillment-add-to-cart-button',
             image: '.primary-image',
           },
+          apify: webScraperActor,
           lastScraped: new Date(),
           successRate: 0.90,
           averageResponseTime: 1800,
@@ -200,6 +238,9 @@ async function runSeeds() {
           returnCost: 0,
           refundMethod: 'original_payment',
         },
+        regions: {
+          shipsTo: ['US'],
+        },
         isActive: true,
         metadata: {
           lastPriceUpdate: new Date(),
@@ -215,6 +256,7 @@ async function runSeeds() {
         logo: 'https://logo.clearbit.com/zalando.com',
         country: 'DE',
         currency: 'EUR',
+        adapterId: 'zalando',
         apiConfig: {
           hasApi: true,
           apiEndpoint: 'https://api.zalando.com',
@@ -231,6 +273,7 @@ async function runSeeds() {
             availability: '.z-12-xl.z-12-l.z-12-m.z-12-s.z-12-xs',
             image: '.z-12-xl.z-12-l.z-12-m.z-12-s.z-12-xs',
           },
+          apify: webScraperActor,
           lastScraped: new Date(),
           successRate: 0.88,
           averageResponseTime: 1600,
@@ -249,6 +292,9 @@ async function runSeeds() {
           returnCost: 0,
           refundMethod: 'original_payment',
         },
+        regions: {
+          shipsTo: ['DE', 'AT', 'CH', 'FR', 'IT', 'ES', 'NL', 'BE', 'PL', 'SE', 'DK', 'FI', 'NO'],
+        },
         isActive: true,
         metadata: {
           lastPriceUpdate: new Date(),
@@ -262,8 +308,9 @@ async function runSeeds() {
         name: 'Farfetch',
         domain: 'farfetch.com',
         logo: 'https://logo.clearbit.com/farfetch.com',
-        country: 'UK',
+        country: 'GB',
         currency: 'GBP',
+        adapterId: 'farfetch',
         apiConfig: {
           hasApi: true,
           apiEndpoint: 'https://api.farfetch.com',
@@ -280,6 +327,7 @@ async function runSeeds() {
             availability: '[data-testid="add-to-bag"]',
             image: '[data-testid="product-image"]',
           },
+          apify: webScraperActor,
           lastScraped: new Date(),
           successRate: 0.85,
           averageResponseTime: 2200,
@@ -298,6 +346,9 @@ async function runSeeds() {
           returnCost: 0,
           refundMethod: 'original_payment',
         },
+        regions: {
+          shipsTo: ['*'],
+        },
         isActive: true,
         metadata: {
           lastPriceUpdate: new Date(),
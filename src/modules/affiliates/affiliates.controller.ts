@@ -0,0 +1,57 @@
+import { Controller, Get, Headers, Param, Query, Redirect, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { OptionalJwtAuthGuard } from '../auth/guards/optional-jwt-auth.guard';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import { User } from '../../database/entities/user.entity';
+import { OfferCondition } from '../../database/entities/price.entity';
+import { AffiliatesService } from './affiliates.service';
+
+@ApiTags('affiliates')
+@Controller('affiliates')
+export class AffiliatesController {
+  constructor(private readonly affiliatesService: AffiliatesService) {}
+
+  @Get('out/:productId/:retailerId')
+  @UseGuards(OptionalJwtAuthGuard)
+  @Redirect()
+  @ApiOperation({ summary: 'Record a click on an offer and redirect to the retailer with affiliate tracking' })
+  @ApiResponse({ status: 302, description: 'Redirects to the tagged product URL' })
+  @ApiResponse({ status: 404, description: 'Offer not found' })
+  async redirectToOffer(
+    @GetUser() user: User | null,
+    @Param('productId') productId: string,
+    @Param('retailerId') retailerId: string,
+    @Query('sellerId') sellerId?: string,
+    @Query('condition') condition?: OfferCondition,
+    @Query('marketplace') marketplace?: string,
+    @Query('scanId') scanId?: string,
+    @Headers('referer') referrer?: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    const redirect = await this.affiliatesService.redirect(
+      { productId, retailerId, sellerId, condition, marketplace },
+      { userId: user?.id, scanId, referrer, userAgent },
+    );
+    return { url: redirect.url, statusCode: 302 };
+  }
+
+  @Get('report')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get outbound clicks and estimated commission per retailer (admin only)' })
+  @ApiResponse({ status: 200, description: 'Affiliate report retrieved successfully' })
+  async getReport(
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('retailerId') retailerId?: string,
+    @Query('currency') currency?: string,
+  ) {
+    return await this.affiliatesService.getReport({
+      from: from ? new Date(from) : undefined,
+      to: to ? new Date(to) : undefined,
+      retailerId,
+      currency,
+    });
+  }
+}
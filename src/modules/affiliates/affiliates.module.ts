@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { AffiliatesService } from './affiliates.service';
+import { AffiliatesController } from './affiliates.controller';
+import { DatabaseModule } from '../../database/database.module';
+import { PriceEngineModule } from '../price-engine/price-engine.module';
+
+@Module({
+  imports: [
+    DatabaseModule,
+    PriceEngineModule,
+  ],
+  providers: [AffiliatesService],
+  controllers: [AffiliatesController],
+  exports: [AffiliatesService],
+})
+export class AffiliatesModule {}
@@ -0,0 +1,181 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { AffiliatesService } from './affiliates.service';
+import { AffiliateClick } from '../../database/entities/affiliate-click.entity';
+import { Price } from '../../database/entities/price.entity';
+import { Retailer } from '../../database/entities/retailer.entity';
+import { FxRatesService } from '../price-engine/services/fx-rates.service';
+
+describe('AffiliatesService', () => {
+  let service: AffiliatesService;
+
+  const mockRetailer = {
+    id: 'retailer-123',
+    name: 'Test Retailer',
+    adapterId: null,
+    affiliateConfig: {
+      params: { aff_id: 'dealco', sub_id: '{clickId}' },
+      commissionRate: 0.04,
+      network: 'impact',
+    },
+  };
+
+  const mockPrice = {
+    id: 'price-123',
+    productId: 'product-123',
+    retailerId: 'retailer-123',
+    price: 199.99,
+    currency: 'USD',
+    productUrl: 'https://shop.example.com/p/widget?color=red',
+    retailer: mockRetailer,
+  };
+
+  const mockClickRepository = {
+    create: jest.fn(click => click),
+    save: jest.fn(click => Promise.resolve(click)),
+    createQueryBuilder: jest.fn(),
+  };
+
+  const mockPriceRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockRetailerRepository = {
+    find: jest.fn(),
+  };
+
+  const queryBuilder = (rows: any[]) => ({
+    select: jest.fn().mockReturnThis(),
+    addSelect: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    groupBy: jest.fn().mockReturnThis(),
+    addGroupBy: jest.fn().mockReturnThis(),
+    getRawMany: jest.fn().mockResolvedValue(rows),
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AffiliatesService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: string) => (key === 'AMAZON_ASSOCIATE_TAG' ? 'dealco-20' : defaultValue)),
+          },
+        },
+        {
+          provide: getRepositoryToken(AffiliateClick),
+          useValue: mockClickRepository,
+        },
+        {
+          provide: getRepositoryToken(Price),
+          useValue: mockPriceRepository,
+        },
+        {
+          provide: getRepositoryToken(Retailer),
+          useValue: mockRetailerRepository,
+        },
+        {
+          provide: FxRatesService,
+          useValue: {
+            getRateTable: jest.fn().mockResolvedValue({ base: 'USD', rates: { USD: 1, EUR: 0.5 }, asOf: new Date() }),
+            convert: jest.fn((amount: number, from: string, to: string) => (from === 'EUR' ? amount * 2 : from === to ? amount : null)),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<AffiliatesService>(AffiliatesService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should tag the product URL and record the click with the price at click time', async () => {
+    mockPriceRepository.findOne.mockResolvedValue(mockPrice);
+
+    const redirect = await service.redirect(
+      { productId: 'product-123', retailerId: 'retailer-123' },
+      { userId: 'user-123', scanId: 'not-a-scan-id' },
+    );
+
+    const url = new URL(redirect.url);
+    expect(redirect.tagged).toBe(true);
+    expect(url.searchParams.get('color')).toBe('red');
+    expect(url.searchParams.get('aff_id')).toBe('dealco');
+    expect(url.searchParams.get('sub_id')).toBe(redirect.clickId);
+    expect(mockPriceRepository.findOne).toHaveBeenCalledWith(expect.objectContaining({
+      where: { productId: 'product-123', retailerId: 'retailer-123', sellerId: '', condition: 'new', marketplace: '' },
+    }));
+    expect(mockClickRepository.save).toHaveBeenCalledWith(expect.objectContaining({
+      id: redirect.clickId,
+      userId: 'user-123',
+      scanId: undefined,
+      price: 199.99,
+      currency: 'USD',
+      commissionRate: 0.04,
+      tagged: true,
+    }));
+  });
+
+  it('should still redirect when the click cannot be recorded', async () => {
+    mockPriceRepository.findOne.mockResolvedValue(mockPrice);
+    mockClickRepository.save.mockRejectedValueOnce(new Error('database down'));
+
+    const redirect = await service.redirect({ productId: 'product-123', retailerId: 'retailer-123' });
+
+    expect(redirect.url).toContain('aff_id=dealco');
+  });
+
+  it('should reject offers that do not exist', async () => {
+    mockPriceRepository.findOne.mockResolvedValue(null);
+
+    await expect(service.redirect({ productId: 'product-123', retailerId: 'retailer-123' })).rejects.toThrow('No offer');
+  });
+
+  it('should fall back to the associate tag for Amazon and wrap network deep links', () => {
+    const amazon = { adapterId: 'amazon', affiliateConfig: null };
+    const networked = { affiliateConfig: { deepLinkTemplate: 'https://network.example/go?murl={url}&sid={clickId}' } };
+    const untracked = { affiliateConfig: null };
+
+    expect(service.buildAffiliateUrl('https://www.amazon.com/dp/B000123', amazon as any, 'click-1'))
+      .toEqual({ url: 'https://www.amazon.com/dp/B000123?tag=dealco-20', tagged: true });
+    expect(service.buildAffiliateUrl('https://shop.example.com/p/1', networked as any, 'click-1').url)
+      .toBe('https://network.example/go?murl=https%3A%2F%2Fshop.example.com%2Fp%2F1&sid=click-1');
+    expect(service.buildAffiliateUrl('https://shop.example.com/p/1', untracked as any, 'click-1'))
+      .toEqual({ url: 'https://shop.example.com/p/1', tagged: false });
+  });
+
+  it('should aggregate clicks and estimated commission per retailer in one currency', async () => {
+    mockClickRepository.createQueryBuilder
+      .mockReturnValueOnce(queryBuilder([
+        { retailerId: 'retailer-123', currency: 'USD', clicks: '10', taggedClicks: '8', clickValue: '1000', commissionBase: '40' },
+        { retailerId: 'retailer-123', currency: 'EUR', clicks: '5', taggedClicks: '5', clickValue: '200', commissionBase: '8' },
+        { retailerId: 'retailer-456', currency: 'AED', clicks: '2', taggedClicks: '0', clickValue: '300', commissionBase: '0' },
+      ]))
+      .mockReturnValueOnce(queryBuilder([
+        { retailerId: 'retailer-123', uniqueUsers: '6' },
+        { retailerId: 'retailer-456', uniqueUsers: '1' },
+      ]));
+    mockRetailerRepository.find.mockResolvedValue([mockRetailer, { id: 'retailer-456', name: 'Gulf Store' }]);
+
+    const report = await service.getReport({ currency: 'usd' });
+
+    expect(report.currency).toBe('USD');
+    expect(report.retailers[0]).toEqual({
+      retailerId: 'retailer-123',
+      retailerName: 'Test Retailer',
+      clicks: 15,
+      taggedClicks: 13,
+      uniqueUsers: 6,
+      clickValue: 1400,
+      estimatedCommission: 2.8,
+    });
+    expect(report.retailers[1]).toMatchObject({ retailerName: 'Gulf Store', clicks: 2, clickValue: 0 });
+    expect(report.totals.clicks).toBe(17);
+    expect(report.unconvertedCurrencies).toEqual(['AED']);
+  });
+});
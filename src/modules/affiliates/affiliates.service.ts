@@ -0,0 +1,295 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In } from 'typeorm';
+import * as crypto from 'crypto';
+import { AffiliateClick } from '../../database/entities/affiliate-click.entity';
+import { Price, OfferCondition } from '../../database/entities/price.entity';
+import { Retailer } from '../../database/entities/retailer.entity';
+import { FxRatesService } from '../price-engine/services/fx-rates.service';
+
+export interface AffiliateOfferKey {
+  productId: string;
+  retailerId: string;
+  sellerId?: string;
+  condition?: OfferCondition;
+  marketplace?: string;
+}
+
+export interface AffiliateClickContext {
+  userId?: string;
+  scanId?: string;
+  referrer?: string;
+  userAgent?: string;
+}
+
+export interface AffiliateRedirect {
+  clickId: string;
+  url: string;
+  tagged: boolean;
+}
+
+export interface AffiliateReportOptions {
+  from?: Date;
+  to?: Date;
+  retailerId?: string;
+  currency?: string;
+}
+
+export interface AffiliateRetailerReport {
+  retailerId: string;
+  retailerName: string;
+  clicks: number;
+  taggedClicks: number;
+  uniqueUsers: number;
+  // Sum of offer prices at click time
+  clickValue: number;
+  estimatedCommission: number;
+}
+
+export interface AffiliateReport {
+  from: Date;
+  to: Date;
+  currency: string;
+  conversionRate: number;
+  retailers: AffiliateRetailerReport[];
+  totals: {
+    clicks: number;
+    taggedClicks: number;
+    clickValue: number;
+    estimatedCommission: number;
+  };
+  // Currencies without an FX rate, left out of the money columns
+  unconvertedCurrencies: string[];
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+@Injectable()
+export class AffiliatesService {
+  private readonly logger = new Logger(AffiliatesService.name);
+  private readonly amazonAssociateTag: string;
+  private readonly conversionRate: number;
+  private readonly reportDays: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @InjectRepository(AffiliateClick)
+    private readonly clickRepository: Repository<AffiliateClick>,
+    @InjectRepository(Price)
+    private readonly priceRepository: Repository<Price>,
+    @InjectRepository(Retailer)
+    private readonly retailerRepository: Repository<Retailer>,
+    private readonly fxRatesService: FxRatesService,
+  ) {
+    this.amazonAssociateTag = this.configService.get<string>('AMAZON_ASSOCIATE_TAG');
+    this.conversionRate = parseFloat(this.configService.get<string>('AFFILIATE_CONVERSION_RATE', '0.05'));
+    this.reportDays = parseInt(this.configService.get<string>('AFFILIATE_REPORT_DAYS', '30'), 10);
+  }
+
+  /**
+   * Record a click on an offer and return the affiliate-tagged URL to send the shopper to
+   */
+  async redirect(key: AffiliateOfferKey, context: AffiliateClickContext = {}): Promise<AffiliateRedirect> {
+    const price = await this.priceRepository.findOne({
+      where: {
+        productId: key.productId,
+        retailerId: key.retailerId,
+        sellerId: key.sellerId || '',
+        condition: key.condition || 'new',
+        marketplace: key.marketplace || '',
+      },
+      relations: ['retailer'],
+    });
+    if (!price || !price.productUrl) {
+      throw new NotFoundException(`No offer from retailer ${key.retailerId} for product ${key.productId}`);
+    }
+    if (!/^https?:\/\//i.test(price.productUrl)) {
+      throw new BadRequestException('Offer has no web link to redirect to');
+    }
+
+    const clickId = crypto.randomUUID();
+    const { url, tagged } = this.buildAffiliateUrl(price.productUrl, price.retailer, clickId);
+
+    try {
+      await this.clickRepository.save(
+        this.clickRepository.create({
+          id: clickId,
+          userId: context.userId,
+          scanId: context.scanId && UUID_PATTERN.test(context.scanId) ? context.scanId : undefined,
+          productId: price.productId,
+          retailerId: price.retailerId,
+          priceId: price.id,
+          price: price.price,
+          currency: price.currency,
+          productUrl: price.productUrl,
+          redirectUrl: url,
+          tagged,
+          commissionRate: price.retailer?.affiliateConfig?.commissionRate,
+          network: price.retailer?.affiliateConfig?.network,
+          referrer: context.referrer,
+          userAgent: context.userAgent,
+        }),
+      );
+    } catch (error) {
+      // Losing a click record is better than stranding the shopper
+      this.logger.error(`Failed to record affiliate click for ${price.retailer?.name || price.retailerId}:`, error);
+    }
+
+    return { clickId, url, tagged };
+  }
+
+  /**
+   * Add the retailer's affiliate parameters to a product URL, wrapping it in the network deep link when there is one.
+   * Amazon falls back to AMAZON_ASSOCIATE_TAG.
+   */
+  buildAffiliateUrl(productUrl: string, retailer: Retailer | null, clickId: string): { url: string; tagged: boolean } {
+    const config = retailer?.affiliateConfig || {};
+    const params = { ...config.params };
+    if (retailer?.adapterId === 'amazon' && !params.tag && this.amazonAssociateTag) {
+      params.tag = this.amazonAssociateTag;
+    }
+
+    if (Object.keys(params).length === 0 && !config.deepLinkTemplate) {
+      return { url: productUrl, tagged: false };
+    }
+
+    let url: URL;
+    try {
+      url = new URL(productUrl);
+    } catch (error) {
+      return { url: productUrl, tagged: false };
+    }
+
+    for (const [name, value] of Object.entries(params)) {
+      url.searchParams.set(name, value.replace(/\{clickId\}/g, clickId));
+    }
+
+    if (!config.deepLinkTemplate) {
+      return { url: url.toString(), tagged: true };
+    }
+
+    return {
+      url: config.deepLinkTemplate
+        .replace(/\{url\}/g, encodeURIComponent(url.toString()))
+        .replace(/\{clickId\}/g, encodeURIComponent(clickId)),
+      tagged: true,
+    };
+  }
+
+  /**
+   * Clicks and estimated commission per retailer. Commission is click value x commission rate at click time
+   * x the share of clicks expected to convert (AFFILIATE_CONVERSION_RATE).
+   */
+  async getReport(options: AffiliateReportOptions = {}): Promise<AffiliateReport> {
+    try {
+      const to = options.to || new Date();
+      const from = options.from || new Date(to.getTime() - this.reportDays * 24 * 60 * 60 * 1000);
+      const currency = (options.currency || this.configService.get<string>('DEFAULT_CURRENCY', 'USD')).toUpperCase();
+      if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+        throw new BadRequestException('from and to must be valid dates');
+      }
+
+      const query = this.clickRepository
+        .createQueryBuilder('click')
+        .select('click.retailerId', 'retailerId')
+        .addSelect('click.currency', 'currency')
+        .addSelect('COUNT(*)', 'clicks')
+        .addSelect('SUM(CASE WHEN click.tagged THEN 1 ELSE 0 END)', 'taggedClicks')
+        .addSelect('SUM(click.price)', 'clickValue')
+        .addSelect('SUM(CASE WHEN click.tagged THEN click.price * COALESCE(click.commissionRate, 0) ELSE 0 END)', 'commissionBase')
+        .where('click.createdAt >= :from', { from })
+        .andWhere('click.createdAt < :to', { to })
+        .groupBy('click.retailerId')
+        .addGroupBy('click.currency');
+      if (options.retailerId) {
+        query.andWhere('click.retailerId = :retailerId', { retailerId: options.retailerId });
+      }
+
+      // Distinct users cannot be summed across currencies, so they are counted separately
+      const usersQuery = this.clickRepository
+        .createQueryBuilder('click')
+        .select('click.retailerId', 'retailerId')
+        .addSelect('COUNT(DISTINCT click.userId)', 'uniqueUsers')
+        .where('click.createdAt >= :from', { from })
+        .andWhere('click.createdAt < :to', { to })
+        .groupBy('click.retailerId');
+      if (options.retailerId) {
+        usersQuery.andWhere('click.retailerId = :retailerId', { retailerId: options.retailerId });
+      }
+
+      const [rows, userRows, rateTable] = await Promise.all([
+        query.getRawMany(),
+        usersQuery.getRawMany(),
+        this.fxRatesService.getRateTable(),
+      ]);
+
+      const retailerIds = Array.from(new Set(rows.map(row => row.retailerId)));
+      const retailers = retailerIds.length > 0 ? await this.retailerRepository.find({ where: { id: In(retailerIds) } }) : [];
+      const names = new Map(retailers.map(retailer => [retailer.id, retailer.name]));
+      const uniqueUsers = new Map(userRows.map(row => [row.retailerId, parseInt(row.uniqueUsers, 10)]));
+
+      const byRetailer = new Map<string, AffiliateRetailerReport>();
+      const unconverted = new Set<string>();
+
+      for (const row of rows) {
+        let report = byRetailer.get(row.retailerId);
+        if (!report) {
+          report = {
+            retailerId: row.retailerId,
+            retailerName: names.get(row.retailerId) || row.retailerId,
+            clicks: 0,
+            taggedClicks: 0,
+            uniqueUsers: uniqueUsers.get(row.retailerId) || 0,
+            clickValue: 0,
+            estimatedCommission: 0,
+          };
+          byRetailer.set(row.retailerId, report);
+        }
+
+        report.clicks += parseInt(row.clicks, 10);
+        report.taggedClicks += parseInt(row.taggedClicks, 10);
+
+        const clickValue = this.fxRatesService.convert(parseFloat(row.clickValue) || 0, row.currency, currency, rateTable);
+        const commissionBase = this.fxRatesService.convert(parseFloat(row.commissionBase) || 0, row.currency, currency, rateTable);
+        if (clickValue === null || commissionBase === null) {
+          unconverted.add(row.currency);
+          continue;
+        }
+
+        report.clickValue += clickValue;
+        report.estimatedCommission += commissionBase * this.conversionRate;
+      }
+
+      const retailerReports = Array.from(byRetailer.values())
+        .map(report => ({
+          ...report,
+          clickValue: this.round(report.clickValue),
+          estimatedCommission: this.round(report.estimatedCommission),
+        }))
+        .sort((a, b) => b.estimatedCommission - a.estimatedCommission || b.clicks - a.clicks);
+
+      return {
+        from,
+        to,
+        currency,
+        conversionRate: this.conversionRate,
+        retailers: retailerReports,
+        totals: {
+          clicks: retailerReports.reduce((sum, report) => sum + report.clicks, 0),
+          taggedClicks: retailerReports.reduce((sum, report) => sum + report.taggedClicks, 0),
+          clickValue: this.round(retailerReports.reduce((sum, report) => sum + report.clickValue, 0)),
+          estimatedCommission: this.round(retailerReports.reduce((sum, report) => sum + report.estimatedCommission, 0)),
+        },
+        unconvertedCurrencies: Array.from(unconverted),
+      };
+    } catch (error) {
+      this.logger.error('Failed to build affiliate report:', error);
+      throw error;
+    }
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
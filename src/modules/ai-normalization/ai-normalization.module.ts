@@ -1,22 +1,38 @@
 import { Module } from '@nestjs/common';
-import { ConfigModule } from '@nestjs/config';
+import { ConfigModule, ConfigService } from '@nestjs/config';
 import { AiNormalizationService } from './ai-normalization.service';
 import { AiNormalizationController } from './ai-normalization.controller';
 import { ClaudeService } from './services/claude.service';
 import { OpenAIService } from './services/openai.service';
+import { SandboxLlmService } from './services/sandbox-llm.service';
 import { DatabaseModule } from '../../database/database.module';
 import { CacheModule } from '../../common/cache/cache.module';
+import { SandboxModule } from '../../common/sandbox/sandbox.module';
+import { SandboxService } from '../../common/sandbox/sandbox.service';
 
 @Module({
   imports: [
     ConfigModule,
     DatabaseModule,
     CacheModule,
+    SandboxModule,
   ],
   providers: [
     AiNormalizationService,
-    ClaudeService,
-    OpenAIService,
+    {
+      provide: ClaudeService,
+      useFactory: (configService: ConfigService, sandboxService: SandboxService) => sandboxService.isEnabled()
+        ? new SandboxLlmService('claude', sandboxService)
+        : new ClaudeService(configService),
+      inject: [ConfigService, SandboxService],
+    },
+    {
+      provide: OpenAIService,
+      useFactory: (configService: ConfigService, sandboxService: SandboxService) => sandboxService.isEnabled()
+        ? new SandboxLlmService('openai', sandboxService)
+        : new OpenAIService(configService),
+      inject: [ConfigService, SandboxService],
+    },
   ],
   controllers: [AiNormalizationController],
   exports: [AiNormalizationService],
@@ -0,0 +1,94 @@
+import { Logger } from '@nestjs/common';
+import { NormalizationRequest, NormalizationResult, DeduplicationRequest, DeduplicationResult } from '../ai-normalization.service';
+import { SandboxService } from '../../../common/sandbox/sandbox.service';
+
+/**
+ * Offline stand-in for the Claude and OpenAI providers. Normalizes to the matching fixture
+ * product and groups products whose brand and name are identical once normalized.
+ */
+export class SandboxLlmService {
+  private readonly logger: Logger;
+
+  constructor(
+    private readonly provider: 'claude' | 'openai',
+    private readonly sandboxService: SandboxService,
+  ) {
+    this.logger = new Logger(`SandboxLlmService:${provider}`);
+  }
+
+  async normalizeProduct(request: NormalizationRequest): Promise<NormalizationResult> {
+    const text = `${request.brand || ''} ${request.productName}`;
+
+    try {
+      return await this.sandboxService.simulate(this.provider, `normalize:${text}`, () => {
+        const fixture = this.sandboxService.findProduct(text);
+
+        return {
+          normalizedName: fixture ? fixture.name : this.titleCase(request.productName),
+          normalizedBrand: fixture ? fixture.brand : this.titleCase(request.brand || 'Unknown'),
+          normalizedCategory: fixture ? fixture.category : this.titleCase(request.category || 'Unknown'),
+          normalizedSubcategory: fixture?.subcategory,
+          extractedAttributes: { ...request.attributes, ...fixture?.attributes },
+          confidence: fixture ? 0.95 : 0.6,
+          provider: this.provider,
+          processingTime: 0,
+          cacheHit: false,
+        };
+      });
+    } catch (error) {
+      this.logger.error('Sandbox normalization failed:', error);
+      throw error;
+    }
+  }
+
+  async deduplicateProducts(request: DeduplicationRequest): Promise<DeduplicationResult> {
+    const key = request.products.map(product => product.id).join(',');
+
+    try {
+      return await this.sandboxService.simulate(this.provider, `deduplicate:${key}`, () => {
+        const groups = new Map<string, string[]>();
+        for (const product of request.products) {
+          const groupKey = this.normalizeKey(`${product.brand || ''} ${product.name}`);
+          groups.set(groupKey, [...(groups.get(groupKey) || []), product.id]);
+        }
+
+        const duplicateGroups = Array.from(groups.values()).filter(ids => ids.length > 1);
+
+        return {
+          groups: duplicateGroups.map(ids => ({
+            products: ids,
+            representativeProduct: ids[0],
+            confidence: 0.9,
+            reason: 'Same brand and name after normalization',
+          })),
+          duplicates: duplicateGroups.flatMap(ids => ids.slice(1).map(id => ({
+            product1: ids[0],
+            product2: id,
+            confidence: 0.9,
+            reason: 'Same brand and name after normalization',
+          }))),
+          processingTime: 0,
+        };
+      });
+    } catch (error) {
+      this.logger.error('Sandbox deduplication failed:', error);
+      throw error;
+    }
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async getHealthStatus(): Promise<{ status: string; lastCheck: Date }> {
+    return { status: 'healthy', lastCheck: new Date() };
+  }
+
+  private normalizeKey(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+  }
+
+  private titleCase(text: string): string {
+    return text.trim().replace(/\s+/g, ' ').replace(/\b[a-z]/g, letter => letter.toUpperCase());
+  }
+}
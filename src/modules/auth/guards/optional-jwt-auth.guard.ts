@@ -0,0 +1,12 @@
+import { Injectable } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+
+/**
+ * Lets anonymous requests through while still attaching the user when a valid token is sent
+ */
+@Injectable()
+export class OptionalJwtAuthGuard extends AuthGuard('jwt') {
+  handleRequest<TUser = any>(error: any, user: any): TUser {
+    return user || null;
+  }
+}
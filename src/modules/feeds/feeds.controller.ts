@@ -0,0 +1,69 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiConsumes } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { FeedFormat } from '../../database/entities/feed-run.entity';
+import { FeedsService } from './feeds.service';
+
+@ApiTags('feeds')
+@Controller('feeds')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class FeedsController {
+  constructor(private readonly feedsService: FeedsService) {}
+
+  @Post('retailers/:retailerId/upload')
+  @UseInterceptors(FileInterceptor('feed'))
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({ summary: 'Upload a Google Merchant XML/TSV or CSV feed for a retailer and queue its ingestion (admin only)' })
+  @ApiResponse({ status: 201, description: 'Feed run queued successfully' })
+  @ApiResponse({ status: 413, description: 'Feed file is larger than FEED_MAX_BYTES' })
+  async uploadFeed(
+    @Param('retailerId') retailerId: string,
+    @Body() body: { format?: FeedFormat },
+    @UploadedFile() feed?: Express.Multer.File,
+  ) {
+    if (!feed) {
+      throw new BadRequestException('Upload the feed file in the "feed" field');
+    }
+
+    return await this.feedsService.uploadFeed(retailerId, {
+      content: feed.buffer,
+      fileName: feed.originalname,
+      format: body.format,
+    });
+  }
+
+  @Post('retailers/:retailerId/poll')
+  @ApiOperation({ summary: 'Queue a download and ingestion of the retailer\'s configured feed URL (admin only)' })
+  @ApiResponse({ status: 201, description: 'Feed run queued successfully' })
+  async pollFeed(@Param('retailerId') retailerId: string) {
+    return await this.feedsService.pollFeed(retailerId);
+  }
+
+  @Get('runs')
+  @ApiOperation({ summary: 'List feed runs with their matched, new and rejected row counts (admin only)' })
+  @ApiResponse({ status: 200, description: 'Feed runs retrieved successfully' })
+  async getRuns(@Query('retailerId') retailerId?: string, @Query('limit') limit?: number) {
+    return await this.feedsService.getRuns(retailerId, limit ? Number(limit) : undefined);
+  }
+
+  @Get('runs/:id')
+  @ApiOperation({ summary: 'Get a feed run report (admin only)' })
+  @ApiResponse({ status: 200, description: 'Feed run retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Feed run not found' })
+  async getRun(@Param('id') id: string) {
+    return await this.feedsService.getRun(id);
+  }
+}
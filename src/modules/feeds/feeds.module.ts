@@ -0,0 +1,31 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { MulterModule } from '@nestjs/platform-express';
+import { FeedsService } from './feeds.service';
+import { FeedsController } from './feeds.controller';
+import { FeedsProcessor } from './feeds.processor';
+import { FeedParserService } from './services/feed-parser.service';
+import { DatabaseModule } from '../../database/database.module';
+import { QueueModule } from '../../common/queue/queue.module';
+import { PriceEngineModule } from '../price-engine/price-engine.module';
+
+@Module({
+  imports: [
+    ConfigModule,
+    DatabaseModule,
+    QueueModule,
+    PriceEngineModule,
+    // Uploaded feeds are buffered in memory before they are written out for the worker
+    MulterModule.registerAsync({
+      imports: [ConfigModule],
+      useFactory: (configService: ConfigService) => ({
+        limits: { fileSize: parseInt(configService.get<string>('FEED_MAX_BYTES', '104857600'), 10) },
+      }),
+      inject: [ConfigService],
+    }),
+  ],
+  providers: [FeedsService, FeedParserService, FeedsProcessor],
+  controllers: [FeedsController],
+  exports: [FeedsService],
+})
+export class FeedsModule {}
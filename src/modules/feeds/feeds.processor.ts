@@ -0,0 +1,23 @@
+import { Process, Processor } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import { FeedIngestionJobData } from '../../common/queue/queue.service';
+import { FeedsService } from './feeds.service';
+
+@Processor('feeds')
+export class FeedsProcessor {
+  private readonly logger = new Logger(FeedsProcessor.name);
+
+  constructor(private readonly feedsService: FeedsService) {}
+
+  @Process('ingest-feed')
+  async handleFeedIngestion(job: Job<FeedIngestionJobData>): Promise<void> {
+    const { runId, filePath } = job.data;
+
+    this.logger.log(`Processing feed run ${runId}`);
+
+    // Failures are recorded on the run rather than retried
+    const run = await this.feedsService.processRun(runId, filePath);
+    this.logger.log(`Feed run ${runId} ${run.status}`);
+  }
+}
@@ -0,0 +1,197 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { FeedsService } from './feeds.service';
+import { FeedParserService } from './services/feed-parser.service';
+import { FeedRun } from '../../database/entities/feed-run.entity';
+import { Retailer } from '../../database/entities/retailer.entity';
+import { Product } from '../../database/entities/product.entity';
+import { PriceEngineService } from '../price-engine/price-engine.service';
+import { QueueService } from '../../common/queue/queue.service';
+
+describe('FeedsService', () => {
+  let service: FeedsService;
+
+  const mockRetailer = {
+    id: 'retailer-123',
+    name: 'Partner Shop',
+    currency: 'EUR',
+    feedConfig: { url: 'https://shop.example.com/feed.xml' },
+  };
+
+  const widget = { id: 'product-1', name: 'Widget 3000', brand: 'Acme', model: 'AW-3000', upc: '012345678905', ean: null, isbn: null };
+  const gadget = { id: 'product-2', name: 'Gadget', brand: 'Acme', model: 'G-1', upc: null, ean: null, isbn: null };
+
+  const feed = [
+    'id\ttitle\tlink\tprice\tsale_price\tavailability\tgtin\tmpn\tbrand\tcondition',
+    'W1\tAcme Widget 3000\thttps://shop.example.com/w1\t199.99 EUR\t149.99 EUR\tin stock\t00012345678905\t\t\tnew',
+    'G1\tAcme Gadget\thttps://shop.example.com/g1\t29.99 EUR\t\tout of stock\t\tG-1\tAcme\trefurbished',
+    'G2\tOther Gadget\thttps://shop.example.com/g2\t19.99 EUR\t\tin stock\t\tG-1\tOtherBrand\tnew',
+    'X1\tUnknown\thttps://shop.example.com/x1\t9.99 EUR\t\tin stock\t00099999999999\t\t\tnew',
+    'N1\tNo price\thttps://shop.example.com/n1\t\t\tin stock\t00012345678905\t\t\tnew',
+  ].join('\n');
+
+  const mockQueryBuilder = {
+    where: jest.fn().mockReturnThis(),
+    orWhere: jest.fn().mockReturnThis(),
+    getMany: jest.fn(),
+  };
+
+  const mockFeedRunRepository = {
+    create: jest.fn(run => run),
+    save: jest.fn(run => Promise.resolve({ id: 'run-123', createdAt: new Date(), ...run })),
+    find: jest.fn(),
+    findOne: jest.fn(),
+  };
+
+  const mockRetailerRepository = {
+    find: jest.fn(),
+    findOne: jest.fn().mockResolvedValue(mockRetailer),
+  };
+
+  const mockPriceEngineService = {
+    savePriceToDatabase: jest.fn(),
+  };
+
+  const mockQueueService = {
+    addFeedIngestionJob: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FeedsService,
+        FeedParserService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string, defaultValue?: string) => defaultValue) },
+        },
+        {
+          provide: getRepositoryToken(FeedRun),
+          useValue: mockFeedRunRepository,
+        },
+        {
+          provide: getRepositoryToken(Retailer),
+          useValue: mockRetailerRepository,
+        },
+        {
+          provide: getRepositoryToken(Product),
+          useValue: { createQueryBuilder: jest.fn().mockReturnValue(mockQueryBuilder) },
+        },
+        {
+          provide: PriceEngineService,
+          useValue: mockPriceEngineService,
+        },
+        {
+          provide: QueueService,
+          useValue: mockQueueService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<FeedsService>(FeedsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should match rows by GTIN or MPN and brand, upsert prices and report rejections', async () => {
+    mockQueryBuilder.getMany
+      .mockResolvedValueOnce([widget])
+      .mockResolvedValueOnce([gadget]);
+    mockPriceEngineService.savePriceToDatabase
+      .mockResolvedValueOnce(false)
+      .mockResolvedValueOnce(true);
+
+    const result = await service.ingest(mockRetailer as any, feed);
+
+    expect(result).toMatchObject({ format: 'google_tsv', totalRows: 5, matchedRows: 1, newRows: 1, rejectedRows: 3 });
+    expect(result.rejections.reasons).toEqual({ brand_mismatch: 1, no_matching_product: 1, missing_price: 1 });
+    expect(result.rejections.samples[0]).toEqual({ row: 3, id: 'G2', reason: 'brand_mismatch' });
+
+    const [widgetOffer] = mockPriceEngineService.savePriceToDatabase.mock.calls[0];
+    expect(widgetOffer).toMatchObject({
+      productId: 'product-1',
+      retailerId: 'retailer-123',
+      price: 149.99,
+      originalPrice: 199.99,
+      currency: 'EUR',
+      inStock: true,
+      metadata: { source: 'feed' },
+    });
+
+    const [gadgetOffer] = mockPriceEngineService.savePriceToDatabase.mock.calls[1];
+    expect(gadgetOffer).toMatchObject({ productId: 'product-2', condition: 'refurbished', inStock: false });
+  });
+
+  it('should parse European amounts and fall back to the retailer currency', async () => {
+    const csv = 'sku,name,url,price,ean\nW1,Widget,https://shop.example.com/w1,"1.299,50",0012345678905';
+    mockQueryBuilder.getMany.mockResolvedValueOnce([widget]);
+    mockPriceEngineService.savePriceToDatabase.mockResolvedValue(true);
+
+    const result = await service.ingest(mockRetailer as any, csv);
+
+    expect(result).toMatchObject({ format: 'csv', newRows: 1 });
+    expect(mockPriceEngineService.savePriceToDatabase).toHaveBeenCalledWith(
+      expect.objectContaining({ price: 1299.5, currency: 'EUR' }),
+    );
+  });
+
+  it('should download polled feeds and record a failed run', async () => {
+    mockFeedRunRepository.findOne.mockResolvedValue({ id: 'run-123', retailerId: 'retailer-123', source: 'poll', status: 'queued' });
+    global.fetch = jest.fn().mockResolvedValue({ ok: false, status: 503, statusText: 'Service Unavailable' }) as any;
+
+    const run = await service.processRun('run-123');
+
+    expect(global.fetch).toHaveBeenCalledWith('https://shop.example.com/feed.xml', expect.any(Object));
+    expect(run.status).toBe('failed');
+    expect(run.error).toContain('503');
+    expect(run.finishedAt).toBeInstanceOf(Date);
+  });
+
+  it('should refuse a download that declares more than the size limit', async () => {
+    mockFeedRunRepository.findOne.mockResolvedValue({ id: 'run-123', retailerId: 'retailer-123', source: 'poll', status: 'queued' });
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      headers: new Headers({ 'content-length': '209715200' }),
+      body: { getReader: jest.fn() },
+    }) as any;
+
+    const run = await service.processRun('run-123');
+
+    expect(run.status).toBe('failed');
+    expect(run.error).toBe('Feed is 209715200 bytes, over the 104857600 byte limit');
+  });
+
+  it('should stop reading a download once it passes the size limit', async () => {
+    mockFeedRunRepository.findOne.mockResolvedValue({ id: 'run-123', retailerId: 'retailer-123', source: 'poll', status: 'queued' });
+    const chunk = new Uint8Array(60 * 1024 * 1024);
+    const read = jest.fn().mockResolvedValue({ done: false, value: chunk });
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      headers: new Headers(),
+      body: { getReader: () => ({ read }) },
+    }) as any;
+
+    const run = await service.processRun('run-123');
+
+    expect(read).toHaveBeenCalledTimes(2);
+    expect(run.status).toBe('failed');
+    expect(run.error).toContain('exceeded the 104857600 byte limit');
+  });
+
+  it('should queue polls only for feeds that are due', async () => {
+    const due = { ...mockRetailer, id: 'retailer-due' };
+    const running = { ...mockRetailer, id: 'retailer-running' };
+    mockRetailerRepository.find.mockResolvedValue([due, running, { ...mockRetailer, id: 'no-feed', feedConfig: null }]);
+    mockFeedRunRepository.findOne
+      .mockResolvedValueOnce({ status: 'completed', createdAt: new Date(Date.now() - 2 * 86400000) })
+      .mockResolvedValueOnce({ status: 'running', createdAt: new Date(Date.now() - 2 * 86400000) });
+
+    const queued = await service.pollDueFeeds();
+
+    expect(queued).toBe(1);
+    expect(mockQueueService.addFeedIngestionJob).toHaveBeenCalledTimes(1);
+  });
+});
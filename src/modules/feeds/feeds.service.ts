@@ -0,0 +1,509 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Repository } from 'typeorm';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { FeedRun, FeedFormat } from '../../database/entities/feed-run.entity';
+import { Retailer } from '../../database/entities/retailer.entity';
+import { Product } from '../../database/entities/product.entity';
+import { OfferCondition } from '../../database/entities/price.entity';
+import { PriceEngineService, PriceResult } from '../price-engine/price-engine.service';
+import { QueueService } from '../../common/queue/queue.service';
+import { FeedParserService, FeedRow } from './services/feed-parser.service';
+
+export type FeedRejectionReason =
+  | 'missing_price'
+  | 'invalid_price'
+  | 'missing_link'
+  | 'missing_identifier'
+  | 'no_matching_product'
+  | 'brand_mismatch'
+  | 'ambiguous_mpn'
+  | 'save_failed';
+
+export interface FeedUpload {
+  content: Buffer;
+  fileName?: string;
+  format?: FeedFormat;
+}
+
+export interface FeedIngestionResult {
+  format: FeedFormat;
+  totalRows: number;
+  matchedRows: number;
+  newRows: number;
+  rejectedRows: number;
+  rejections: FeedRun['rejections'];
+}
+
+const FEED_FORMATS: FeedFormat[] = ['google_xml', 'google_tsv', 'csv'];
+const MAX_REJECTION_SAMPLES = 100;
+// Products are looked up in chunks so a large feed doesn't build one huge IN list
+const LOOKUP_CHUNK_SIZE = 500;
+
+@Injectable()
+export class FeedsService {
+  private readonly logger = new Logger(FeedsService.name);
+  private readonly uploadPath: string;
+  private readonly defaultPollIntervalMinutes: number;
+  private readonly fetchTimeoutMs: number;
+  private readonly maxFeedBytes: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @InjectRepository(FeedRun)
+    private readonly feedRunRepository: Repository<FeedRun>,
+    @InjectRepository(Retailer)
+    private readonly retailerRepository: Repository<Retailer>,
+    @InjectRepository(Product)
+    private readonly productRepository: Repository<Product>,
+    private readonly priceEngineService: PriceEngineService,
+    private readonly feedParserService: FeedParserService,
+    private readonly queueService: QueueService,
+  ) {
+    // Uploaded feeds wait here for the worker, so it must be storage the workers share
+    this.uploadPath = path.join(this.configService.get<string>('UPLOAD_PATH', './uploads'), 'feeds');
+    this.defaultPollIntervalMinutes = parseInt(this.configService.get<string>('FEED_POLL_INTERVAL_MINUTES', '1440'), 10);
+    this.fetchTimeoutMs = parseInt(this.configService.get<string>('FEED_FETCH_TIMEOUT_MS', '120000'), 10);
+    this.maxFeedBytes = parseInt(this.configService.get<string>('FEED_MAX_BYTES', '104857600'), 10);
+  }
+
+  /**
+   * Store an uploaded feed and queue it for ingestion
+   */
+  async uploadFeed(retailerId: string, upload: FeedUpload): Promise<FeedRun> {
+    const retailer = await this.getRetailer(retailerId);
+    if (upload.format && !FEED_FORMATS.includes(upload.format)) {
+      throw new BadRequestException(`Unknown feed format: ${upload.format}. Use one of ${FEED_FORMATS.join(', ')}`);
+    }
+    if (!upload.content || upload.content.length === 0) {
+      throw new BadRequestException('The feed file is empty');
+    }
+
+    const run = await this.feedRunRepository.save(
+      this.feedRunRepository.create({
+        retailerId,
+        status: 'queued',
+        source: 'upload',
+        location: upload.fileName,
+        format: upload.format,
+      }),
+    );
+
+    try {
+      const filePath = path.join(this.uploadPath, `${run.id}.feed`);
+      await fs.mkdir(this.uploadPath, { recursive: true });
+      await fs.writeFile(filePath, upload.content);
+      await this.queueService.addFeedIngestionJob({ runId: run.id, filePath });
+
+      this.logger.log(`Queued uploaded ${retailer.name} feed ${upload.fileName || ''} as run ${run.id}`);
+      return run;
+    } catch (error) {
+      this.logger.error(`Failed to queue uploaded feed for ${retailer.name}:`, error);
+      await this.finishRun(run, { status: 'failed', error: error.message });
+      throw error;
+    }
+  }
+
+  /**
+   * Queue a download of the retailer's configured feed URL
+   */
+  async pollFeed(retailerId: string): Promise<FeedRun> {
+    const retailer = await this.getRetailer(retailerId);
+    if (!retailer.feedConfig?.url) {
+      throw new BadRequestException(`Retailer ${retailer.name} has no feed URL configured`);
+    }
+
+    const run = await this.feedRunRepository.save(
+      this.feedRunRepository.create({
+        retailerId,
+        status: 'queued',
+        source: 'poll',
+        location: retailer.feedConfig.url,
+        format: retailer.feedConfig.format,
+      }),
+    );
+    await this.queueService.addFeedIngestionJob({ runId: run.id });
+
+    this.logger.log(`Queued ${retailer.name} feed poll as run ${run.id}`);
+    return run;
+  }
+
+  /**
+   * Queue polls for retailers whose feed is due. A retailer with a run still in progress is skipped.
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async pollDueFeeds(): Promise<number> {
+    try {
+      const retailers = (await this.retailerRepository.find({ where: { isActive: true } }))
+        .filter(retailer => !!retailer.feedConfig?.url);
+      let queued = 0;
+
+      for (const retailer of retailers) {
+        const lastRun = await this.feedRunRepository.findOne({
+          where: { retailerId: retailer.id, source: 'poll' },
+          order: { createdAt: 'DESC' },
+        });
+        const intervalMs = (retailer.feedConfig.pollIntervalMinutes || this.defaultPollIntervalMinutes) * 60000;
+
+        if (lastRun && (lastRun.status === 'queued' || lastRun.status === 'running'
+          || Date.now() - new Date(lastRun.createdAt).getTime() < intervalMs)) {
+          continue;
+        }
+
+        await this.pollFeed(retailer.id);
+        queued++;
+      }
+
+      return queued;
+    } catch (error) {
+      this.logger.error('Failed to queue due feed polls:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Download or read the run's feed, ingest it and record the report on the run. Called by the feeds queue.
+   */
+  async processRun(runId: string, filePath?: string): Promise<FeedRun> {
+    const run = await this.getRun(runId);
+    const retailer = await this.getRetailer(run.retailerId);
+
+    run.status = 'running';
+    run.startedAt = new Date();
+    await this.feedRunRepository.save(run);
+
+    try {
+      const content = filePath ? await fs.readFile(filePath, 'utf8') : await this.downloadFeed(retailer);
+      const result = await this.ingest(retailer, content, run.format);
+
+      this.logger.log(
+        `Feed run ${run.id} for ${retailer.name}: ${result.totalRows} rows, ${result.matchedRows} matched, ` +
+        `${result.newRows} new, ${result.rejectedRows} rejected`,
+      );
+      return await this.finishRun(run, { status: 'completed', ...result });
+    } catch (error) {
+      this.logger.error(`Feed run ${run.id} for ${retailer.name} failed:`, error);
+      return await this.finishRun(run, { status: 'failed', error: error.message });
+    } finally {
+      if (filePath) {
+        await fs.unlink(filePath).catch(() => undefined);
+      }
+    }
+  }
+
+  /**
+   * Parse a feed, match its items to products by GTIN or MPN and upsert the retailer's prices
+   */
+  async ingest(retailer: Retailer, content: string, format?: FeedFormat): Promise<FeedIngestionResult> {
+    const feedFormat = format || retailer.feedConfig?.format || this.feedParserService.detectFormat(content);
+    const rows = this.feedParserService.parse(content, feedFormat, {
+      columns: retailer.feedConfig?.columns,
+      delimiter: retailer.feedConfig?.delimiter,
+    });
+
+    const result: FeedIngestionResult = {
+      format: feedFormat,
+      totalRows: rows.length,
+      matchedRows: 0,
+      newRows: 0,
+      rejectedRows: 0,
+      rejections: { reasons: {}, samples: [] },
+    };
+    const reject = (row: FeedRow, reason: FeedRejectionReason) => {
+      result.rejectedRows++;
+      result.rejections.reasons[reason] = (result.rejections.reasons[reason] || 0) + 1;
+      if (result.rejections.samples.length < MAX_REJECTION_SAMPLES) {
+        result.rejections.samples.push({ row: row.row, id: row.attributes.id, reason });
+      }
+    };
+
+    for (let i = 0; i < rows.length; i += LOOKUP_CHUNK_SIZE) {
+      const chunk = rows.slice(i, i + LOOKUP_CHUNK_SIZE);
+      const products = await this.findProducts(chunk);
+
+      for (const row of chunk) {
+        const match = this.matchProduct(row, products);
+        if (typeof match === 'string') {
+          reject(row, match);
+          continue;
+        }
+
+        const offer = this.toPriceResult(row, match.product, match.signals, retailer);
+        if (typeof offer === 'string') {
+          reject(row, offer);
+          continue;
+        }
+
+        try {
+          const created = await this.priceEngineService.savePriceToDatabase(offer);
+          if (created) {
+            result.newRows++;
+          } else {
+            result.matchedRows++;
+          }
+        } catch (error) {
+          this.logger.error(`Failed to save feed row ${row.row} for ${retailer.name}:`, error);
+          reject(row, 'save_failed');
+        }
+      }
+    }
+
+    return result;
+  }
+
+  async getRuns(retailerId?: string, limit = 50): Promise<FeedRun[]> {
+    return await this.feedRunRepository.find({
+      where: retailerId ? { retailerId } : {},
+      order: { createdAt: 'DESC' },
+      take: limit,
+    });
+  }
+
+  async getRun(id: string): Promise<FeedRun> {
+    const run = await this.feedRunRepository.findOne({ where: { id } });
+    if (!run) {
+      throw new NotFoundException(`Feed run with ID ${id} not found`);
+    }
+    return run;
+  }
+
+  private async downloadFeed(retailer: Retailer): Promise<string> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.fetchTimeoutMs);
+
+    try {
+      const response = await fetch(retailer.feedConfig.url, {
+        headers: retailer.feedConfig.headers || {},
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        throw new Error(`Feed download failed: ${response.status} ${response.statusText}`);
+      }
+
+      const declaredBytes = parseInt(response.headers.get('content-length') || '', 10);
+      if (declaredBytes > this.maxFeedBytes) {
+        throw new Error(`Feed is ${declaredBytes} bytes, over the ${this.maxFeedBytes} byte limit`);
+      }
+
+      // Content-Length is optional and can lie, so count the bytes as they arrive too
+      const chunks: Uint8Array[] = [];
+      let receivedBytes = 0;
+      const reader = response.body?.getReader();
+      while (reader) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+
+        receivedBytes += value.byteLength;
+        if (receivedBytes > this.maxFeedBytes) {
+          controller.abort();
+          throw new Error(`Feed exceeded the ${this.maxFeedBytes} byte limit while downloading`);
+        }
+        chunks.push(value);
+      }
+
+      return Buffer.concat(chunks).toString('utf8');
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Load every product a chunk of rows could match, keyed by normalized GTIN and lowercased MPN
+   */
+  private async findProducts(rows: FeedRow[]): Promise<{ byGtin: Map<string, Product>; byMpn: Map<string, Product[]> }> {
+    const gtins = Array.from(new Set(rows.map(row => this.normalizeGtin(row.attributes.gtin)).filter(Boolean)));
+    const mpns = Array.from(new Set(rows.map(row => (row.attributes.mpn || '').toLowerCase()).filter(Boolean)));
+    const byGtin = new Map<string, Product>();
+    const byMpn = new Map<string, Product[]>();
+
+    if (gtins.length > 0) {
+      // Feeds pad GTINs to 14 digits while products may store UPC-A or EAN-13, so compare without leading zeros
+      const products = await this.productRepository.createQueryBuilder('product')
+        .where(`LTRIM(product.upc, '0') IN (:...gtins)`, { gtins })
+        .orWhere(`LTRIM(product.ean, '0') IN (:...gtins)`, { gtins })
+        .orWhere(`LTRIM(product.isbn, '0') IN (:...gtins)`, { gtins })
+        .getMany();
+
+      for (const product of products) {
+        for (const gtin of [product.upc, product.ean, product.isbn]) {
+          const normalized = this.normalizeGtin(gtin);
+          if (normalized && !byGtin.has(normalized)) {
+            byGtin.set(normalized, product);
+          }
+        }
+      }
+    }
+
+    if (mpns.length > 0) {
+      const products = await this.productRepository.createQueryBuilder('product')
+        .where('LOWER(product.model) IN (:...mpns)', { mpns })
+        .getMany();
+
+      for (const product of products) {
+        const mpn = product.model.toLowerCase();
+        byMpn.set(mpn, [...(byMpn.get(mpn) || []), product]);
+      }
+    }
+
+    return { byGtin, byMpn };
+  }
+
+  /**
+   * GTIN settles it; an MPN is only unique within a brand, so the brand must agree when both sides have one
+   */
+  private matchProduct(
+    row: FeedRow,
+    products: { byGtin: Map<string, Product>; byMpn: Map<string, Product[]> },
+  ): { product: Product; signals: PriceResult['match']['signals'] } | FeedRejectionReason {
+    const gtin = this.normalizeGtin(row.attributes.gtin);
+    const mpn = (row.attributes.mpn || '').toLowerCase();
+    if (!gtin && !mpn) {
+      return 'missing_identifier';
+    }
+
+    if (gtin && products.byGtin.has(gtin)) {
+      return { product: products.byGtin.get(gtin), signals: { gtin: true } };
+    }
+
+    const candidates = mpn ? products.byMpn.get(mpn) || [] : [];
+    if (candidates.length === 0) {
+      return 'no_matching_product';
+    }
+
+    const brand = (row.attributes.brand || '').toLowerCase();
+    if (!brand && candidates.length > 1) {
+      return 'ambiguous_mpn';
+    }
+
+    const product = brand
+      ? candidates.find(candidate => !candidate.brand || candidate.brand.toLowerCase() === brand)
+      : candidates[0];
+    if (!product) {
+      return 'brand_mismatch';
+    }
+
+    return { product, signals: { modelNumber: true, brand: !!brand && !!product.brand } };
+  }
+
+  private toPriceResult(
+    row: FeedRow,
+    product: Product,
+    signals: PriceResult['match']['signals'],
+    retailer: Retailer,
+  ): PriceResult | FeedRejectionReason {
+    const attributes = row.attributes;
+    const defaultCurrency = retailer.feedConfig?.currency || retailer.currency;
+
+    if (!attributes.price) {
+      return 'missing_price';
+    }
+    if (!attributes.link) {
+      return 'missing_link';
+    }
+
+    const listPrice = this.parseMoney(attributes.price, defaultCurrency);
+    if (!listPrice) {
+      return 'invalid_price';
+    }
+
+    const salePrice = attributes.sale_price ? this.parseMoney(attributes.sale_price, listPrice.currency) : null;
+    const onSale = !!salePrice && salePrice.amount < listPrice.amount;
+    const price = onSale ? salePrice.amount : listPrice.amount;
+    const status = this.mapAvailability(attributes.availability);
+    const inStock = status === 'in_stock' || status === 'limited';
+    // TSV shipping reads country:region:service:price; only the price matters here
+    const shipping = attributes.shipping ? this.parseMoney(attributes.shipping.split(':').pop(), listPrice.currency) : null;
+
+    return {
+      productId: product.id,
+      retailerId: retailer.id,
+      price,
+      currency: listPrice.currency,
+      originalPrice: onSale ? listPrice.amount : undefined,
+      discount: onSale ? Math.round((listPrice.amount - price) * 100) / 100 : undefined,
+      discountPercentage: onSale ? Math.round(((listPrice.amount - price) / listPrice.amount) * 100) : undefined,
+      productUrl: attributes.link,
+      imageUrl: attributes.image_link,
+      inStock,
+      shippingCost: shipping ? shipping.amount : undefined,
+      availability: {
+        status,
+        message: attributes.availability || (inStock ? 'In stock' : 'Out of stock'),
+        lastChecked: new Date(),
+      },
+      listing: {
+        title: attributes.title,
+        brand: attributes.brand,
+        gtin: attributes.gtin,
+        modelNumber: attributes.mpn,
+      },
+      match: { score: signals.gtin || signals.brand ? 1 : 0.8, status: 'verified', signals },
+      condition: this.mapCondition(attributes.condition),
+      metadata: {
+        source: 'feed',
+        confidence: signals.gtin ? 1 : 0.9,
+        lastVerified: new Date(),
+        dataQuality: 'high',
+      },
+    };
+  }
+
+  /**
+   * Amounts like '15.00 USD', 'EUR 12,50' or '$1,299.99'
+   */
+  private parseMoney(value: string, defaultCurrency: string): { amount: number; currency: string } | null {
+    const currency = (value.match(/\b[A-Z]{3}\b/) || [defaultCurrency])[0];
+    let number = value.replace(/[^0-9.,]/g, '');
+
+    // The last separator is the decimal point when followed by one or two digits
+    const decimal = number.match(/[.,](\d{1,2})$/);
+    number = decimal
+      ? `${number.slice(0, -decimal[0].length).replace(/[.,]/g, '')}.${decimal[1]}`
+      : number.replace(/[.,]/g, '');
+
+    const amount = parseFloat(number);
+    return isNaN(amount) || amount <= 0 ? null : { amount, currency };
+  }
+
+  private mapAvailability(value: string): PriceResult['availability']['status'] {
+    const normalized = (value || 'in stock').toLowerCase().replace(/[_-]/g, ' ');
+    if (normalized.includes('out of stock') || normalized.includes('discontinued')) {
+      return 'out_of_stock';
+    }
+    if (normalized.includes('preorder') || normalized.includes('pre order') || normalized.includes('backorder')) {
+      return 'pre_order';
+    }
+    if (normalized.includes('limited')) {
+      return 'limited';
+    }
+    return 'in_stock';
+  }
+
+  private mapCondition(value: string): OfferCondition {
+    const normalized = (value || 'new').toLowerCase().replace(/[\s-]+/g, '_');
+    return ['new', 'used', 'refurbished', 'open_box'].includes(normalized) ? normalized as OfferCondition : 'new';
+  }
+
+  private normalizeGtin(value: string): string {
+    const digits = (value || '').replace(/\D/g, '');
+    return digits.length >= 8 ? digits.replace(/^0+/, '') : '';
+  }
+
+  private async finishRun(run: FeedRun, changes: Partial<FeedRun>): Promise<FeedRun> {
+    Object.assign(run, changes, { finishedAt: new Date() });
+    return await this.feedRunRepository.save(run);
+  }
+
+  private async getRetailer(retailerId: string): Promise<Retailer> {
+    const retailer = await this.retailerRepository.findOne({ where: { id: retailerId } });
+    if (!retailer) {
+      throw new NotFoundException(`Retailer with ID ${retailerId} not found`);
+    }
+    return retailer;
+  }
+}
@@ -0,0 +1,88 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { FeedParserService } from './feed-parser.service';
+
+describe('FeedParserService', () => {
+  let service: FeedParserService;
+
+  const rssFeed = `<?xml version="1.0"?>
+    <rss xmlns:g="http://base.google.com/ns/1.0" version="2.0">
+      <channel>
+        <title>Shop feed</title>
+        <item>
+          <title>Acme Widget 3000</title>
+          <link>https://shop.example.com/p/widget-3000</link>
+          <g:id>W3000</g:id>
+          <g:price>199.99 USD</g:price>
+          <g:gtin>00012345678905</g:gtin>
+          <g:availability>in_stock</g:availability>
+          <g:shipping><g:country>US</g:country><g:price>4.95 USD</g:price></g:shipping>
+        </item>
+      </channel>
+    </rss>`;
+
+  const atomFeed = `<?xml version="1.0"?>
+    <feed xmlns="http://www.w3.org/2005/Atom" xmlns:g="http://base.google.com/ns/1.0">
+      <entry>
+        <id>tag:shop.example.com,2024:W3000</id>
+        <g:id>W3000</g:id>
+        <title>Acme Widget 3000</title>
+        <link href="https://shop.example.com/p/widget-3000"/>
+        <g:price>199.99 USD</g:price>
+      </entry>
+    </feed>`;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [FeedParserService],
+    }).compile();
+
+    service = module.get<FeedParserService>(FeedParserService);
+  });
+
+  it('should detect the feed format from its contents', () => {
+    expect(service.detectFormat(rssFeed)).toBe('google_xml');
+    expect(service.detectFormat('id\ttitle\tprice\n1\tWidget\t9.99 USD')).toBe('google_tsv');
+    expect(service.detectFormat('sku;name;price\n1;Widget;9,99')).toBe('csv');
+  });
+
+  it('should read Google Merchant RSS and Atom items', () => {
+    const [rssItem] = service.parse(rssFeed, 'google_xml');
+    const [atomItem] = service.parse(atomFeed, 'google_xml');
+
+    expect(rssItem.attributes).toMatchObject({
+      id: 'W3000',
+      title: 'Acme Widget 3000',
+      link: 'https://shop.example.com/p/widget-3000',
+      price: '199.99 USD',
+      gtin: '00012345678905',
+      shipping: '4.95 USD',
+    });
+    // The g:id wins over the Atom entry id
+    expect(atomItem.attributes).toMatchObject({ id: 'W3000', link: 'https://shop.example.com/p/widget-3000' });
+  });
+
+  it('should read TSV feeds with Google attribute headers', () => {
+    const rows = service.parse('id\ttitle\tprice\tgtin\nW1\tWidget\t9.99 USD\t012345678905\n\nW2\tGadget\t19.99 USD\t', 'google_tsv');
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0].attributes).toEqual({ id: 'W1', title: 'Widget', price: '9.99 USD', gtin: '012345678905' });
+    expect(rows[1].attributes.gtin).toBeUndefined();
+  });
+
+  it('should map CSV headers through aliases and configured columns', () => {
+    const csv = [
+      'SKU;Product Name;Price;EAN;Article URL',
+      'W1;"Widget; large";"1.299,00";4006381333931;https://shop.example.com/w1',
+    ].join('\r\n');
+
+    const [row] = service.parse(csv, 'csv', { columns: { link: 'Article URL' } });
+
+    expect(row.attributes).toMatchObject({
+      id: 'W1',
+      title: 'Widget; large',
+      price: '1.299,00',
+      gtin: '4006381333931',
+      link: 'https://shop.example.com/w1',
+    });
+  });
+});
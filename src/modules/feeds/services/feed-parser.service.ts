@@ -0,0 +1,209 @@
+import { Injectable } from '@nestjs/common';
+import * as cheerio from 'cheerio';
+import { FeedFormat } from '../../../database/entities/feed-run.entity';
+
+/**
+ * One feed item with its attributes under Google Merchant names (id, title, price, gtin, ...).
+ * CSV columns with no Google equivalent keep their own header.
+ */
+export interface FeedRow {
+  // 1-based position in the feed, for run reports
+  row: number;
+  attributes: { [attribute: string]: string };
+}
+
+export interface FeedParseOptions {
+  // Column holding each attribute, for CSV feeds that don't use Google Merchant names
+  columns?: { [attribute: string]: string };
+  delimiter?: string;
+}
+
+// Common CSV headers for each Google Merchant attribute
+const COLUMN_ALIASES: { [attribute: string]: string[] } = {
+  id: ['id', 'sku', 'item_id', 'product_id'],
+  title: ['title', 'name', 'product_name'],
+  link: ['link', 'url', 'product_url'],
+  image_link: ['image_link', 'image', 'image_url'],
+  price: ['price', 'current_price'],
+  sale_price: ['sale_price', 'special_price'],
+  availability: ['availability', 'stock', 'stock_status'],
+  condition: ['condition'],
+  gtin: ['gtin', 'ean', 'upc', 'isbn', 'barcode'],
+  mpn: ['mpn', 'model', 'model_number'],
+  brand: ['brand', 'manufacturer'],
+  shipping: ['shipping', 'shipping_cost', 'shipping_price'],
+};
+
+@Injectable()
+export class FeedParserService {
+  /**
+   * Guess the format from the content: XML starts with a tag, TSV has tabs in its header
+   */
+  detectFormat(content: string): FeedFormat {
+    const start = content.replace(/^\uFEFF/, '').trimStart();
+    if (start.startsWith('<')) {
+      return 'google_xml';
+    }
+
+    const header = start.split(/\r?\n/, 1)[0];
+    return header.includes('\t') ? 'google_tsv' : 'csv';
+  }
+
+  parse(content: string, format: FeedFormat, options: FeedParseOptions = {}): FeedRow[] {
+    const body = content.replace(/^\uFEFF/, '');
+
+    switch (format) {
+      case 'google_xml':
+        return this.parseXml(body);
+      case 'google_tsv':
+        return this.parseTable(this.parseDelimited(body, '\t'), {});
+      case 'csv':
+        return this.parseTable(this.parseDelimited(body, options.delimiter || this.detectDelimiter(body)), options.columns || {});
+      default:
+        throw new Error(`Unsupported feed format: ${format}`);
+    }
+  }
+
+  /**
+   * Google Merchant RSS 2.0 (<item>) and Atom 1.0 (<entry>) feeds, g: namespace or not
+   */
+  private parseXml(content: string): FeedRow[] {
+    const $ = cheerio.load(content, { xml: true });
+    const rows: FeedRow[] = [];
+
+    $('item, entry').each((index, item) => {
+      const attributes: { [attribute: string]: string } = {};
+      const namespaced = new Set<string>();
+
+      $(item).children().each((_, element) => {
+        const name = this.attributeName(element.name);
+        const node = $(element);
+        let value: string;
+
+        if (name === 'link' && node.attr('href')) {
+          // Atom links carry the URL in href
+          value = node.attr('href');
+        } else if (name === 'shipping' && node.children().length > 0) {
+          // Only the shipping price is used, not the per-region breakdown
+          value = node.children().filter((__, child) => this.attributeName(child.name) === 'price').first().text();
+        } else {
+          value = node.text();
+        }
+
+        // g: attributes win over Atom/RSS elements of the same name; repeated attributes keep the first value
+        const isNamespaced = element.name.toLowerCase().startsWith('g:');
+        if (!value || !value.trim() || namespaced.has(name) || (attributes[name] !== undefined && !isNamespaced)) {
+          return;
+        }
+        attributes[name] = value.trim();
+        if (isNamespaced) {
+          namespaced.add(name);
+        }
+      });
+
+      rows.push({ row: index + 1, attributes });
+    });
+
+    return rows;
+  }
+
+  /**
+   * Map a header row plus data rows to attributes, using explicit columns before the aliases
+   */
+  private parseTable(records: string[][], columns: { [attribute: string]: string }): FeedRow[] {
+    if (records.length === 0) {
+      return [];
+    }
+
+    const header = records[0].map(name => this.attributeName(name));
+    const indexes: { [attribute: string]: number } = {};
+
+    header.forEach((name, index) => {
+      if (name && indexes[name] === undefined) {
+        indexes[name] = index;
+      }
+    });
+    for (const [attribute, aliases] of Object.entries(COLUMN_ALIASES)) {
+      const index = header.findIndex(name => aliases.includes(name));
+      if (indexes[attribute] === undefined && index !== -1) {
+        indexes[attribute] = index;
+      }
+    }
+    for (const [attribute, column] of Object.entries(columns)) {
+      const index = header.indexOf(this.attributeName(column));
+      if (index !== -1) {
+        indexes[attribute] = index;
+      }
+    }
+
+    return records.slice(1)
+      .map((record, index) => {
+        const attributes: { [attribute: string]: string } = {};
+        for (const [attribute, column] of Object.entries(indexes)) {
+          const value = (record[column] || '').trim();
+          if (value) {
+            attributes[attribute] = value;
+          }
+        }
+        return { row: index + 1, attributes };
+      })
+      .filter(row => Object.keys(row.attributes).length > 0);
+  }
+
+  /**
+   * RFC 4180 records: quoted fields may contain the delimiter, newlines and doubled quotes
+   */
+  private parseDelimited(content: string, delimiter: string): string[][] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+
+      if (quoted) {
+        if (char === '"' && content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"' && field === '') {
+        quoted = true;
+      } else if (char === delimiter) {
+        record.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && content[i + 1] === '\n') {
+          i++;
+        }
+        record.push(field);
+        records.push(record);
+        record = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (field !== '' || record.length > 0) {
+      record.push(field);
+      records.push(record);
+    }
+
+    return records.filter(fields => fields.some(value => value.trim() !== ''));
+  }
+
+  private detectDelimiter(content: string): string {
+    const header = content.split(/\r?\n/, 1)[0];
+    return [',', ';', '|'].reduce((best, candidate) =>
+      header.split(candidate).length > header.split(best).length ? candidate : best, ',');
+  }
+
+  private attributeName(name: string): string {
+    return (name || '').trim().toLowerCase().replace(/^g:/, '').replace(/[\s-]+/g, '_');
+  }
+}
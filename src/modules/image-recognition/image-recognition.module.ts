@@ -1,17 +1,32 @@
 import { Module } from '@nestjs/common';
-import { ConfigModule } from '@nestjs/config';
+import { ConfigModule, ConfigService } from '@nestjs/config';
 import { ImageRecognitionService } from './image-recognition.service';
 import { ImageRecognitionController } from './image-recognition.controller';
 import { GoogleVisionService } from './services/google-vision.service';
 import { RoboflowService } from './services/roboflow.service';
 import { ImageProcessingService } from './services/image-processing.service';
+import { SandboxRecognitionService } from './services/sandbox-recognition.service';
+import { SandboxModule } from '../../common/sandbox/sandbox.module';
+import { SandboxService } from '../../common/sandbox/sandbox.service';
 
 @Module({
-  imports: [ConfigModule],
+  imports: [ConfigModule, SandboxModule],
   providers: [
     ImageRecognitionService,
-    GoogleVisionService,
-    RoboflowService,
+    {
+      provide: GoogleVisionService,
+      useFactory: (configService: ConfigService, sandboxService: SandboxService) => sandboxService.isEnabled()
+        ? new SandboxRecognitionService('google_vision', sandboxService)
+        : new GoogleVisionService(configService),
+      inject: [ConfigService, SandboxService],
+    },
+    {
+      provide: RoboflowService,
+      useFactory: (configService: ConfigService, sandboxService: SandboxService) => sandboxService.isEnabled()
+        ? new SandboxRecognitionService('roboflow', sandboxService)
+        : new RoboflowService(configService),
+      inject: [ConfigService, SandboxService],
+    },
     ImageProcessingService,
   ],
   controllers: [ImageRecognitionController],
@@ -0,0 +1,47 @@
+import { Logger } from '@nestjs/common';
+import { RecognitionResult } from '../image-recognition.service';
+import { SandboxService } from '../../../common/sandbox/sandbox.service';
+
+/**
+ * Offline stand-in for Google Vision and Roboflow. Recognizes the fixture product named in the
+ * image URL, or a stable pick from the catalog when the URL names none.
+ */
+export class SandboxRecognitionService {
+  private readonly logger: Logger;
+
+  constructor(
+    private readonly provider: 'google_vision' | 'roboflow',
+    private readonly sandboxService: SandboxService,
+  ) {
+    this.logger = new Logger(`SandboxRecognitionService:${provider}`);
+  }
+
+  async recognizeProduct(imageUrl: string): Promise<RecognitionResult | null> {
+    try {
+      return await this.sandboxService.simulate(this.provider, imageUrl, () => {
+        const fixture = this.sandboxService.pickProduct(imageUrl);
+        // Keyword matches are as sure as a real provider gets; catalog picks are a weaker guess
+        const confidence = (this.sandboxService.findProduct(imageUrl) ? 0.85 : 0.55)
+          + this.sandboxService.random(`confidence:${this.provider}:${imageUrl}`) * 0.1;
+
+        return {
+          provider: this.provider,
+          productName: fixture.name,
+          brand: fixture.brand,
+          category: fixture.category,
+          confidence: Math.round(confidence * 100) / 100,
+          boundingBox: this.provider === 'roboflow' ? { x: 0.1, y: 0.1, width: 0.8, height: 0.8 } : undefined,
+          rawResponse: { sandbox: true, fixture },
+        };
+      });
+    } catch (error) {
+      // Same contract as the real providers: a failed recognition is no result
+      this.logger.error('Sandbox recognition failed:', error);
+      return null;
+    }
+  }
+
+  async getHealthStatus(): Promise<{ status: string; lastCheck: Date }> {
+    return { status: 'healthy', lastCheck: new Date() };
+  }
+}
@@ -0,0 +1,38 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDateString, IsObject, IsOptional, Matches, ValidateBy, ValidationOptions } from 'class-validator';
+
+/**
+ * Every key is a 3-letter currency code and every value a positive number
+ */
+function IsRateMap(validationOptions?: ValidationOptions): PropertyDecorator {
+  return ValidateBy({
+    name: 'isRateMap',
+    validator: {
+      validate: (value: unknown) => typeof value === 'object' && value !== null && !Array.isArray(value)
+        && Object.entries(value).every(([currency, rate]) =>
+          /^[A-Za-z]{3}$/.test(currency) && typeof rate === 'number' && isFinite(rate) && rate > 0),
+      defaultMessage: () => 'rates must map 3-letter currency codes to positive numbers',
+    },
+  }, validationOptions);
+}
+
+export class ImportFxRatesDto {
+  @ApiPropertyOptional({ description: 'Currency the rates are quoted against; defaults to FX_BASE_CURRENCY. Other bases are rebased onto FX_BASE_CURRENCY and must include a rate for it', example: 'USD' })
+  @IsOptional()
+  @Matches(/^[A-Za-z]{3}$/, { message: 'base must be a 3-letter currency code' })
+  base?: string;
+
+  @ApiPropertyOptional({
+    description: 'Rates per currency; leave out to import the configured FX_RATES_FILE',
+    example: { EUR: 0.92, GBP: 0.79 },
+  })
+  @IsOptional()
+  @IsObject()
+  @IsRateMap()
+  rates?: { [currency: string]: number };
+
+  @ApiPropertyOptional({ description: 'When the rates were quoted', example: '2024-01-01T00:00:00Z' })
+  @IsOptional()
+  @IsDateString()
+  asOf?: string;
+}
@@ -1,12 +1,23 @@
 import { Product } from '../../../database/entities/product.entity';
-import { Retailer } from '../../../database/entities/retailer.entity';
+import { Retailer, RetailerMarketplaceConfig } from '../../../database/entities/retailer.entity';
 import { PriceResult } from '../price-engine.service';
 
+/**
+ * Where a price is being looked up for. Adapters fall back to their default storefront when absent.
+ */
+export interface RetailerMarketplace extends RetailerMarketplaceConfig {
+  // Shopper's country, ISO 3166-1 alpha-2
+  country: string;
+  // Country key of the regional storefront in Retailer.regions; empty for the default storefront
+  storefront: string;
+}
+
 export interface PriceEngineService {
   /**
-   * Get product price from this service
+   * Get product price from this service.
+   * Resolves null when the product is not listed; throws when the upstream call fails.
    */
-  getProductPrice(product: Product, retailer: Retailer): Promise<PriceResult | null>;
+  getProductPrice(product: Product, retailer: Retailer, marketplace?: RetailerMarketplace): Promise<PriceResult | null>;
 
   /**
    * Check if service is available
@@ -17,4 +28,37 @@ export interface PriceEngineService {
    * Get service health status
    */
   getHealthStatus(): Promise<{ status: string; lastCheck: Date }>;
-}
\ No newline at end of file
+}
+
+export type RetailerAdapterCapability = 'search' | 'gtin_lookup' | 'offers' | 'stock' | 'marketplace';
+
+export interface RetailerAdapterConfigSchema {
+  [key: string]: {
+    type: 'string' | 'number' | 'boolean';
+    required: boolean;
+    description: string;
+  };
+}
+
+export interface RetailerAdapter extends PriceEngineService {
+  /**
+   * Stable key that Retailer.adapterId binds to
+   */
+  readonly adapterId: string;
+
+  /**
+   * What the upstream API can do for us
+   */
+  readonly capabilities: RetailerAdapterCapability[];
+
+  /**
+   * Configuration keys the adapter reads, keyed by environment variable
+   */
+  readonly configSchema: RetailerAdapterConfigSchema;
+
+  /**
+   * Get every seller offer for a product, in any condition.
+   * Implemented by adapters with the 'marketplace' capability.
+   */
+  getProductOffers?(product: Product, retailer: Retailer, marketplace?: RetailerMarketplace): Promise<PriceResult[]>;
+}
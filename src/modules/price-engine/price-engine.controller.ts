@@ -1,20 +1,81 @@
-import { Controller, Get, Post, Body, Param, Query, UseGuards } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Sse,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  MessageEvent,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Observable } from 'rxjs';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiConsumes } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { PriceEngineService } from './price-engine.service';
+import { FxRatesService } from './services/fx-rates.service';
+import { ImportFxRatesDto } from './dto/import-fx-rates.dto';
+import { RefreshPlannerService } from './services/refresh-planner.service';
+import { PriceHistoryRollupService } from './services/price-history-rollup.service';
+import { ScraperFixtureService } from './services/scraper-fixture.service';
+import { BrowserPoolService } from './services/browser-pool.service';
+import { CrawlPolicyService } from './services/crawl-policy.service';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import { User } from '../../database/entities/user.entity';
+import { OfferCondition } from '../../database/entities/price.entity';
+import { ParseOfferConditionsPipe } from '../../common/pipes/parse-offer-conditions.pipe';
 
 @ApiTags('price-engine')
 @Controller('price-engine')
 @UseGuards(JwtAuthGuard)
 @ApiBearerAuth()
 export class PriceEngineController {
-  constructor(private readonly priceEngineService: PriceEngineService) {}
+  constructor(
+    private readonly priceEngineService: PriceEngineService,
+    private readonly fxRatesService: FxRatesService,
+    private readonly refreshPlannerService: RefreshPlannerService,
+    private readonly priceHistoryRollupService: PriceHistoryRollupService,
+    private readonly scraperFixtureService: ScraperFixtureService,
+    private readonly browserPoolService: BrowserPoolService,
+    private readonly crawlPolicyService: CrawlPolicyService,
+  ) {}
 
   @Get('prices/:productId')
   @ApiOperation({ summary: 'Get prices for a product across all retailers' })
   @ApiResponse({ status: 200, description: 'Prices retrieved successfully' })
-  async getProductPrices(@Param('productId') productId: string) {
-    return await this.priceEngineService.getProductPrices(productId);
+  async getProductPrices(
+    @GetUser() user: User,
+    @Param('productId') productId: string,
+    @Query('includeReturnCost') includeReturnCost?: string,
+    @Query('condition', ParseOfferConditionsPipe) condition?: OfferCondition[],
+  ) {
+    return await this.priceEngineService.getProductPrices(productId, {
+      currency: user?.preferences?.currency,
+      country: user?.preferences?.country,
+      includeReturnCost: includeReturnCost === 'true',
+      condition,
+    });
+  }
+
+  @Sse('prices/:productId/stream')
+  @ApiOperation({ summary: 'Stream prices for a product as each retailer responds (server-sent events)' })
+  @ApiResponse({ status: 200, description: 'Emits a "price" event per offer, then a "summary" event' })
+  streamProductPrices(
+    @GetUser() user: User,
+    @Param('productId') productId: string,
+    @Query('includeReturnCost') includeReturnCost?: string,
+    @Query('condition', ParseOfferConditionsPipe) condition?: OfferCondition[],
+  ): Observable<MessageEvent> {
+    return this.priceEngineService.streamProductPrices(productId, {
+      currency: user?.preferences?.currency,
+      country: user?.preferences?.country,
+      includeReturnCost: includeReturnCost === 'true',
+      condition,
+    });
   }
 
   @Post('update-price')
@@ -54,14 +115,133 @@ export class PriceEngineController {
   }
 
   @Get('price-alerts')
-  @ApiOperation({ summary: 'Get price alerts for users' })
+  @ApiOperation({ summary: 'Get price watches that have alerted for the current user' })
   @ApiResponse({ status: 200, description: 'Price alerts retrieved successfully' })
-  async getPriceAlerts() {
-    return await this.priceEngineService.getPriceAlerts();
+  async getPriceAlerts(@GetUser() user: User) {
+    return await this.priceEngineService.getPriceAlerts(user.id);
+  }
+
+  @Get('fx-rates')
+  @ApiOperation({ summary: 'Get the current FX rate table' })
+  @ApiResponse({ status: 200, description: 'FX rates retrieved successfully' })
+  async getFxRates() {
+    return await this.fxRatesService.getRateTable();
+  }
+
+  @Post('fx-rates/import')
+  @ApiOperation({ summary: 'Import FX rates from the request body, or from the configured rates file when it has none (admin only)' })
+  @ApiResponse({ status: 200, description: 'FX rates imported successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid rates' })
+  async importFxRates(@Body() body: ImportFxRatesDto) {
+    const imported = body.rates
+      ? await this.fxRatesService.importRates(
+        { base: body.base, rates: body.rates, asOf: body.asOf ? new Date(body.asOf) : undefined },
+        'manual',
+      )
+      : await this.fxRatesService.importFromFile();
+
+    return { imported };
+  }
+
+  @Post('history/rollups/run')
+  @ApiOperation({ summary: 'Roll up price history into daily/weekly OHLC and apply retention (admin only)' })
+  @ApiResponse({ status: 200, description: 'Rollup completed successfully' })
+  async runHistoryRollups(@Body() body: { lookbackDays?: number }) {
+    return await this.priceHistoryRollupService.runRollups(body.lookbackDays);
+  }
+
+  @Get('refresh-plan')
+  @ApiOperation({ summary: 'Preview the next scheduled price refresh batch (admin only)' })
+  @ApiResponse({ status: 200, description: 'Refresh plan retrieved successfully' })
+  async getRefreshPlan(@Query('limit') limit?: number) {
+    return await this.refreshPlannerService.planBatch(limit ? Number(limit) : undefined);
+  }
+
+  @Post('refresh-plan/run')
+  @ApiOperation({ summary: 'Enqueue the next scheduled price refresh batch now (admin only)' })
+  @ApiResponse({ status: 200, description: 'Refresh batch enqueued successfully' })
+  async runRefreshPlan() {
+    const scheduled = await this.refreshPlannerService.runScheduledRefresh();
+    return { scheduled };
+  }
+
+  @Post('scraper/fixtures')
+  @ApiOperation({ summary: 'Capture a product page as a scraper fixture, downloading it unless html is given (admin only)' })
+  @ApiResponse({ status: 201, description: 'Fixture captured successfully' })
+  async captureScraperFixture(@Body() body: { retailerId: string; url: string; html?: string }) {
+    return await this.scraperFixtureService.capture(body.retailerId, body.url, body.html);
+  }
+
+  @Get('scraper/fixtures')
+  @ApiOperation({ summary: 'List stored scraper fixtures (admin only)' })
+  @ApiResponse({ status: 200, description: 'Fixtures retrieved successfully' })
+  async getScraperFixtures(@Query('retailerId') retailerId?: string) {
+    return await this.scraperFixtureService.listFixtures(retailerId);
+  }
+
+  @Delete('scraper/fixtures/:id')
+  @ApiOperation({ summary: 'Delete a scraper fixture (admin only)' })
+  @ApiResponse({ status: 200, description: 'Fixture deleted successfully' })
+  async deleteScraperFixture(@Param('id') id: string) {
+    await this.scraperFixtureService.deleteFixture(id);
+    return { message: 'Scraper fixture deleted successfully' };
+  }
+
+  @Post('scraper/fixtures/regression')
+  @ApiOperation({ summary: 'Re-run current selectors against stored fixtures and report broken fields (admin only)' })
+  @ApiResponse({ status: 200, description: 'Regression report generated successfully' })
+  async runScraperRegression(@Body() body: { retailerId?: string }) {
+    return await this.scraperFixtureService.runRegression(body.retailerId);
+  }
+
+  @Post('scraper/retailers/:retailerId/dry-run')
+  @UseInterceptors(FileInterceptor('page'))
+  @ApiConsumes('multipart/form-data', 'application/json')
+  @ApiOperation({ summary: 'Dry-run a retailer\'s selectors against a stored fixture, an uploaded page, html or a url (admin only)' })
+  @ApiResponse({ status: 200, description: 'Dry run completed successfully' })
+  async dryRunScraper(
+    @Param('retailerId') retailerId: string,
+    @Body() body: { fixtureId?: string; html?: string; url?: string; selectors?: any },
+    @UploadedFile() page?: Express.Multer.File,
+  ) {
+    return await this.scraperFixtureService.dryRun(retailerId, {
+      fixtureId: body.fixtureId,
+      html: page ? page.buffer.toString('utf8') : body.html,
+      url: body.url,
+      selectors: this.scraperFixtureService.parseSelectors(body.selectors),
+    });
+  }
+
+  @Get('adapters')
+  @ApiOperation({ summary: 'List registered retailer adapters and their capabilities' })
+  @ApiResponse({ status: 200, description: 'Adapters retrieved successfully' })
+  async getRetailerAdapters() {
+    return this.priceEngineService.getRetailerAdapters();
+  }
+
+  @Get('circuits')
+  @ApiOperation({ summary: 'Get circuit breaker state per retailer and channel' })
+  @ApiResponse({ status: 200, description: 'Circuit states retrieved successfully' })
+  async getCircuitStatus() {
+    return this.priceEngineService.getCircuitStatus();
+  }
+
+  @Get('browser-pool')
+  @ApiOperation({ summary: 'Get Playwright browser pool usage per retailer context (admin only)' })
+  @ApiResponse({ status: 200, description: 'Browser pool status retrieved successfully' })
+  async getBrowserPoolStatus() {
+    return this.browserPoolService.getStatus();
+  }
+
+  @Get('crawl-policy')
+  @ApiOperation({ summary: 'Get per-host crawl politeness state and disallowed scrape counts (admin only)' })
+  @ApiResponse({ status: 200, description: 'Crawl policy status retrieved successfully' })
+  async getCrawlPolicyStatus() {
+    return this.crawlPolicyService.getStatus();
   }
 
   @Get('stats')
-  @ApiOperation({ summary: 'Get price engine statistics' })
+  @ApiOperation({ summary: 'Get price engine statistics with per-retailer latency percentiles, success rates and cache hit ratios' })
   @ApiResponse({ status: 200, description: 'Statistics retrieved successfully' })
   async getPriceEngineStats() {
     return await this.priceEngineService.getPriceEngineStats();
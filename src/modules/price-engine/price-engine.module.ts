@@ -9,11 +9,43 @@ import { BestBuyApiService } from './services/bestbuy-api.service';
 import { ZalandoApiService } from './services/zalando-api.service';
 import { FarfetchApiService } from './services/farfetch-api.service';
 import { ScrapingService } from './services/scraping.service';
+import { HtmlExtractionService } from './services/html-extraction.service';
 import { ApifyService } from './services/apify.service';
 import { PlaywrightService } from './services/playwright.service';
+import { BrowserPoolService } from './services/browser-pool.service';
+import { CrawlPolicyService } from './services/crawl-policy.service';
+import { RetailerRegionService } from './services/retailer-region.service';
+import { RetailerAdapterRegistry, RETAILER_ADAPTERS } from './services/retailer-adapter-registry.service';
+import { FxRatesService } from './services/fx-rates.service';
+import { LandedCostService } from './services/landed-cost.service';
+import { EffectivePriceService } from './services/effective-price.service';
+import { ListingMatchService } from './services/listing-match.service';
+import { CircuitBreakerService } from './services/circuit-breaker.service';
+import { PriceEngineMetricsService } from './services/price-engine-metrics.service';
+import { PriceWatchEvaluatorService } from './services/price-watch-evaluator.service';
+import { StockTransitionService } from './services/stock-transition.service';
+import { RefreshPlannerService } from './services/refresh-planner.service';
+import { PriceHistoryRollupService } from './services/price-history-rollup.service';
+import { PriceForecastService } from './services/price-forecast.service';
+import { ScraperFixtureService } from './services/scraper-fixture.service';
+import { SandboxRetailerAdapter } from './services/sandbox-retailer.adapter';
+import { RetailerAdapter } from './interfaces/price-engine.interface';
 import { DatabaseModule } from '../../database/database.module';
 import { CacheModule } from '../../common/cache/cache.module';
 import { QueueModule } from '../../common/queue/queue.module';
+import { RateLimitModule } from '../../common/rate-limit/rate-limit.module';
+import { SandboxModule } from '../../common/sandbox/sandbox.module';
+import { SandboxService } from '../../common/sandbox/sandbox.service';
+
+// Adding a retailer API only requires listing its adapter here
+const retailerAdapters = [
+  AmazonApiService,
+  WalmartApiService,
+  EbayApiService,
+  BestBuyApiService,
+  ZalandoApiService,
+  FarfetchApiService,
+];
 
 @Module({
   imports: [
@@ -21,20 +53,42 @@ import { QueueModule } from '../../common/queue/queue.module';
     DatabaseModule,
     CacheModule,
     QueueModule,
+    RateLimitModule,
+    SandboxModule,
   ],
   providers: [
     PriceEngineService,
-    AmazonApiService,
-    WalmartApiService,
-    EbayApiService,
-    BestBuyApiService,
-    ZalandoApiService,
-    FarfetchApiService,
+    ...retailerAdapters,
+    {
+      provide: RETAILER_ADAPTERS,
+      // Sandbox mode swaps every adapter for an offline stand-in under the same id
+      useFactory: (sandboxService: SandboxService, ...adapters: RetailerAdapter[]) => sandboxService.isEnabled()
+        ? adapters.map(adapter => new SandboxRetailerAdapter(adapter, sandboxService))
+        : adapters,
+      inject: [SandboxService, ...retailerAdapters],
+    },
+    RetailerAdapterRegistry,
+    RetailerRegionService,
+    FxRatesService,
+    LandedCostService,
+    EffectivePriceService,
+    ListingMatchService,
+    CircuitBreakerService,
+    PriceEngineMetricsService,
+    PriceWatchEvaluatorService,
+    StockTransitionService,
+    RefreshPlannerService,
+    PriceHistoryRollupService,
+    PriceForecastService,
     ScrapingService,
+    HtmlExtractionService,
+    ScraperFixtureService,
     ApifyService,
     PlaywrightService,
+    BrowserPoolService,
+    CrawlPolicyService,
   ],
   controllers: [PriceEngineController],
-  exports: [PriceEngineService],
+  exports: [PriceEngineService, FxRatesService, ApifyService, RetailerRegionService],
 })
-export class PriceEngineModule {}
\ No newline at end of file
+export class PriceEngineModule {}
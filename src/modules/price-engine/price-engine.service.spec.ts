@@ -1,13 +1,32 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
 import { Repository } from 'typeorm';
+import { lastValueFrom, toArray } from 'rxjs';
 import { PriceEngineService } from './price-engine.service';
 import { Product } from '../../database/entities/product.entity';
 import { Retailer } from '../../database/entities/retailer.entity';
 import { Price } from '../../database/entities/price.entity';
 import { PriceHistory } from '../../database/entities/price-history.entity';
+import { FxRatesService } from './services/fx-rates.service';
+import { LandedCostService } from './services/landed-cost.service';
+import { EffectivePriceService } from './services/effective-price.service';
+import { ListingMatchService } from './services/listing-match.service';
+import { CircuitBreakerService } from './services/circuit-breaker.service';
+import { PriceEngineMetricsService } from './services/price-engine-metrics.service';
+import { PriceWatchEvaluatorService } from './services/price-watch-evaluator.service';
+import { StockTransitionService } from './services/stock-transition.service';
+import { PriceHistoryRollupService } from './services/price-history-rollup.service';
+import { PriceForecastService } from './services/price-forecast.service';
 import { CacheService } from '../../common/cache/cache.service';
 import { QueueService } from '../../common/queue/queue.service';
+import { RateLimitService } from '../../common/rate-limit/rate-limit.service';
+import { SandboxService } from '../../common/sandbox/sandbox.service';
+import { RetailerAdapterRegistry } from './services/retailer-adapter-registry.service';
+import { ScrapingService } from './services/scraping.service';
+import { ApifyService } from './services/apify.service';
+import { PlaywrightService } from './services/playwright.service';
+import { RetailerRegionService } from './services/retailer-region.service';
 
 describe('PriceEngineService', () => {
   let service: PriceEngineService;
@@ -44,17 +63,47 @@ describe('PriceEngineService', () => {
 
   const mockProductRepository = {
     findOne: jest.fn(),
+    count: jest.fn(),
   };
 
   const mockRetailerRepository = {
     find: jest.fn(),
     findOne: jest.fn(),
+    count: jest.fn(),
+  };
+
+  const apiWindow = {
+    calls: 4,
+    successes: 3,
+    empty: 0,
+    failures: 1,
+    successRate: 0.75,
+    priceFoundRate: 0.75,
+    latencyMs: { avg: 350, p50: 300, p90: 700, p95: 700, p99: 700 },
+    dataQuality: { high: 3, medium: 0, low: 0 },
+  };
+
+  const mockMetricsService = {
+    track: jest.fn((retailer: any, method: string, source: string, fn: () => Promise<any>) => fn()),
+    recordCacheLookup: jest.fn(),
+    getMetrics: jest.fn().mockReturnValue({
+      windows: { '5m': apiWindow, '1h': apiWindow, '24h': apiWindow },
+      methods: [{ retailerId: 'retailer-123', method: 'getProductPrice', source: 'api', windows: { '24h': apiWindow } }],
+      cache: { prices: { '24h': { hits: 1, misses: 3, hitRatio: 0.25 } } },
+      since: new Date(),
+    }),
+  };
+
+  const mockCircuitBreakerService = {
+    execute: jest.fn((retailer: any, channel: string, fn: () => Promise<any>) => fn()),
+    getStatus: jest.fn().mockReturnValue([]),
   };
 
   const mockPriceRepository = {
     findOne: jest.fn(),
     create: jest.fn(),
     save: jest.fn(),
+    count: jest.fn(),
   };
 
   const mockPriceHistoryRepository = {
@@ -70,12 +119,35 @@ describe('PriceEngineService', () => {
 
   const mockQueueService = {
     addPriceUpdateJob: jest.fn(),
+    deferPriceUpdateJob: jest.fn(),
+  };
+
+  const mockRateLimitService = {
+    consume: jest.fn().mockResolvedValue({ allowed: true, remaining: 99, retryAfterMs: 0 }),
+  };
+
+  const mockSandboxService = {
+    isEnabled: jest.fn().mockReturnValue(false),
+    simulate: jest.fn((provider: string, key: string, fn: () => any) => fn()),
+    findProduct: jest.fn().mockReturnValue({ basePrice: 100 }),
+    getRetailer: jest.fn().mockReturnValue({}),
+    random: jest.fn().mockReturnValue(0.5),
+  };
+
+  const mockAdapterRegistry = {
+    resolve: jest.fn(),
+    describe: jest.fn(),
   };
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         PriceEngineService,
+        RetailerRegionService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string, defaultValue?: any) => defaultValue) },
+        },
         {
           provide: getRepositoryToken(Product),
           useValue: mockProductRepository,
@@ -100,41 +172,102 @@ describe('PriceEngineService', () => {
           provide: QueueService,
           useValue: mockQueueService,
         },
+        {
+          provide: RateLimitService,
+          useValue: mockRateLimitService,
+        },
+        {
+          provide: SandboxService,
+          useValue: mockSandboxService,
+        },
         // Mock all the price service dependencies
         {
-          provide: 'AmazonApiService',
-          useValue: { getProductPrice: jest.fn() },
+          provide: RetailerAdapterRegistry,
+          useValue: mockAdapterRegistry,
+        },
+        {
+          provide: FxRatesService,
+          useValue: {
+            getRateTable: jest.fn().mockResolvedValue({ base: 'USD', rates: { USD: 1 }, asOf: new Date() }),
+            convert: jest.fn((amount: number) => amount),
+            getRate: jest.fn().mockReturnValue(1),
+          },
+        },
+        {
+          provide: LandedCostService,
+          useValue: {
+            calculate: jest.fn((price: any) => ({
+              itemPrice: price.price,
+              shipping: 0,
+              tax: 0,
+              returnPenalty: 0,
+              total: price.price,
+              currency: price.currency,
+            })),
+          },
+        },
+        {
+          provide: EffectivePriceService,
+          useValue: {
+            calculate: jest.fn((price: any) => ({
+              basePrice: price.price,
+              effectivePrice: price.price,
+              currency: price.currency,
+              freeShipping: false,
+              breakdown: [],
+            })),
+          },
         },
         {
-          provide: 'WalmartApiService',
-          useValue: { getProductPrice: jest.fn() },
+          provide: ListingMatchService,
+          useValue: {
+            verify: jest.fn().mockReturnValue({ score: 1, status: 'verified', signals: {} }),
+          },
         },
         {
-          provide: 'EbayApiService',
-          useValue: { getProductPrice: jest.fn() },
+          provide: CircuitBreakerService,
+          useValue: mockCircuitBreakerService,
         },
         {
-          provide: 'BestBuyApiService',
-          useValue: { getProductPrice: jest.fn() },
+          provide: PriceEngineMetricsService,
+          useValue: mockMetricsService,
         },
         {
-          provide: 'ZalandoApiService',
-          useValue: { getProductPrice: jest.fn() },
+          provide: PriceWatchEvaluatorService,
+          useValue: {
+            evaluate: jest.fn().mockResolvedValue(0),
+            getTriggeredWatches: jest.fn().mockResolvedValue([]),
+          },
         },
         {
-          provide: 'FarfetchApiService',
-          useValue: { getProductPrice: jest.fn() },
+          provide: StockTransitionService,
+          useValue: {
+            detect: jest.fn().mockResolvedValue(null),
+          },
         },
         {
-          provide: 'ScrapingService',
+          provide: PriceHistoryRollupService,
+          useValue: {
+            granularityFor: jest.fn().mockReturnValue('raw'),
+            getRollups: jest.fn().mockResolvedValue([]),
+          },
+        },
+        {
+          provide: PriceForecastService,
+          useValue: {
+            getForecast: jest.fn().mockResolvedValue(null),
+          },
+        },
+        {
+          provide: ScrapingService,
           useValue: { scrapeProductPrice: jest.fn() },
         },
         {
-          provide: 'ApifyService',
+          provide: ApifyService,
           useValue: { scrapeProduct: jest.fn() },
         },
         {
-          provide: 'PlaywrightService',
+          provide: PlaywrightService,
           useValue: { scrapeProduct: jest.fn() },
         },
       ],
@@ -157,6 +290,7 @@ describe('PriceEngineService', () => {
     it('should return cached prices when available', async () => {
       const cachedPrices = [mockPrice];
       mockCacheService.getCachedPrices.mockResolvedValue(cachedPrices);
+      mockRetailerRepository.find.mockResolvedValue([mockRetailer]);
 
       const result = await service.getProductPrices('product-123');
 
@@ -177,6 +311,34 @@ describe('PriceEngineService', () => {
       expect(mockRetailerRepository.find).toHaveBeenCalledWith({ where: { isActive: true } });
     });
 
+    it('should report the cheapest new offer separately from the cheapest overall', async () => {
+      mockCacheService.getCachedPrices.mockResolvedValue([
+        mockPrice,
+        { ...mockPrice, id: 'price-456', price: 59.99, condition: 'used', seller: { id: 'seller-1' } },
+      ]);
+      mockRetailerRepository.find.mockResolvedValue([mockRetailer]);
+
+      const result = await service.getProductPrices('product-123');
+
+      expect(result.lowestPrice.price).toBe(59.99);
+      expect(result.lowestNewPrice.price).toBe(99.99);
+      expect(result.totalRetailers).toBe(1);
+      expect(result.totalOffers).toBe(2);
+    });
+
+    it('should filter offers by condition', async () => {
+      mockCacheService.getCachedPrices.mockResolvedValue([
+        mockPrice,
+        { ...mockPrice, id: 'price-456', price: 59.99, condition: 'used', seller: { id: 'seller-1' } },
+      ]);
+      mockRetailerRepository.find.mockResolvedValue([mockRetailer]);
+
+      const result = await service.getProductPrices('product-123', { condition: ['new'] });
+
+      expect(result.prices).toHaveLength(1);
+      expect(result.lowestPrice.price).toBe(99.99);
+    });
+
     it('should throw error when product not found', async () => {
       mockCacheService.getCachedPrices.mockResolvedValue(null);
       mockProductRepository.findOne.mockResolvedValue(null);
@@ -185,6 +347,69 @@ describe('PriceEngineService', () => {
     });
   });
 
+  describe('streamProductPrices', () => {
+    const apiOffer = {
+      productId: 'product-123',
+      retailerId: 'retailer-123',
+      price: 89.99,
+      currency: 'USD',
+      inStock: true,
+      productUrl: 'https://example.com/product',
+      lastUpdated: new Date(),
+    };
+
+    it('should emit each offer as it arrives and finish with a summary', async () => {
+      const adapter = { capabilities: [], getProductPrice: jest.fn().mockResolvedValue({ ...apiOffer }) };
+      mockCacheService.getCachedPrices.mockResolvedValue(null);
+      mockProductRepository.findOne.mockResolvedValue(mockProduct);
+      mockRetailerRepository.find.mockResolvedValue([mockRetailer]);
+      mockAdapterRegistry.resolve.mockReturnValue(adapter);
+      mockPriceRepository.findOne.mockResolvedValue(null);
+      mockPriceRepository.create.mockImplementation(price => price);
+      mockPriceRepository.save.mockImplementation(price => Promise.resolve({ id: 'price-789', ...price }));
+
+      const events = await lastValueFrom(service.streamProductPrices('product-123').pipe(toArray()));
+
+      expect(events.map(event => event.type)).toEqual(['price', 'summary']);
+      expect(events[0].data).toMatchObject({
+        retailerId: 'retailer-123',
+        price: 89.99,
+        converted: expect.objectContaining({ currency: 'USD', price: 89.99 }),
+        landedCost: expect.objectContaining({ total: 89.99 }),
+      });
+      expect(events[1].data).toMatchObject({ totalOffers: 1, lowestPrice: expect.objectContaining({ price: 89.99 }) });
+      expect(mockCacheService.cachePrices).toHaveBeenCalledWith('product-123', [expect.objectContaining({ price: 89.99 })]);
+    });
+
+    it('should replay cached offers before the summary', async () => {
+      mockCacheService.getCachedPrices.mockResolvedValue([
+        mockPrice,
+        { ...mockPrice, id: 'price-456', price: 59.99, condition: 'used', seller: { id: 'seller-1' } },
+      ]);
+      mockRetailerRepository.find.mockResolvedValue([mockRetailer]);
+
+      const events = await lastValueFrom(service.streamProductPrices('product-123', { condition: ['new'] }).pipe(toArray()));
+
+      expect(events.map(event => event.type)).toEqual(['price', 'summary']);
+      expect(events[1].data).toMatchObject({ lowestPrice: expect.objectContaining({ price: 99.99 }) });
+      expect(mockAdapterRegistry.resolve).not.toHaveBeenCalled();
+    });
+
+    it('should end the stream with an error when the product does not exist', async () => {
+      mockCacheService.getCachedPrices.mockResolvedValue(null);
+      mockProductRepository.findOne.mockResolvedValue(null);
+      mockRetailerRepository.find.mockResolvedValue([mockRetailer]);
+      const next = jest.fn();
+
+      const error = await new Promise<Error>(resolve => {
+        service.streamProductPrices('product-123').subscribe({ next, error: resolve });
+      });
+
+      expect(error.message).toBe('Product not found: product-123');
+      expect(next).not.toHaveBeenCalled();
+    });
+  });
+
   describe('updateProductPrice', () => {
     it('should update price for specific product and retailer', async () => {
       mockProductRepository.findOne.mockResolvedValue(mockProduct);
@@ -196,6 +421,23 @@ describe('PriceEngineService', () => {
       expect(mockRetailerRepository.findOne).toHaveBeenCalledWith({ where: { id: 'retailer-123' } });
     });
 
+    it('should defer the update instead of calling the API when the retailer\'s budget is spent', async () => {
+      const adapter = { capabilities: [], getProductPrice: jest.fn() };
+      mockProductRepository.findOne.mockResolvedValue(mockProduct);
+      mockRetailerRepository.findOne.mockResolvedValue({ ...mockRetailer, isScraperEnabled: false, apiConfig: { rateLimit: 60 } });
+      mockAdapterRegistry.resolve.mockReturnValue(adapter);
+      mockRateLimitService.consume.mockResolvedValueOnce({ allowed: false, remaining: 0, retryAfterMs: 2000 });
+
+      await service.updateProductPrice('product-123', 'retailer-123');
+
+      expect(mockRateLimitService.consume).toHaveBeenCalledWith('retailer:retailer-123', 60, 1);
+      expect(adapter.getProductPrice).not.toHaveBeenCalled();
+      expect(mockQueueService.deferPriceUpdateJob).toHaveBeenCalledWith(
+        { productId: 'product-123', retailerId: 'retailer-123', priority: 'low' },
+        2000,
+      );
+    });
+
     it('should throw error when product or retailer not found', async () => {
       mockProductRepository.findOne.mockResolvedValue(null);
       mockRetailerRepository.findOne.mockResolvedValue(mockRetailer);
@@ -219,6 +461,19 @@ describe('PriceEngineService', () => {
 
       expect(mockRetailerRepository.findOne).toHaveBeenCalledWith({ where: { id: 'retailer-123' } });
       expect(mockProductRepository.findOne).toHaveBeenCalledWith({ where: { id: 'product-123' } });
+      expect(mockCircuitBreakerService.execute).toHaveBeenCalledWith(mockRetailer, 'scraper', expect.any(Function));
+    });
+
+    it('should quote from the sandbox instead of scraping live pages in sandbox mode', async () => {
+      mockRetailerRepository.findOne.mockResolvedValue({ ...mockRetailer, domain: 'shop.example.com', currency: 'USD' });
+      mockProductRepository.findOne.mockResolvedValue(mockProduct);
+      mockSandboxService.isEnabled.mockReturnValueOnce(true);
+
+      const result = await service.scrapeProductPrice('retailer-123', 'https://example.com/product', 'product-123');
+
+      expect(result).toMatchObject({ productId: 'product-123', retailerId: 'retailer-123', price: 100, metadata: { source: 'scraper' } });
+      expect(mockSandboxService.simulate).toHaveBeenCalledWith('scraper', 'scraper:product-123:', expect.any(Function));
+      expect(mockCircuitBreakerService.execute).not.toHaveBeenCalled();
     });
 
     it('should throw error when retailer not found', async () => {
@@ -250,21 +505,32 @@ describe('PriceEngineService', () => {
   });
 
   describe('getPriceEngineStats', () => {
-    it('should return price engine statistics', async () => {
+    it('should return price engine statistics from recorded call metrics', async () => {
       mockProductRepository.count.mockResolvedValue(100);
       mockRetailerRepository.count.mockResolvedValue(10);
+      mockRetailerRepository.find.mockResolvedValue([{ id: 'retailer-123', name: 'Test Retailer' }]);
       mockPriceRepository.count.mockResolvedValue(1000);
 
       const result = await service.getPriceEngineStats();
 
-      expect(result).toEqual({
+      expect(result).toMatchObject({
         totalProducts: 100,
         totalRetailers: 10,
         totalPrices: 1000,
-        averageResponseTime: 1200,
-        successRate: 0.95,
+        averageResponseTime: 350,
+        successRate: 0.75,
+        cache: { prices: { '24h': { hitRatio: 0.25 } } },
         lastUpdated: expect.any(Date),
       });
+      expect(result.methods[0]).toMatchObject({ retailerName: 'Test Retailer', method: 'getProductPrice' });
+      expect(mockRetailerRepository.count).toHaveBeenCalledWith({ where: { isActive: true } });
+    });
+
+    it('should return null when the counts cannot be loaded', async () => {
+      mockRetailerRepository.find.mockResolvedValue([]);
+      mockProductRepository.count.mockRejectedValue(new Error('connection lost'));
+
+      expect(await service.getPriceEngineStats()).toBeNull();
     });
   });
 });
\ No newline at end of file
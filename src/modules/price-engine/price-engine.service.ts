@@ -1,23 +1,35 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, MessageEvent } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { PriceEngineService as BasePriceEngineService } from './interfaces/price-engine.interface';
-import { AmazonApiService } from './services/amazon-api.service';
-import { WalmartApiService } from './services/walmart-api.service';
-import { EbayApiService } from './services/ebay-api.service';
-import { BestBuyApiService } from './services/bestbuy-api.service';
-import { ZalandoApiService } from './services/zalando-api.service';
-import { FarfetchApiService } from './services/farfetch-api.service';
+import { Repository, In } from 'typeorm';
+import { Observable } from 'rxjs';
+import { RetailerAdapterRegistry, RetailerAdapterDescriptor } from './services/retailer-adapter-registry.service';
+import { FxRatesService, FxRateTable } from './services/fx-rates.service';
+import { LandedCostService, LandedCost } from './services/landed-cost.service';
+import { EffectivePriceService, EffectivePriceStep } from './services/effective-price.service';
+import { ListingMatchService, ListingMatch } from './services/listing-match.service';
+import { CircuitBreakerService, CircuitStatus } from './services/circuit-breaker.service';
+import { PriceEngineMetricsService, PriceEngineMetrics } from './services/price-engine-metrics.service';
+import { PriceWatchEvaluatorService } from './services/price-watch-evaluator.service';
+import { StockTransitionService } from './services/stock-transition.service';
+import { PriceHistoryRollupService } from './services/price-history-rollup.service';
+import { PriceForecastService, PriceForecast, PriceForecastOptions } from './services/price-forecast.service';
 import { ScrapingService } from './services/scraping.service';
 import { ApifyService } from './services/apify.service';
 import { PlaywrightService } from './services/playwright.service';
+import { RetailerRegionService } from './services/retailer-region.service';
+import { SandboxRetailerAdapter } from './services/sandbox-retailer.adapter';
+import { RetailerMarketplace } from './interfaces/price-engine.interface';
 import { CacheService } from '../../common/cache/cache.service';
 import { QueueService } from '../../common/queue/queue.service';
+import { RateLimitService } from '../../common/rate-limit/rate-limit.service';
+import { SandboxService } from '../../common/sandbox/sandbox.service';
 import { Product } from '../../database/entities/product.entity';
 import { Retailer } from '../../database/entities/retailer.entity';
-import { Price } from '../../database/entities/price.entity';
+import { Price, OfferCondition } from '../../database/entities/price.entity';
 import { PriceHistory } from '../../database/entities/price-history.entity';
+import { PriceHistoryRollup } from '../../database/entities/price-history-rollup.entity';
+import { PriceWatch } from '../../database/entities/price-watch.entity';
 
 export interface PriceResult {
   productId: string;
@@ -56,27 +68,78 @@ export interface PriceResult {
     };
   };
   metadata: {
-    source: 'api' | 'scraper' | 'manual';
+    source: 'api' | 'scraper' | 'feed' | 'manual';
     confidence: number;
     lastVerified: Date;
     dataQuality: 'high' | 'medium' | 'low';
   };
+  effectivePrice?: number;
+  effectivePriceBreakdown?: EffectivePriceStep[];
+  converted?: {
+    currency: string;
+    rate: number;
+    price: number;
+    effectivePrice?: number;
+    originalPrice?: number;
+    shippingCost?: number;
+  };
+  landedCost?: LandedCost;
+  listing?: {
+    title?: string;
+    brand?: string;
+    gtin?: string;
+    modelNumber?: string;
+  };
+  match?: ListingMatch;
+  seller?: {
+    id: string;
+    name?: string;
+    // 0-5 scale
+    rating?: number;
+    ratingCount?: number;
+  };
+  condition?: OfferCondition;
+  // Country of the regional storefront the offer came from; empty for the retailer's default storefront
+  marketplace?: string;
+}
+
+export interface PriceComparisonOptions {
+  currency?: string;
+  country?: string;
+  includeReturnCost?: boolean;
+  condition?: OfferCondition[];
 }
 
 export interface PriceComparisonResult {
   product: Product;
+  currency: string;
   prices: PriceResult[];
   lowestPrice: PriceResult | null;
+  lowestNewPrice: PriceResult | null;
   highestPrice: PriceResult | null;
   averagePrice: number;
   totalRetailers: number;
+  totalOffers: number;
+  forecast: PriceForecast | null;
+  lastUpdated: Date;
+}
+
+export type PriceComparisonSummary = Omit<PriceComparisonResult, 'product' | 'prices'>;
+
+export interface PriceEngineStats extends PriceEngineMetrics {
+  totalProducts: number;
+  totalRetailers: number;
+  totalPrices: number;
+  // Over the last 24 hours; null until a retailer has been called
+  averageResponseTime: number | null;
+  successRate: number | null;
+  methods: (PriceEngineMetrics['methods'][number] & { retailerName: string | null })[];
   lastUpdated: Date;
 }
 
 @Injectable()
 export class PriceEngineService {
   private readonly logger = new Logger(PriceEngineService.name);
-  private readonly priceServices: Map<string, BasePriceEngineService> = new Map();
 
   constructor(
     private readonly configService: ConfigService,
@@ -88,49 +151,44 @@ export class PriceEngineService {
     private readonly priceRepository: Repository<Price>,
     @InjectRepository(PriceHistory)
     private readonly priceHistoryRepository: Repository<PriceHistory>,
-    private readonly amazonApiService: AmazonApiService,
-    private readonly walmartApiService: WalmartApiService,
-    private readonly ebayApiService: EbayApiService,
-    private readonly bestBuyApiService: BestBuyApiService,
-    private readonly zalandoApiService: ZalandoApiService,
-    private readonly farfetchApiService: FarfetchApiService,
+    private readonly adapterRegistry: RetailerAdapterRegistry,
+    private readonly fxRatesService: FxRatesService,
+    private readonly landedCostService: LandedCostService,
+    private readonly effectivePriceService: EffectivePriceService,
+    private readonly listingMatchService: ListingMatchService,
+    private readonly circuitBreaker: CircuitBreakerService,
+    private readonly metricsService: PriceEngineMetricsService,
+    private readonly priceWatchEvaluator: PriceWatchEvaluatorService,
+    private readonly stockTransitionService: StockTransitionService,
+    private readonly priceHistoryRollupService: PriceHistoryRollupService,
+    private readonly priceForecastService: PriceForecastService,
     private readonly scrapingService: ScrapingService,
     private readonly apifyService: ApifyService,
     private readonly playwrightService: PlaywrightService,
+    private readonly retailerRegionService: RetailerRegionService,
     private readonly cacheService: CacheService,
     private readonly queueService: QueueService,
-  ) {
-    this.initializePriceServices();
-  }
-
-  /**
-   * Initialize price services
-   */
-  private initializePriceServices(): void {
-    this.priceServices.set('amazon', this.amazonApiService);
-    this.priceServices.set('walmart', this.walmartApiService);
-    this.priceServices.set('ebay', this.ebayApiService);
-    this.priceServices.set('bestbuy', this.bestBuyApiService);
-    this.priceServices.set('zalando', this.zalandoApiService);
-    this.priceServices.set('farfetch', this.farfetchApiService);
-  }
+    private readonly rateLimitService: RateLimitService,
+    private readonly sandboxService: SandboxService,
+  ) {}
 
   /**
    * Get prices for a product across all retailers
    */
-  async getProductPrices(productId: string): Promise<PriceComparisonResult> {
+  async getProductPrices(productId: string, options: PriceComparisonOptions = {}): Promise<PriceComparisonResult> {
     try {
       this.logger.log(`Getting prices for product ${productId}`);
 
       // Check cache first
-      const cachedPrices = await this.cacheService.getCachedPrices(productId);
+      const cachedPrices = await this.cacheService.getCachedPrices(this.priceCacheId(productId, options));
+      this.metricsService.recordCacheLookup('prices', !!cachedPrices);
       if (cachedPrices) {
         this.logger.log(`Cache hit for product prices: ${productId}`);
-        return this.buildPriceComparisonResult(productId, cachedPrices);
+        return await this.buildPriceComparisonResult(productId, cachedPrices, options);
       }
 
       // Get product and active retailers
-      const [product, retailers] = await Promise.all([
+      const [product, activeRetailers] = await Promise.all([
         this.productRepository.findOne({ where: { id: productId } }),
         this.retailerRepository.find({ where: { isActive: true } }),
       ]);
@@ -139,9 +197,12 @@ export class PriceEngineService {
         throw new Error(`Product not found: ${productId}`);
       }
 
-      // Fetch prices from all retailers in parallel
+      // Only compare retailers that can deliver to the shopper
+      const retailers = activeRetailers.filter(retailer => this.retailerRegionService.servesCountry(retailer, options.country));
+
+      // Fetch offers from all retailers in parallel
       const pricePromises = retailers.map(retailer => 
-        this.fetchPriceFromRetailer(product, retailer)
+        this.fetchOffersFromRetailer(product, retailer, this.retailerRegionService.resolveMarketplace(retailer, options.country))
       );
 
       const priceResults = await Promise.allSettled(pricePromises);
@@ -152,8 +213,8 @@ export class PriceEngineService {
         const result = priceResults[i];
         const retailer = retailers[i];
 
-        if (result.status === 'fulfilled' && result.value) {
-          prices.push(result.value);
+        if (result.status === 'fulfilled') {
+          prices.push(...result.value);
         } else {
           this.logger.error(`Failed to fetch price from ${retailer.name}:`, 
             result.status === 'rejected' ? result.reason : 'Unknown error');
@@ -161,12 +222,12 @@ export class PriceEngineService {
       }
 
       // Cache results
-      await this.cacheService.cachePrices(productId, prices);
+      await this.cacheService.cachePrices(this.priceCacheId(productId, options), prices);
 
       // Save prices to database
       await this.savePricesToDatabase(prices);
 
-      return this.buildPriceComparisonResult(productId, prices);
+      return await this.buildPriceComparisonResult(productId, prices, options);
     } catch (error) {
       this.logger.error(`Failed to get prices for product ${productId}:`, error);
       throw error;
@@ -174,34 +235,201 @@ export class PriceEngineService {
   }
 
   /**
-   * Fetch price from a specific retailer
+   * Stream prices as each retailer resolves, followed by a summary event
    */
-  private async fetchPriceFromRetailer(product: Product, retailer: Retailer): Promise<PriceResult | null> {
-    try {
-      // Try API first if available
-      if (retailer.isApiEnabled) {
-        const apiService = this.priceServices.get(retailer.name.toLowerCase());
-        if (apiService) {
-          const apiResult = await apiService.getProductPrice(product, retailer);
-          if (apiResult) {
-            return apiResult;
+  streamProductPrices(productId: string, options: PriceComparisonOptions = {}): Observable<MessageEvent> {
+    return new Observable<MessageEvent>(subscriber => {
+      let closed = false;
+      const emit = (type: 'price' | 'summary', data: PriceResult | PriceComparisonSummary) => {
+        if (!closed) {
+          subscriber.next({ type, data });
+        }
+      };
+
+      const run = async () => {
+        const cachedPrices = await this.cacheService.getCachedPrices(this.priceCacheId(productId, options));
+        this.metricsService.recordCacheLookup('prices', !!cachedPrices);
+        if (cachedPrices) {
+          const comparison = await this.buildPriceComparisonResult(productId, cachedPrices, options);
+          comparison.prices.forEach(price => emit('price', price));
+          emit('summary', this.summarizeComparison(comparison));
+          return;
+        }
+
+        const [product, activeRetailers, rateTable] = await Promise.all([
+          this.productRepository.findOne({ where: { id: productId } }),
+          this.retailerRepository.find({ where: { isActive: true } }),
+          this.fxRatesService.getRateTable(),
+        ]);
+
+        if (!product) {
+          throw new Error(`Product not found: ${productId}`);
+        }
+
+        const retailers = activeRetailers.filter(retailer => this.retailerRegionService.servesCountry(retailer, options.country));
+        const currency = this.resolveCurrency(options);
+        const prices: PriceResult[] = [];
+
+        await Promise.all(retailers.map(async retailer => {
+          const marketplace = this.retailerRegionService.resolveMarketplace(retailer, options.country);
+          const offers = await this.fetchOffersFromRetailer(product, retailer, marketplace);
+
+          for (const price of offers) {
+            prices.push(price);
+            if (this.matchesCondition(price, options)) {
+              this.enrichPrice(price, retailer, currency, rateTable, options);
+              emit('price', price);
+            }
+          }
+        }));
+
+        await this.cacheService.cachePrices(this.priceCacheId(productId, options), prices);
+        await this.savePricesToDatabase(prices);
+
+        const comparison = await this.buildPriceComparisonResult(productId, prices, options);
+        emit('summary', this.summarizeComparison(comparison));
+      };
+
+      run()
+        .then(() => subscriber.complete())
+        .catch(error => {
+          this.logger.error(`Failed to stream prices for product ${productId}:`, error);
+          subscriber.error(error);
+        });
+
+      return () => {
+        closed = true;
+      };
+    });
+  }
+
+  /**
+   * Offers differ by region, so each shopper country gets its own cache entry
+   */
+  private priceCacheId(productId: string, options: PriceComparisonOptions): string {
+    return options.country ? `${productId}:${options.country.toUpperCase()}` : productId;
+  }
+
+  /**
+   * Fetch every offer for a product from a specific retailer, from the storefront serving the shopper's region
+   */
+  private async fetchOffersFromRetailer(
+    product: Product,
+    retailer: Retailer,
+    marketplace?: RetailerMarketplace,
+  ): Promise<PriceResult[]> {
+    const offers = await this.fetchRetailerOffers(product, retailer, marketplace);
+    for (const offer of offers) {
+      offer.marketplace = marketplace ? marketplace.storefront : '';
+    }
+    return offers;
+  }
+
+  private async fetchRetailerOffers(
+    product: Product,
+    retailer: Retailer,
+    marketplace?: RetailerMarketplace,
+  ): Promise<PriceResult[]> {
+    // Try API first if available
+    if (retailer.isApiEnabled) {
+      try {
+        const adapter = this.adapterRegistry.resolve(retailer);
+        if (adapter && await this.acquireApiBudget(product, retailer)) {
+          // Marketplaces list several sellers and conditions; other adapters return the retailer's own offer
+          const apiResults = adapter.getProductOffers && adapter.capabilities.includes('marketplace')
+            ? await this.circuitBreaker.execute(retailer, 'api', () =>
+              this.metricsService.track(retailer, 'getProductOffers', 'api', () => adapter.getProductOffers(product, retailer, marketplace)))
+            : [await this.circuitBreaker.execute(retailer, 'api', () =>
+              this.metricsService.track(retailer, 'getProductPrice', 'api', () => adapter.getProductPrice(product, retailer, marketplace)))];
+
+          const offers = (apiResults || [])
+            .map(result => this.verifyListingMatch(product, retailer, result))
+            .filter(result => !!result);
+          if (offers.length > 0) {
+            return offers;
           }
         }
+      } catch (error) {
+        this.logger.error(`API price fetch failed for ${retailer.name}:`, error);
       }
+    }
 
-      // Fallback to scraping
-      if (retailer.isScraperEnabled) {
-        const scraperResult = await this.scrapingService.scrapeProductPrice(product, retailer);
+    // Fallback to scraping, which would reach the live site in sandbox mode
+    if (retailer.isScraperEnabled && !this.sandboxService.isEnabled()) {
+      try {
+        const scraperResult = this.verifyListingMatch(
+          product,
+          retailer,
+          await this.circuitBreaker.execute(
+            retailer,
+            'scraper',
+            () => this.metricsService.track(
+              retailer,
+              'scrapeProductPrice',
+              'scraper',
+              () => this.scrapingService.scrapeProductPrice(product, retailer, marketplace),
+            ),
+          ),
+        );
         if (scraperResult) {
-          return scraperResult;
+          return [scraperResult];
         }
+      } catch (error) {
+        this.logger.error(`Failed to scrape price from ${retailer.name}:`, error);
       }
+    }
+
+    return [];
+  }
+
+  /**
+   * Take one call from the retailer's API budget, deferring the update when it is spent.
+   * apiConfig.rateLimit is requests per minute.
+   */
+  private async acquireApiBudget(product: Product, retailer: Retailer): Promise<boolean> {
+    const rateLimit = retailer.apiConfig?.rateLimit;
+    if (!rateLimit) {
+      return true;
+    }
+
+    const result = await this.rateLimitService.consume(`retailer:${retailer.id}`, rateLimit, rateLimit / 60);
+    if (result.allowed) {
+      return true;
+    }
+
+    this.logger.warn(`API budget exhausted for ${retailer.name}, deferring update by ${result.retryAfterMs}ms`);
+    await this.queueService.deferPriceUpdateJob(
+      { productId: product.id, retailerId: retailer.id, priority: 'low' },
+      result.retryAfterMs,
+    );
 
+    return false;
+  }
+
+  /**
+   * Attach a match score to a retailer result, dropping listings that are not the product
+   */
+  private verifyListingMatch(product: Product, retailer: Retailer, result: PriceResult | null): PriceResult | null {
+    if (!result) {
       return null;
-    } catch (error) {
-      this.logger.error(`Failed to fetch price from ${retailer.name}:`, error);
+    }
+
+    result.match = this.listingMatchService.verify(product, result);
+
+    if (result.match.status === 'rejected') {
+      this.logger.warn(
+        `Rejected ${retailer.name} listing "${result.listing?.title}" for product ${product.id} (score ${result.match.score})`,
+      );
       return null;
     }
+
+    if (result.match.status === 'flagged') {
+      this.logger.warn(
+        `Flagged ${retailer.name} listing "${result.listing?.title}" for product ${product.id} (score ${result.match.score})`,
+      );
+    }
+
+    return result;
   }
 
   /**
@@ -218,10 +446,10 @@ export class PriceEngineService {
         throw new Error(`Product or retailer not found: ${productId}, ${retailerId}`);
       }
 
-      const priceResult = await this.fetchPriceFromRetailer(product, retailer);
-      if (priceResult) {
-        await this.savePriceToDatabase(priceResult);
-        this.logger.log(`Updated price for product ${productId} at retailer ${retailerId}`);
+      const offers = await this.fetchOffersFromRetailer(product, retailer);
+      if (offers.length > 0) {
+        await this.savePricesToDatabase(offers);
+        this.logger.log(`Updated ${offers.length} offers for product ${productId} at retailer ${retailerId}`);
       }
     } catch (error) {
       this.logger.error(`Failed to update price for product ${productId} at retailer ${retailerId}:`, error);
@@ -244,11 +472,21 @@ export class PriceEngineService {
         throw new Error(`Product not found: ${productId}`);
       }
 
-      // Try different scraping methods
+      // Sandbox mode never reaches live sites; a stand-in scraper quotes from the fixtures instead
+      if (this.sandboxService.isEnabled()) {
+        const sandboxScraper = new SandboxRetailerAdapter({ adapterId: 'scraper', capabilities: [] }, this.sandboxService);
+        const offer = await sandboxScraper.getProductPrice(product, retailer);
+        return offer ? { ...offer, metadata: { ...offer.metadata, source: 'scraper' } } : null;
+      }
+
+      // Try different scraping methods; all share the retailer's scraper circuit
       const scrapingMethods = [
-        () => this.apifyService.scrapeProduct(productUrl, retailer),
-        () => this.playwrightService.scrapeProduct(productUrl, retailer),
-        () => this.scrapingService.scrapeProductPrice(product, retailer),
+        () => this.circuitBreaker.execute(retailer, 'scraper', () =>
+          this.metricsService.track(retailer, 'apify', 'scraper', () => this.apifyService.scrapeProduct(productUrl, retailer))),
+        () => this.circuitBreaker.execute(retailer, 'scraper', () =>
+          this.metricsService.track(retailer, 'playwright', 'scraper', () => this.playwrightService.scrapeProduct(productUrl, retailer))),
+        () => this.circuitBreaker.execute(retailer, 'scraper', () =>
+          this.metricsService.track(retailer, 'scrapeProductPrice', 'scraper', () => this.scrapingService.scrapeProductPrice(product, retailer))),
       ];
 
       for (const method of scrapingMethods) {
@@ -284,18 +522,37 @@ export class PriceEngineService {
   }
 
   /**
-   * Save single price to database
+   * Save single price to database, recording history when it changed. Resolves true when the offer is new.
    */
-  private async savePriceToDatabase(priceData: PriceResult): Promise<void> {
+  async savePriceToDatabase(priceData: PriceResult): Promise<boolean> {
     try {
       // Update or create price record
+      const marketplace = priceData.marketplace || '';
+      const sellerId = priceData.seller?.id || '';
+      const condition = priceData.condition || 'new';
+
       let price = await this.priceRepository.findOne({
         where: {
           productId: priceData.productId,
           retailerId: priceData.retailerId,
+          marketplace,
+          sellerId,
+          condition,
         },
       });
 
+      const previous = price
+        ? { price: price.price, currency: price.currency, inStock: price.inStock, availability: price.availability }
+        : null;
+
+      // Only record history when something a shopper would notice has changed
+      const changed = !price
+        || Number(price.price) !== Number(priceData.price)
+        || price.currency !== priceData.currency
+        || price.inStock !== priceData.inStock
+        || price.availability?.status !== priceData.availability?.status
+        || JSON.stringify(price.promotions || []) !== JSON.stringify(priceData.promotions || []);
+
       if (price) {
         // Update existing price
         price.price = priceData.price;
@@ -313,12 +570,21 @@ export class PriceEngineService {
         price.promotions = priceData.promotions;
         price.ratings = priceData.ratings;
         price.metadata = priceData.metadata;
+        price.matchScore = priceData.match?.score;
+        price.matchStatus = priceData.match?.status;
+        price.sellerName = priceData.seller?.name;
+        price.sellerRating = priceData.seller?.rating;
         price.updatedAt = new Date();
       } else {
         // Create new price record
         price = this.priceRepository.create({
           productId: priceData.productId,
           retailerId: priceData.retailerId,
+          marketplace,
+          sellerId,
+          sellerName: priceData.seller?.name,
+          sellerRating: priceData.seller?.rating,
+          condition,
           price: priceData.price,
           currency: priceData.currency,
           originalPrice: priceData.originalPrice,
@@ -334,15 +600,27 @@ export class PriceEngineService {
           promotions: priceData.promotions,
           ratings: priceData.ratings,
           metadata: priceData.metadata,
+          matchScore: priceData.match?.score,
+          matchStatus: priceData.match?.status,
         });
       }
 
+      const created = !price.id;
       await this.priceRepository.save(price);
+      await this.priceWatchEvaluator.evaluate(price, previous);
+      await this.stockTransitionService.detect(price, previous);
+
+      if (!changed) {
+        return created;
+      }
 
       // Save to price history
       const priceHistory = this.priceHistoryRepository.create({
         productId: priceData.productId,
         retailerId: priceData.retailerId,
+        marketplace,
+        sellerId,
+        condition,
         price: priceData.price,
         currency: priceData.currency,
         originalPrice: priceData.originalPrice,
@@ -354,6 +632,7 @@ export class PriceEngineService {
       });
 
       await this.priceHistoryRepository.save(priceHistory);
+      return created;
     } catch (error) {
       this.logger.error('Failed to save price to database:', error);
       throw error;
@@ -361,36 +640,134 @@ export class PriceEngineService {
   }
 
   /**
-   * Build price comparison result
+   * Build price comparison result in the requested currency, ranked on landed cost
    */
-  private buildPriceComparisonResult(productId: string, prices: PriceResult[]): PriceComparisonResult {
-    const lowestPrice = prices.reduce((lowest, current) => 
-      current.price < lowest.price ? current : lowest, prices[0]);
-    
-    const highestPrice = prices.reduce((highest, current) => 
-      current.price > highest.price ? current : highest, prices[0]);
+  private async buildPriceComparisonResult(
+    productId: string,
+    allPrices: PriceResult[],
+    options: PriceComparisonOptions,
+  ): Promise<PriceComparisonResult> {
+    const prices = allPrices.filter(price => this.matchesCondition(price, options));
+    const currency = this.resolveCurrency(options);
+    const [rateTable, retailers, forecast] = await Promise.all([
+      this.fxRatesService.getRateTable(),
+      prices.length > 0
+        ? this.retailerRepository.find({ where: { id: In(prices.map(price => price.retailerId)) } })
+        : Promise.resolve([] as Retailer[]),
+      // A forecast is a nice-to-have; never fail the comparison over it
+      this.priceForecastService.getForecast(productId, { currency }).catch(() => null),
+    ]);
+    const retailersById = new Map(retailers.map(retailer => [retailer.id, retailer]));
+
+    for (const price of prices) {
+      this.enrichPrice(price, retailersById.get(price.retailerId) || null, currency, rateTable, options);
+    }
+
+    // Rank on what the buyer actually pays; unconvertible prices go last
+    prices.sort((a, b) => {
+      if (!a.landedCost || !b.landedCost) {
+        return a.landedCost ? -1 : b.landedCost ? 1 : 0;
+      }
+      return a.landedCost.total - b.landedCost.total;
+    });
+
+    const comparablePrices = prices.filter(price => price.landedCost);
 
-    const averagePrice = prices.reduce((sum, price) => sum + price.price, 0) / prices.length;
+    const lowestPrice = comparablePrices[0];
+    const lowestNewPrice = comparablePrices.find(price => (price.condition || 'new') === 'new');
+    const highestPrice = comparablePrices[comparablePrices.length - 1];
+
+    const averagePrice = comparablePrices.length > 0
+      ? comparablePrices.reduce((sum, price) => sum + price.converted.price, 0) / comparablePrices.length
+      : 0;
 
     return {
       product: { id: productId } as Product,
+      currency,
       prices,
       lowestPrice: lowestPrice || null,
+      lowestNewPrice: lowestNewPrice || null,
       highestPrice: highestPrice || null,
-      averagePrice,
-      totalRetailers: prices.length,
+      averagePrice: Math.round(averagePrice * 100) / 100,
+      totalRetailers: new Set(prices.map(price => price.retailerId)).size,
+      totalOffers: prices.length,
+      forecast,
       lastUpdated: new Date(),
     };
   }
 
   /**
-   * Get price history for a product
+   * Add the effective price, converted price and landed cost in the requested currency
    */
-  async getPriceHistory(productId: string, retailerId?: string, days = 30): Promise<PriceHistory[]> {
+  private enrichPrice(
+    price: PriceResult,
+    retailer: Retailer | null,
+    currency: string,
+    rateTable: FxRateTable,
+    options: PriceComparisonOptions,
+  ): void {
+    const effective = this.effectivePriceService.calculate(price, retailer);
+    price.effectivePrice = effective.effectivePrice;
+    price.effectivePriceBreakdown = effective.breakdown;
+
+    const rate = this.fxRatesService.getRate(price.currency || currency, currency, rateTable);
+    if (rate === null) {
+      this.logger.warn(`No FX rate from ${price.currency} to ${currency}, excluding retailer ${price.retailerId} from ranking`);
+      price.converted = undefined;
+      price.landedCost = undefined;
+      return;
+    }
+
+    price.converted = {
+      currency,
+      rate,
+      price: this.fxRatesService.convert(price.price, price.currency, currency, rateTable),
+      effectivePrice: this.fxRatesService.convert(price.effectivePrice, price.currency, currency, rateTable),
+      originalPrice: this.fxRatesService.convert(price.originalPrice, price.currency, currency, rateTable),
+      shippingCost: this.fxRatesService.convert(price.shippingCost, price.currency, currency, rateTable),
+    };
+
+    const landedCost = this.landedCostService.calculate(price, retailer, options);
+    price.landedCost = {
+      itemPrice: this.fxRatesService.convert(landedCost.itemPrice, price.currency, currency, rateTable),
+      shipping: this.fxRatesService.convert(landedCost.shipping, price.currency, currency, rateTable),
+      tax: this.fxRatesService.convert(landedCost.tax, price.currency, currency, rateTable),
+      returnPenalty: this.fxRatesService.convert(landedCost.returnPenalty, price.currency, currency, rateTable),
+      total: this.fxRatesService.convert(landedCost.total, price.currency, currency, rateTable),
+      currency,
+    };
+  }
+
+  private summarizeComparison(comparison: PriceComparisonResult): PriceComparisonSummary {
+    const { product, prices, ...summary } = comparison;
+    return summary;
+  }
+
+  private matchesCondition(price: PriceResult, options: PriceComparisonOptions): boolean {
+    return !options.condition?.length || options.condition.includes(price.condition || 'new');
+  }
+
+  private resolveCurrency(options: PriceComparisonOptions): string {
+    return (options.currency || this.configService.get<string>('DEFAULT_CURRENCY', 'USD')).toUpperCase();
+  }
+
+  /**
+   * Get price history for a product. Ranges beyond raw retention read daily or weekly OHLC rollups.
+   */
+  async getPriceHistory(
+    productId: string,
+    retailerId?: string,
+    days = 30,
+  ): Promise<PriceHistory[] | PriceHistoryRollup[]> {
     try {
       const startDate = new Date();
       startDate.setDate(startDate.getDate() - days);
 
+      const granularity = this.priceHistoryRollupService.granularityFor(days);
+      if (granularity !== 'raw') {
+        return await this.priceHistoryRollupService.getRollups(productId, retailerId, granularity, startDate);
+      }
+
       const query = this.priceHistoryRepository
         .createQueryBuilder('ph')
         .where('ph.productId = :productId', { productId })
@@ -409,13 +786,23 @@ export class PriceEngineService {
   }
 
   /**
-   * Get price alerts for users
+   * Forecast whether to buy now or wait for a drop
+   */
+  async getPriceForecast(productId: string, options: PriceForecastOptions = {}): Promise<PriceForecast> {
+    const product = await this.productRepository.findOne({ where: { id: productId } });
+    if (!product) {
+      throw new Error(`Product not found: ${productId}`);
+    }
+
+    return await this.priceForecastService.getForecast(productId, options);
+  }
+
+  /**
+   * Get a user's price watches that have alerted
    */
-  async getPriceAlerts(): Promise<any[]> {
+  async getPriceAlerts(userId: string): Promise<PriceWatch[]> {
     try {
-      // TODO: Implement price alerts logic
-      // This would check for products that have dropped below user-set thresholds
-      return [];
+      return await this.priceWatchEvaluator.getTriggeredWatches(userId);
     } catch (error) {
       this.logger.error('Failed to get price alerts:', error);
       throw error;
@@ -423,16 +810,36 @@ export class PriceEngineService {
   }
 
   /**
-   * Get price engine statistics
+   * Describe registered retailer adapters
+   */
+  getRetailerAdapters(): RetailerAdapterDescriptor[] {
+    return this.adapterRegistry.describe();
+  }
+
+  /**
+   * Get circuit breaker state for retailer calls made by this process
    */
-  async getPriceEngineStats(): Promise<any> {
+  getCircuitStatus(): CircuitStatus[] {
+    return this.circuitBreaker.getStatus();
+  }
+
+  /**
+   * Get price engine statistics. Call metrics cover the last 24 hours of this process.
+   */
+  async getPriceEngineStats(): Promise<PriceEngineStats> {
     try {
-      const stats = {
+      const metrics = this.metricsService.getMetrics();
+      const retailers = await this.retailerRepository.find({ select: ['id', 'name'] });
+      const names = new Map(retailers.map(retailer => [retailer.id, retailer.name]));
+
+      const stats: PriceEngineStats = {
         totalProducts: await this.productRepository.count(),
         totalRetailers: await this.retailerRepository.count({ where: { isActive: true } }),
         totalPrices: await this.priceRepository.count(),
-        averageResponseTime: 1200, // This would be calculated from actual metrics
-        successRate: 0.95, // This would be calculated from actual metrics
+        averageResponseTime: metrics.windows['24h'].latencyMs.avg,
+        successRate: metrics.windows['24h'].successRate,
+        ...metrics,
+        methods: metrics.methods.map(method => ({ ...method, retailerName: names.get(method.retailerId) || null })),
         lastUpdated: new Date(),
       };
 
@@ -0,0 +1,50 @@
+import { Module } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { ConfigModule } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AppDataSource } from '../../../database/data-source';
+import { ScraperFixture } from '../../../database/entities/scraper-fixture.entity';
+import { Retailer } from '../../../database/entities/retailer.entity';
+import { ScraperFixtureService } from '../services/scraper-fixture.service';
+import { HtmlExtractionService } from '../services/html-extraction.service';
+
+// Only what the regression needs: stored fixtures are re-extracted offline, nothing is fetched
+@Module({
+  imports: [
+    ConfigModule.forRoot({ isGlobal: true }),
+    TypeOrmModule.forRoot({ ...AppDataSource.options, logging: false }),
+    TypeOrmModule.forFeature([ScraperFixture, Retailer]),
+  ],
+  providers: [ScraperFixtureService, HtmlExtractionService],
+})
+class ScraperRegressionModule {}
+
+async function runScraperRegression() {
+  const app = await NestFactory.createApplicationContext(ScraperRegressionModule, {
+    logger: ['error', 'warn'],
+  });
+
+  try {
+    const retailerId = process.argv[2];
+    const report = await app.get(ScraperFixtureService).runRegression(retailerId);
+
+    for (const result of report.results) {
+      console.log(`${result.passed ? 'PASS' : 'FAIL'} ${result.retailerName || result.retailerId} ${result.url}`);
+      for (const field of result.broken) {
+        console.log(
+          `  ${field.scope}.${field.field}: expected ${JSON.stringify(field.expected)}, got ${JSON.stringify(field.actual)}`,
+        );
+      }
+    }
+
+    console.log(`\n${report.passed}/${report.total} fixtures passed`);
+    process.exitCode = report.failed > 0 ? 1 : 0;
+  } catch (error) {
+    console.error('Scraper regression failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await app.close();
+  }
+}
+
+runScraperRegression();
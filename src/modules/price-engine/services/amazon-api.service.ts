@@ -1,17 +1,31 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { PriceEngineService } from '../interfaces/price-engine.interface';
+import {
+  RetailerAdapter,
+  RetailerAdapterCapability,
+  RetailerAdapterConfigSchema,
+  RetailerMarketplace,
+} from '../interfaces/price-engine.interface';
 import { Product } from '../../../database/entities/product.entity';
 import { Retailer } from '../../../database/entities/retailer.entity';
+import { OfferCondition } from '../../../database/entities/price.entity';
 import { PriceResult } from '../price-engine.service';
 
 @Injectable()
-export class AmazonApiService implements PriceEngineService {
+export class AmazonApiService implements RetailerAdapter {
   private readonly logger = new Logger(AmazonApiService.name);
   private readonly accessKey: string;
   private readonly secretKey: string;
   private readonly associateTag: string;
-  private readonly baseUrl = 'https://webservices.amazon.com/paapi5/searchitems';
+  private readonly defaultMarketplace = 'www.amazon.com';
+  private readonly defaultEndpoint = 'webservices.amazon.com';
+  readonly adapterId = 'amazon';
+  readonly capabilities: RetailerAdapterCapability[] = ['search', 'offers', 'stock', 'marketplace'];
+  readonly configSchema: RetailerAdapterConfigSchema = {
+    AMAZON_ACCESS_KEY: { type: 'string', required: true, description: 'Product Advertising API access key' },
+    AMAZON_SECRET_KEY: { type: 'string', required: true, description: 'Product Advertising API secret key' },
+    AMAZON_ASSOCIATE_TAG: { type: 'string', required: true, description: 'Associates partner tag sent with every request' },
+  };
 
   constructor(private readonly configService: ConfigService) {
     this.accessKey = this.configService.get<string>('AMAZON_ACCESS_KEY');
@@ -22,7 +36,7 @@ export class AmazonApiService implements PriceEngineService {
   /**
    * Get product price from Amazon API
    */
-  async getProductPrice(product: Product, retailer: Retailer): Promise<PriceResult | null> {
+  async getProductPrice(product: Product, retailer: Retailer, marketplace?: RetailerMarketplace): Promise<PriceResult | null> {
     try {
       if (!this.isConfigured()) {
         this.logger.warn('Amazon API not configured');
@@ -32,7 +46,7 @@ export class AmazonApiService implements PriceEngineService {
       this.logger.log(`Fetching price from Amazon for product: ${product.name}`);
 
       // Search for product using Amazon Product Advertising API
-      const searchResponse = await this.searchProduct(product);
+      const searchResponse = await this.searchProduct(product, marketplace);
       if (!searchResponse || !searchResponse.SearchResult || !searchResponse.SearchResult.Items) {
         return null;
       }
@@ -43,7 +57,7 @@ export class AmazonApiService implements PriceEngineService {
       }
 
       // Get detailed product information
-      const productResponse = await this.getProductDetails(item.ASIN);
+      const productResponse = await this.getProductDetails(item.ASIN, marketplace);
       if (!productResponse || !productResponse.Items) {
         return null;
       }
@@ -53,60 +67,109 @@ export class AmazonApiService implements PriceEngineService {
         return null;
       }
 
-      // Extract price information
-      const priceInfo = this.extractPriceInfo(productDetails);
-      if (!priceInfo) {
+      const result = this.buildPriceResult(product, retailer, productDetails, productDetails.Offers?.Listings?.[0]);
+      if (!result) {
         return null;
       }
 
-      const result: PriceResult = {
-        productId: product.id,
-        retailerId: retailer.id,
-        price: priceInfo.price,
-        currency: priceInfo.currency,
-        originalPrice: priceInfo.originalPrice,
-        discount: priceInfo.discount,
-        discountPercentage: priceInfo.discountPercentage,
-        productUrl: productDetails.DetailPageURL,
-        imageUrl: productDetails.Images?.Primary?.Large?.URL,
-        inStock: priceInfo.inStock,
-        stockQuantity: priceInfo.stockQuantity,
-        shippingCost: priceInfo.shippingCost,
-        estimatedDelivery: priceInfo.estimatedDelivery,
-        availability: {
-          status: priceInfo.inStock ? 'in_stock' : 'out_of_stock',
-          message: priceInfo.availabilityMessage,
-          lastChecked: new Date(),
-        },
-        promotions: priceInfo.promotions,
-        ratings: priceInfo.ratings,
-        metadata: {
-          source: 'api',
-          confidence: 0.95,
-          lastVerified: new Date(),
-          dataQuality: 'high',
-        },
-      };
-
-      this.logger.log(`Successfully fetched Amazon price: $${priceInfo.price}`);
+      this.logger.log(`Successfully fetched Amazon price: $${result.price}`);
       return result;
     } catch (error) {
       this.logger.error('Failed to fetch Amazon price:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get every offer listing for a product, including third-party sellers and used or refurbished stock
+   */
+  async getProductOffers(product: Product, retailer: Retailer, marketplace?: RetailerMarketplace): Promise<PriceResult[]> {
+    try {
+      if (!this.isConfigured()) {
+        this.logger.warn('Amazon API not configured');
+        return [];
+      }
+
+      const searchResponse = await this.searchProduct(product, marketplace);
+      const item = searchResponse?.SearchResult?.Items?.[0];
+      if (!item) {
+        return [];
+      }
+
+      const productResponse = await this.getProductDetails(item.ASIN, marketplace);
+      const productDetails = productResponse?.Items?.[0];
+      if (!productDetails) {
+        return [];
+      }
+
+      return (productDetails.Offers?.Listings || [])
+        .map((offer: any) => this.buildPriceResult(product, retailer, productDetails, offer))
+        .filter((result: PriceResult | null) => !!result);
+    } catch (error) {
+      this.logger.error('Failed to fetch Amazon offers:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Build a price result for one offer listing
+   */
+  private buildPriceResult(product: Product, retailer: Retailer, productDetails: any, offer: any): PriceResult | null {
+    const priceInfo = this.extractPriceInfo(productDetails, offer);
+    if (!priceInfo) {
       return null;
     }
+
+    return {
+      productId: product.id,
+      retailerId: retailer.id,
+      price: priceInfo.price,
+      currency: priceInfo.currency,
+      originalPrice: priceInfo.originalPrice,
+      discount: priceInfo.discount,
+      discountPercentage: priceInfo.discountPercentage,
+      productUrl: productDetails.DetailPageURL,
+      imageUrl: productDetails.Images?.Primary?.Large?.URL,
+      inStock: priceInfo.inStock,
+      stockQuantity: priceInfo.stockQuantity,
+      shippingCost: priceInfo.shippingCost,
+      estimatedDelivery: priceInfo.estimatedDelivery,
+      availability: {
+        status: priceInfo.inStock ? 'in_stock' : 'out_of_stock',
+        message: priceInfo.availabilityMessage,
+        lastChecked: new Date(),
+      },
+      promotions: priceInfo.promotions,
+      ratings: priceInfo.ratings,
+      seller: this.extractSeller(offer),
+      condition: this.mapCondition(offer),
+      listing: {
+        title: productDetails.ItemInfo?.Title?.DisplayValue,
+        brand: productDetails.ItemInfo?.ByLineInfo?.Brand?.DisplayValue,
+        gtin: productDetails.ItemInfo?.ExternalIds?.EANs?.DisplayValues?.[0]
+          || productDetails.ItemInfo?.ExternalIds?.UPCs?.DisplayValues?.[0],
+        modelNumber: productDetails.ItemInfo?.ManufactureInfo?.Model?.DisplayValue,
+      },
+      metadata: {
+        source: 'api',
+        confidence: 0.95,
+        lastVerified: new Date(),
+        dataQuality: 'high',
+      },
+    };
   }
 
   /**
    * Search for product using Amazon API
    */
-  private async searchProduct(product: Product): Promise<any> {
+  private async searchProduct(product: Product, marketplace?: RetailerMarketplace): Promise<any> {
     try {
       const searchQuery = `${product.brand} ${product.name}`.trim();
       
       const requestBody = {
         PartnerTag: this.associateTag,
         PartnerType: 'Associates',
-        Marketplace: 'www.amazon.com',
+        Marketplace: marketplace?.marketplaceId || this.defaultMarketplace,
         SearchIndex: 'All',
         Keywords: searchQuery,
         ItemCount: 1,
@@ -139,7 +202,7 @@ export class AmazonApiService implements PriceEngineService {
         ],
       };
 
-      const response = await fetch(this.baseUrl, {
+      const response = await fetch(this.getEndpoint(marketplace, 'searchitems'), {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -159,15 +222,22 @@ export class AmazonApiService implements PriceEngineService {
     }
   }
 
+  /**
+   * Each marketplace is served from its own host, e.g. webservices.amazon.ae for www.amazon.ae
+   */
+  private getEndpoint(marketplace: RetailerMarketplace | undefined, operation: 'searchitems' | 'getitems'): string {
+    return `https://${marketplace?.endpoint || this.defaultEndpoint}/paapi5/${operation}`;
+  }
+
   /**
    * Get detailed product information
    */
-  private async getProductDetails(asin: string): Promise<any> {
+  private async getProductDetails(asin: string, marketplace?: RetailerMarketplace): Promise<any> {
     try {
       const requestBody = {
         PartnerTag: this.associateTag,
         PartnerType: 'Associates',
-        Marketplace: 'www.amazon.com',
+        Marketplace: marketplace?.marketplaceId || this.defaultMarketplace,
         ItemIds: [asin],
         Resources: [
           'Images.Primary.Large',
@@ -198,7 +268,7 @@ export class AmazonApiService implements PriceEngineService {
         ],
       };
 
-      const response = await fetch(this.baseUrl, {
+      const response = await fetch(this.getEndpoint(marketplace, 'getitems'), {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -221,7 +291,7 @@ export class AmazonApiService implements PriceEngineService {
   /**
    * Extract price information from Amazon response
    */
-  private extractPriceInfo(productDetails: any): {
+  private extractPriceInfo(productDetails: any, offer: any): {
     price: number;
     currency: string;
     originalPrice?: number;
@@ -236,12 +306,10 @@ export class AmazonApiService implements PriceEngineService {
     ratings?: any;
   } | null {
     try {
-      const offers = productDetails.Offers?.Listings;
-      if (!offers || offers.length === 0) {
+      if (!offer) {
         return null;
       }
 
-      const offer = offers[0];
       const price = offer.Price;
       const availability = offer.Availability;
 
@@ -304,6 +372,39 @@ export class AmazonApiService implements PriceEngineService {
     }
   }
 
+  /**
+   * Merchant behind an offer listing
+   */
+  private extractSeller(offer: any): PriceResult['seller'] {
+    const merchant = offer?.MerchantInfo;
+    if (!merchant?.Id) {
+      return undefined;
+    }
+
+    return {
+      id: merchant.Id,
+      name: merchant.Name,
+      rating: merchant.FeedbackRating,
+      ratingCount: merchant.FeedbackCount,
+    };
+  }
+
+  /**
+   * Map Amazon offer conditions onto ours; open-box stock is listed as used with an OpenBox sub-condition
+   */
+  private mapCondition(offer: any): OfferCondition {
+    const condition = (offer?.Condition?.Value || 'New').toLowerCase();
+    const subCondition = (offer?.Condition?.SubCondition?.Value || '').toLowerCase();
+
+    if (condition === 'new') {
+      return 'new';
+    }
+    if (condition === 'refurbished') {
+      return 'refurbished';
+    }
+    return subCondition === 'openbox' ? 'open_box' : 'used';
+  }
+
   /**
    * Check if Amazon API is configured
    */
@@ -0,0 +1,124 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ApifyService } from './apify.service';
+import { CrawlPolicyService } from './crawl-policy.service';
+
+describe('ApifyService', () => {
+  let service: ApifyService;
+
+  const mockRetailer = {
+    id: 'retailer-123',
+    name: 'Test Retailer',
+    domain: 'shop.example.com',
+    currency: 'USD',
+    scraperConfig: {
+      enabled: true,
+      apify: {
+        actorId: 'acme/product-scraper',
+        input: { urls: ['{productUrl}'], site: '{domain}', proxy: { useApifyProxy: true } },
+        outputMapping: { price: 'offer.amount', availability: ['offer.stock', 'stock'] },
+        timeoutSecs: 60,
+      },
+    },
+  };
+
+  const mockFetch = jest.fn();
+
+  const mockApifyRun = (item: any) => {
+    mockFetch
+      .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ data: { id: 'run-1' } }) })
+      .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ data: { status: 'SUCCEEDED' } }) })
+      .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve([item]) });
+  };
+
+  beforeEach(async () => {
+    global.fetch = mockFetch as any;
+    jest.spyOn(global, 'setTimeout').mockImplementation(((fn: () => void) => {
+      fn();
+      return 0;
+    }) as any);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApifyService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => (key === 'APIFY_API_TOKEN' ? 'token' : undefined)) },
+        },
+        {
+          provide: CrawlPolicyService,
+          useValue: { schedule: jest.fn((retailer: any, url: string, fn: () => Promise<any>) => fn()) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ApifyService>(ApifyService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    mockFetch.mockReset();
+  });
+
+  it('should run the configured actor with the filled input template and timeout', async () => {
+    mockApifyRun({ offer: { amount: '$89.99', stock: 'In stock' }, image: 'https://cdn.example.com/w.jpg' });
+
+    const result = await service.scrapeProduct('https://shop.example.com/p/1', mockRetailer as any);
+
+    const [runUrl, runRequest] = mockFetch.mock.calls[0];
+    expect(runUrl).toBe('https://api.apify.com/v2/acts/acme~product-scraper/runs?timeout=60');
+    expect(JSON.parse(runRequest.body)).toEqual({
+      urls: ['https://shop.example.com/p/1'],
+      site: 'shop.example.com',
+      proxy: { useApifyProxy: true },
+    });
+    expect(result).toMatchObject({ price: 89.99, inStock: true, imageUrl: 'https://cdn.example.com/w.jpg' });
+  });
+
+  it('should skip retailers without an actor configured', async () => {
+    const retailer = { ...mockRetailer, scraperConfig: { enabled: true } };
+
+    const result = await service.scrapeProduct('https://shop.example.com/p/1', retailer as any);
+
+    expect(result).toBeNull();
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should report invalid actor configs', () => {
+    expect(service.validateActorConfig(mockRetailer.scraperConfig.apify)).toEqual([]);
+    expect(service.validateActorConfig({
+      actorId: 'not an actor',
+      input: { startUrls: [{ url: '{productLink}' }] },
+      outputMapping: { cost: 'price', price: '' },
+      timeoutSecs: 5,
+    })).toEqual([
+      expect.stringContaining('actorId'),
+      expect.stringContaining('{productLink}'),
+      expect.stringContaining('outputMapping.cost'),
+      expect.stringContaining('outputMapping.price'),
+      expect.stringContaining('timeoutSecs'),
+    ]);
+  });
+
+  it('should test an unsaved config and list the fields its mapping missed', async () => {
+    mockApifyRun({ amount: 42, title: 'Widget' });
+
+    const result = await service.testActor(mockRetailer as any, 'https://shop.example.com/p/1', {
+      actorId: 'acme/other-scraper',
+      outputMapping: { price: 'amount' },
+    });
+
+    expect(result.actorId).toBe('acme/other-scraper');
+    expect(result.input).toEqual({ startUrls: [{ url: 'https://shop.example.com/p/1' }], maxRequestsPerCrawl: 1, maxConcurrency: 1 });
+    expect(result.result.price).toBe(42);
+    expect(result.unmappedFields).toContain('availability');
+    expect(result.unmappedFields).not.toContain('price');
+  });
+
+  it('should refuse to test an invalid config', async () => {
+    await expect(
+      service.testActor(mockRetailer as any, 'https://shop.example.com/p/1', { actorId: '' }),
+    ).rejects.toThrow('Invalid Apify actor config');
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
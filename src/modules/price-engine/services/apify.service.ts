@@ -1,7 +1,66 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, BadRequestException, ForbiddenException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { Retailer } from '../../../database/entities/retailer.entity';
 import { PriceResult } from '../price-engine.service';
+import { CrawlPolicyService, ScrapeDisallowedError } from './crawl-policy.service';
+
+export type ApifyActorConfig = Retailer['scraperConfig']['apify'];
+
+export type ApifyOutputField =
+  | 'price'
+  | 'originalPrice'
+  | 'currency'
+  | 'availability'
+  | 'imageUrl'
+  | 'shippingCost'
+  | 'estimatedDelivery'
+  | 'ratingAverage'
+  | 'ratingCount';
+
+export interface ApifyActorTestResult {
+  actorId: string;
+  input: any;
+  durationMs: number;
+  // First dataset item exactly as the actor returned it
+  item: any;
+  result: PriceResult | null;
+  // Mapped fields that found nothing in the item
+  unmappedFields: ApifyOutputField[];
+}
+
+const APIFY_OUTPUT_FIELDS: ApifyOutputField[] = [
+  'price',
+  'originalPrice',
+  'currency',
+  'availability',
+  'imageUrl',
+  'shippingCost',
+  'estimatedDelivery',
+  'ratingAverage',
+  'ratingCount',
+];
+
+// Field names the generic web scraper actors tend to use; a retailer's outputMapping overrides per field
+const DEFAULT_OUTPUT_MAPPING: { [field in ApifyOutputField]?: string[] } = {
+  price: ['price', 'currentPrice', 'salePrice'],
+  originalPrice: ['originalPrice', 'regularPrice'],
+  availability: ['availability', 'stockStatus', 'inStock'],
+  imageUrl: ['image', 'imageUrl', 'thumbnail'],
+  shippingCost: ['shippingCost', 'shipping'],
+  estimatedDelivery: ['estimatedDelivery', 'deliveryTime'],
+  ratingAverage: ['rating.average', 'rating'],
+  ratingCount: ['rating.count', 'reviewCount'],
+};
+
+const DEFAULT_INPUT = {
+  startUrls: [{ url: '{productUrl}' }],
+  maxRequestsPerCrawl: 1,
+  maxConcurrency: 1,
+};
+
+const INPUT_PLACEHOLDERS = ['productUrl', 'domain'];
+const DEFAULT_TIMEOUT_SECS = 300;
+const POLL_INTERVAL_MS = 10000;
 
 @Injectable()
 export class ApifyService {
@@ -9,7 +68,10 @@ export class ApifyService {
   private readonly apiToken: string;
   private readonly baseUrl = 'https://api.apify.com/v2';
 
-  constructor(private readonly configService: ConfigService) {
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly crawlPolicyService: CrawlPolicyService,
+  ) {
     this.apiToken = this.configService.get<string>('APIFY_API_TOKEN');
   }
 
@@ -25,94 +87,237 @@ export class ApifyService {
 
       this.logger.log(`Scraping product using Apify: ${productUrl}`);
 
-      // Determine the appropriate Apify actor based on retailer
-      const actorId = this.getActorIdForRetailer(retailer);
-      if (!actorId) {
+      // Retailers without an actor configured are not scraped through Apify
+      const config = retailer.scraperConfig?.apify;
+      if (!config?.actorId) {
         return null;
       }
 
-      // Run the Apify actor
-      const runResult = await this.runApifyActor(actorId, productUrl);
+      // Run the Apify actor; it hits the retailer on our behalf, so the same crawl policy applies
+      const input = this.buildInput(config, productUrl, retailer);
+      const runResult = await this.crawlPolicyService.schedule(retailer, productUrl, () => this.runApifyActor(config, input));
       if (!runResult) {
         return null;
       }
 
-      // Extract price information from Apify result
-      const priceInfo = this.extractPriceFromApifyResult(runResult, retailer);
-      if (!priceInfo) {
+      const result = this.toPriceResult(runResult, productUrl, retailer, config);
+      if (!result) {
         return null;
       }
 
-      const result: PriceResult = {
-        productId: '', // Will be set by caller
-        retailerId: retailer.id,
-        price: priceInfo.price,
-        currency: priceInfo.currency,
-        originalPrice: priceInfo.originalPrice,
-        discount: priceInfo.discount,
-        discountPercentage: priceInfo.discountPercentage,
-        productUrl,
-        imageUrl: priceInfo.imageUrl,
-        inStock: priceInfo.inStock,
-        stockQuantity: priceInfo.stockQuantity,
-        shippingCost: priceInfo.shippingCost,
-        estimatedDelivery: priceInfo.estimatedDelivery,
-        availability: {
-          status: priceInfo.inStock ? 'in_stock' : 'out_of_stock',
-          message: priceInfo.availabilityMessage,
-          lastChecked: new Date(),
-        },
-        promotions: priceInfo.promotions,
-        ratings: priceInfo.ratings,
-        metadata: {
-          source: 'scraper',
-          confidence: 0.80,
-          lastVerified: new Date(),
-          dataQuality: 'high',
-        },
-      };
-
-      this.logger.log(`Successfully scraped using Apify: $${priceInfo.price}`);
+      this.logger.log(`Successfully scraped using Apify: $${result.price}`);
       return result;
     } catch (error) {
+      if (error instanceof ScrapeDisallowedError) {
+        return null;
+      }
       this.logger.error('Failed to scrape product using Apify:', error);
       return null;
     }
   }
 
   /**
-   * Get Apify actor ID for retailer
+   * Run an actor config once against a product URL and show what the mapping makes of the output.
+   * Uses the retailer's saved config unless another one is given, so a change can be tried before saving it.
+   */
+  async testActor(retailer: Retailer, productUrl: string, config?: ApifyActorConfig): Promise<ApifyActorTestResult> {
+    if (!this.isConfigured()) {
+      throw new BadRequestException('Apify API not configured');
+    }
+
+    const actorConfig = config || retailer.scraperConfig?.apify;
+    if (!actorConfig) {
+      throw new BadRequestException(`Retailer ${retailer.name} has no Apify actor configured`);
+    }
+
+    const problems = this.validateActorConfig(actorConfig);
+    if (problems.length > 0) {
+      throw new BadRequestException(`Invalid Apify actor config: ${problems.join('; ')}`);
+    }
+
+    const input = this.buildInput(actorConfig, productUrl, retailer);
+    const startedAt = Date.now();
+
+    try {
+      const item = await this.crawlPolicyService.schedule(retailer, productUrl, () => this.runApifyActor(actorConfig, input));
+      const mapping = this.getOutputMapping(actorConfig);
+
+      return {
+        actorId: actorConfig.actorId,
+        input,
+        durationMs: Date.now() - startedAt,
+        item: item || null,
+        result: item ? this.toPriceResult(item, productUrl, retailer, actorConfig) : null,
+        unmappedFields: (Object.keys(mapping) as ApifyOutputField[])
+          .filter(field => !item || this.resolveField(item, mapping[field]) === undefined),
+      };
+    } catch (error) {
+      if (error instanceof ScrapeDisallowedError) {
+        throw new ForbiddenException(error.message);
+      }
+      this.logger.error(`Apify actor test failed for ${retailer.name}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Problems with an actor config, empty when it is usable
+   */
+  validateActorConfig(config: any): string[] {
+    if (!config || typeof config !== 'object' || Array.isArray(config)) {
+      return ['apify config must be an object'];
+    }
+
+    const problems: string[] = [];
+
+    // Either "username/actor-name", "username~actor-name" or a 17 character actor ID
+    if (typeof config.actorId !== 'string' || !/^([\w.-]+[/~][\w.-]+|[a-zA-Z0-9]{17})$/.test(config.actorId)) {
+      problems.push('actorId must look like "username/actor-name" or be an Apify actor ID');
+    }
+
+    if (config.input !== undefined) {
+      if (!config.input || typeof config.input !== 'object' || Array.isArray(config.input)) {
+        problems.push('input must be an object');
+      } else {
+        const unknown = this.findPlaceholders(config.input).filter(name => !INPUT_PLACEHOLDERS.includes(name));
+        if (unknown.length > 0) {
+          problems.push(`input uses unknown placeholders: ${unknown.map(name => `{${name}}`).join(', ')}`);
+        }
+      }
+    }
+
+    if (config.outputMapping !== undefined) {
+      if (!config.outputMapping || typeof config.outputMapping !== 'object' || Array.isArray(config.outputMapping)) {
+        problems.push('outputMapping must be an object');
+      } else {
+        for (const [field, paths] of Object.entries(config.outputMapping)) {
+          if (!APIFY_OUTPUT_FIELDS.includes(field as ApifyOutputField)) {
+            problems.push(`outputMapping.${field} is not a known field (${APIFY_OUTPUT_FIELDS.join(', ')})`);
+          } else if (!(Array.isArray(paths) ? paths : [paths]).every(path => typeof path === 'string' && path.trim() !== '')) {
+            problems.push(`outputMapping.${field} must be a path or a list of paths`);
+          }
+        }
+      }
+    }
+
+    if (config.timeoutSecs !== undefined
+      && (!Number.isInteger(config.timeoutSecs) || config.timeoutSecs < 10 || config.timeoutSecs > 3600)) {
+      problems.push('timeoutSecs must be a whole number between 10 and 3600');
+    }
+
+    return problems;
+  }
+
+  private toPriceResult(apifyResult: any, productUrl: string, retailer: Retailer, config: ApifyActorConfig): PriceResult | null {
+    // Extract price information from Apify result
+    const priceInfo = this.extractPriceFromApifyResult(apifyResult, retailer, this.getOutputMapping(config));
+    if (!priceInfo) {
+      return null;
+    }
+
+    return {
+      productId: '', // Will be set by caller
+      retailerId: retailer.id,
+      price: priceInfo.price,
+      currency: priceInfo.currency,
+      originalPrice: priceInfo.originalPrice,
+      discount: priceInfo.discount,
+      discountPercentage: priceInfo.discountPercentage,
+      productUrl,
+      imageUrl: priceInfo.imageUrl,
+      inStock: priceInfo.inStock,
+      stockQuantity: priceInfo.stockQuantity,
+      shippingCost: priceInfo.shippingCost,
+      estimatedDelivery: priceInfo.estimatedDelivery,
+      availability: {
+        status: priceInfo.inStock ? 'in_stock' : 'out_of_stock',
+        message: priceInfo.availabilityMessage,
+        lastChecked: new Date(),
+      },
+      promotions: priceInfo.promotions,
+      ratings: priceInfo.ratings,
+      metadata: {
+        source: 'scraper',
+        confidence: 0.80,
+        lastVerified: new Date(),
+        dataQuality: 'high',
+      },
+    };
+  }
+
+  /**
+   * Output mapping with the retailer's paths taking precedence over the defaults
+   */
+  private getOutputMapping(config: ApifyActorConfig): { [field in ApifyOutputField]?: string[] } {
+    const mapping = { ...DEFAULT_OUTPUT_MAPPING };
+    for (const [field, paths] of Object.entries(config.outputMapping || {})) {
+      mapping[field as ApifyOutputField] = Array.isArray(paths) ? paths : [paths];
+    }
+    return mapping;
+  }
+
+  /**
+   * First non-empty value among the dot paths, skipping objects so "rating" does not stand in for "rating.average"
+   */
+  private resolveField(item: any, paths: string[] | undefined): any {
+    for (const path of paths || []) {
+      const value = path.split('.').reduce((current, key) => (current == null ? undefined : current[key]), item);
+      if (value !== undefined && value !== null && value !== '' && typeof value !== 'object') {
+        return value;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Fill the input template, replacing placeholders in every string value
    */
-  private getActorIdForRetailer(retailer: Retailer): string | null {
-    const actorMap: { [key: string]: string } = {
-      'amazon': 'apify/web-scraper',
-      'walmart': 'apify/web-scraper',
-      'ebay': 'apify/web-scraper',
-      'bestbuy': 'apify/web-scraper',
-      'zalando': 'apify/web-scraper',
-      'farfetch': 'apify/web-scraper',
+  private buildInput(config: ApifyActorConfig, productUrl: string, retailer: Retailer): any {
+    const values: { [name: string]: string } = {
+      productUrl,
+      domain: retailer.domain || '',
+    };
+    const fill = (value: any): any => {
+      if (typeof value === 'string') {
+        return value.replace(/\{(\w+)\}/g, (match, name) => (values[name] !== undefined ? values[name] : match));
+      }
+      if (Array.isArray(value)) {
+        return value.map(fill);
+      }
+      if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, fill(entry)]));
+      }
+      return value;
     };
 
-    return actorMap[retailer.name.toLowerCase()] || null;
+    return fill(config.input || DEFAULT_INPUT);
+  }
+
+  private findPlaceholders(value: any): string[] {
+    if (typeof value === 'string') {
+      return (value.match(/\{(\w+)\}/g) || []).map(match => match.slice(1, -1));
+    }
+    if (value && typeof value === 'object') {
+      return Object.values(value).reduce<string[]>((names, entry) => names.concat(this.findPlaceholders(entry)), []);
+    }
+    return [];
   }
 
   /**
    * Run Apify actor
    */
-  private async runApifyActor(actorId: string, productUrl: string): Promise<any> {
+  private async runApifyActor(config: ApifyActorConfig, input: any): Promise<any> {
+    const timeoutSecs = config.timeoutSecs || DEFAULT_TIMEOUT_SECS;
+
     try {
-      // Start the actor run
-      const runResponse = await fetch(`${this.baseUrl}/acts/${actorId}/runs`, {
+      // Start the actor run; Apify aborts it after the timeout on its side too
+      const runResponse = await fetch(`${this.baseUrl}/acts/${config.actorId.replace('/', '~')}/runs?timeout=${timeoutSecs}`, {
         method: 'POST',
         headers: {
           'Authorization': `Bearer ${this.apiToken}`,
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          startUrls: [{ url: productUrl }],
-          maxRequestsPerCrawl: 1,
-          maxConcurrency: 1,
-        }),
+        body: JSON.stringify(input),
       });
 
       if (!runResponse.ok) {
@@ -124,10 +329,10 @@ export class ApifyService {
 
       // Wait for the run to complete
       let attempts = 0;
-      const maxAttempts = 30; // 5 minutes max wait time
+      const maxAttempts = Math.ceil((timeoutSecs * 1000) / POLL_INTERVAL_MS);
 
       while (attempts < maxAttempts) {
-        await new Promise(resolve => setTimeout(resolve, 10000)); // Wait 10 seconds
+        await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
 
         const statusResponse = await fetch(`${this.baseUrl}/actor-runs/${runId}`, {
           headers: {
@@ -156,14 +361,14 @@ export class ApifyService {
 
           const results = await resultsResponse.json();
           return results[0]; // Return first result
-        } else if (status === 'FAILED' || status === 'ABORTED') {
+        } else if (status === 'FAILED' || status === 'ABORTED' || status === 'TIMED-OUT') {
           throw new Error(`Apify run failed with status: ${status}`);
         }
 
         attempts++;
       }
 
-      throw new Error('Apify run timed out');
+      throw new Error(`Apify run timed out after ${timeoutSecs}s`);
     } catch (error) {
       this.logger.error('Failed to run Apify actor:', error);
       throw error;
@@ -173,7 +378,11 @@ export class ApifyService {
   /**
    * Extract price information from Apify result
    */
-  private extractPriceFromApifyResult(apifyResult: any, retailer: Retailer): {
+  private extractPriceFromApifyResult(
+    apifyResult: any,
+    retailer: Retailer,
+    mapping: { [field in ApifyOutputField]?: string[] },
+  ): {
     price: number;
     currency: string;
     originalPrice?: number;
@@ -189,19 +398,22 @@ export class ApifyService {
     ratings?: any;
   } | null {
     try {
+      const field = (name: ApifyOutputField) => this.resolveField(apifyResult, mapping[name]);
+
       // Extract price from Apify result
-      const price = apifyResult.price || apifyResult.currentPrice || apifyResult.salePrice;
+      const price = field('price');
       if (!price) {
         return null;
       }
 
-      const currentPrice = parseFloat(price.toString().replace(/[^0-9.]/g, ''));
-      const currency = retailer.currency || 'USD';
-      const inStock = this.determineStockStatusFromApify(apifyResult);
-      const availabilityMessage = apifyResult.availability || apifyResult.stockStatus || '';
+      const currentPrice = this.parseAmount(price);
+      const currency = field('currency') || retailer.currency || 'USD';
+      const availability = field('availability');
+      const inStock = this.determineStockStatusFromApify(availability);
+      const availabilityMessage = typeof availability === 'string' ? availability : '';
 
       // Extract original price if available
-      const originalPrice = apifyResult.originalPrice || apifyResult.regularPrice;
+      const originalPrice = field('originalPrice') ? this.parseAmount(field('originalPrice')) : undefined;
       let discount: number | undefined;
       let discountPercentage: number | undefined;
 
@@ -210,19 +422,14 @@ export class ApifyService {
         discountPercentage = (discount / originalPrice) * 100;
       }
 
-      // Extract image URL
-      const imageUrl = apifyResult.image || apifyResult.imageUrl || apifyResult.thumbnail;
-
       // Extract shipping cost
-      const shippingCost = apifyResult.shippingCost || apifyResult.shipping;
-
-      // Extract estimated delivery
-      const estimatedDelivery = apifyResult.estimatedDelivery || apifyResult.deliveryTime;
+      const shippingCost = field('shippingCost');
 
       // Extract ratings
-      const ratings = apifyResult.rating ? {
-        average: parseFloat(apifyResult.rating.average || apifyResult.rating),
-        count: parseInt(apifyResult.rating.count || apifyResult.reviewCount || '0'),
+      const ratingAverage = field('ratingAverage');
+      const ratings = ratingAverage ? {
+        average: parseFloat(ratingAverage),
+        count: parseInt(field('ratingCount') || '0'),
         distribution: {
           five: 0,
           four: 0,
@@ -235,14 +442,14 @@ export class ApifyService {
       return {
         price: currentPrice,
         currency,
-        originalPrice: originalPrice ? parseFloat(originalPrice.toString().replace(/[^0-9.]/g, '')) : undefined,
+        originalPrice,
         discount,
         discountPercentage,
         inStock,
         availabilityMessage,
-        imageUrl,
-        shippingCost: shippingCost ? parseFloat(shippingCost.toString().replace(/[^0-9.]/g, '')) : undefined,
-        estimatedDelivery,
+        imageUrl: field('imageUrl'),
+        shippingCost: shippingCost ? this.parseAmount(shippingCost) : undefined,
+        estimatedDelivery: field('estimatedDelivery'),
         ratings,
       };
     } catch (error) {
@@ -251,12 +458,14 @@ export class ApifyService {
     }
   }
 
+  private parseAmount(value: any): number {
+    return parseFloat(value.toString().replace(/[^0-9.]/g, ''));
+  }
+
   /**
-   * Determine stock status from Apify result
+   * Determine stock status from the mapped availability value
    */
-  private determineStockStatusFromApify(apifyResult: any): boolean {
-    const availability = apifyResult.availability || apifyResult.stockStatus || apifyResult.inStock;
-    
+  private determineStockStatusFromApify(availability: any): boolean {
     if (typeof availability === 'boolean') {
       return availability;
     }
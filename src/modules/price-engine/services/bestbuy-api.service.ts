@@ -1,15 +1,24 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { PriceEngineService } from '../interfaces/price-engine.interface';
+import {
+  RetailerAdapter,
+  RetailerAdapterCapability,
+  RetailerAdapterConfigSchema,
+} from '../interfaces/price-engine.interface';
 import { Product } from '../../../database/entities/product.entity';
 import { Retailer } from '../../../database/entities/retailer.entity';
 import { PriceResult } from '../price-engine.service';
 
 @Injectable()
-export class BestBuyApiService implements PriceEngineService {
+export class BestBuyApiService implements RetailerAdapter {
   private readonly logger = new Logger(BestBuyApiService.name);
   private readonly apiKey: string;
   private readonly baseUrl = 'https://api.bestbuy.com/v1';
+  readonly adapterId = 'bestbuy';
+  readonly capabilities: RetailerAdapterCapability[] = ['search', 'gtin_lookup', 'offers', 'stock'];
+  readonly configSchema: RetailerAdapterConfigSchema = {
+    BEST_BUY_API_KEY: { type: 'string', required: true, description: 'Best Buy Products API key' },
+  };
 
   constructor(private readonly configService: ConfigService) {
     this.apiKey = this.configService.get<string>('BEST_BUY_API_KEY');
@@ -65,6 +74,12 @@ export class BestBuyApiService implements PriceEngineService {
         },
         promotions: priceInfo.promotions,
         ratings: priceInfo.ratings,
+        listing: {
+          title: item.name,
+          brand: item.manufacturer,
+          gtin: item.upc,
+          modelNumber: item.modelNumber,
+        },
         metadata: {
           source: 'api',
           confidence: 0.88,
@@ -77,7 +92,7 @@ export class BestBuyApiService implements PriceEngineService {
       return result;
     } catch (error) {
       this.logger.error('Failed to fetch Best Buy price:', error);
-      return null;
+      throw error;
     }
   }
 
@@ -0,0 +1,145 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { BrowserPoolService } from './browser-pool.service';
+
+const mockPage = {
+  close: jest.fn().mockResolvedValue(undefined),
+};
+
+const mockContext = {
+  newPage: jest.fn().mockResolvedValue(mockPage),
+  route: jest.fn().mockResolvedValue(undefined),
+  close: jest.fn().mockResolvedValue(undefined),
+  browser: jest.fn(),
+};
+
+const mockBrowser = {
+  newContext: jest.fn().mockResolvedValue(mockContext),
+  isConnected: jest.fn().mockReturnValue(true),
+  on: jest.fn(),
+  close: jest.fn().mockResolvedValue(undefined),
+};
+
+mockContext.browser.mockReturnValue(mockBrowser);
+
+const mockLaunch = jest.fn().mockResolvedValue(mockBrowser);
+
+jest.mock('playwright', () => ({
+  chromium: { launch: (...args: any[]) => mockLaunch(...args) },
+}));
+
+describe('BrowserPoolService', () => {
+  let service: BrowserPoolService;
+
+  const config: { [key: string]: string } = {
+    PLAYWRIGHT_MAX_PAGES: '2',
+    PLAYWRIGHT_MAX_PAGES_PER_RETAILER: '1',
+    PLAYWRIGHT_IDLE_TIMEOUT_MS: '1000',
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BrowserPoolService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string, defaultValue?: string) => config[key] || defaultValue) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<BrowserPoolService>(BrowserPoolService);
+  });
+
+  afterEach(async () => {
+    await service.onModuleDestroy();
+    jest.clearAllMocks();
+  });
+
+  it('should launch one browser and reuse a context per retailer', async () => {
+    await service.withPage('retailer-1', async () => 'first');
+    const result = await service.withPage('retailer-1', async () => 'second');
+    await service.withPage('retailer-2', async () => 'third');
+
+    expect(result).toBe('second');
+    expect(mockLaunch).toHaveBeenCalledTimes(1);
+    expect(mockBrowser.newContext).toHaveBeenCalledTimes(2);
+    expect(mockBrowser.newContext).toHaveBeenCalledWith(expect.objectContaining({ userAgent: expect.any(String) }));
+    expect(mockPage.close).toHaveBeenCalledTimes(3);
+  });
+
+  it('should block configured resource types unless the retailer overrides them', async () => {
+    await service.withPage('retailer-1', async () => undefined);
+    await service.withPage('retailer-2', async () => undefined, { blockResources: [] });
+
+    expect(mockContext.route).toHaveBeenCalledTimes(1);
+  });
+
+  it('should queue pages beyond the per-retailer limit', async () => {
+    const order: string[] = [];
+    let finishFirst: () => void;
+
+    const first = service.withPage('retailer-1', () => new Promise<void>(resolve => {
+      order.push('first started');
+      finishFirst = () => {
+        order.push('first finished');
+        resolve();
+      };
+    }));
+    const second = service.withPage('retailer-1', async () => {
+      order.push('second started');
+    });
+
+    await new Promise(resolve => setImmediate(resolve));
+    expect(service.getStatus().waiting).toBe(1);
+
+    finishFirst();
+    await Promise.all([first, second]);
+
+    expect(order).toEqual(['first started', 'first finished', 'second started']);
+    expect(service.getStatus().activePages).toBe(0);
+  });
+
+  it('should release the slot when the callback throws', async () => {
+    await expect(service.withPage('retailer-1', async () => {
+      throw new Error('navigation failed');
+    })).rejects.toThrow('navigation failed');
+
+    expect(service.getStatus().activePages).toBe(0);
+    expect(mockPage.close).toHaveBeenCalled();
+  });
+
+  it('should drop contexts when the browser disconnects', async () => {
+    await service.withPage('retailer-1', async () => undefined);
+    const [, onDisconnected] = mockBrowser.on.mock.calls.find(([event]) => event === 'disconnected');
+
+    onDisconnected();
+    await service.withPage('retailer-1', async () => undefined);
+
+    expect(mockBrowser.newContext).toHaveBeenCalledTimes(2);
+    expect(mockContext.close).not.toHaveBeenCalled();
+  });
+
+  it('should not reuse a context whose browser is no longer connected', async () => {
+    await service.withPage('retailer-1', async () => undefined);
+    mockBrowser.isConnected.mockReturnValueOnce(false);
+
+    await service.withPage('retailer-1', async () => undefined);
+
+    expect(mockBrowser.newContext).toHaveBeenCalledTimes(2);
+    expect(service.getStatus().contexts).toEqual([expect.objectContaining({ key: 'retailer-1', pagesServed: 1 })]);
+  });
+
+  it('should close idle contexts and then the browser', async () => {
+    await service.withPage('retailer-1', async () => undefined);
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 5000);
+
+    await service.recycleIdle();
+
+    expect(mockContext.close).toHaveBeenCalled();
+    expect(mockBrowser.close).toHaveBeenCalled();
+    expect(service.getStatus().contexts).toEqual([]);
+    jest.restoreAllMocks();
+  });
+});
@@ -0,0 +1,306 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import type { Browser, BrowserContext, Page } from 'playwright';
+
+export interface BrowserContextOptions {
+  // Resource types to abort, e.g. image, font, media; overrides PLAYWRIGHT_BLOCK_RESOURCES
+  blockResources?: string[];
+}
+
+export interface BrowserPoolStatus {
+  browserConnected: boolean;
+  activePages: number;
+  waiting: number;
+  maxPages: number;
+  maxPagesPerRetailer: number;
+  contexts: { key: string; activePages: number; pagesServed: number; idleMs: number }[];
+}
+
+interface PooledContext {
+  context: BrowserContext;
+  pagesServed: number;
+  lastUsed: number;
+}
+
+interface PageWaiter {
+  key: string;
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+@Injectable()
+export class BrowserPoolService implements OnModuleDestroy {
+  private readonly logger = new Logger(BrowserPoolService.name);
+  private readonly maxPages: number;
+  private readonly maxPagesPerRetailer: number;
+  private readonly acquireTimeoutMs: number;
+  private readonly idleTimeoutMs: number;
+  private readonly contextMaxPages: number;
+  private readonly blockResources: string[];
+
+  private browser: Browser | null = null;
+  private launching: Promise<Browser> | null = null;
+  private browserLastUsed = 0;
+  private readonly contexts = new Map<string, Promise<PooledContext>>();
+  // Resolved contexts, readable synchronously for status and recycling
+  private readonly contextStats = new Map<string, PooledContext>();
+  private readonly activeByKey = new Map<string, number>();
+  private readonly waiting: PageWaiter[] = [];
+  private activePages = 0;
+
+  constructor(private readonly configService: ConfigService) {
+    this.maxPages = parseInt(this.configService.get<string>('PLAYWRIGHT_MAX_PAGES', '4'), 10);
+    this.maxPagesPerRetailer = parseInt(this.configService.get<string>('PLAYWRIGHT_MAX_PAGES_PER_RETAILER', '2'), 10);
+    this.acquireTimeoutMs = parseInt(this.configService.get<string>('PLAYWRIGHT_ACQUIRE_TIMEOUT_MS', '30000'), 10);
+    this.idleTimeoutMs = parseInt(this.configService.get<string>('PLAYWRIGHT_IDLE_TIMEOUT_MS', '300000'), 10);
+    this.contextMaxPages = parseInt(this.configService.get<string>('PLAYWRIGHT_CONTEXT_MAX_PAGES', '100'), 10);
+    this.blockResources = this.parseList(this.configService.get<string>('PLAYWRIGHT_BLOCK_RESOURCES', 'image,font,media'));
+  }
+
+  /**
+   * Run a callback with a fresh page in the retailer's shared context.
+   * Waits for a free slot when the pool or the retailer is at its concurrency limit.
+   */
+  async withPage<T>(key: string, fn: (page: Page) => Promise<T>, options: BrowserContextOptions = {}): Promise<T> {
+    await this.acquire(key);
+
+    let page: Page | null = null;
+    try {
+      const pooled = await this.getContext(key, options);
+      pooled.pagesServed++;
+      pooled.lastUsed = Date.now();
+
+      page = await pooled.context.newPage();
+      return await fn(page);
+    } finally {
+      if (page) {
+        await page.close().catch(() => undefined);
+      }
+      await this.release(key);
+    }
+  }
+
+  getStatus(): BrowserPoolStatus {
+    return {
+      browserConnected: !!this.browser?.isConnected(),
+      activePages: this.activePages,
+      waiting: this.waiting.length,
+      maxPages: this.maxPages,
+      maxPagesPerRetailer: this.maxPagesPerRetailer,
+      contexts: Array.from(new Set([...this.contextStats.keys(), ...this.activeByKey.keys()])).map(key => {
+        const pooled = this.contextStats.get(key);
+        return {
+          key,
+          activePages: this.activeByKey.get(key) || 0,
+          pagesServed: pooled ? pooled.pagesServed : 0,
+          idleMs: pooled ? Date.now() - pooled.lastUsed : 0,
+        };
+      }),
+    };
+  }
+
+  /**
+   * Close contexts nobody has used for a while, and the browser once it has nothing left to do
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async recycleIdle(): Promise<void> {
+    const now = Date.now();
+
+    for (const [key, pooled] of this.contextStats) {
+      if (!this.activeByKey.get(key) && now - pooled.lastUsed > this.idleTimeoutMs) {
+        await this.closeContext(key);
+      }
+    }
+
+    if (this.browser && this.contexts.size === 0 && this.activePages === 0
+      && now - this.browserLastUsed > this.idleTimeoutMs) {
+      this.logger.log('Closing idle browser');
+      const browser = this.browser;
+      this.browser = null;
+      await browser.close().catch(error => this.logger.warn(`Failed to close idle browser: ${error.message}`));
+    }
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    for (const waiter of this.waiting.splice(0)) {
+      clearTimeout(waiter.timer);
+      waiter.reject(new Error('Browser pool is shutting down'));
+    }
+
+    if (this.browser) {
+      await this.browser.close().catch(() => undefined);
+      this.browser = null;
+    }
+    this.contexts.clear();
+    this.contextStats.clear();
+  }
+
+  private async acquire(key: string): Promise<void> {
+    if (this.canStart(key)) {
+      this.reserve(key);
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const waiter: PageWaiter = {
+        key,
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.waiting.splice(this.waiting.indexOf(waiter), 1);
+          reject(new Error(`Timed out after ${this.acquireTimeoutMs}ms waiting for a browser page for ${key}`));
+        }, this.acquireTimeoutMs),
+      };
+      this.waiting.push(waiter);
+    });
+  }
+
+  private async release(key: string): Promise<void> {
+    this.activePages--;
+    const remaining = (this.activeByKey.get(key) || 1) - 1;
+    if (remaining > 0) {
+      this.activeByKey.set(key, remaining);
+    } else {
+      this.activeByKey.delete(key);
+    }
+    this.browserLastUsed = Date.now();
+
+    // Long-lived contexts accumulate cookies and memory; start over once they have served enough pages
+    const pooled = this.contextStats.get(key);
+    if (remaining === 0 && pooled && pooled.pagesServed >= this.contextMaxPages) {
+      await this.closeContext(key);
+    }
+
+    const next = this.waiting.findIndex(waiter => this.canStart(waiter.key));
+    if (next > -1) {
+      const [waiter] = this.waiting.splice(next, 1);
+      clearTimeout(waiter.timer);
+      this.reserve(waiter.key);
+      waiter.resolve();
+    }
+  }
+
+  private canStart(key: string): boolean {
+    return this.activePages < this.maxPages && (this.activeByKey.get(key) || 0) < this.maxPagesPerRetailer;
+  }
+
+  private reserve(key: string): void {
+    this.activePages++;
+    this.activeByKey.set(key, (this.activeByKey.get(key) || 0) + 1);
+  }
+
+  private async getContext(key: string, options: BrowserContextOptions): Promise<PooledContext> {
+    const existing = this.contexts.get(key);
+    if (existing) {
+      const pooled = await existing;
+      if (pooled.context.browser()?.isConnected()) {
+        return pooled;
+      }
+
+      // The browser went away under this context; start over even if the disconnect event hasn't fired yet
+      if (this.contexts.get(key) === existing) {
+        this.dropContext(key);
+      }
+      return this.getContext(key, options);
+    }
+
+    const pending = this.createContext(key, options);
+    this.contexts.set(key, pending);
+    pending.catch(() => this.contexts.delete(key));
+    return pending;
+  }
+
+  /**
+   * Forget a context without closing it, for contexts whose browser is already gone
+   */
+  private dropContext(key: string): void {
+    this.contexts.delete(key);
+    this.contextStats.delete(key);
+  }
+
+  private async createContext(key: string, options: BrowserContextOptions): Promise<PooledContext> {
+    const browser = await this.getBrowser();
+    const context = await browser.newContext({
+      userAgent: USER_AGENT,
+      locale: 'en-US',
+      viewport: { width: 1366, height: 768 },
+    });
+
+    const blocked = options.blockResources || this.blockResources;
+    if (blocked.length > 0) {
+      await context.route('**/*', route =>
+        blocked.includes(route.request().resourceType()) ? route.abort() : route.continue(),
+      );
+    }
+
+    const pooled: PooledContext = { context, pagesServed: 0, lastUsed: Date.now() };
+    this.contextStats.set(key, pooled);
+    this.logger.log(`Opened browser context for ${key}${blocked.length > 0 ? ` (blocking ${blocked.join(', ')})` : ''}`);
+    return pooled;
+  }
+
+  private async closeContext(key: string): Promise<void> {
+    const pooled = this.contextStats.get(key);
+    this.contexts.delete(key);
+    this.contextStats.delete(key);
+
+    if (pooled) {
+      await pooled.context.close().catch(error => this.logger.warn(`Failed to close context for ${key}: ${error.message}`));
+      this.logger.log(`Recycled browser context for ${key} after ${pooled.pagesServed} pages`);
+    }
+  }
+
+  private async getBrowser(): Promise<Browser> {
+    if (this.browser?.isConnected()) {
+      return this.browser;
+    }
+
+    if (!this.launching) {
+      this.launching = (async () => {
+        // Import Playwright dynamically to avoid issues if not installed
+        const { chromium } = await import('playwright');
+        const browser = await chromium.launch({
+          headless: true,
+          args: ['--no-sandbox', '--disable-setuid-sandbox'],
+        });
+
+        browser.on('disconnected', () => {
+          if (this.browser === browser) {
+            this.browser = null;
+          }
+
+          // Contexts die with their browser, including ones opened before this.browser was set
+          const stale = Array.from(this.contextStats.entries())
+            .filter(([, pooled]) => pooled.context.browser() === browser)
+            .map(([key]) => key);
+          stale.forEach(key => this.dropContext(key));
+
+          if (stale.length > 0) {
+            this.logger.warn(`Browser disconnected, ${stale.length} contexts will be recreated on next use`);
+          }
+        });
+
+        this.logger.log('Launched pooled Chromium browser');
+        return browser;
+      })();
+    }
+
+    try {
+      this.browser = await this.launching;
+      return this.browser;
+    } finally {
+      this.launching = null;
+    }
+  }
+
+  private parseList(value: string): string[] {
+    return (value || '')
+      .split(',')
+      .map(item => item.trim().toLowerCase())
+      .filter(item => !!item);
+  }
+}
@@ -0,0 +1,108 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { CircuitBreakerService } from './circuit-breaker.service';
+import { Retailer } from '../../../database/entities/retailer.entity';
+import { CacheService } from '../../../common/cache/cache.service';
+
+describe('CircuitBreakerService', () => {
+  let service: CircuitBreakerService;
+
+  const retailer = { id: 'retailer-123', name: 'Test Retailer' } as any;
+
+  const mockUpdateQueryBuilder = {
+    update: jest.fn().mockReturnThis(),
+    set: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    setParameters: jest.fn().mockReturnThis(),
+    execute: jest.fn().mockResolvedValue({ affected: 1 }),
+  };
+
+  const mockCacheService = {
+    del: jest.fn(),
+  };
+
+  const config: Record<string, string> = {
+    CIRCUIT_FAILURE_THRESHOLD: '2',
+    CIRCUIT_RESET_TIMEOUT_MS: '1000',
+    CIRCUIT_HALF_OPEN_MAX_CALLS: '1',
+  };
+
+  const fail = () => Promise.reject(new Error('upstream down'));
+  const succeed = () => Promise.resolve('ok');
+  const state = () => service.getStatus().find(status => status.key === 'retailer-123:api')?.state;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CircuitBreakerService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string, defaultValue?: string) => config[key] ?? defaultValue) },
+        },
+        {
+          provide: getRepositoryToken(Retailer),
+          useValue: { createQueryBuilder: jest.fn().mockReturnValue(mockUpdateQueryBuilder) },
+        },
+        {
+          provide: CacheService,
+          useValue: mockCacheService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<CircuitBreakerService>(CircuitBreakerService);
+    jest.useFakeTimers().setSystemTime(new Date('2024-03-10T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.clearAllMocks();
+  });
+
+  it('should move from closed to open to half_open and back to closed', async () => {
+    await expect(service.execute(retailer, 'api', fail)).rejects.toThrow('upstream down');
+    expect(state()).toBe('closed');
+
+    await expect(service.execute(retailer, 'api', fail)).rejects.toThrow('upstream down');
+    expect(state()).toBe('open');
+
+    // Open: calls are skipped until the reset timeout passes
+    const skipped = jest.fn(succeed);
+    expect(await service.execute(retailer, 'api', skipped)).toBeNull();
+    expect(skipped).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1000);
+
+    // Half-open: one probe goes through while any others are held back
+    let releaseProbe: (value: string) => void;
+    const probe = service.execute(retailer, 'api', () => new Promise<string>(resolve => { releaseProbe = resolve; }));
+    expect(state()).toBe('half_open');
+    expect(await service.execute(retailer, 'api', skipped)).toBeNull();
+
+    releaseProbe('ok');
+    expect(await probe).toBe('ok');
+    expect(state()).toBe('closed');
+    expect(skipped).not.toHaveBeenCalled();
+    expect(mockCacheService.del).toHaveBeenCalledWith('retailer_health:retailer-123');
+  });
+
+  it('should reopen when the half-open probe fails', async () => {
+    await expect(service.execute(retailer, 'api', fail)).rejects.toThrow();
+    await expect(service.execute(retailer, 'api', fail)).rejects.toThrow();
+    jest.advanceTimersByTime(1000);
+
+    await expect(service.execute(retailer, 'api', fail)).rejects.toThrow();
+
+    expect(state()).toBe('open');
+    expect(await service.execute(retailer, 'api', succeed)).toBeNull();
+  });
+
+  it('should seed the average response time when the retailer has none yet', async () => {
+    await service.execute(retailer, 'api', succeed);
+
+    const metadata = mockUpdateQueryBuilder.set.mock.calls[0][0].metadata();
+    expect(metadata).toContain(`COALESCE(("metadata"->>'averageResponseTime')::numeric, CAST(:latency AS numeric))`);
+    expect(mockUpdateQueryBuilder.setParameters).toHaveBeenCalledWith(expect.objectContaining({ successIncrement: 1, errorIncrement: 0 }));
+  });
+});
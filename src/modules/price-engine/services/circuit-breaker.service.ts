@@ -0,0 +1,195 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Retailer } from '../../../database/entities/retailer.entity';
+import { CacheService } from '../../../common/cache/cache.service';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+export type CircuitChannel = 'api' | 'scraper';
+
+export interface CircuitStatus {
+  key: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: Date | null;
+}
+
+interface Circuit {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: number | null;
+  halfOpenCalls: number;
+}
+
+@Injectable()
+export class CircuitBreakerService {
+  private readonly logger = new Logger(CircuitBreakerService.name);
+  private readonly circuits: Map<string, Circuit> = new Map();
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+  private readonly halfOpenMaxCalls: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @InjectRepository(Retailer)
+    private readonly retailerRepository: Repository<Retailer>,
+    private readonly cacheService: CacheService,
+  ) {
+    this.failureThreshold = parseInt(this.configService.get<string>('CIRCUIT_FAILURE_THRESHOLD', '5'), 10);
+    this.resetTimeoutMs = parseInt(this.configService.get<string>('CIRCUIT_RESET_TIMEOUT_MS', '60000'), 10);
+    this.halfOpenMaxCalls = parseInt(this.configService.get<string>('CIRCUIT_HALF_OPEN_MAX_CALLS', '1'), 10);
+  }
+
+  /**
+   * Run a retailer call through its circuit. Resolves null without calling when the circuit is open.
+   */
+  async execute<T>(retailer: Retailer, channel: CircuitChannel, fn: () => Promise<T>): Promise<T | null> {
+    const key = `${retailer.id}:${channel}`;
+    const circuit = this.getCircuit(key);
+
+    if (!this.allowRequest(circuit)) {
+      this.logger.debug(`Circuit open for ${retailer.name} (${channel}), skipping call`);
+      return null;
+    }
+
+    const startTime = Date.now();
+    try {
+      const result = await fn();
+      await this.onSuccess(retailer, channel, circuit, Date.now() - startTime);
+      return result;
+    } catch (error) {
+      await this.onFailure(retailer, channel, circuit, Date.now() - startTime);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the state of every circuit seen by this process
+   */
+  getStatus(): CircuitStatus[] {
+    return Array.from(this.circuits.entries()).map(([key, circuit]) => ({
+      key,
+      state: circuit.state,
+      consecutiveFailures: circuit.consecutiveFailures,
+      openedAt: circuit.openedAt ? new Date(circuit.openedAt) : null,
+    }));
+  }
+
+  /**
+   * Force a circuit back to closed
+   */
+  reset(retailerId: string, channel: CircuitChannel): void {
+    this.circuits.delete(`${retailerId}:${channel}`);
+  }
+
+  private allowRequest(circuit: Circuit): boolean {
+    if (circuit.state === 'closed') {
+      return true;
+    }
+
+    if (circuit.state === 'open') {
+      if (Date.now() - circuit.openedAt < this.resetTimeoutMs) {
+        return false;
+      }
+
+      circuit.state = 'half_open';
+      circuit.halfOpenCalls = 0;
+    }
+
+    // Half-open: let a limited number of probe calls through
+    if (circuit.halfOpenCalls >= this.halfOpenMaxCalls) {
+      return false;
+    }
+
+    circuit.halfOpenCalls++;
+    return true;
+  }
+
+  private async onSuccess(retailer: Retailer, channel: CircuitChannel, circuit: Circuit, latencyMs: number): Promise<void> {
+    const previousState = circuit.state;
+    circuit.state = 'closed';
+    circuit.consecutiveFailures = 0;
+    circuit.openedAt = null;
+    circuit.halfOpenCalls = 0;
+
+    if (previousState !== 'closed') {
+      this.logger.log(`Circuit closed for ${retailer.name} (${channel})`);
+    }
+
+    await this.recordHealth(retailer, channel, true, latencyMs, circuit.state, previousState !== circuit.state);
+  }
+
+  private async onFailure(retailer: Retailer, channel: CircuitChannel, circuit: Circuit, latencyMs: number): Promise<void> {
+    const previousState = circuit.state;
+    circuit.consecutiveFailures++;
+
+    if (circuit.state === 'half_open' || circuit.consecutiveFailures >= this.failureThreshold) {
+      circuit.state = 'open';
+      circuit.openedAt = Date.now();
+      circuit.halfOpenCalls = 0;
+
+      if (previousState !== 'open') {
+        this.logger.warn(`Circuit opened for ${retailer.name} (${channel}) after ${circuit.consecutiveFailures} failures`);
+      }
+    }
+
+    await this.recordHealth(retailer, channel, false, latencyMs, circuit.state, previousState !== circuit.state);
+  }
+
+  /**
+   * Increment the retailer's health counters in place so concurrent calls do not overwrite each other
+   */
+  private async recordHealth(
+    retailer: Retailer,
+    channel: CircuitChannel,
+    success: boolean,
+    latencyMs: number,
+    state: CircuitState,
+    stateChanged: boolean,
+  ): Promise<void> {
+    try {
+      await this.retailerRepository
+        .createQueryBuilder()
+        .update(Retailer)
+        .set({
+          metadata: () => `COALESCE("metadata", '{}'::jsonb) || jsonb_build_object(
+            'successCount', COALESCE(("metadata"->>'successCount')::int, 0) + CAST(:successIncrement AS int),
+            'errorCount', COALESCE(("metadata"->>'errorCount')::int, 0) + CAST(:errorIncrement AS int),
+            'averageResponseTime', CASE
+              WHEN COALESCE(("metadata"->>'successCount')::int, 0) + COALESCE(("metadata"->>'errorCount')::int, 0) = 0
+                THEN CAST(:latency AS numeric)
+              ELSE ROUND((COALESCE(("metadata"->>'averageResponseTime')::numeric, CAST(:latency AS numeric)) * 0.9) + (CAST(:latency AS numeric) * 0.1))
+            END,
+            'lastHealthCheck', now(),
+            'circuits', COALESCE("metadata"->'circuits', '{}'::jsonb) || jsonb_build_object(CAST(:channel AS text), CAST(:state AS text))
+          )`,
+        })
+        .where('id = :id', { id: retailer.id })
+        .setParameters({
+          successIncrement: success ? 1 : 0,
+          errorIncrement: success ? 0 : 1,
+          latency: latencyMs,
+          channel,
+          state,
+        })
+        .execute();
+
+      if (stateChanged) {
+        await this.cacheService.del(`retailer_health:${retailer.id}`);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to record health for retailer ${retailer.id}:`, error);
+    }
+  }
+
+  private getCircuit(key: string): Circuit {
+    let circuit = this.circuits.get(key);
+    if (!circuit) {
+      circuit = { state: 'closed', consecutiveFailures: 0, openedAt: null, halfOpenCalls: 0 };
+      this.circuits.set(key, circuit);
+    }
+
+    return circuit;
+  }
+}
@@ -0,0 +1,134 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { CrawlPolicyService, ScrapeDisallowedError } from './crawl-policy.service';
+import { CacheService } from '../../../common/cache/cache.service';
+
+describe('CrawlPolicyService', () => {
+  let service: CrawlPolicyService;
+
+  const robotsTxt = [
+    'User-agent: *',
+    'Disallow: /search',
+    'Disallow: /*.pdf$',
+    'Crawl-delay: 2',
+    '',
+    'User-agent: DealcoBot',
+    'User-agent: OtherBot',
+    'Disallow: /cart',
+    'Allow: /cart/share',
+  ].join('\n');
+
+  const mockRetailer = {
+    id: 'retailer-123',
+    name: 'Test Retailer',
+    crawlPolicy: null,
+  };
+
+  const mockCacheService = {
+    get: jest.fn().mockResolvedValue(null),
+    set: jest.fn(),
+  };
+
+  const mockFetch = jest.fn();
+
+  beforeEach(async () => {
+    global.fetch = mockFetch as any;
+    mockFetch.mockResolvedValue({ ok: true, status: 200, text: () => Promise.resolve(robotsTxt) });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CrawlPolicyService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string, defaultValue?: string) => (key === 'CRAWL_MIN_DELAY_MS' ? '0' : defaultValue)) },
+        },
+        {
+          provide: CacheService,
+          useValue: mockCacheService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<CrawlPolicyService>(CrawlPolicyService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should apply the most specific user-agent group with longest-match rules', async () => {
+    const allowed = await service.check(mockRetailer as any, 'https://shop.example.com/search?q=tv');
+    const blocked = await service.check(mockRetailer as any, 'https://shop.example.com/cart/123');
+    const shared = await service.check(mockRetailer as any, 'https://shop.example.com/cart/share/abc');
+
+    // The DealcoBot group replaces the wildcard group entirely
+    expect(allowed.allowed).toBe(true);
+    expect(blocked).toMatchObject({ allowed: false, reason: 'robots_txt' });
+    expect(shared.allowed).toBe(true);
+    expect(mockFetch).toHaveBeenCalledWith('https://shop.example.com/robots.txt', expect.any(Object));
+  });
+
+  it('should support wildcards and end anchors', () => {
+    const [wildcard] = service.parseRobotsTxt(robotsTxt);
+
+    expect(wildcard.crawlDelay).toBe(2);
+    expect(service.isPathAllowed(wildcard.rules, '/files/manual.pdf')).toBe(false);
+    expect(service.isPathAllowed(wildcard.rules, '/files/manual.pdf?download=1')).toBe(true);
+  });
+
+  it('should allow everything when robots.txt is missing and nothing when it is unreachable', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 404 });
+    const missing = await service.check(mockRetailer as any, 'https://a.example.com/cart');
+
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 503 });
+    const unreachable = await service.check(mockRetailer as any, 'https://b.example.com/product/1');
+
+    expect(missing.allowed).toBe(true);
+    expect(unreachable).toMatchObject({ allowed: false, reason: 'robots_txt' });
+    expect(mockCacheService.set).toHaveBeenCalledWith('robots_txt:https://b.example.com', expect.any(Object), 600);
+  });
+
+  it('should enforce the retailer deny and allow lists before robots.txt', async () => {
+    const retailer = { ...mockRetailer, crawlPolicy: { allow: ['/product/'], deny: ['/product/*/reviews'] } };
+
+    const denied = await service.check(retailer as any, 'https://shop.example.com/product/1/reviews');
+    const outside = await service.check(retailer as any, 'https://shop.example.com/deals');
+    const allowed = await service.check(retailer as any, 'https://shop.example.com/product/1');
+
+    expect(denied).toMatchObject({ allowed: false, reason: 'deny_list' });
+    expect(outside).toMatchObject({ allowed: false, reason: 'not_in_allow_list' });
+    expect(allowed.allowed).toBe(true);
+  });
+
+  it('should throw a ScrapeDisallowedError and skip the request when disallowed', async () => {
+    const request = jest.fn();
+
+    await expect(
+      service.schedule(mockRetailer as any, 'https://shop.example.com/cart/1', request),
+    ).rejects.toBeInstanceOf(ScrapeDisallowedError);
+
+    expect(request).not.toHaveBeenCalled();
+    expect(service.getStatus().disallowed).toEqual({ robots_txt: 1 });
+  });
+
+  it('should limit concurrent requests per host', async () => {
+    const retailer = { ...mockRetailer, crawlPolicy: { respectRobotsTxt: false, maxConcurrency: 1 } };
+    let running = 0;
+    let maxRunning = 0;
+    const request = async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setImmediate(resolve));
+      running--;
+    };
+
+    await Promise.all([
+      service.schedule(retailer as any, 'https://shop.example.com/product/1', request),
+      service.schedule(retailer as any, 'https://shop.example.com/product/2', request),
+      service.schedule(retailer as any, 'https://shop.example.com/product/3', request),
+    ]);
+
+    expect(maxRunning).toBe(1);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,326 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Retailer } from '../../../database/entities/retailer.entity';
+import { CacheService } from '../../../common/cache/cache.service';
+
+export type DisallowReason = 'invalid_url' | 'deny_list' | 'not_in_allow_list' | 'robots_txt';
+
+/**
+ * Thrown instead of making a request the crawl policy forbids. Not a retailer failure.
+ */
+export class ScrapeDisallowedError extends Error {
+  constructor(
+    readonly url: string,
+    readonly reason: DisallowReason,
+    readonly retailerId?: string,
+  ) {
+    super(`Scraping ${url} is disallowed (${reason})`);
+    this.name = 'ScrapeDisallowedError';
+  }
+}
+
+export interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+export interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+}
+
+export interface RobotsTxt {
+  // 'missing' (4xx) allows everything; 'unreachable' (5xx or network error) allows nothing
+  status: 'ok' | 'missing' | 'unreachable';
+  groups: RobotsGroup[];
+  fetchedAt: Date;
+}
+
+export interface CrawlDecision {
+  allowed: boolean;
+  reason?: DisallowReason;
+  crawlDelayMs: number;
+}
+
+export interface HostCrawlStatus {
+  host: string;
+  active: number;
+  queued: number;
+  nextRequestAt: Date | null;
+}
+
+interface HostState {
+  active: number;
+  nextAt: number;
+  queue: (() => void)[];
+}
+
+@Injectable()
+export class CrawlPolicyService {
+  private readonly logger = new Logger(CrawlPolicyService.name);
+  private readonly userAgentToken: string;
+  private readonly respectRobotsTxt: boolean;
+  private readonly robotsCacheTtl: number;
+  private readonly minDelayMs: number;
+  private readonly maxConcurrencyPerHost: number;
+  private readonly hosts = new Map<string, HostState>();
+  private readonly robotsInFlight = new Map<string, Promise<RobotsTxt>>();
+  private readonly disallowedCounts = new Map<DisallowReason, number>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly cacheService: CacheService,
+  ) {
+    this.userAgentToken = this.configService.get<string>('CRAWL_USER_AGENT_TOKEN', 'DealcoBot');
+    this.respectRobotsTxt = this.configService.get<string>('CRAWL_RESPECT_ROBOTS_TXT', 'true') !== 'false';
+    this.robotsCacheTtl = parseInt(this.configService.get<string>('CRAWL_ROBOTS_CACHE_TTL', '86400'), 10);
+    this.minDelayMs = parseInt(this.configService.get<string>('CRAWL_MIN_DELAY_MS', '1000'), 10);
+    this.maxConcurrencyPerHost = parseInt(this.configService.get<string>('CRAWL_MAX_CONCURRENCY_PER_HOST', '2'), 10);
+  }
+
+  /**
+   * Check a URL against the retailer's allow/deny lists and the host's robots.txt
+   */
+  async check(retailer: Retailer, url: string): Promise<CrawlDecision> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch (error) {
+      return { allowed: false, reason: 'invalid_url', crawlDelayMs: 0 };
+    }
+
+    const policy = retailer.crawlPolicy || {};
+    const path = parsed.pathname + parsed.search;
+
+    if ((policy.deny || []).some(pattern => this.matches(pattern, path))) {
+      return { allowed: false, reason: 'deny_list', crawlDelayMs: 0 };
+    }
+    if (policy.allow && policy.allow.length > 0 && !policy.allow.some(pattern => this.matches(pattern, path))) {
+      return { allowed: false, reason: 'not_in_allow_list', crawlDelayMs: 0 };
+    }
+
+    const minDelayMs = policy.minDelayMs !== undefined ? policy.minDelayMs : this.minDelayMs;
+    if (!this.respectRobotsTxt || policy.respectRobotsTxt === false) {
+      return { allowed: true, crawlDelayMs: minDelayMs };
+    }
+
+    const robots = await this.getRobotsTxt(parsed.origin);
+    const group = this.selectGroup(robots.groups);
+    const crawlDelayMs = Math.max(minDelayMs, group?.crawlDelay ? group.crawlDelay * 1000 : 0);
+
+    if (robots.status === 'unreachable' || (group && !this.isPathAllowed(group.rules, path))) {
+      return { allowed: false, reason: 'robots_txt', crawlDelayMs };
+    }
+
+    return { allowed: true, crawlDelayMs };
+  }
+
+  /**
+   * Throw ScrapeDisallowedError when the URL may not be fetched
+   */
+  async assertAllowed(retailer: Retailer, url: string): Promise<CrawlDecision> {
+    const decision = await this.check(retailer, url);
+    if (!decision.allowed) {
+      const error = new ScrapeDisallowedError(url, decision.reason, retailer.id);
+      this.disallowedCounts.set(decision.reason, (this.disallowedCounts.get(decision.reason) || 0) + 1);
+      this.logger.warn(`${error.name}: ${retailer.name} ${url} blocked by ${decision.reason}`);
+      throw error;
+    }
+    return decision;
+  }
+
+  /**
+   * Run an outbound request once the policy allows it, the host has a free slot
+   * and the minimum delay since the previous request to that host has passed
+   */
+  async schedule<T>(retailer: Retailer, url: string, fn: () => Promise<T>): Promise<T> {
+    const decision = await this.assertAllowed(retailer, url);
+    const host = new URL(url).host;
+    const maxConcurrency = retailer.crawlPolicy?.maxConcurrency || this.maxConcurrencyPerHost;
+    const state = this.getHost(host);
+
+    while (state.active >= maxConcurrency) {
+      await new Promise<void>(resolve => state.queue.push(resolve));
+    }
+    state.active++;
+
+    try {
+      // Reserve the next start time before sleeping so concurrent callers space out behind us
+      const now = Date.now();
+      const startAt = Math.max(now, state.nextAt);
+      state.nextAt = startAt + decision.crawlDelayMs;
+      if (startAt > now) {
+        await new Promise(resolve => setTimeout(resolve, startAt - now));
+      }
+
+      return await fn();
+    } finally {
+      state.active--;
+      const next = state.queue.shift();
+      if (next) {
+        next();
+      }
+    }
+  }
+
+  getStatus(): { hosts: HostCrawlStatus[]; disallowed: { [reason: string]: number } } {
+    return {
+      hosts: Array.from(this.hosts.entries()).map(([host, state]) => ({
+        host,
+        active: state.active,
+        queued: state.queue.length,
+        nextRequestAt: state.nextAt > Date.now() ? new Date(state.nextAt) : null,
+      })),
+      disallowed: Object.fromEntries(this.disallowedCounts),
+    };
+  }
+
+  /**
+   * Parse a robots.txt body into user-agent groups
+   */
+  parseRobotsTxt(body: string): RobotsGroup[] {
+    const groups: RobotsGroup[] = [];
+    let current: RobotsGroup | null = null;
+    let lastWasAgent = false;
+
+    for (const rawLine of body.split(/\r?\n/)) {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      const separator = line.indexOf(':');
+      if (separator === -1) {
+        continue;
+      }
+
+      const field = line.slice(0, separator).trim().toLowerCase();
+      const value = line.slice(separator + 1).trim();
+
+      if (field === 'user-agent') {
+        // Consecutive user-agent lines share one group
+        if (!current || !lastWasAgent) {
+          current = { agents: [], rules: [] };
+          groups.push(current);
+        }
+        current.agents.push(value.toLowerCase());
+        lastWasAgent = true;
+        continue;
+      }
+
+      lastWasAgent = false;
+      if (!current) {
+        continue;
+      }
+
+      if ((field === 'allow' || field === 'disallow') && value) {
+        current.rules.push({ allow: field === 'allow', pattern: value });
+      } else if (field === 'crawl-delay' && !isNaN(parseFloat(value))) {
+        current.crawlDelay = parseFloat(value);
+      }
+    }
+
+    return groups;
+  }
+
+  /**
+   * Longest matching pattern wins; allow wins a tie. No matching rule means allowed.
+   */
+  isPathAllowed(rules: RobotsRule[], path: string): boolean {
+    let best: RobotsRule | null = null;
+
+    for (const rule of rules) {
+      if (!this.matches(rule.pattern, path)) {
+        continue;
+      }
+      if (!best || rule.pattern.length > best.pattern.length
+        || (rule.pattern.length === best.pattern.length && rule.allow)) {
+        best = rule;
+      }
+    }
+
+    return !best || best.allow;
+  }
+
+  private async getRobotsTxt(origin: string): Promise<RobotsTxt> {
+    const cacheKey = `robots_txt:${origin}`;
+    const cached = await this.cacheService.get<RobotsTxt>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    let pending = this.robotsInFlight.get(origin);
+    if (!pending) {
+      pending = this.fetchRobotsTxt(origin).finally(() => this.robotsInFlight.delete(origin));
+      this.robotsInFlight.set(origin, pending);
+    }
+
+    const robots = await pending;
+    // Retry unreachable hosts sooner than we refresh a good file
+    await this.cacheService.set(cacheKey, robots, robots.status === 'unreachable' ? 600 : this.robotsCacheTtl);
+    return robots;
+  }
+
+  private async fetchRobotsTxt(origin: string): Promise<RobotsTxt> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), 10000);
+
+    try {
+      const response = await fetch(`${origin}/robots.txt`, {
+        headers: { 'User-Agent': this.userAgentToken },
+        signal: controller.signal,
+      });
+
+      if (response.status >= 400 && response.status < 500) {
+        return { status: 'missing', groups: [], fetchedAt: new Date() };
+      }
+      if (!response.ok) {
+        throw new Error(`HTTP error: ${response.status}`);
+      }
+
+      return { status: 'ok', groups: this.parseRobotsTxt(await response.text()), fetchedAt: new Date() };
+    } catch (error) {
+      this.logger.warn(`Could not fetch robots.txt for ${origin}, treating as disallowed: ${error.message}`);
+      return { status: 'unreachable', groups: [], fetchedAt: new Date() };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * The group naming our token most specifically, otherwise the wildcard group
+   */
+  private selectGroup(groups: RobotsGroup[]): RobotsGroup | null {
+    const token = this.userAgentToken.toLowerCase();
+    let best: RobotsGroup | null = null;
+    let bestLength = -1;
+
+    for (const group of groups) {
+      for (const agent of group.agents) {
+        const length = agent === '*' ? 0 : token.startsWith(agent) ? agent.length : -1;
+        if (length > bestLength) {
+          best = group;
+          bestLength = length;
+        }
+      }
+    }
+
+    return best;
+  }
+
+  private matches(pattern: string, path: string): boolean {
+    const anchored = pattern.endsWith('$');
+    const body = (anchored ? pattern.slice(0, -1) : pattern)
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+
+    return new RegExp(`^${body}${anchored ? '$' : ''}`).test(path);
+  }
+
+  private getHost(host: string): HostState {
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = { active: 0, nextAt: 0, queue: [] };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+}
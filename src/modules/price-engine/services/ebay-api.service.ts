@@ -1,15 +1,29 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { PriceEngineService } from '../interfaces/price-engine.interface';
+import {
+  RetailerAdapter,
+  RetailerAdapterCapability,
+  RetailerAdapterConfigSchema,
+  RetailerMarketplace,
+} from '../interfaces/price-engine.interface';
 import { Product } from '../../../database/entities/product.entity';
 import { Retailer } from '../../../database/entities/retailer.entity';
+import { OfferCondition } from '../../../database/entities/price.entity';
 import { PriceResult } from '../price-engine.service';
 
+// Listings fetched per product when collecting marketplace offers
+const OFFER_SEARCH_LIMIT = 20;
+
 @Injectable()
-export class EbayApiService implements PriceEngineService {
+export class EbayApiService implements RetailerAdapter {
   private readonly logger = new Logger(EbayApiService.name);
   private readonly appId: string;
   private readonly baseUrl = 'https://api.ebay.com/buy/browse/v1';
+  readonly adapterId = 'ebay';
+  readonly capabilities: RetailerAdapterCapability[] = ['search', 'gtin_lookup', 'offers', 'marketplace'];
+  readonly configSchema: RetailerAdapterConfigSchema = {
+    EBAY_APP_ID: { type: 'string', required: true, description: 'eBay Browse API application token' },
+  };
 
   constructor(private readonly configService: ConfigService) {
     this.appId = this.configService.get<string>('EBAY_APP_ID');
@@ -18,7 +32,7 @@ export class EbayApiService implements PriceEngineService {
   /**
    * Get product price from eBay API
    */
-  async getProductPrice(product: Product, retailer: Retailer): Promise<PriceResult | null> {
+  async getProductPrice(product: Product, retailer: Retailer, marketplace?: RetailerMarketplace): Promise<PriceResult | null> {
     try {
       if (!this.isConfigured()) {
         this.logger.warn('eBay API not configured');
@@ -28,7 +42,7 @@ export class EbayApiService implements PriceEngineService {
       this.logger.log(`Fetching price from eBay for product: ${product.name}`);
 
       // Search for product using eBay API
-      const searchResponse = await this.searchProduct(product);
+      const searchResponse = await this.searchProduct(product, 1, marketplace);
       if (!searchResponse || !searchResponse.itemSummaries || searchResponse.itemSummaries.length === 0) {
         return null;
       }
@@ -39,7 +53,7 @@ export class EbayApiService implements PriceEngineService {
       }
 
       // Get detailed product information
-      const productResponse = await this.getProductDetails(item.itemId);
+      const productResponse = await this.getProductDetails(item.itemId, marketplace);
       if (!productResponse) {
         return null;
       }
@@ -73,6 +87,14 @@ export class EbayApiService implements PriceEngineService {
         },
         promotions: priceInfo.promotions,
         ratings: priceInfo.ratings,
+        seller: this.extractSeller(productDetails.seller),
+        condition: this.mapCondition(productDetails.conditionId),
+        listing: {
+          title: productDetails.title,
+          brand: productDetails.brand,
+          gtin: productDetails.gtin,
+          modelNumber: productDetails.mpn,
+        },
         metadata: {
           source: 'api',
           confidence: 0.85,
@@ -85,25 +107,76 @@ export class EbayApiService implements PriceEngineService {
       return result;
     } catch (error) {
       this.logger.error('Failed to fetch eBay price:', error);
-      return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Get every fixed-price listing for a product from the search results
+   */
+  async getProductOffers(product: Product, retailer: Retailer, marketplace?: RetailerMarketplace): Promise<PriceResult[]> {
+    try {
+      if (!this.isConfigured()) {
+        this.logger.warn('eBay API not configured');
+        return [];
+      }
+
+      const searchResponse = await this.searchProduct(product, OFFER_SEARCH_LIMIT, marketplace);
+      const items = (searchResponse?.itemSummaries || [])
+        .filter((item: any) => item.price?.value && item.buyingOptions?.includes('FIXED_PRICE'));
+
+      return items.map((item: any): PriceResult => {
+        const shippingCost = item.shippingOptions?.find((option: any) =>
+          option.shippingCostType === 'FIXED'
+        )?.shippingCost?.value;
+
+        return {
+          productId: product.id,
+          retailerId: retailer.id,
+          price: parseFloat(item.price.value),
+          currency: item.price.currency || 'USD',
+          productUrl: item.itemWebUrl,
+          imageUrl: item.image?.imageUrl,
+          inStock: true,
+          stockQuantity: 1,
+          shippingCost: shippingCost ? parseFloat(shippingCost) : undefined,
+          availability: {
+            status: 'in_stock',
+            message: 'Available for purchase',
+            lastChecked: new Date(),
+          },
+          seller: this.extractSeller(item.seller),
+          condition: this.mapCondition(item.conditionId),
+          listing: {
+            title: item.title,
+          },
+          metadata: {
+            source: 'api',
+            confidence: 0.8,
+            lastVerified: new Date(),
+            dataQuality: 'medium',
+          },
+        };
+      });
+    } catch (error) {
+      this.logger.error('Failed to fetch eBay offers:', error);
+      throw error;
     }
   }
 
   /**
    * Search for product using eBay API
    */
-  private async searchProduct(product: Product): Promise<any> {
+  private async searchProduct(product: Product, limit = 1, marketplace?: RetailerMarketplace): Promise<any> {
     try {
       const searchQuery = `${product.brand} ${product.name}`.trim();
       const encodedQuery = encodeURIComponent(searchQuery);
+      const deliveryCountry = marketplace?.country || 'US';
       
-      const url = `${this.baseUrl}/item_summary/search?q=${encodedQuery}&limit=1&filter=deliveryCountry:US`;
+      const url = `${this.baseUrl}/item_summary/search?q=${encodedQuery}&limit=${limit}&filter=deliveryCountry:${deliveryCountry}`;
       
       const response = await fetch(url, {
-        headers: {
-          'Authorization': `Bearer ${this.appId}`,
-          'Content-Type': 'application/json',
-        },
+        headers: this.getHeaders(marketplace),
       });
       
       if (!response.ok) {
@@ -117,18 +190,31 @@ export class EbayApiService implements PriceEngineService {
     }
   }
 
+  /**
+   * The marketplace header picks the eBay site (and its currency); the end-user context makes
+   * shipping costs and delivery estimates apply to the shopper's country
+   */
+  private getHeaders(marketplace?: RetailerMarketplace): { [header: string]: string } {
+    const headers: { [header: string]: string } = {
+      'Authorization': `Bearer ${this.appId}`,
+      'Content-Type': 'application/json',
+      'X-EBAY-C-MARKETPLACE-ID': marketplace?.marketplaceId || 'EBAY_US',
+    };
+    if (marketplace?.country) {
+      headers['X-EBAY-C-ENDUSERCTX'] = `contextualLocation=country=${marketplace.country}`;
+    }
+    return headers;
+  }
+
   /**
    * Get detailed product information
    */
-  private async getProductDetails(itemId: string): Promise<any> {
+  private async getProductDetails(itemId: string, marketplace?: RetailerMarketplace): Promise<any> {
     try {
       const url = `${this.baseUrl}/item/${itemId}`;
       
       const response = await fetch(url, {
-        headers: {
-          'Authorization': `Bearer ${this.appId}`,
-          'Content-Type': 'application/json',
-        },
+        headers: this.getHeaders(marketplace),
       });
       
       if (!response.ok) {
@@ -196,6 +282,39 @@ export class EbayApiService implements PriceEngineService {
     }
   }
 
+  /**
+   * Seller identity with feedback scaled to a 0-5 rating
+   */
+  private extractSeller(seller: any): PriceResult['seller'] {
+    if (!seller?.username) {
+      return undefined;
+    }
+
+    return {
+      id: seller.username,
+      name: seller.username,
+      rating: seller.feedbackPercentage ? parseFloat(seller.feedbackPercentage) / 20 : undefined,
+      ratingCount: seller.feedbackScore,
+    };
+  }
+
+  /**
+   * Map eBay condition ids onto our offer conditions
+   */
+  private mapCondition(conditionId: string): OfferCondition {
+    const id = parseInt(conditionId, 10);
+    if (!id || id === 1000) {
+      return 'new';
+    }
+    if (id === 1500 || id === 1750) {
+      return 'open_box';
+    }
+    if (id >= 2000 && id < 3000) {
+      return 'refurbished';
+    }
+    return 'used';
+  }
+
   /**
    * Check if eBay API is configured
    */
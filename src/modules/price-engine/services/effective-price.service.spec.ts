@@ -0,0 +1,99 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { EffectivePriceService } from './effective-price.service';
+import { Retailer } from '../../../database/entities/retailer.entity';
+import { PriceResult } from '../price-engine.service';
+
+describe('EffectivePriceService', () => {
+  let service: EffectivePriceService;
+
+  const now = new Date('2024-06-01T00:00:00Z');
+  const tomorrow = new Date('2024-06-02T00:00:00Z');
+  const yesterday = new Date('2024-05-31T00:00:00Z');
+
+  const priceWith = (promotions: PriceResult['promotions']) => ({
+    productId: 'product-123',
+    retailerId: 'retailer-123',
+    price: 100,
+    currency: 'USD',
+    promotions,
+  } as PriceResult);
+
+  const stackingRetailer = { id: 'retailer-123', promotionPolicy: { stacking: 'all' } } as Retailer;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [EffectivePriceService],
+    }).compile();
+
+    service = module.get<EffectivePriceService>(EffectivePriceService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should return the base price when there are no promotions', () => {
+    const result = service.calculate(priceWith(undefined), null, now);
+
+    expect(result.effectivePrice).toBe(100);
+    expect(result.breakdown).toEqual([]);
+  });
+
+  it('should ignore expired promotions', () => {
+    const result = service.calculate(priceWith([
+      { type: 'percentage', value: 20, description: '20% off', validUntil: yesterday },
+    ]), null, now);
+
+    expect(result.effectivePrice).toBe(100);
+    expect(result.breakdown[0]).toMatchObject({ applied: false, reason: 'expired' });
+  });
+
+  it('should apply only the best promotion when the retailer does not stack', () => {
+    const result = service.calculate(priceWith([
+      { type: 'percentage', value: 10, description: '10% off', validUntil: tomorrow },
+      { type: 'fixed', value: 15, description: '$15 off', validUntil: null },
+    ]), null, now);
+
+    expect(result.effectivePrice).toBe(85);
+    expect(result.breakdown.filter(step => step.applied)).toHaveLength(1);
+  });
+
+  it('should stack percentage before fixed discounts when allowed', () => {
+    const result = service.calculate(priceWith([
+      { type: 'fixed', value: 10, description: '$10 off', validUntil: tomorrow },
+      { type: 'percentage', value: 20, description: '20% off', validUntil: tomorrow },
+    ]), stackingRetailer, now);
+
+    expect(result.effectivePrice).toBe(70);
+    expect(result.breakdown.map(step => step.type)).toEqual(['percentage', 'fixed']);
+  });
+
+  it('should price BOGO per unit', () => {
+    const result = service.calculate(priceWith([
+      { type: 'bogo', value: 50, description: 'Second one half price', validUntil: tomorrow },
+    ]), null, now);
+
+    expect(result.effectivePrice).toBe(75);
+    expect(result.breakdown[0]).toMatchObject({ applied: true, amount: 25, units: 2 });
+  });
+
+  it('should cap the total discount at the retailer maximum', () => {
+    const retailer = { id: 'retailer-123', promotionPolicy: { stacking: 'all', maxDiscountPercentage: 30 } } as Retailer;
+
+    const result = service.calculate(priceWith([
+      { type: 'percentage', value: 25, description: '25% off', validUntil: tomorrow },
+      { type: 'fixed', value: 20, description: '$20 off', validUntil: tomorrow },
+    ]), retailer, now);
+
+    expect(result.effectivePrice).toBe(70);
+  });
+
+  it('should flag free shipping without changing the item price', () => {
+    const result = service.calculate(priceWith([
+      { type: 'free_shipping', value: 0, description: 'Free shipping', validUntil: tomorrow },
+    ]), null, now);
+
+    expect(result.effectivePrice).toBe(100);
+    expect(result.freeShipping).toBe(true);
+  });
+});
@@ -0,0 +1,141 @@
+import { Injectable } from '@nestjs/common';
+import { Retailer } from '../../../database/entities/retailer.entity';
+import { PriceResult } from '../price-engine.service';
+
+type Promotion = PriceResult['promotions'][number];
+
+export interface EffectivePriceStep {
+  type: Promotion['type'];
+  description: string;
+  amount: number;
+  applied: boolean;
+  reason?: string;
+  units?: number;
+}
+
+export interface EffectivePrice {
+  basePrice: number;
+  effectivePrice: number;
+  currency: string;
+  freeShipping: boolean;
+  breakdown: EffectivePriceStep[];
+}
+
+// Percentages compound first, then fixed amounts, then multi-buy deals on what is left
+const STACK_ORDER: Promotion['type'][] = ['percentage', 'fixed', 'bogo'];
+
+@Injectable()
+export class EffectivePriceService {
+  /**
+   * Apply a listing's valid promotions under the retailer's stacking policy
+   */
+  calculate(price: PriceResult, retailer: Retailer | null, now = new Date()): EffectivePrice {
+    const basePrice = Number(price.price);
+    const policy = retailer?.promotionPolicy || { stacking: 'best' as const };
+    const breakdown: EffectivePriceStep[] = [];
+    const candidates: Promotion[] = [];
+    let freeShipping = false;
+
+    for (const promotion of price.promotions || []) {
+      if (promotion.validUntil && new Date(promotion.validUntil) < now) {
+        breakdown.push(this.step(promotion, 0, false, 'expired'));
+        continue;
+      }
+
+      if (promotion.type === 'free_shipping') {
+        freeShipping = true;
+        breakdown.push(this.step(promotion, 0, true));
+        continue;
+      }
+
+      candidates.push(promotion);
+    }
+
+    let effectivePrice = basePrice;
+
+    if (policy.stacking === 'all') {
+      const ordered = [...candidates].sort((a, b) => STACK_ORDER.indexOf(a.type) - STACK_ORDER.indexOf(b.type));
+      for (const promotion of ordered) {
+        const discounted = this.applyPromotion(effectivePrice, promotion);
+        breakdown.push(this.step(promotion, effectivePrice - discounted, true));
+        effectivePrice = discounted;
+      }
+    } else {
+      // Only the single most valuable price promotion counts
+      let best: Promotion | null = null;
+      let bestPrice = basePrice;
+      for (const promotion of candidates) {
+        const discounted = this.applyPromotion(basePrice, promotion);
+        if (discounted < bestPrice) {
+          best = promotion;
+          bestPrice = discounted;
+        }
+      }
+
+      for (const promotion of candidates) {
+        breakdown.push(promotion === best
+          ? this.step(promotion, basePrice - bestPrice, true)
+          : this.step(promotion, 0, false, 'retailer does not allow stacking'));
+      }
+      effectivePrice = bestPrice;
+    }
+
+    if (policy.maxDiscountPercentage !== undefined && policy.maxDiscountPercentage !== null) {
+      const floor = basePrice * (1 - policy.maxDiscountPercentage / 100);
+      if (effectivePrice < floor) {
+        breakdown.push({
+          type: 'percentage',
+          description: `Capped at ${policy.maxDiscountPercentage}% total discount`,
+          amount: this.round(effectivePrice - floor),
+          applied: true,
+          reason: 'retailer discount cap',
+        });
+        effectivePrice = floor;
+      }
+    }
+
+    return {
+      basePrice,
+      effectivePrice: this.round(Math.max(0, effectivePrice)),
+      currency: price.currency,
+      freeShipping,
+      breakdown,
+    };
+  }
+
+  /**
+   * Price per unit after a single promotion
+   */
+  private applyPromotion(unitPrice: number, promotion: Promotion): number {
+    const value = Number(promotion.value) || 0;
+
+    switch (promotion.type) {
+      case 'percentage':
+        return unitPrice * (1 - Math.min(value, 100) / 100);
+      case 'fixed':
+        return Math.max(0, unitPrice - value);
+      case 'bogo': {
+        // value is the percentage off the second unit; a bare BOGO means the second one is free
+        const secondUnitDiscount = value > 0 ? Math.min(value, 100) : 100;
+        return (unitPrice * 2 - unitPrice * (secondUnitDiscount / 100)) / 2;
+      }
+      default:
+        return unitPrice;
+    }
+  }
+
+  private step(promotion: Promotion, amount: number, applied: boolean, reason?: string): EffectivePriceStep {
+    return {
+      type: promotion.type,
+      description: promotion.description,
+      amount: this.round(amount),
+      applied,
+      reason,
+      units: promotion.type === 'bogo' ? 2 : undefined,
+    };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
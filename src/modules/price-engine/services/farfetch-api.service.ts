@@ -1,15 +1,24 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { PriceEngineService } from '../interfaces/price-engine.interface';
+import {
+  RetailerAdapter,
+  RetailerAdapterCapability,
+  RetailerAdapterConfigSchema,
+} from '../interfaces/price-engine.interface';
 import { Product } from '../../../database/entities/product.entity';
 import { Retailer } from '../../../database/entities/retailer.entity';
 import { PriceResult } from '../price-engine.service';
 
 @Injectable()
-export class FarfetchApiService implements PriceEngineService {
+export class FarfetchApiService implements RetailerAdapter {
   private readonly logger = new Logger(FarfetchApiService.name);
   private readonly apiKey: string;
   private readonly baseUrl = 'https://api.farfetch.com';
+  readonly adapterId = 'farfetch';
+  readonly capabilities: RetailerAdapterCapability[] = ['search', 'offers', 'stock'];
+  readonly configSchema: RetailerAdapterConfigSchema = {
+    FARFETCH_API_KEY: { type: 'string', required: true, description: 'Farfetch partner API key' },
+  };
 
   constructor(private readonly configService: ConfigService) {
     this.apiKey = this.configService.get<string>('FARFETCH_API_KEY');
@@ -65,6 +74,10 @@ export class FarfetchApiService implements PriceEngineService {
         },
         promotions: priceInfo.promotions,
         ratings: priceInfo.ratings,
+        listing: {
+          title: item.shortDescription,
+          brand: item.brand?.name,
+        },
         metadata: {
           source: 'api',
           confidence: 0.86,
@@ -77,7 +90,7 @@ export class FarfetchApiService implements PriceEngineService {
       return result;
     } catch (error) {
       this.logger.error('Failed to fetch Farfetch price:', error);
-      return null;
+      throw error;
     }
   }
 
@@ -0,0 +1,179 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, InternalServerErrorException } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { promises as fs } from 'fs';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { FxRatesService, FxRateTable } from './fx-rates.service';
+import { FxRate } from '../../../database/entities/fx-rate.entity';
+import { CacheService } from '../../../common/cache/cache.service';
+import { ImportFxRatesDto } from '../dto/import-fx-rates.dto';
+
+describe('FxRatesService', () => {
+  let service: FxRatesService;
+
+  const table: FxRateTable = {
+    base: 'USD',
+    rates: { USD: 1, EUR: 0.9, GBP: 0.8 },
+    asOf: new Date(),
+  };
+
+  const mockFxRateRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn(data => data),
+    save: jest.fn(),
+  };
+
+  const mockCacheService = {
+    get: jest.fn(),
+    set: jest.fn(),
+    del: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: any) => defaultValue),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FxRatesService,
+        {
+          provide: getRepositoryToken(FxRate),
+          useValue: mockFxRateRepository,
+        },
+        {
+          provide: CacheService,
+          useValue: mockCacheService,
+        },
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<FxRatesService>(FxRatesService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+    mockConfigService.get.mockImplementation((key: string, defaultValue?: any) => defaultValue);
+  });
+
+  describe('convert', () => {
+    it('should return the amount unchanged for the same currency', () => {
+      expect(service.convert(100, 'EUR', 'eur', table)).toBe(100);
+    });
+
+    it('should convert through the base currency', () => {
+      expect(service.convert(90, 'EUR', 'GBP', table)).toBe(80);
+      expect(service.convert(100, 'USD', 'EUR', table)).toBe(90);
+    });
+
+    it('should return null when a rate is missing', () => {
+      expect(service.convert(100, 'JPY', 'USD', table)).toBeNull();
+    });
+
+    it('should leave missing amounts undefined', () => {
+      expect(service.convert(undefined, 'EUR', 'USD', table)).toBeUndefined();
+    });
+  });
+
+  describe('getRateTable', () => {
+    it('should build the table from stored rates and cache it', async () => {
+      mockCacheService.get.mockResolvedValue(null);
+      mockFxRateRepository.find.mockResolvedValue([
+        { baseCurrency: 'USD', quoteCurrency: 'EUR', rate: '0.90000000', asOf: new Date('2024-01-01') },
+      ]);
+
+      const result = await service.getRateTable();
+
+      expect(result.rates).toEqual({ USD: 1, EUR: 0.9 });
+      expect(mockCacheService.set).toHaveBeenCalledWith('fx_rates:USD', result, 3600);
+    });
+  });
+
+  describe('importRates', () => {
+    it('should upsert valid rates and clear the cache', async () => {
+      mockFxRateRepository.findOne.mockResolvedValue(null);
+
+      const imported = await service.importRates({ rates: { eur: 0.9, USD: 1, XX: 2, GBP: -1 } }, 'manual');
+
+      expect(imported).toBe(1);
+      expect(mockFxRateRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ baseCurrency: 'USD', quoteCurrency: 'EUR', rate: 0.9, source: 'manual' }),
+      );
+      expect(mockCacheService.del).toHaveBeenCalledWith('fx_rates:USD');
+    });
+
+    it('should rebase rates quoted against another base onto the configured one', async () => {
+      mockFxRateRepository.findOne.mockResolvedValue(null);
+
+      const imported = await service.importRates({ base: 'EUR', rates: { USD: 1.25, GBP: 0.85 } }, 'scheduled');
+
+      const saved = mockFxRateRepository.save.mock.calls.map(([row]) => row);
+      expect(imported).toBe(2);
+      expect(saved.every(row => row.baseCurrency === 'USD')).toBe(true);
+      expect(saved.find(row => row.quoteCurrency === 'EUR').rate).toBeCloseTo(0.8);
+      expect(saved.find(row => row.quoteCurrency === 'GBP').rate).toBeCloseTo(0.68);
+      expect(mockCacheService.del).toHaveBeenCalledWith('fx_rates:USD');
+      expect(mockCacheService.del).not.toHaveBeenCalledWith('fx_rates:EUR');
+    });
+
+    it('should reject rates against another base that can\'t be rebased', async () => {
+      await expect(service.importRates({ base: 'EUR', rates: { GBP: 0.85 } }, 'manual')).rejects.toThrow(BadRequestException);
+      expect(mockFxRateRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('importFromFile', () => {
+    it('should read only the configured rates file', async () => {
+      mockConfigService.get.mockImplementation((key: string, defaultValue?: any) =>
+        key === 'FX_RATES_FILE' ? '/etc/fx/rates.json' : defaultValue);
+      const readFile = jest.spyOn(fs, 'readFile').mockResolvedValue('{"rates":{"EUR":0.9}}' as any);
+      mockFxRateRepository.findOne.mockResolvedValue(null);
+
+      const imported = await service.importFromFile();
+
+      expect(readFile).toHaveBeenCalledWith('/etc/fx/rates.json', 'utf8');
+      expect(imported).toBe(1);
+    });
+
+    it('should not pass read or parse errors on to the caller', async () => {
+      mockConfigService.get.mockImplementation((key: string, defaultValue?: any) =>
+        key === 'FX_RATES_FILE' ? '/etc/fx/rates.json' : defaultValue);
+      jest.spyOn(fs, 'readFile').mockResolvedValue('secret-contents' as any);
+
+      const error = await service.importFromFile().catch(err => err);
+
+      expect(error).toBeInstanceOf(InternalServerErrorException);
+      expect(error.message).not.toContain('secret');
+      expect(error.message).not.toContain('/etc/fx');
+    });
+
+    it('should reject the import when no file is configured', async () => {
+      await expect(service.importFromFile()).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('ImportFxRatesDto', () => {
+    const errorsFor = async (body: object) =>
+      (await validate(plainToInstance(ImportFxRatesDto, body))).map(error => error.property);
+
+    it('should accept currency codes with positive rates', async () => {
+      expect(await errorsFor({ base: 'usd', rates: { EUR: 0.9, GBP: 0.8 }, asOf: '2024-01-01' })).toEqual([]);
+      expect(await errorsFor({})).toEqual([]);
+    });
+
+    it('should reject malformed rates and currencies', async () => {
+      expect(await errorsFor({ rates: { EUR: -1 } })).toEqual(['rates']);
+      expect(await errorsFor({ rates: { EURO: 0.9 } })).toEqual(['rates']);
+      expect(await errorsFor({ rates: { EUR: '0.9' } })).toEqual(['rates']);
+      expect(await errorsFor({ base: 'dollars', rates: { EUR: 0.9 } })).toEqual(['base']);
+    });
+  });
+});
@@ -0,0 +1,227 @@
+import { Injectable, Logger, BadRequestException, InternalServerErrorException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Repository } from 'typeorm';
+import { promises as fs } from 'fs';
+import { FxRate } from '../../../database/entities/fx-rate.entity';
+import { CacheService } from '../../../common/cache/cache.service';
+
+export interface FxRateTable {
+  base: string;
+  rates: { [currency: string]: number };
+  asOf: Date;
+}
+
+export interface FxRateImport {
+  base?: string;
+  rates: { [currency: string]: number };
+  asOf?: Date;
+}
+
+@Injectable()
+export class FxRatesService {
+  private readonly logger = new Logger(FxRatesService.name);
+  private readonly baseCurrency: string;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @InjectRepository(FxRate)
+    private readonly fxRateRepository: Repository<FxRate>,
+    private readonly cacheService: CacheService,
+  ) {
+    this.baseCurrency = this.configService.get<string>('FX_BASE_CURRENCY', 'USD').toUpperCase();
+  }
+
+  /**
+   * Get the current rate table, quoted against the base currency
+   */
+  async getRateTable(): Promise<FxRateTable> {
+    const cacheKey = `fx_rates:${this.baseCurrency}`;
+    const cached = await this.cacheService.get<FxRateTable>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const rows = await this.fxRateRepository.find({ where: { baseCurrency: this.baseCurrency } });
+    const table: FxRateTable = {
+      base: this.baseCurrency,
+      rates: { [this.baseCurrency]: 1 },
+      asOf: rows.length > 0 ? rows.reduce((latest, row) => (row.asOf > latest ? row.asOf : latest), rows[0].asOf) : new Date(0),
+    };
+
+    for (const row of rows) {
+      table.rates[row.quoteCurrency] = Number(row.rate);
+    }
+
+    await this.cacheService.set(cacheKey, table, 3600); // 1 hour TTL
+    return table;
+  }
+
+  /**
+   * Convert an amount between currencies using a rate table.
+   * Missing amounts stay undefined; a missing rate yields null.
+   */
+  convert(amount: number, from: string, to: string, table: FxRateTable): number | null | undefined {
+    if (amount === null || amount === undefined) {
+      return undefined;
+    }
+
+    const source = (from || table.base).toUpperCase();
+    const target = to.toUpperCase();
+    if (source === target) {
+      return amount;
+    }
+
+    const rate = this.getRate(source, target, table);
+    return rate === null ? null : Math.round(amount * rate * 100) / 100;
+  }
+
+  /**
+   * Get the cross rate from one currency to another
+   */
+  getRate(from: string, to: string, table: FxRateTable): number | null {
+    const fromRate = table.rates[from.toUpperCase()];
+    const toRate = table.rates[to.toUpperCase()];
+    if (!fromRate || !toRate) {
+      return null;
+    }
+
+    return toRate / fromRate;
+  }
+
+  /**
+   * Store a set of rates against the configured base currency, replacing any existing rate for the same pair.
+   * Rates quoted against another base are rebased through that base's rate for the configured one.
+   */
+  async importRates(data: FxRateImport, source: FxRate['source']): Promise<number> {
+    const base = this.baseCurrency;
+    const rates = this.rebase(data);
+    const asOf = data.asOf ? new Date(data.asOf) : new Date();
+    let imported = 0;
+
+    for (const [currency, rate] of Object.entries(rates)) {
+      const quote = currency.toUpperCase();
+      if (quote === base || !/^[A-Z]{3}$/.test(quote) || !(Number(rate) > 0)) {
+        continue;
+      }
+
+      let fxRate = await this.fxRateRepository.findOne({ where: { baseCurrency: base, quoteCurrency: quote } });
+      if (fxRate) {
+        fxRate.rate = Number(rate);
+        fxRate.source = source;
+        fxRate.asOf = asOf;
+      } else {
+        fxRate = this.fxRateRepository.create({
+          baseCurrency: base,
+          quoteCurrency: quote,
+          rate: Number(rate),
+          source,
+          asOf,
+        });
+      }
+
+      await this.fxRateRepository.save(fxRate);
+      imported++;
+    }
+
+    await this.cacheService.del(`fx_rates:${base}`);
+    this.logger.log(`Imported ${imported} FX rates against ${base} (${source})`);
+    return imported;
+  }
+
+  /**
+   * Quote imported rates against the configured base currency
+   */
+  private rebase(data: FxRateImport): { [currency: string]: number } {
+    const importBase = (data.base || this.baseCurrency).toUpperCase();
+    const rates: { [currency: string]: number } = {};
+    for (const [currency, rate] of Object.entries(data.rates || {})) {
+      rates[currency.toUpperCase()] = Number(rate);
+    }
+
+    if (importBase === this.baseCurrency) {
+      return rates;
+    }
+
+    // One unit of the configured base buys this many units of the import base
+    const baseRate = rates[this.baseCurrency];
+    if (!(baseRate > 0)) {
+      throw new BadRequestException(
+        `Rates are quoted against ${importBase} without a rate for ${this.baseCurrency}, so they can't be rebased`,
+      );
+    }
+
+    const rebased: { [currency: string]: number } = { [importBase]: 1 / baseRate };
+    for (const [currency, rate] of Object.entries(rates)) {
+      rebased[currency] = rate / baseRate;
+    }
+    return rebased;
+  }
+
+  /**
+   * Import rates from the JSON or CSV file configured as FX_RATES_FILE.
+   * Read and parse errors are logged, not returned, so callers never see the file's path or contents.
+   */
+  async importFromFile(): Promise<number> {
+    const path = this.configService.get<string>('FX_RATES_FILE');
+    if (!path) {
+      throw new BadRequestException('No FX rates file configured');
+    }
+
+    let data: FxRateImport;
+    try {
+      const content = await fs.readFile(path, 'utf8');
+      data = path.toLowerCase().endsWith('.csv') ? this.parseCsv(content) : JSON.parse(content);
+    } catch (error) {
+      this.logger.error('Failed to read the configured FX rates file:', error);
+      throw new InternalServerErrorException('Failed to read the configured FX rates file');
+    }
+
+    return await this.importRates(data, 'file');
+  }
+
+  /**
+   * Refresh rates from the configured provider, falling back to the local file
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async refreshRates(): Promise<void> {
+    const ratesUrl = this.configService.get<string>('FX_RATES_URL');
+
+    try {
+      if (ratesUrl) {
+        const response = await fetch(ratesUrl);
+        if (!response.ok) {
+          throw new Error(`FX rates provider error: ${response.status} ${response.statusText}`);
+        }
+
+        const body = await response.json();
+        await this.importRates({
+          base: body.base || body.base_code,
+          rates: body.rates || body.conversion_rates,
+          asOf: body.date ? new Date(body.date) : new Date(),
+        }, 'scheduled');
+      } else if (this.configService.get<string>('FX_RATES_FILE')) {
+        await this.importFromFile();
+      }
+    } catch (error) {
+      this.logger.error('Failed to refresh FX rates:', error);
+    }
+  }
+
+  /**
+   * Parse "currency,rate" lines, skipping a header row if present
+   */
+  private parseCsv(content: string): FxRateImport {
+    const rates: { [currency: string]: number } = {};
+
+    for (const line of content.split(/\r?\n/)) {
+      const [currency, rate] = line.split(',').map(cell => cell.trim());
+      if (currency && rate && !isNaN(parseFloat(rate))) {
+        rates[currency] = parseFloat(rate);
+      }
+    }
+
+    return { base: this.baseCurrency, rates };
+  }
+}
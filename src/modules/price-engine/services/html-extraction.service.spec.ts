@@ -0,0 +1,172 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { HtmlExtractionService } from './html-extraction.service';
+import { PriceResult } from '../price-engine.service';
+
+describe('HtmlExtractionService', () => {
+  let service: HtmlExtractionService;
+
+  const selectors = {
+    productName: '#title',
+    price: '.a-price-whole',
+    availability: '#availability span',
+    image: '#landingImage',
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [HtmlExtractionService],
+    }).compile();
+
+    service = module.get<HtmlExtractionService>(HtmlExtractionService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should extract a schema.org Product from JSON-LD', () => {
+    const html = `
+      <html><head>
+        <script type="application/ld+json">
+          {"@context": "https://schema.org", "@graph": [
+            {"@type": "BreadcrumbList"},
+            {"@type": "Product", "name": "Acme Widget 3000", "brand": {"@type": "Brand", "name": "Acme"},
+             "gtin13": "0012345678905", "mpn": "AW-3000", "image": ["https://cdn.example.com/w.jpg"],
+             "offers": {"@type": "Offer", "price": "149.99", "priceCurrency": "usd",
+               "availability": "https://schema.org/InStock", "itemCondition": "https://schema.org/RefurbishedCondition"}}
+          ]}
+        </script>
+      </head><body></body></html>`;
+
+    expect(service.extract(html)).toMatchObject({
+      source: 'json_ld',
+      title: 'Acme Widget 3000',
+      brand: 'Acme',
+      gtin: '0012345678905',
+      modelNumber: 'AW-3000',
+      price: 149.99,
+      currency: 'USD',
+      availability: 'in_stock',
+      condition: 'refurbished',
+      imageUrl: 'https://cdn.example.com/w.jpg',
+    });
+  });
+
+  it('should read microdata when there is no JSON-LD', () => {
+    const html = `
+      <div itemscope itemtype="https://schema.org/Product">
+        <h1 itemprop="name">Acme Widget</h1>
+        <div itemprop="offers" itemscope itemtype="https://schema.org/Offer">
+          <meta itemprop="priceCurrency" content="EUR">
+          <span itemprop="price" content="1299.00">1.299,00 €</span>
+          <link itemprop="availability" href="https://schema.org/OutOfStock">
+        </div>
+      </div>`;
+
+    expect(service.extract(html)).toMatchObject({
+      source: 'microdata',
+      title: 'Acme Widget',
+      price: 1299,
+      currency: 'EUR',
+      availability: 'out_of_stock',
+    });
+  });
+
+  it('should fall back to OpenGraph price tags', () => {
+    const html = `
+      <head>
+        <meta property="og:title" content="Acme Widget">
+        <meta property="product:price:amount" content="49.50">
+        <meta property="product:price:currency" content="GBP">
+        <meta property="og:image" content="https://cdn.example.com/og.jpg">
+      </head>`;
+
+    expect(service.extract(html)).toMatchObject({
+      source: 'opengraph',
+      price: 49.5,
+      currency: 'GBP',
+      imageUrl: 'https://cdn.example.com/og.jpg',
+    });
+  });
+
+  it('should fall back to CSS selectors and fill gaps from other sources', () => {
+    const html = `
+      <head><meta property="og:title" content="Acme Widget (OG)"></head>
+      <body>
+        <span class="a-price-whole">1,049.</span>
+        <div id="availability"><span>Only 3 left in stock</span></div>
+        <img id="landingImage" src="/images/widget.jpg">
+      </body>`;
+
+    expect(service.extract(html, selectors)).toMatchObject({
+      source: 'css',
+      title: 'Acme Widget (OG)',
+      price: 1049,
+      availability: 'limited',
+      imageUrl: '/images/widget.jpg',
+    });
+  });
+
+  it('should return null when no source yields a price', () => {
+    expect(service.extract('<html><body><h1>Nothing here</h1></body></html>', selectors)).toBeNull();
+  });
+
+  it('should ignore broken JSON-LD and invalid selectors', () => {
+    const html = `
+      <script type="application/ld+json">{ not json</script>
+      <span class="price">$12.00</span>`;
+
+    expect(service.extract(html, { ...selectors, price: '.price', productName: '((' })).toMatchObject({
+      source: 'css',
+      price: 12,
+    });
+  });
+
+  it('should parse European and US price formats', () => {
+    expect(service.parsePrice('1.299,99 €')).toBe(1299.99);
+    expect(service.parsePrice('$1,299.99')).toBe(1299.99);
+    expect(service.parsePrice('12,50')).toBe(12.5);
+    expect(service.parsePrice('1,299')).toBe(1299);
+    expect(service.parsePrice('n/a')).toBeUndefined();
+  });
+
+  it('should report problems with an invalid price result', () => {
+    const problems = service.validatePriceResult({
+      productId: 'product-123',
+      retailerId: 'retailer-123',
+      price: 0,
+      currency: 'dollars',
+      productUrl: 'javascript:alert(1)',
+      inStock: true,
+      availability: { status: 'in_stock', message: '', lastChecked: new Date() },
+      metadata: { source: 'scraper', confidence: 0.65, lastVerified: new Date(), dataQuality: 'medium' },
+    } as PriceResult);
+
+    expect(problems).toHaveLength(3);
+  });
+
+  it('should collect search result links from selectors or a schema.org ItemList', () => {
+    const listPage = `
+      <div class="result"><a class="title" href="/p/1?ref=search#reviews">Acme Widget 3000</a></div>
+      <div class="result"><a class="title" href="https://shop.example.com/p/2">Acme Widget 2000</a></div>`;
+    const itemListPage = `
+      <script type="application/ld+json">
+        {"@type": "ItemList", "itemListElement": [
+          {"@type": "ListItem", "position": 1, "url": "/p/3", "name": "Acme Widget Mini"}
+        ]}
+      </script>`;
+
+    const fromSelectors = service.extractSearchCandidates(
+      listPage,
+      'https://shop.example.com/search?q=widget',
+      { item: '.result', link: 'a.title' },
+    );
+    const fromItemList = service.extractSearchCandidates(itemListPage, 'https://shop.example.com/search?q=widget');
+
+    expect(fromSelectors).toEqual([
+      { url: 'https://shop.example.com/p/1?ref=search', title: 'Acme Widget 3000' },
+      { url: 'https://shop.example.com/p/2', title: 'Acme Widget 2000' },
+    ]);
+    expect(fromItemList).toEqual([{ url: 'https://shop.example.com/p/3', title: 'Acme Widget Mini' }]);
+  });
+});
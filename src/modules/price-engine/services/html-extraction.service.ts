@@ -0,0 +1,509 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as cheerio from 'cheerio';
+import { OFFER_CONDITIONS, OfferCondition } from '../../../database/entities/price.entity';
+import { PriceResult } from '../price-engine.service';
+
+export type ExtractionSource = 'json_ld' | 'microdata' | 'opengraph' | 'css';
+
+type AvailabilityStatus = PriceResult['availability']['status'];
+
+export interface ExtractedListing {
+  source: ExtractionSource;
+  title?: string;
+  brand?: string;
+  gtin?: string;
+  modelNumber?: string;
+  price?: number;
+  currency?: string;
+  availability?: AvailabilityStatus;
+  availabilityMessage?: string;
+  condition?: OfferCondition;
+  imageUrl?: string;
+  url?: string;
+  shippingCost?: number;
+  sellerName?: string;
+  rating?: { average: number; count: number };
+}
+
+export interface CssSelectors {
+  productName: string;
+  price: string;
+  availability: string;
+  image: string;
+}
+
+export interface SearchResultSelectors {
+  item: string;
+  link: string;
+  title?: string;
+}
+
+export interface SearchCandidate {
+  url: string;
+  title?: string;
+}
+
+export interface SelectorMatch {
+  field: string;
+  selector: string;
+  matches: number;
+  text?: string;
+  error?: string;
+}
+
+const AVAILABILITY_STATUSES: AvailabilityStatus[] = ['in_stock', 'out_of_stock', 'limited', 'pre_order'];
+
+// schema.org ItemAvailability values, matched on the last path segment
+const SCHEMA_AVAILABILITY: { [value: string]: AvailabilityStatus } = {
+  instock: 'in_stock',
+  instoreonly: 'in_stock',
+  onlineonly: 'in_stock',
+  limitedavailability: 'limited',
+  outofstock: 'out_of_stock',
+  soldout: 'out_of_stock',
+  discontinued: 'out_of_stock',
+  preorder: 'pre_order',
+  presale: 'pre_order',
+  backorder: 'pre_order',
+};
+
+const SCHEMA_CONDITION: { [value: string]: OfferCondition } = {
+  newcondition: 'new',
+  new: 'new',
+  usedcondition: 'used',
+  used: 'used',
+  damagedcondition: 'used',
+  refurbishedcondition: 'refurbished',
+  refurbished: 'refurbished',
+};
+
+@Injectable()
+export class HtmlExtractionService {
+  private readonly logger = new Logger(HtmlExtractionService.name);
+
+  /**
+   * Extract a listing from a product page: schema.org JSON-LD first, then microdata,
+   * then OpenGraph price tags, then the retailer's CSS selectors.
+   * Later sources only fill fields the earlier ones left empty.
+   */
+  extract(html: string, selectors?: CssSelectors): ExtractedListing | null {
+    return this.merge(this.extractSources(html, selectors));
+  }
+
+  /**
+   * Run every source separately, in priority order, skipping those that found nothing
+   */
+  extractSources(html: string, selectors?: CssSelectors): ExtractedListing[] {
+    const $ = cheerio.load(html);
+
+    return [
+      this.extractJsonLd($),
+      this.extractMicrodata($),
+      this.extractOpenGraph($),
+      selectors ? this.extractCss($, selectors) : null,
+    ].filter(candidate => !!candidate);
+  }
+
+  /**
+   * Combine per-source results the way extract() does
+   */
+  merge(candidates: ExtractedListing[]): ExtractedListing | null {
+    const primary = candidates.find(candidate => candidate.price !== undefined);
+    if (!primary) {
+      return null;
+    }
+
+    const listing: { [field: string]: any } = { ...primary };
+    for (const candidate of candidates) {
+      for (const [field, value] of Object.entries(candidate)) {
+        if (listing[field] === undefined && value !== undefined) {
+          listing[field] = value;
+        }
+      }
+    }
+
+    return listing as ExtractedListing;
+  }
+
+  /**
+   * Report what each CSS selector matches on a page, for diagnosing broken selectors
+   */
+  inspectSelectors(html: string, selectors: CssSelectors): SelectorMatch[] {
+    const $ = cheerio.load(html);
+
+    return Object.entries(selectors || {}).map(([field, selector]) => {
+      try {
+        const elements = $(selector);
+        const first = elements.first();
+        return {
+          field,
+          selector,
+          matches: elements.length,
+          text: elements.length > 0 ? this.text(first.attr('content') || first.attr('src') || first.text()) : undefined,
+        };
+      } catch (error) {
+        return { field, selector, matches: 0, error: error.message };
+      }
+    });
+  }
+
+  /**
+   * Collect product links from a search results page: the retailer's result selectors,
+   * then a schema.org ItemList, then any same-site link with descriptive text
+   */
+  extractSearchCandidates(html: string, pageUrl: string, selectors?: SearchResultSelectors, limit = 20): SearchCandidate[] {
+    const $ = cheerio.load(html);
+    const candidates: SearchCandidate[] = [];
+    const seen = new Set<string>();
+    const add = (href: string, title: string) => {
+      const url = this.resolveUrl(href, pageUrl);
+      if (url && !seen.has(url) && candidates.length < limit) {
+        seen.add(url);
+        candidates.push({ url, title: this.text(title) });
+      }
+    };
+
+    if (selectors?.item && selectors.link) {
+      $(selectors.item).each((_, element) => {
+        const item = $(element);
+        const link = item.find(selectors.link).first();
+        const title = selectors.title ? item.find(selectors.title).first().text() : link.attr('title') || link.text();
+        add(link.attr('href'), title);
+      });
+      return candidates;
+    }
+
+    const nodes: any[] = [];
+    $('script[type="application/ld+json"]').each((_, element) => {
+      try {
+        this.collectJsonLdNodes(JSON.parse($(element).contents().text()), nodes);
+      } catch (error) {
+        this.logger.debug(`Skipping unparseable JSON-LD block: ${error.message}`);
+      }
+    });
+    for (const list of nodes.filter(node => this.hasType(node, 'ItemList'))) {
+      for (const entry of [].concat(list.itemListElement || [])) {
+        const item = typeof entry.item === 'object' ? entry.item : entry;
+        add(item.url || (typeof entry.item === 'string' ? entry.item : undefined), item.name);
+      }
+    }
+    if (candidates.length > 0) {
+      return candidates;
+    }
+
+    const host = this.hostOf(pageUrl);
+    $('a[href]').each((_, element) => {
+      const link = $(element);
+      const title = this.text(link.attr('title') || link.text());
+      const url = this.resolveUrl(link.attr('href'), pageUrl);
+      // Navigation links are short; product titles rarely are
+      if (title && title.length >= 15 && url && this.hostOf(url) === host) {
+        add(url, title);
+      }
+    });
+
+    return candidates;
+  }
+
+  /**
+   * Check a scraped result against the shape and ranges PriceResult promises. Returns the problems found.
+   */
+  validatePriceResult(result: PriceResult): string[] {
+    const problems: string[] = [];
+
+    if (typeof result.price !== 'number' || !isFinite(result.price) || result.price <= 0 || result.price >= 1e8) {
+      problems.push(`price must be a positive number, got ${result.price}`);
+    }
+    if (!/^[A-Z]{3}$/.test(result.currency || '')) {
+      problems.push(`currency must be an ISO 4217 code, got ${result.currency}`);
+    }
+    if (result.originalPrice !== undefined && result.originalPrice !== null
+      && (!isFinite(result.originalPrice) || result.originalPrice <= 0)) {
+      problems.push(`originalPrice must be a positive number, got ${result.originalPrice}`);
+    }
+    if (!this.isHttpUrl(result.productUrl)) {
+      problems.push(`productUrl must be an http(s) URL, got ${result.productUrl}`);
+    }
+    if (result.imageUrl && !this.isHttpUrl(result.imageUrl)) {
+      problems.push(`imageUrl must be an http(s) URL, got ${result.imageUrl}`);
+    }
+    if (typeof result.inStock !== 'boolean') {
+      problems.push('inStock must be a boolean');
+    }
+    if (!result.availability || !AVAILABILITY_STATUSES.includes(result.availability.status)) {
+      problems.push(`availability.status must be one of ${AVAILABILITY_STATUSES.join(', ')}`);
+    }
+    if (result.condition && !OFFER_CONDITIONS.includes(result.condition)) {
+      problems.push(`condition must be one of ${OFFER_CONDITIONS.join(', ')}, got ${result.condition}`);
+    }
+    if (result.ratings && (result.ratings.average < 0 || result.ratings.average > 5)) {
+      problems.push(`ratings.average must be between 0 and 5, got ${result.ratings.average}`);
+    }
+
+    return problems;
+  }
+
+  /**
+   * Parse a displayed price, accepting both 1,299.99 and 1.299,99 styles
+   */
+  parsePrice(value: string | number): number | undefined {
+    if (typeof value === 'number') {
+      return isFinite(value) ? value : undefined;
+    }
+    if (!value) {
+      return undefined;
+    }
+
+    let text = String(value).replace(/[^0-9.,]/g, '');
+    const lastComma = text.lastIndexOf(',');
+    const lastDot = text.lastIndexOf('.');
+
+    if (lastComma > -1 && lastDot > -1) {
+      // Whichever separator comes last is the decimal point
+      text = lastComma > lastDot ? text.replace(/\./g, '').replace(',', '.') : text.replace(/,/g, '');
+    } else if (lastComma > -1) {
+      text = text.length - lastComma - 1 === 2 ? text.replace(',', '.') : text.replace(/,/g, '');
+    }
+
+    const price = parseFloat(text);
+    return isNaN(price) ? undefined : price;
+  }
+
+  /**
+   * Map free-form availability text from a page onto a status
+   */
+  availabilityFromText(text: string): AvailabilityStatus | undefined {
+    if (!text) {
+      return undefined;
+    }
+
+    const lowerText = text.toLowerCase();
+    if (['out of stock', 'unavailable', 'sold out'].some(keyword => lowerText.includes(keyword))) {
+      return 'out_of_stock';
+    }
+    if (['pre-order', 'preorder', 'coming soon'].some(keyword => lowerText.includes(keyword))) {
+      return 'pre_order';
+    }
+    if (/only \d+ left|limited/.test(lowerText)) {
+      return 'limited';
+    }
+    if (['in stock', 'available', 'add to cart', 'buy now'].some(keyword => lowerText.includes(keyword))) {
+      return 'in_stock';
+    }
+
+    return undefined;
+  }
+
+  private extractJsonLd($: cheerio.CheerioAPI): ExtractedListing | null {
+    const nodes: any[] = [];
+
+    $('script[type="application/ld+json"]').each((_, element) => {
+      try {
+        this.collectJsonLdNodes(JSON.parse($(element).contents().text()), nodes);
+      } catch (error) {
+        this.logger.debug(`Skipping unparseable JSON-LD block: ${error.message}`);
+      }
+    });
+
+    const product = nodes.find(node => this.hasType(node, 'Product'));
+    if (!product) {
+      return null;
+    }
+
+    const offers = [].concat(product.offers || []);
+    const offer = offers.find(candidate => this.hasType(candidate, 'Offer')) || offers[0] || {};
+    const priceSpecification = [].concat(offer.priceSpecification || [])[0] || {};
+    const shippingRate = [].concat(offer.shippingDetails || [])[0]?.shippingRate;
+    const image = [].concat(product.image || [])[0];
+
+    return {
+      source: 'json_ld',
+      title: this.text(product.name),
+      brand: this.text(typeof product.brand === 'object' ? product.brand?.name : product.brand),
+      gtin: this.text(product.gtin || product.gtin13 || product.gtin12 || product.gtin14 || product.gtin8),
+      modelNumber: this.text(product.mpn || product.model),
+      // AggregateOffer carries a range rather than a single price
+      price: this.parsePrice([offer.price, offer.lowPrice, priceSpecification.price].find(value => value !== undefined)),
+      currency: this.currency(offer.priceCurrency || priceSpecification.priceCurrency),
+      availability: this.schemaValue(offer.availability, SCHEMA_AVAILABILITY),
+      availabilityMessage: this.text(offer.availability),
+      condition: this.schemaValue(offer.itemCondition, SCHEMA_CONDITION),
+      imageUrl: this.text(typeof image === 'object' ? image?.url : image),
+      url: this.text(offer.url || product.url),
+      shippingCost: shippingRate ? this.parsePrice(shippingRate.value) : undefined,
+      sellerName: this.text(typeof offer.seller === 'object' ? offer.seller?.name : offer.seller),
+      rating: product.aggregateRating ? {
+        average: parseFloat(product.aggregateRating.ratingValue) || 0,
+        count: parseInt(product.aggregateRating.reviewCount || product.aggregateRating.ratingCount, 10) || 0,
+      } : undefined,
+    };
+  }
+
+  private extractMicrodata($: cheerio.CheerioAPI): ExtractedListing | null {
+    const product = $('[itemscope][itemtype*="schema.org/Product"]').first();
+    if (product.length === 0) {
+      return null;
+    }
+
+    const offer = product.find('[itemprop="offers"]').first();
+    const scope = offer.length > 0 ? offer : product;
+    const prop = (root: typeof product, name: string): string | undefined => {
+      const element = root.find(`[itemprop="${name}"]`).first();
+      if (element.length === 0) {
+        return undefined;
+      }
+      return this.text(element.attr('content') || element.attr('href') || element.attr('src') || element.text());
+    };
+
+    return {
+      source: 'microdata',
+      title: prop(product, 'name'),
+      brand: prop(product, 'brand'),
+      gtin: prop(product, 'gtin13') || prop(product, 'gtin12') || prop(product, 'gtin'),
+      modelNumber: prop(product, 'mpn') || prop(product, 'model'),
+      price: this.parsePrice(prop(scope, 'price') || prop(scope, 'lowPrice')),
+      currency: this.currency(prop(scope, 'priceCurrency')),
+      availability: this.schemaValue(prop(scope, 'availability'), SCHEMA_AVAILABILITY),
+      availabilityMessage: prop(scope, 'availability'),
+      condition: this.schemaValue(prop(scope, 'itemCondition'), SCHEMA_CONDITION),
+      imageUrl: prop(product, 'image'),
+    };
+  }
+
+  private extractOpenGraph($: cheerio.CheerioAPI): ExtractedListing | null {
+    const meta = (...names: string[]): string | undefined => {
+      for (const name of names) {
+        const content = $(`meta[property="${name}"], meta[name="${name}"]`).first().attr('content');
+        if (content) {
+          return content.trim();
+        }
+      }
+      return undefined;
+    };
+
+    const price = this.parsePrice(meta('product:price:amount', 'og:price:amount'));
+    const title = meta('og:title');
+    if (price === undefined && !title) {
+      return null;
+    }
+
+    const availability = meta('product:availability', 'og:availability');
+
+    return {
+      source: 'opengraph',
+      title,
+      brand: meta('product:brand', 'og:brand'),
+      price,
+      currency: this.currency(meta('product:price:currency', 'og:price:currency')),
+      availability: this.schemaValue(availability, SCHEMA_AVAILABILITY) || this.availabilityFromText(availability),
+      availabilityMessage: availability,
+      condition: this.schemaValue(meta('product:condition', 'og:condition'), SCHEMA_CONDITION),
+      imageUrl: meta('og:image'),
+      url: meta('og:url'),
+    };
+  }
+
+  private extractCss($: cheerio.CheerioAPI, selectors: CssSelectors): ExtractedListing | null {
+    const select = (selector: string): ReturnType<typeof $> | null => {
+      if (!selector) {
+        return null;
+      }
+      try {
+        const element = $(selector).first();
+        return element.length > 0 ? element : null;
+      } catch (error) {
+        this.logger.warn(`Invalid CSS selector "${selector}": ${error.message}`);
+        return null;
+      }
+    };
+
+    const price = select(selectors.price);
+    if (!price) {
+      return null;
+    }
+
+    const availabilityText = this.text(select(selectors.availability)?.text());
+    const image = select(selectors.image);
+
+    return {
+      source: 'css',
+      title: this.text(select(selectors.productName)?.text()),
+      price: this.parsePrice(price.attr('content') || price.text()),
+      availability: this.availabilityFromText(availabilityText),
+      availabilityMessage: availabilityText,
+      imageUrl: this.text(image?.attr('src') || image?.attr('data-src')),
+    };
+  }
+
+  private collectJsonLdNodes(value: any, nodes: any[]): void {
+    if (Array.isArray(value)) {
+      value.forEach(item => this.collectJsonLdNodes(item, nodes));
+      return;
+    }
+    if (!value || typeof value !== 'object') {
+      return;
+    }
+
+    nodes.push(value);
+    if (value['@graph']) {
+      this.collectJsonLdNodes(value['@graph'], nodes);
+    }
+  }
+
+  private hasType(node: any, type: string): boolean {
+    return [].concat(node?.['@type'] || []).some((value: string) => value === type || value.endsWith(`/${type}`));
+  }
+
+  private schemaValue<T>(value: string, mapping: { [value: string]: T }): T | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    const key = String(value).split('/').pop().toLowerCase().replace(/[^a-z]/g, '');
+    return mapping[key];
+  }
+
+  private currency(value: string): string | undefined {
+    const code = this.text(value)?.toUpperCase();
+    return code && /^[A-Z]{3}$/.test(code) ? code : undefined;
+  }
+
+  private text(value: any): string | undefined {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+
+    const text = String(value).replace(/\s+/g, ' ').trim();
+    return text || undefined;
+  }
+
+  private resolveUrl(href: string, base: string): string | undefined {
+    if (!href || href.startsWith('#') || href.startsWith('javascript:')) {
+      return undefined;
+    }
+
+    try {
+      const url = new URL(href, base);
+      url.hash = '';
+      return ['http:', 'https:'].includes(url.protocol) ? url.toString() : undefined;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  private hostOf(value: string): string | undefined {
+    try {
+      return new URL(value).host;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  private isHttpUrl(value: string): boolean {
+    try {
+      return ['http:', 'https:'].includes(new URL(value).protocol);
+    } catch (error) {
+      return false;
+    }
+  }
+}
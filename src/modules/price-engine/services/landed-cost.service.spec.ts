@@ -0,0 +1,101 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { LandedCostService } from './landed-cost.service';
+import { Retailer } from '../../../database/entities/retailer.entity';
+import { PriceResult } from '../price-engine.service';
+
+describe('LandedCostService', () => {
+  let service: LandedCostService;
+
+  const mockPrice = {
+    productId: 'product-123',
+    retailerId: 'retailer-123',
+    price: 40,
+    currency: 'USD',
+  } as PriceResult;
+
+  const mockRetailer = {
+    id: 'retailer-123',
+    country: 'US',
+    shipping: {
+      freeShippingThreshold: 35,
+      averageShippingTime: 3,
+      shippingCost: 5.99,
+      internationalShipping: false,
+    },
+    returnPolicy: {
+      returnWindow: 30,
+      returnCost: 10,
+      refundMethod: 'original_payment',
+    },
+  } as Retailer;
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: any) => defaultValue),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LandedCostService,
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<LandedCostService>(LandedCostService);
+  });
+
+  describe('calculate', () => {
+    it('should waive shipping above the free shipping threshold', () => {
+      const result = service.calculate(mockPrice, mockRetailer, { country: 'GB' });
+
+      expect(result.shipping).toBe(0);
+      expect(result.total).toBe(40);
+    });
+
+    it('should add default shipping below the threshold', () => {
+      const result = service.calculate({ ...mockPrice, price: 20 }, mockRetailer, { country: 'GB' });
+
+      expect(result.shipping).toBe(5.99);
+      expect(result.total).toBe(25.99);
+    });
+
+    it('should compare the threshold with the price after promotions', () => {
+      const result = service.calculate({ ...mockPrice, effectivePrice: 30 }, mockRetailer, { country: 'GB' });
+
+      expect(result.itemPrice).toBe(30);
+      expect(result.shipping).toBe(5.99);
+      expect(result.total).toBe(35.99);
+    });
+
+    it('should prefer the listing shipping cost over retailer defaults', () => {
+      const result = service.calculate({ ...mockPrice, shippingCost: 20 }, mockRetailer, { country: 'GB' });
+
+      expect(result.shipping).toBe(20);
+    });
+
+    it('should add sales tax where it is not included in the price', () => {
+      const result = service.calculate(mockPrice, mockRetailer, { country: 'US' });
+
+      expect(result.tax).toBe(2.9);
+      expect(result.total).toBe(42.9);
+    });
+
+    it('should treat UK as GB', () => {
+      const result = service.calculate(mockPrice, { ...mockRetailer, country: 'UK' } as Retailer);
+
+      expect(result.tax).toBe(0);
+      expect(service.getTaxRule('uk')).toEqual(service.getTaxRule('GB'));
+    });
+
+    it('should apply the return cost penalty only when requested', () => {
+      expect(service.calculate(mockPrice, mockRetailer, { country: 'GB' }).returnPenalty).toBe(0);
+      expect(
+        service.calculate(mockPrice, mockRetailer, { country: 'GB', includeReturnCost: true }).returnPenalty,
+      ).toBe(1);
+    });
+  });
+});
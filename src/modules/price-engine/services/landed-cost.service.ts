@@ -0,0 +1,143 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Retailer } from '../../../database/entities/retailer.entity';
+import { PriceResult } from '../price-engine.service';
+
+export interface TaxRule {
+  rate: number;
+  // VAT-style prices already include tax; US-style prices add it at checkout
+  includedInPrice: boolean;
+  appliesToShipping: boolean;
+}
+
+export interface LandedCost {
+  itemPrice: number;
+  shipping: number;
+  tax: number;
+  returnPenalty: number;
+  total: number;
+  currency: string;
+}
+
+export interface LandedCostOptions {
+  country?: string;
+  includeReturnCost?: boolean;
+}
+
+// Destination-country rules, keyed by ISO 3166-1 alpha-2 code
+const DEFAULT_TAX_RULES: { [country: string]: TaxRule } = {
+  US: { rate: 0.0725, includedInPrice: false, appliesToShipping: false },
+  CA: { rate: 0.13, includedInPrice: false, appliesToShipping: true },
+  GB: { rate: 0.2, includedInPrice: true, appliesToShipping: true },
+  DE: { rate: 0.19, includedInPrice: true, appliesToShipping: true },
+  FR: { rate: 0.2, includedInPrice: true, appliesToShipping: true },
+  IT: { rate: 0.22, includedInPrice: true, appliesToShipping: true },
+  ES: { rate: 0.21, includedInPrice: true, appliesToShipping: true },
+  NL: { rate: 0.21, includedInPrice: true, appliesToShipping: true },
+  AU: { rate: 0.1, includedInPrice: true, appliesToShipping: true },
+  AE: { rate: 0.05, includedInPrice: true, appliesToShipping: true },
+  SA: { rate: 0.15, includedInPrice: true, appliesToShipping: true },
+};
+
+// Common non-ISO codes retailers are configured with
+const COUNTRY_ALIASES: { [alias: string]: string } = {
+  UK: 'GB',
+};
+
+@Injectable()
+export class LandedCostService {
+  private readonly logger = new Logger(LandedCostService.name);
+  private readonly taxRules: { [country: string]: TaxRule };
+  private readonly returnProbability: number;
+
+  constructor(private readonly configService: ConfigService) {
+    this.taxRules = { ...DEFAULT_TAX_RULES, ...this.parseTaxRules(this.configService.get<string>('TAX_RULES')) };
+    this.returnProbability = parseFloat(this.configService.get<string>('RETURN_PROBABILITY', '0.1'));
+  }
+
+  /**
+   * Calculate what the buyer actually pays for a price, in the price's own currency
+   */
+  calculate(price: PriceResult, retailer: Retailer | null, options: LandedCostOptions = {}): LandedCost {
+    const itemPrice = Number(price.effectivePrice !== undefined ? price.effectivePrice : price.price);
+    const shipping = this.calculateShipping(price, retailer, itemPrice);
+
+    const country = this.normalizeCountry(options.country || retailer?.country);
+    const taxRule = this.taxRules[country];
+    let tax = 0;
+    if (taxRule && !taxRule.includedInPrice) {
+      const taxable = itemPrice + (taxRule.appliesToShipping ? shipping : 0);
+      tax = taxable * taxRule.rate;
+    }
+
+    // Weight the retailer's return fee by how often a purchase is sent back
+    const returnPenalty = options.includeReturnCost && retailer?.returnPolicy?.returnCost
+      ? retailer.returnPolicy.returnCost * this.returnProbability
+      : 0;
+
+    return {
+      itemPrice: this.round(itemPrice),
+      shipping: this.round(shipping),
+      tax: this.round(tax),
+      returnPenalty: this.round(returnPenalty),
+      total: this.round(itemPrice + shipping + tax + returnPenalty),
+      currency: price.currency,
+    };
+  }
+
+  /**
+   * Get the tax rule for a destination country
+   */
+  getTaxRule(country: string): TaxRule | null {
+    return this.taxRules[this.normalizeCountry(country)] || null;
+  }
+
+  /**
+   * Resolve shipping from the listing, then the retailer's defaults and free-shipping threshold.
+   * The threshold applies to what the buyer pays for the item, after promotions.
+   */
+  private calculateShipping(price: PriceResult, retailer: Retailer | null, itemPrice: number): number {
+    const now = new Date();
+    if (price.promotions?.some(promotion => promotion.type === 'free_shipping'
+      && (!promotion.validUntil || new Date(promotion.validUntil) >= now))) {
+      return 0;
+    }
+
+    if (price.shippingCost !== null && price.shippingCost !== undefined) {
+      return Number(price.shippingCost);
+    }
+
+    const shipping = retailer?.shipping;
+    if (!shipping) {
+      return 0;
+    }
+
+    if (shipping.freeShippingThreshold && itemPrice >= shipping.freeShippingThreshold) {
+      return 0;
+    }
+
+    return shipping.shippingCost || 0;
+  }
+
+  private parseTaxRules(value: string): { [country: string]: TaxRule } {
+    if (!value) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(value);
+    } catch (error) {
+      this.logger.error('Invalid TAX_RULES configuration, using defaults:', error);
+      return {};
+    }
+  }
+
+  private normalizeCountry(country?: string): string {
+    const code = (country || '').trim().toUpperCase();
+    return COUNTRY_ALIASES[code] || code;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,85 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ListingMatchService } from './listing-match.service';
+import { Product } from '../../../database/entities/product.entity';
+import { PriceResult } from '../price-engine.service';
+
+describe('ListingMatchService', () => {
+  let service: ListingMatchService;
+
+  const mockProduct = {
+    id: 'product-123',
+    name: 'WH-1000XM5 Wireless Noise Cancelling Headphones',
+    brand: 'Sony',
+    model: 'WH-1000XM5',
+    upc: '027242923782',
+  } as Product;
+
+  const priceWithListing = (listing: PriceResult['listing']) => ({
+    productId: 'product-123',
+    retailerId: 'retailer-123',
+    price: 399.99,
+    currency: 'USD',
+    listing,
+  } as PriceResult);
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: any) => defaultValue),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ListingMatchService,
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ListingMatchService>(ListingMatchService);
+  });
+
+  describe('verify', () => {
+    it('should verify a listing with the same GTIN in a different format', () => {
+      const result = service.verify(mockProduct, priceWithListing({ title: 'Headphones', gtin: '0027242923782' }));
+
+      expect(result.status).toBe('verified');
+      expect(result.score).toBe(1);
+    });
+
+    it('should reject a listing with a different GTIN', () => {
+      const result = service.verify(mockProduct, priceWithListing({ title: mockProduct.name, gtin: '012345678905' }));
+
+      expect(result.status).toBe('rejected');
+    });
+
+    it('should verify on model number and title when no GTIN is available', () => {
+      const result = service.verify(
+        mockProduct,
+        priceWithListing({ title: 'Sony WH-1000XM5 Wireless Noise Cancelling Headphones, Black', brand: 'Sony' }),
+      );
+
+      expect(result.status).toBe('verified');
+      expect(result.signals.modelNumber).toBe(true);
+    });
+
+    it('should reject accessories for the product', () => {
+      const result = service.verify(
+        mockProduct,
+        priceWithListing({ title: 'Hard Carrying Case for Sony WH-1000XM4 Headphones', brand: 'Generic' }),
+      );
+
+      expect(result.status).toBe('rejected');
+      expect(result.signals.accessory).toBe(true);
+    });
+
+    it('should leave listings without identity unverified', () => {
+      const result = service.verify(mockProduct, priceWithListing(undefined));
+
+      expect(result.status).toBe('unverified');
+      expect(result.score).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Product } from '../../../database/entities/product.entity';
+import { PriceResult } from '../price-engine.service';
+
+export type ListingMatchStatus = 'verified' | 'flagged' | 'rejected' | 'unverified';
+
+export interface ListingMatch {
+  score: number | null;
+  status: ListingMatchStatus;
+  signals: {
+    gtin?: boolean;
+    modelNumber?: boolean;
+    brand?: boolean;
+    accessory?: boolean;
+    titleSimilarity?: number;
+  };
+}
+
+// Words that mark a listing as an add-on for the product rather than the product itself
+const ACCESSORY_TERMS = [
+  'case', 'cover', 'sleeve', 'charger', 'cable', 'adapter', 'screen protector',
+  'replacement', 'strap', 'band', 'mount', 'stand', 'skin', 'refill', 'compatible with',
+];
+
+@Injectable()
+export class ListingMatchService {
+  private readonly minScore: number;
+  private readonly verifiedScore: number;
+
+  constructor(private readonly configService: ConfigService) {
+    this.minScore = parseFloat(this.configService.get<string>('MATCH_MIN_SCORE', '0.4'));
+    this.verifiedScore = parseFloat(this.configService.get<string>('MATCH_VERIFIED_SCORE', '0.75'));
+  }
+
+  /**
+   * Score how likely a retailer listing is the product we asked for
+   */
+  verify(product: Product, price: PriceResult): ListingMatch {
+    const listing = price.listing;
+    if (!listing || (!listing.title && !listing.gtin && !listing.modelNumber)) {
+      return { score: null, status: 'unverified', signals: {} };
+    }
+
+    const signals: ListingMatch['signals'] = {};
+
+    // Identical GTINs settle it either way
+    const productGtins = [product.upc, product.ean, product.isbn].map(gtin => this.normalizeGtin(gtin)).filter(Boolean);
+    const listingGtin = this.normalizeGtin(listing.gtin);
+    if (listingGtin && productGtins.length > 0) {
+      signals.gtin = productGtins.includes(listingGtin);
+      return this.classify(signals.gtin ? 1 : 0, signals);
+    }
+
+    let score = 0;
+
+    if (listing.title) {
+      signals.titleSimilarity = this.titleSimilarity(`${product.brand || ''} ${product.name}`, listing.title);
+      score += signals.titleSimilarity * 0.6;
+
+      const productName = product.name.toLowerCase();
+      const listingTitle = listing.title.toLowerCase();
+      signals.accessory = ACCESSORY_TERMS.some(term => listingTitle.includes(term) && !productName.includes(term));
+    }
+
+    const productModel = this.normalizeCode(product.model);
+    if (productModel) {
+      const listingModel = this.normalizeCode(listing.modelNumber);
+      signals.modelNumber = listingModel
+        ? listingModel === productModel
+        : this.normalizeCode(listing.title).includes(productModel);
+      score += signals.modelNumber ? 0.3 : 0;
+    }
+
+    if (product.brand && (listing.brand || listing.title)) {
+      signals.brand = (listing.brand || listing.title).toLowerCase().includes(product.brand.toLowerCase());
+      score += signals.brand ? 0.1 : 0;
+    }
+
+    // Without a model number to compare, rescale the title and brand evidence
+    if (!productModel) {
+      score = score / 0.7;
+    }
+
+    if (signals.accessory) {
+      score *= 0.5;
+    }
+
+    if (signals.brand === false || (listing.modelNumber && signals.modelNumber === false)) {
+      score = Math.min(score, this.minScore);
+    }
+
+    return this.classify(Math.round(Math.min(score, 1) * 100) / 100, signals);
+  }
+
+  /**
+   * Dice coefficient over normalized title tokens
+   */
+  titleSimilarity(a: string, b: string): number {
+    const tokensA = this.tokenize(a);
+    const tokensB = this.tokenize(b);
+    if (tokensA.size === 0 || tokensB.size === 0) {
+      return 0;
+    }
+
+    let shared = 0;
+    for (const token of tokensA) {
+      if (tokensB.has(token)) {
+        shared++;
+      }
+    }
+
+    return (2 * shared) / (tokensA.size + tokensB.size);
+  }
+
+  private classify(score: number, signals: ListingMatch['signals']): ListingMatch {
+    let status: ListingMatchStatus = 'flagged';
+    if (score >= this.verifiedScore) {
+      status = 'verified';
+    } else if (score < this.minScore) {
+      status = 'rejected';
+    }
+
+    return { score, status, signals };
+  }
+
+  private tokenize(value: string): Set<string> {
+    return new Set(
+      (value || '')
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(token => token.length > 1),
+    );
+  }
+
+  private normalizeCode(value: string): string {
+    return (value || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+  }
+
+  /**
+   * Strip formatting and left-pad to GTIN-14 so UPC-A and EAN-13 compare equal
+   */
+  private normalizeGtin(value: string): string {
+    const digits = (value || '').replace(/\D/g, '');
+    return digits.length >= 8 ? digits.padStart(14, '0') : '';
+  }
+}
@@ -2,82 +2,93 @@ import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { Retailer } from '../../../database/entities/retailer.entity';
 import { PriceResult } from '../price-engine.service';
+import { BrowserPoolService } from './browser-pool.service';
+import { CrawlPolicyService, ScrapeDisallowedError } from './crawl-policy.service';
 
 @Injectable()
 export class PlaywrightService {
   private readonly logger = new Logger(PlaywrightService.name);
 
-  constructor(private readonly configService: ConfigService) {}
+  private readonly navigationTimeoutMs: number;
+  private readonly selectorTimeoutMs: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly browserPoolService: BrowserPoolService,
+    private readonly crawlPolicyService: CrawlPolicyService,
+  ) {
+    this.navigationTimeoutMs = parseInt(this.configService.get<string>('PLAYWRIGHT_NAVIGATION_TIMEOUT_MS', '30000'), 10);
+    this.selectorTimeoutMs = parseInt(this.configService.get<string>('PLAYWRIGHT_SELECTOR_TIMEOUT_MS', '10000'), 10);
+  }
 
   /**
    * Scrape product using Playwright
    */
   async scrapeProduct(productUrl: string, retailer: Retailer): Promise<PriceResult | null> {
+    const selectors = retailer.scraperConfig?.selectors;
+    if (!selectors?.price) {
+      return null;
+    }
+
     try {
       this.logger.log(`Scraping product using Playwright: ${productUrl}`);
 
-      // Import Playwright dynamically to avoid issues if not installed
-      const { chromium } = await import('playwright');
-      
-      const browser = await chromium.launch({
-        headless: true,
-        args: ['--no-sandbox', '--disable-setuid-sandbox'],
-      });
+      const productData = await this.crawlPolicyService.schedule(retailer, productUrl, () =>
+        this.browserPoolService.withPage(retailer.id, async page => {
+          await page.goto(productUrl, { waitUntil: 'domcontentloaded', timeout: this.navigationTimeoutMs });
 
-      try {
-        const page = await browser.newPage();
-        
-        // Set user agent to avoid detection
-        await page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36');
-        
-        // Navigate to the product page
-        await page.goto(productUrl, { waitUntil: 'networkidle' });
-        
-        // Wait for content to load
-        await page.waitForTimeout(2000);
-        
-        // Extract product information
-        const productData = await this.extractProductData(page, retailer);
-        
-        if (!productData) {
-          return null;
-        }
+          // Wait for the content we are about to read rather than for an arbitrary delay
+          await page.waitForSelector(retailer.scraperConfig.waitForSelector || selectors.price, {
+            state: 'attached',
+            timeout: this.selectorTimeoutMs,
+          });
+
+          return await this.extractProductData(page, retailer);
+        }, { blockResources: retailer.scraperConfig.blockResources }),
+      );
 
-        const result: PriceResult = {
-          productId: '', // Will be set by caller
-          retailerId: retailer.id,
-          price: productData.price,
-          currency: productData.currency,
-          originalPrice: productData.originalPrice,
-          discount: productData.discount,
-          discountPercentage: productData.discountPercentage,
-          productUrl,
-          imageUrl: productData.imageUrl,
-          inStock: productData.inStock,
-          stockQuantity: productData.stockQuantity,
-          shippingCost: productData.shippingCost,
-          estimatedDelivery: productData.estimatedDelivery,
-          availability: {
-            status: productData.inStock ? 'in_stock' : 'out_of_stock',
-            message: productData.availabilityMessage,
-            lastChecked: new Date(),
-          },
-          promotions: productData.promotions,
-          ratings: productData.ratings,
-          metadata: {
-            source: 'scraper',
-            confidence: 0.85,
-            lastVerified: new Date(),
-            dataQuality: 'high',
-          },
-        };
-
-        this.logger.log(`Successfully scraped using Playwright: $${productData.price}`);
-        return result;
-      } finally {
-        await browser.close();
+      if (!productData) {
+        return null;
       }
+
+      const result: PriceResult = {
+        productId: '', // Will be set by caller
+        retailerId: retailer.id,
+        price: productData.price,
+        currency: productData.currency,
+        originalPrice: productData.originalPrice,
+        discount: productData.discount,
+        discountPercentage: productData.discountPercentage,
+        productUrl,
+        imageUrl: productData.imageUrl,
+        inStock: productData.inStock,
+        stockQuantity: productData.stockQuantity,
+        shippingCost: productData.shippingCost,
+        estimatedDelivery: productData.estimatedDelivery,
+        availability: {
+          status: productData.inStock ? 'in_stock' : 'out_of_stock',
+          message: productData.availabilityMessage,
+          lastChecked: new Date(),
+        },
+        promotions: productData.promotions,
+        ratings: productData.ratings,
+        listing: {
+          title: productData.productName,
+        },
+        metadata: {
+          source: 'scraper',
+          confidence: 0.85,
+          lastVerified: new Date(),
+          dataQuality: 'high',
+        },
+      };
+
+      this.logger.log(`Successfully scraped using Playwright: $${productData.price}`);
+      return result;
     } catch (error) {
+      if (error instanceof ScrapeDisallowedError) {
+        return null;
+      }
       this.logger.error('Failed to scrape product using Playwright:', error);
       return null;
     }
@@ -100,6 +111,7 @@ export class PlaywrightService {
     imageUrl?: string;
     promotions?: any[];
     ratings?: any;
+    productName?: string;
   } | null> {
     try {
       const selectors = retailer.scraperConfig?.selectors;
@@ -197,6 +209,7 @@ export class PlaywrightService {
         inStock,
         availabilityMessage: availabilityText || '',
         imageUrl,
+        productName: productName?.trim(),
         shippingCost,
         ratings,
       };
@@ -255,27 +268,16 @@ export class PlaywrightService {
    */
   async getHealthStatus(): Promise<{ status: string; lastCheck: Date }> {
     try {
-      // Test with a simple page load
-      const { chromium } = await import('playwright');
-      
-      const browser = await chromium.launch({
-        headless: true,
-        args: ['--no-sandbox', '--disable-setuid-sandbox'],
+      // Test with a simple page load through the pool, so the check shares the running browser
+      await this.browserPoolService.withPage('health-check', async page => {
+        await page.goto('https://httpbin.org/html', { waitUntil: 'domcontentloaded', timeout: this.navigationTimeoutMs });
+        await page.waitForSelector('h1', { timeout: this.selectorTimeoutMs });
       });
 
-      try {
-        const page = await browser.newPage();
-        await page.goto('https://httpbin.org/html', { waitUntil: 'networkidle' });
-        await browser.close();
-        
-        return {
-          status: 'healthy',
-          lastCheck: new Date(),
-        };
-      } catch (error) {
-        await browser.close();
-        throw error;
-      }
+      return {
+        status: 'healthy',
+        lastCheck: new Date(),
+      };
     } catch (error) {
       this.logger.error('Playwright health check failed:', error);
       return {
@@ -284,4 +286,4 @@ export class PlaywrightService {
       };
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,89 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { PriceEngineMetricsService } from './price-engine-metrics.service';
+
+describe('PriceEngineMetricsService', () => {
+  let service: PriceEngineMetricsService;
+
+  const retailer = { id: 'retailer-123', name: 'Test Retailer' } as any;
+  const price = (dataQuality: 'high' | 'medium' | 'low') => ({ metadata: { source: 'api', dataQuality } }) as any;
+
+  let now: number;
+
+  beforeEach(async () => {
+    now = Date.parse('2024-01-01T12:00:00Z');
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PriceEngineMetricsService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string, defaultValue?: string) => defaultValue) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PriceEngineMetricsService>(PriceEngineMetricsService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const call = (latencyMs: number, result: any) => service.track(retailer, 'getProductPrice', 'api', async () => {
+    now += latencyMs;
+    if (result instanceof Error) {
+      throw result;
+    }
+    return result;
+  });
+
+  it('should record latency percentiles, outcomes and data quality per retailer method', async () => {
+    for (let latency = 100; latency <= 1000; latency += 100) {
+      await call(latency, price(latency > 800 ? 'low' : 'high'));
+    }
+    await call(50, null);
+    await expect(call(2000, new Error('timeout'))).rejects.toThrow('timeout');
+
+    const metrics = service.getMetrics();
+    const [series] = metrics.methods;
+
+    expect(series).toMatchObject({ retailerId: 'retailer-123', method: 'getProductPrice', source: 'api' });
+    expect(series.windows['5m']).toMatchObject({
+      calls: 12,
+      successes: 10,
+      empty: 1,
+      failures: 1,
+      successRate: 0.9167,
+      priceFoundRate: 0.8333,
+      dataQuality: { high: 8, medium: 0, low: 2 },
+    });
+    expect(series.windows['5m'].latencyMs).toMatchObject({ p50: 500, p90: 1000, p99: 2000 });
+    expect(metrics.windows['24h'].calls).toBe(12);
+  });
+
+  it('should drop calls from the shorter windows as they age', async () => {
+    await call(100, price('high'));
+    now += 2 * 60 * 60 * 1000;
+    await call(300, [price('medium'), price('medium')]);
+
+    const { windows } = service.getMetrics();
+
+    expect(windows['5m']).toMatchObject({ calls: 1, latencyMs: { avg: 300 } });
+    expect(windows['24h']).toMatchObject({ calls: 2, latencyMs: { avg: 200 } });
+
+    now += 25 * 60 * 60 * 1000;
+    expect(service.getMetrics().windows['24h'].calls).toBe(0);
+    expect(service.getMetrics().windows['24h'].successRate).toBeNull();
+  });
+
+  it('should report cache hit ratios', () => {
+    service.recordCacheLookup('prices', true);
+    service.recordCacheLookup('prices', false);
+    service.recordCacheLookup('prices', false);
+    service.recordCacheLookup('prices', true);
+
+    expect(service.getMetrics().cache.prices['1h']).toEqual({ hits: 2, misses: 2, hitRatio: 0.5 });
+  });
+});
@@ -0,0 +1,237 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Retailer } from '../../../database/entities/retailer.entity';
+import { PriceResult } from '../price-engine.service';
+
+export type RetailerCallMethod = 'getProductPrice' | 'getProductOffers' | 'scrapeProductPrice' | 'apify' | 'playwright';
+export type RetailerCallSource = 'api' | 'scraper';
+// 'empty' is a call that worked but found no listing
+export type RetailerCallOutcome = 'success' | 'empty' | 'failure';
+export type DataQuality = PriceResult['metadata']['dataQuality'];
+
+export interface MetricsWindowStats {
+  calls: number;
+  successes: number;
+  empty: number;
+  failures: number;
+  // Calls that did not fail, found a listing or not
+  successRate: number | null;
+  // Calls that returned at least one price
+  priceFoundRate: number | null;
+  latencyMs: {
+    avg: number | null;
+    p50: number | null;
+    p90: number | null;
+    p95: number | null;
+    p99: number | null;
+  };
+  dataQuality: { [quality in DataQuality]: number };
+}
+
+export interface RetailerMethodStats {
+  retailerId: string;
+  method: RetailerCallMethod;
+  source: RetailerCallSource;
+  windows: { [window: string]: MetricsWindowStats };
+}
+
+export interface CacheWindowStats {
+  hits: number;
+  misses: number;
+  hitRatio: number | null;
+}
+
+export interface PriceEngineMetrics {
+  windows: { [window: string]: MetricsWindowStats };
+  methods: RetailerMethodStats[];
+  cache: { [cache: string]: { [window: string]: CacheWindowStats } };
+  since: Date;
+}
+
+interface CallSample {
+  at: number;
+  latencyMs: number;
+  outcome: RetailerCallOutcome;
+  dataQuality?: DataQuality;
+}
+
+interface CallSeries {
+  retailerId: string;
+  method: RetailerCallMethod;
+  source: RetailerCallSource;
+  samples: CallSample[];
+}
+
+interface CacheSample {
+  at: number;
+  hit: boolean;
+}
+
+const WINDOWS: { [window: string]: number } = {
+  '5m': 5 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+};
+const RETENTION_MS = WINDOWS['24h'];
+
+/**
+ * Rolling-window latency, outcome and data quality of retailer calls made by this process
+ */
+@Injectable()
+export class PriceEngineMetricsService {
+  private readonly series = new Map<string, CallSeries>();
+  private readonly cacheLookups = new Map<string, CacheSample[]>();
+  private readonly maxSamples: number;
+  private readonly startedAt = new Date();
+
+  constructor(private readonly configService: ConfigService) {
+    this.maxSamples = parseInt(this.configService.get<string>('METRICS_MAX_SAMPLES_PER_SERIES', '10000'), 10);
+  }
+
+  /**
+   * Time a retailer call and record its outcome. Errors are recorded and rethrown.
+   */
+  async track<T extends PriceResult | PriceResult[] | null>(
+    retailer: Retailer,
+    method: RetailerCallMethod,
+    source: RetailerCallSource,
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    const startTime = Date.now();
+
+    try {
+      const result = await fn();
+      const prices = (Array.isArray(result) ? result : [result]).filter(price => !!price) as PriceResult[];
+
+      this.recordCall(retailer.id, method, source, {
+        at: Date.now(),
+        latencyMs: Date.now() - startTime,
+        outcome: prices.length > 0 ? 'success' : 'empty',
+        dataQuality: prices[0]?.metadata?.dataQuality,
+      });
+      return result;
+    } catch (error) {
+      this.recordCall(retailer.id, method, source, { at: Date.now(), latencyMs: Date.now() - startTime, outcome: 'failure' });
+      throw error;
+    }
+  }
+
+  recordCacheLookup(cache: string, hit: boolean): void {
+    const samples = this.cacheLookups.get(cache) || [];
+    samples.push({ at: Date.now(), hit });
+    this.prune(samples);
+    this.cacheLookups.set(cache, samples);
+  }
+
+  getMetrics(): PriceEngineMetrics {
+    const now = Date.now();
+    const allSamples = Array.from(this.series.values())
+      .map(series => series.samples)
+      .reduce((all, samples) => all.concat(samples), [] as CallSample[]);
+
+    const cache: PriceEngineMetrics['cache'] = {};
+    for (const [name, samples] of this.cacheLookups.entries()) {
+      cache[name] = this.mapWindows(window => {
+        const inWindow = samples.filter(sample => sample.at >= now - window);
+        const hits = inWindow.filter(sample => sample.hit).length;
+        return {
+          hits,
+          misses: inWindow.length - hits,
+          hitRatio: inWindow.length > 0 ? this.round(hits / inWindow.length) : null,
+        };
+      });
+    }
+
+    return {
+      windows: this.mapWindows(window => this.summarize(allSamples, now - window)),
+      methods: Array.from(this.series.values()).map(series => ({
+        retailerId: series.retailerId,
+        method: series.method,
+        source: series.source,
+        windows: this.mapWindows(window => this.summarize(series.samples, now - window)),
+      })),
+      cache,
+      since: this.startedAt,
+    };
+  }
+
+  private recordCall(retailerId: string, method: RetailerCallMethod, source: RetailerCallSource, sample: CallSample): void {
+    const key = `${retailerId}:${method}`;
+    let series = this.series.get(key);
+    if (!series) {
+      series = { retailerId, method, source, samples: [] };
+      this.series.set(key, series);
+    }
+
+    series.samples.push(sample);
+    this.prune(series.samples);
+  }
+
+  /**
+   * Drop samples older than the longest window, and the oldest beyond the per-series cap
+   */
+  private prune(samples: { at: number }[]): void {
+    const cutoff = Date.now() - RETENTION_MS;
+    let expired = 0;
+    while (expired < samples.length && samples[expired].at < cutoff) {
+      expired++;
+    }
+
+    const excess = Math.max(expired, samples.length - this.maxSamples);
+    if (excess > 0) {
+      samples.splice(0, excess);
+    }
+  }
+
+  private summarize(samples: CallSample[], since: number): MetricsWindowStats {
+    const inWindow = samples.filter(sample => sample.at >= since);
+    const latencies = inWindow.map(sample => sample.latencyMs).sort((a, b) => a - b);
+    const count = (outcome: RetailerCallOutcome) => inWindow.filter(sample => sample.outcome === outcome).length;
+    const successes = count('success');
+    const empty = count('empty');
+    const failures = count('failure');
+
+    return {
+      calls: inWindow.length,
+      successes,
+      empty,
+      failures,
+      successRate: inWindow.length > 0 ? this.round((successes + empty) / inWindow.length) : null,
+      priceFoundRate: inWindow.length > 0 ? this.round(successes / inWindow.length) : null,
+      latencyMs: {
+        avg: latencies.length > 0 ? Math.round(latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length) : null,
+        p50: this.percentile(latencies, 50),
+        p90: this.percentile(latencies, 90),
+        p95: this.percentile(latencies, 95),
+        p99: this.percentile(latencies, 99),
+      },
+      dataQuality: {
+        high: inWindow.filter(sample => sample.dataQuality === 'high').length,
+        medium: inWindow.filter(sample => sample.dataQuality === 'medium').length,
+        low: inWindow.filter(sample => sample.dataQuality === 'low').length,
+      },
+    };
+  }
+
+  /**
+   * Nearest-rank percentile of sorted values
+   */
+  private percentile(sorted: number[], percentile: number): number | null {
+    if (sorted.length === 0) {
+      return null;
+    }
+    return sorted[Math.max(0, Math.ceil((percentile / 100) * sorted.length) - 1)];
+  }
+
+  private mapWindows<T>(fn: (windowMs: number) => T): { [window: string]: T } {
+    const result: { [window: string]: T } = {};
+    for (const [name, windowMs] of Object.entries(WINDOWS)) {
+      result[name] = fn(windowMs);
+    }
+    return result;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+}
@@ -0,0 +1,117 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { PriceForecastService } from './price-forecast.service';
+import { FxRatesService } from './fx-rates.service';
+import { PriceHistory } from '../../../database/entities/price-history.entity';
+import { PriceHistoryRollup } from '../../../database/entities/price-history-rollup.entity';
+import { CacheService } from '../../../common/cache/cache.service';
+
+describe('PriceForecastService', () => {
+  let service: PriceForecastService;
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: any) => defaultValue),
+  };
+
+  const queryBuilder = (rows: any[]) => {
+    const builder: any = {};
+    for (const method of ['select', 'addSelect', 'where', 'andWhere', 'groupBy', 'addGroupBy']) {
+      builder[method] = jest.fn().mockReturnValue(builder);
+    }
+    builder.getRawMany = jest.fn().mockResolvedValue(rows);
+    return builder;
+  };
+
+  const mockPriceHistoryRepository = {
+    createQueryBuilder: jest.fn(),
+  };
+
+  const mockRollupRepository = {
+    createQueryBuilder: jest.fn(),
+  };
+
+  const seriesOf = (prices: number[]) => prices.map((price, i) => ({
+    date: new Date(Date.UTC(2024, 0, 1) + i * 24 * 3600000),
+    price,
+  }));
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PriceForecastService,
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: getRepositoryToken(PriceHistory), useValue: mockPriceHistoryRepository },
+        { provide: getRepositoryToken(PriceHistoryRollup), useValue: mockRollupRepository },
+        { provide: FxRatesService, useValue: { getRateTable: jest.fn(), convert: jest.fn((amount: number) => amount) } },
+        { provide: CacheService, useValue: { get: jest.fn(), set: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<PriceForecastService>(PriceForecastService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should carry each seller\'s price forward separately', async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2024-01-03T12:00:00Z'));
+    const row = (sellerId: string, day: string, price: string) => ({
+      retailerId: 'retailer-123', marketplace: '', sellerId, day, currency: 'USD', price,
+    });
+    mockRollupRepository.createQueryBuilder.mockReturnValue(queryBuilder([]));
+    const history = queryBuilder([
+      row('seller-a', '2024-01-01', '100'),
+      row('seller-b', '2024-01-02', '80'),
+      row('seller-a', '2024-01-03', '90'),
+    ]);
+    mockPriceHistoryRepository.createQueryBuilder.mockReturnValue(history);
+
+    const forecast = await service.getForecast('product-123');
+    jest.useRealTimers();
+
+    // Seller B's unchanged 80 still undercuts seller A's new 90
+    expect(forecast.currentPrice).toBe(80);
+    expect(history.addGroupBy).toHaveBeenCalledWith('history.sellerId');
+  });
+
+  it('should report insufficient data for short histories', () => {
+    const forecast = service.buildForecast('product-123', 'USD', 14, seriesOf([100, 100, 90]));
+
+    expect(forecast.recommendation).toBe('insufficient_data');
+    expect(forecast.confidence).toBe(0);
+    expect(forecast.currentPrice).toBe(90);
+  });
+
+  it('should recommend waiting when prices regularly dip below the current level', () => {
+    // A weekly sale: six days at 100, one day at 80
+    const prices = Array.from({ length: 120 }, (_, i) => (i % 7 === 6 ? 80 : 100));
+    prices[prices.length - 1] = 100;
+
+    const forecast = service.buildForecast('product-123', 'USD', 14, seriesOf(prices));
+
+    expect(forecast.recommendation).toBe('wait');
+    expect(forecast.dropProbability).toBeGreaterThan(0.9);
+    expect(forecast.typicalDiscountPercentage).toBe(20);
+    expect(forecast.expectedLowPrice).toBe(80);
+    expect(forecast.seasonality.cheapestWeekday).toBe(seriesOf(prices)[6].date.getUTCDay());
+  });
+
+  it('should recommend buying when the current price is near its historical low', () => {
+    const prices = Array.from({ length: 90 }, (_, i) => 150 - i);
+
+    const forecast = service.buildForecast('product-123', 'USD', 14, seriesOf(prices));
+
+    expect(forecast.recommendation).toBe('buy');
+    expect(forecast.currentPercentile).toBe(0);
+  });
+
+  it('should recommend buying when the price is flat', () => {
+    const forecast = service.buildForecast('product-123', 'USD', 14, seriesOf(Array(90).fill(100)));
+
+    expect(forecast.recommendation).toBe('buy');
+    expect(forecast.dropProbability).toBeLessThan(0.1);
+    expect(forecast.typicalDiscountPercentage).toBe(0);
+  });
+});
@@ -0,0 +1,335 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { PriceHistory } from '../../../database/entities/price-history.entity';
+import { PriceHistoryRollup } from '../../../database/entities/price-history-rollup.entity';
+import { FxRatesService, FxRateTable } from './fx-rates.service';
+import { CacheService } from '../../../common/cache/cache.service';
+
+export type PriceRecommendation = 'buy' | 'wait' | 'insufficient_data';
+
+export interface PriceSeasonality {
+  // Average deviation from the trailing 28-day mean, in percent; null where there is no data
+  byWeekday: (number | null)[];
+  byMonth: (number | null)[];
+  cheapestWeekday: number | null;
+  cheapestMonth: number | null;
+}
+
+export interface PriceForecast {
+  productId: string;
+  currency: string;
+  horizonDays: number;
+  currentPrice: number | null;
+  // Share of the lookback window priced below the current price
+  currentPercentile: number | null;
+  dropProbability: number;
+  typicalDiscountPercentage: number;
+  expectedLowPrice: number | null;
+  seasonality: PriceSeasonality | null;
+  recommendation: PriceRecommendation;
+  confidence: number;
+  reason: string;
+  sampleDays: number;
+  generatedAt: Date;
+}
+
+export interface PriceForecastOptions {
+  currency?: string;
+  horizonDays?: number;
+}
+
+const FORECAST_CACHE_TTL = 3600;
+const SEASONALITY_WINDOW_DAYS = 28;
+const DAY_MS = 24 * 3600000;
+
+@Injectable()
+export class PriceForecastService {
+  private readonly logger = new Logger(PriceForecastService.name);
+  private readonly lookbackDays: number;
+  private readonly defaultHorizonDays: number;
+  private readonly dropThreshold: number;
+  private readonly minSampleDays: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @InjectRepository(PriceHistory)
+    private readonly priceHistoryRepository: Repository<PriceHistory>,
+    @InjectRepository(PriceHistoryRollup)
+    private readonly rollupRepository: Repository<PriceHistoryRollup>,
+    private readonly fxRatesService: FxRatesService,
+    private readonly cacheService: CacheService,
+  ) {
+    this.lookbackDays = parseInt(this.configService.get<string>('PRICE_FORECAST_LOOKBACK_DAYS', '365'), 10);
+    this.defaultHorizonDays = parseInt(this.configService.get<string>('PRICE_FORECAST_HORIZON_DAYS', '14'), 10);
+    this.dropThreshold = parseFloat(this.configService.get<string>('PRICE_FORECAST_DROP_THRESHOLD', '0.03'));
+    this.minSampleDays = parseInt(this.configService.get<string>('PRICE_FORECAST_MIN_DAYS', '30'), 10);
+  }
+
+  /**
+   * Forecast whether the best new-condition price is likely to drop within the horizon
+   */
+  async getForecast(productId: string, options: PriceForecastOptions = {}): Promise<PriceForecast> {
+    const currency = (options.currency || this.configService.get<string>('DEFAULT_CURRENCY', 'USD')).toUpperCase();
+    const horizonDays = options.horizonDays || this.defaultHorizonDays;
+    const cacheKey = `price_forecast:${productId}:${currency}:${horizonDays}`;
+
+    const cached = await this.cacheService.get<PriceForecast>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const series = await this.getDailySeries(productId, currency);
+      const forecast = this.buildForecast(productId, currency, horizonDays, series);
+
+      await this.cacheService.set(cacheKey, forecast, FORECAST_CACHE_TTL);
+      return forecast;
+    } catch (error) {
+      this.logger.error(`Failed to forecast prices for product ${productId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Run the statistics over a daily best-price series, oldest first
+   */
+  buildForecast(
+    productId: string,
+    currency: string,
+    horizonDays: number,
+    series: { date: Date; price: number }[],
+  ): PriceForecast {
+    const forecast: PriceForecast = {
+      productId,
+      currency,
+      horizonDays,
+      currentPrice: series.length > 0 ? series[series.length - 1].price : null,
+      currentPercentile: null,
+      dropProbability: 0,
+      typicalDiscountPercentage: 0,
+      expectedLowPrice: null,
+      seasonality: null,
+      recommendation: 'insufficient_data',
+      confidence: 0,
+      reason: `Fewer than ${this.minSampleDays} days of price history`,
+      sampleDays: series.length,
+      generatedAt: new Date(),
+    };
+
+    if (series.length < Math.max(this.minSampleDays, horizonDays + 1)) {
+      return forecast;
+    }
+
+    const prices = series.map(point => point.price);
+    const current = prices[prices.length - 1];
+    const currentRelative = current / this.median(prices.slice(-30));
+
+    // Look at every historical window of the same length and count how often the price fell far enough
+    const depths: number[] = [];
+    let windows = 0;
+    let drops = 0;
+    let similarWindows = 0;
+    let similarDrops = 0;
+
+    for (let t = 0; t + horizonDays < prices.length; t++) {
+      const start = prices[t];
+      const futureLow = Math.min(...prices.slice(t + 1, t + horizonDays + 1));
+      const dropped = futureLow <= start * (1 - this.dropThreshold);
+
+      windows++;
+      if (dropped) {
+        drops++;
+        depths.push(1 - futureLow / start);
+      }
+
+      // Windows that started at a similar point relative to their recent median say most about today
+      const relative = start / this.median(prices.slice(Math.max(0, t - 29), t + 1));
+      if (Math.abs(relative - currentRelative) <= 0.05) {
+        similarWindows++;
+        if (dropped) {
+          similarDrops++;
+        }
+      }
+    }
+
+    const useSimilar = similarWindows >= 10;
+    const sampleWindows = useSimilar ? similarWindows : windows;
+    const sampleDrops = useSimilar ? similarDrops : drops;
+
+    // Laplace smoothing keeps short histories away from 0% and 100%
+    const dropProbability = (sampleDrops + 1) / (sampleWindows + 2);
+    const typicalDiscount = depths.length > 0 ? this.median(depths) : 0;
+    const currentPercentile = prices.filter(price => price < current).length / prices.length;
+
+    forecast.currentPercentile = this.round(currentPercentile, 2);
+    forecast.dropProbability = this.round(dropProbability, 2);
+    forecast.typicalDiscountPercentage = this.round(typicalDiscount * 100, 1);
+    forecast.expectedLowPrice = this.round(current * (1 - typicalDiscount), 2);
+    forecast.seasonality = this.calculateSeasonality(series);
+    forecast.confidence = this.round(Math.min(1, sampleWindows / 90) * (0.5 + Math.abs(dropProbability - 0.5)), 2);
+
+    if (currentPercentile <= 0.1) {
+      forecast.recommendation = 'buy';
+      forecast.reason = `Current price is in the lowest 10% of the last ${series.length} days`;
+    } else if (dropProbability >= 0.5 && typicalDiscount >= this.dropThreshold) {
+      forecast.recommendation = 'wait';
+      forecast.reason = `${Math.round(dropProbability * 100)}% chance of a drop of about ${forecast.typicalDiscountPercentage}% within ${horizonDays} days`;
+    } else {
+      forecast.recommendation = 'buy';
+      forecast.reason = `Only a ${Math.round(dropProbability * 100)}% chance of a meaningful drop within ${horizonDays} days`;
+    }
+
+    return forecast;
+  }
+
+  /**
+   * Daily best new-condition price across retailers, converted and carried forward over gaps.
+   * Raw history is tracked per offer, since each seller and storefront only writes rows when its own price changes.
+   */
+  private async getDailySeries(productId: string, currency: string): Promise<{ date: Date; price: number }[]> {
+    const since = new Date(Date.now() - this.lookbackDays * DAY_MS);
+    since.setUTCHours(0, 0, 0, 0);
+
+    const [rollups, raw, rateTable] = await Promise.all([
+      this.rollupRepository
+        .createQueryBuilder('rollup')
+        .select('rollup.retailerId', 'retailerId')
+        .addSelect('rollup.periodStart', 'day')
+        .addSelect('rollup.currency', 'currency')
+        .addSelect('rollup.low', 'price')
+        .where('rollup.productId = :productId', { productId })
+        .andWhere('rollup.granularity = :granularity', { granularity: 'day' })
+        .andWhere('rollup.periodStart >= :since', { since })
+        .getRawMany(),
+      this.priceHistoryRepository
+        .createQueryBuilder('history')
+        .select('history.retailerId', 'retailerId')
+        .addSelect('history.marketplace', 'marketplace')
+        .addSelect('history.sellerId', 'sellerId')
+        .addSelect(`date_trunc('day', history.createdAt)`, 'day')
+        .addSelect('history.currency', 'currency')
+        .addSelect('MIN(history.price)', 'price')
+        .where('history.productId = :productId', { productId })
+        .andWhere('history.condition = :condition', { condition: 'new' })
+        .andWhere('history.createdAt >= :since', { since })
+        .groupBy('history.retailerId')
+        .addGroupBy('history.marketplace')
+        .addGroupBy('history.sellerId')
+        .addGroupBy(`date_trunc('day', history.createdAt)`)
+        .addGroupBy('history.currency')
+        .getRawMany(),
+      this.fxRatesService.getRateTable(),
+    ]);
+
+    // Rollups already hold one representative offer per retailer
+    const rows = [
+      ...rollups.map(row => ({ ...row, offerKey: row.retailerId })),
+      ...raw.map(row => ({ ...row, offerKey: `${row.retailerId}:${row.marketplace}:${row.sellerId}` })),
+    ];
+
+    const byOffer = new Map<string, Map<number, number>>();
+    for (const row of rows) {
+      const price = this.convert(parseFloat(row.price), row.currency, currency, rateTable);
+      if (price === null) {
+        continue;
+      }
+
+      const day = this.dayIndex(new Date(row.day));
+      const days = byOffer.get(row.offerKey) || new Map<number, number>();
+      days.set(day, days.has(day) ? Math.min(days.get(day), price) : price);
+      byOffer.set(row.offerKey, days);
+    }
+
+    if (byOffer.size === 0) {
+      return [];
+    }
+
+    const firstDay = Math.min(...Array.from(byOffer.values()).map(days => Math.min(...days.keys())));
+    const today = this.dayIndex(new Date());
+    const lastSeen = new Map<string, number>();
+    const series: { date: Date; price: number }[] = [];
+
+    // History is only written on change, so each offer's last price holds until its next row
+    for (let day = firstDay; day <= today; day++) {
+      for (const [offerKey, days] of byOffer) {
+        if (days.has(day)) {
+          lastSeen.set(offerKey, days.get(day));
+        }
+      }
+
+      if (lastSeen.size > 0) {
+        series.push({ date: new Date(day * DAY_MS), price: Math.min(...lastSeen.values()) });
+      }
+    }
+
+    return series;
+  }
+
+  /**
+   * Average deviation from the trailing mean by weekday and month
+   */
+  private calculateSeasonality(series: { date: Date; price: number }[]): PriceSeasonality {
+    const weekday = Array.from({ length: 7 }, () => [] as number[]);
+    const month = Array.from({ length: 12 }, () => [] as number[]);
+
+    for (let t = SEASONALITY_WINDOW_DAYS - 1; t < series.length; t++) {
+      const window = series.slice(t - SEASONALITY_WINDOW_DAYS + 1, t + 1);
+      const mean = window.reduce((sum, point) => sum + point.price, 0) / window.length;
+      if (!mean) {
+        continue;
+      }
+
+      const deviation = series[t].price / mean - 1;
+      weekday[series[t].date.getUTCDay()].push(deviation);
+      month[series[t].date.getUTCMonth()].push(deviation);
+    }
+
+    const average = (values: number[]) => values.length > 0
+      ? this.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 100, 2)
+      : null;
+
+    const byWeekday = weekday.map(average);
+    const byMonth = month.map(average);
+    const monthsWithData = byMonth.filter(value => value !== null).length;
+
+    return {
+      byWeekday,
+      byMonth,
+      cheapestWeekday: this.indexOfMin(byWeekday),
+      // One month on its own says nothing about the rest of the year
+      cheapestMonth: monthsWithData >= 2 ? this.indexOfMin(byMonth) : null,
+    };
+  }
+
+  private convert(amount: number, from: string, to: string, rateTable: FxRateTable): number | null {
+    const converted = this.fxRatesService.convert(amount, from || to, to, rateTable);
+    return converted === undefined ? null : converted;
+  }
+
+  private indexOfMin(values: (number | null)[]): number | null {
+    let index: number | null = null;
+    values.forEach((value, i) => {
+      if (value !== null && (index === null || value < values[index])) {
+        index = i;
+      }
+    });
+    return index;
+  }
+
+  private median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  }
+
+  private dayIndex(date: Date): number {
+    return Math.floor(date.getTime() / DAY_MS);
+  }
+
+  private round(value: number, decimals: number): number {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+  }
+}
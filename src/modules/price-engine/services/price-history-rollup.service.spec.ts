@@ -0,0 +1,128 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { PriceHistoryRollupService } from './price-history-rollup.service';
+import { PriceHistory } from '../../../database/entities/price-history.entity';
+import { PriceHistoryRollup } from '../../../database/entities/price-history-rollup.entity';
+
+describe('PriceHistoryRollupService', () => {
+  let service: PriceHistoryRollupService;
+
+  const mockDeleteQueryBuilder = {
+    delete: jest.fn().mockReturnThis(),
+    from: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    execute: jest.fn(),
+  };
+
+  const mockPriceHistoryRepository = {
+    createQueryBuilder: jest.fn().mockReturnValue(mockDeleteQueryBuilder),
+  };
+
+  const mockRollupRepository = {
+    query: jest.fn(),
+    delete: jest.fn(),
+    createQueryBuilder: jest.fn(),
+  };
+
+  // Collapse whitespace so assertions don't depend on the query's layout
+  const sql = (call: number) => (mockRollupRepository.query.mock.calls[call][0] as string).replace(/\s+/g, ' ');
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PriceHistoryRollupService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string, defaultValue?: string) => defaultValue) },
+        },
+        {
+          provide: getRepositoryToken(PriceHistory),
+          useValue: mockPriceHistoryRepository,
+        },
+        {
+          provide: getRepositoryToken(PriceHistoryRollup),
+          useValue: mockRollupRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<PriceHistoryRollupService>(PriceHistoryRollupService);
+    jest.useFakeTimers().setSystemTime(new Date('2024-03-10T14:30:00Z'));
+    mockRollupRepository.query
+      .mockResolvedValueOnce([{ id: 'day-1' }, { id: 'day-2' }])
+      .mockResolvedValueOnce([{ id: 'week-1' }]);
+    mockDeleteQueryBuilder.execute.mockResolvedValue({ affected: 5 });
+    mockRollupRepository.delete.mockResolvedValue({ affected: 1 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.clearAllMocks();
+  });
+
+  it('should pick the finest retained granularity', () => {
+    expect(service.granularityFor(30)).toBe('raw');
+    expect(service.granularityFor(365)).toBe('day');
+    expect(service.granularityFor(1000)).toBe('week');
+  });
+
+  it('should emit a row for every day in the lookback, seeded with the offer\'s last earlier price', async () => {
+    const result = await service.runRollups(3);
+
+    expect(result).toEqual({ dailyRows: 2, weeklyRows: 1, rawRowsDeleted: 5, dailyRowsDeleted: 1 });
+    expect(mockRollupRepository.query.mock.calls[0][1]).toEqual([
+      new Date('2024-03-07T00:00:00Z'),
+      new Date('2024-03-10T00:00:00Z'),
+    ]);
+
+    const daily = sql(0);
+    // One candidate row per listed offer and day, not only per day with a change
+    expect(daily).toContain(`generate_series($1::timestamp, $2::timestamp, interval '1 day')`);
+    expect(daily).toContain('FROM "series" s CROSS JOIN "days" d');
+    expect(daily).toContain('FROM "prices" p WHERE p."condition" = \'new\'');
+    // The carried price opens the day and bounds its range; days with no change repeat it
+    expect(daily).toContain('h."createdAt" < d."periodStart" ORDER BY h."createdAt" DESC LIMIT 1');
+    expect(daily).toContain('COALESCE(seed."price", agg."open") AS "open", GREATEST(seed."price", agg."high") AS "high"');
+    expect(daily).toContain('COALESCE(agg."close", seed."price") AS "close"');
+    expect(daily).toContain('WHERE seed."price" IS NOT NULL OR agg."sampleCount" > 0');
+  });
+
+  it('should follow one representative new offer per retailer, including seller and storefront offers', async () => {
+    await service.runRollups(3);
+
+    const daily = sql(0);
+    // Seed and day samples come from the same offer, so sellers and storefronts never mix in one row
+    const sameOffer = 'h."productId" = s."productId" AND h."retailerId" = s."retailerId" AND h."marketplace" = s."marketplace" '
+      + 'AND h."sellerId" = s."sellerId" AND h."condition" = \'new\'';
+    expect(daily.split(sameOffer).length - 1).toBe(2);
+    // Amazon-style offers always carry a seller id and regional ones a storefront; neither is filtered out
+    expect(daily).not.toContain('"sellerId" = \'\'');
+    expect(daily).not.toContain('"marketplace" = \'\' AND');
+    expect(daily).toContain('SELECT DISTINCT ON ("productId", "retailerId", "periodStart")');
+    expect(daily).toContain('ORDER BY "productId", "retailerId", "periodStart", "closeInStock" DESC, ("marketplace" = \'\') DESC, "close" ASC');
+    expect(sql(1)).toContain('GROUP BY "productId", "retailerId", date_trunc(\'week\', "periodStart")');
+  });
+
+  it('should keep each offer\'s latest row when pruning raw history', async () => {
+    await service.runRollups(3);
+
+    // An offer unchanged for 90+ days has only rows before the cutoff; its newest one survives
+    expect(mockDeleteQueryBuilder.where).toHaveBeenCalledWith('"createdAt" < :rawCutoff', {
+      rawCutoff: new Date('2023-12-11T14:30:00Z'),
+    });
+    const kept = (mockDeleteQueryBuilder.andWhere.mock.calls[0][0] as string).replace(/\s+/g, ' ');
+    expect(kept).toBe(
+      '"id" NOT IN ( SELECT DISTINCT ON ("productId", "retailerId", "marketplace", "sellerId", "condition") "id" '
+      + 'FROM "price_history" WHERE "createdAt" < :rawCutoff '
+      + 'ORDER BY "productId", "retailerId", "marketplace", "sellerId", "condition", "createdAt" DESC )',
+    );
+  });
+
+  it('should return null when the rollup fails', async () => {
+    mockRollupRepository.query.mockReset().mockRejectedValue(new Error('connection lost'));
+
+    expect(await service.runRollups(3)).toBeNull();
+  });
+});
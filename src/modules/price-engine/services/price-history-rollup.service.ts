@@ -0,0 +1,235 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { LessThan, Repository } from 'typeorm';
+import { PriceHistory } from '../../../database/entities/price-history.entity';
+import { PriceHistoryRollup } from '../../../database/entities/price-history-rollup.entity';
+
+export type PriceHistoryGranularity = 'raw' | 'day' | 'week';
+
+export interface RollupRunResult {
+  dailyRows: number;
+  weeklyRows: number;
+  rawRowsDeleted: number;
+  dailyRowsDeleted: number;
+}
+
+const ROLLUP_COLUMNS = `"productId", "retailerId", "granularity", "periodStart", "currency", "open", "high", "low", "close", "sampleCount", "inStockRatio"`;
+
+// History is written per offer; the seed and day samples must come from the same offer
+const SAME_OFFER = (alias: string, series: string) =>
+  `${alias}."productId" = ${series}."productId" AND ${alias}."retailerId" = ${series}."retailerId"
+    AND ${alias}."marketplace" = ${series}."marketplace" AND ${alias}."sellerId" = ${series}."sellerId"
+    AND ${alias}."condition" = 'new'`;
+
+// Columns identifying one offer's history series
+const OFFER_KEY = `"productId", "retailerId", "marketplace", "sellerId", "condition"`;
+
+const ROLLUP_CONFLICT = `
+  ON CONFLICT ("productId", "retailerId", "granularity", "periodStart") DO UPDATE SET
+    "currency" = EXCLUDED."currency",
+    "open" = EXCLUDED."open",
+    "high" = EXCLUDED."high",
+    "low" = EXCLUDED."low",
+    "close" = EXCLUDED."close",
+    "sampleCount" = EXCLUDED."sampleCount",
+    "inStockRatio" = EXCLUDED."inStockRatio",
+    "updatedAt" = now()
+  RETURNING "id"
+`;
+
+@Injectable()
+export class PriceHistoryRollupService {
+  private readonly logger = new Logger(PriceHistoryRollupService.name);
+  private readonly rawRetentionDays: number;
+  private readonly dailyRetentionDays: number;
+  private readonly lookbackDays: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @InjectRepository(PriceHistory)
+    private readonly priceHistoryRepository: Repository<PriceHistory>,
+    @InjectRepository(PriceHistoryRollup)
+    private readonly rollupRepository: Repository<PriceHistoryRollup>,
+  ) {
+    this.rawRetentionDays = parseInt(this.configService.get<string>('PRICE_HISTORY_RAW_RETENTION_DAYS', '90'), 10);
+    this.dailyRetentionDays = parseInt(this.configService.get<string>('PRICE_HISTORY_DAILY_RETENTION_DAYS', '730'), 10);
+    this.lookbackDays = parseInt(this.configService.get<string>('PRICE_HISTORY_ROLLUP_LOOKBACK_DAYS', '3'), 10);
+  }
+
+  /**
+   * Pick the finest granularity that is still retained for the requested range
+   */
+  granularityFor(days: number): PriceHistoryGranularity {
+    if (days <= this.rawRetentionDays) {
+      return 'raw';
+    }
+
+    return days <= this.dailyRetentionDays ? 'day' : 'week';
+  }
+
+  /**
+   * Get rollups for a product, newest first
+   */
+  async getRollups(
+    productId: string,
+    retailerId: string | undefined,
+    granularity: 'day' | 'week',
+    startDate: Date,
+  ): Promise<PriceHistoryRollup[]> {
+    const query = this.rollupRepository
+      .createQueryBuilder('rollup')
+      .where('rollup.productId = :productId', { productId })
+      .andWhere('rollup.granularity = :granularity', { granularity })
+      .andWhere('rollup.periodStart >= :startDate', { startDate })
+      .orderBy('rollup.periodStart', 'DESC');
+
+    if (retailerId) {
+      query.andWhere('rollup.retailerId = :retailerId', { retailerId });
+    }
+
+    return await query.getMany();
+  }
+
+  /**
+   * Roll recent raw history into daily and weekly OHLC rows, then apply retention
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_2AM)
+  async runRollups(lookbackDays = this.lookbackDays): Promise<RollupRunResult | null> {
+    try {
+      const today = new Date();
+      today.setUTCHours(0, 0, 0, 0);
+      const since = new Date(today);
+      since.setUTCDate(since.getUTCDate() - lookbackDays);
+
+      // Periods overlapping the lookback window are recomputed, so reruns are idempotent.
+      // Raw history is only written on change, so each offer's day starts from its last price before it
+      // and days without a change still get a row while the offer is listed. A retailer can list many
+      // sellers and storefronts; its daily row follows one representative new offer: in stock first,
+      // then its default storefront, then the lowest close.
+      const daily = await this.rollupRepository.query(`
+        WITH "days" AS (
+          SELECT generate_series($1::timestamp, $2::timestamp, interval '1 day') AS "periodStart"
+        ),
+        "series" AS (
+          SELECT DISTINCT h."productId", h."retailerId", h."marketplace", h."sellerId"
+          FROM "price_history" h
+          WHERE h."condition" = 'new' AND h."createdAt" >= $1
+          UNION
+          SELECT p."productId", p."retailerId", p."marketplace", p."sellerId"
+          FROM "prices" p
+          WHERE p."condition" = 'new'
+        ),
+        "offer_days" AS (
+          SELECT
+            s."productId",
+            s."retailerId",
+            s."marketplace",
+            d."periodStart",
+            COALESCE(agg."currency", seed."currency") AS "currency",
+            COALESCE(seed."price", agg."open") AS "open",
+            GREATEST(seed."price", agg."high") AS "high",
+            LEAST(seed."price", agg."low") AS "low",
+            COALESCE(agg."close", seed."price") AS "close",
+            agg."sampleCount",
+            COALESCE(agg."inStockRatio", CASE WHEN seed."inStock" THEN 1 ELSE 0 END) AS "inStockRatio",
+            COALESCE(agg."closeInStock", seed."inStock", false) AS "closeInStock"
+          FROM "series" s
+          CROSS JOIN "days" d
+          LEFT JOIN LATERAL (
+            SELECT h."price", h."currency", h."inStock"
+            FROM "price_history" h
+            WHERE ${SAME_OFFER('h', 's')} AND h."createdAt" < d."periodStart"
+            ORDER BY h."createdAt" DESC
+            LIMIT 1
+          ) seed ON true
+          LEFT JOIN LATERAL (
+            SELECT
+              (array_agg(h."currency" ORDER BY h."createdAt" DESC))[1] AS "currency",
+              (array_agg(h."price" ORDER BY h."createdAt" ASC))[1] AS "open",
+              MAX(h."price") AS "high",
+              MIN(h."price") AS "low",
+              (array_agg(h."price" ORDER BY h."createdAt" DESC))[1] AS "close",
+              (array_agg(h."inStock" ORDER BY h."createdAt" DESC))[1] AS "closeInStock",
+              COUNT(*) AS "sampleCount",
+              AVG(CASE WHEN h."inStock" THEN 1 ELSE 0 END) AS "inStockRatio"
+            FROM "price_history" h
+            WHERE ${SAME_OFFER('h', 's')}
+              AND h."createdAt" >= d."periodStart" AND h."createdAt" < d."periodStart" + interval '1 day'
+          ) agg ON true
+          WHERE seed."price" IS NOT NULL OR agg."sampleCount" > 0
+        )
+        INSERT INTO "price_history_rollups" (${ROLLUP_COLUMNS})
+        SELECT DISTINCT ON ("productId", "retailerId", "periodStart")
+          "productId",
+          "retailerId",
+          'day',
+          "periodStart",
+          "currency",
+          "open",
+          "high",
+          "low",
+          "close",
+          "sampleCount",
+          "inStockRatio"
+        FROM "offer_days"
+        ORDER BY "productId", "retailerId", "periodStart", "closeInStock" DESC, ("marketplace" = '') DESC, "close" ASC
+        ${ROLLUP_CONFLICT}
+      `, [since, today]);
+
+      // Carried-over days have no samples, so stock is averaged per day rather than per sample
+      const weekly = await this.rollupRepository.query(`
+        INSERT INTO "price_history_rollups" (${ROLLUP_COLUMNS})
+        SELECT
+          "productId",
+          "retailerId",
+          'week',
+          date_trunc('week', "periodStart"),
+          (array_agg("currency" ORDER BY "periodStart" DESC))[1],
+          (array_agg("open" ORDER BY "periodStart" ASC))[1],
+          MAX("high"),
+          MIN("low"),
+          (array_agg("close" ORDER BY "periodStart" DESC))[1],
+          SUM("sampleCount"),
+          AVG("inStockRatio")
+        FROM "price_history_rollups"
+        WHERE "granularity" = 'day' AND "periodStart" >= date_trunc('week', $1::timestamp)
+        GROUP BY "productId", "retailerId", date_trunc('week', "periodStart")
+        ${ROLLUP_CONFLICT}
+      `, [since]);
+
+      const rawCutoff = new Date(Date.now() - this.rawRetentionDays * 24 * 3600000);
+      const dailyCutoff = new Date(Date.now() - this.dailyRetentionDays * 24 * 3600000);
+
+      // History is only written on change, so an offer's latest row before the cutoff is still its
+      // current price; keep it so stable offers keep seeding rollups and raw ranges
+      const rawDeleted = await this.priceHistoryRepository
+        .createQueryBuilder()
+        .delete()
+        .from(PriceHistory)
+        .where('"createdAt" < :rawCutoff', { rawCutoff })
+        .andWhere(`"id" NOT IN (
+          SELECT DISTINCT ON (${OFFER_KEY}) "id"
+          FROM "price_history"
+          WHERE "createdAt" < :rawCutoff
+          ORDER BY ${OFFER_KEY}, "createdAt" DESC
+        )`)
+        .execute();
+      const dailyDeleted = await this.rollupRepository.delete({ granularity: 'day', periodStart: LessThan(dailyCutoff) });
+
+      const result: RollupRunResult = {
+        dailyRows: daily.length,
+        weeklyRows: weekly.length,
+        rawRowsDeleted: rawDeleted.affected || 0,
+        dailyRowsDeleted: dailyDeleted.affected || 0,
+      };
+
+      this.logger.log(`Price history rollup complete: ${JSON.stringify(result)}`);
+      return result;
+    } catch (error) {
+      this.logger.error('Price history rollup failed:', error);
+      return null;
+    }
+  }
+}
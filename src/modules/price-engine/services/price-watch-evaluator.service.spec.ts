@@ -0,0 +1,162 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { PriceWatchEvaluatorService } from './price-watch-evaluator.service';
+import { FxRatesService } from './fx-rates.service';
+import { QueueService } from '../../../common/queue/queue.service';
+import { PriceWatch } from '../../../database/entities/price-watch.entity';
+import { User } from '../../../database/entities/user.entity';
+
+describe('PriceWatchEvaluatorService', () => {
+  let service: PriceWatchEvaluatorService;
+
+  const rateTable = { base: 'USD', rates: { USD: 1, EUR: 0.5 } as { [currency: string]: number } };
+
+  const price = {
+    id: 'price-123',
+    productId: 'product-123',
+    retailerId: 'retailer-123',
+    price: 80,
+    currency: 'USD',
+    inStock: true,
+    condition: 'new',
+    productUrl: 'https://shop.example.com/p/123',
+  } as any;
+
+  const watchQueryBuilder = {
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    getMany: jest.fn(),
+  };
+
+  const updateQueryBuilder = {
+    update: jest.fn().mockReturnThis(),
+    set: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    execute: jest.fn(),
+  };
+
+  const mockPriceWatchRepository = {
+    createQueryBuilder: jest.fn((alias?: string) => alias ? watchQueryBuilder : updateQueryBuilder),
+    update: jest.fn(),
+    find: jest.fn(),
+  };
+
+  const mockUserRepository = {
+    find: jest.fn(),
+  };
+
+  const mockQueueService = {
+    addNotificationJob: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PriceWatchEvaluatorService,
+        {
+          provide: getRepositoryToken(PriceWatch),
+          useValue: mockPriceWatchRepository,
+        },
+        {
+          provide: getRepositoryToken(User),
+          useValue: mockUserRepository,
+        },
+        {
+          provide: FxRatesService,
+          useValue: {
+            getRateTable: jest.fn().mockResolvedValue(rateTable),
+            convert: jest.fn((amount: number, from: string, to: string) =>
+              Math.round(amount * (rateTable.rates[to] / rateTable.rates[from]) * 100) / 100),
+          },
+        },
+        {
+          provide: QueueService,
+          useValue: mockQueueService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<PriceWatchEvaluatorService>(PriceWatchEvaluatorService);
+    mockUserRepository.find.mockResolvedValue([
+      { id: 'user-1', preferences: { notifications: { priceAlerts: true } } },
+      { id: 'user-2', preferences: { notifications: { priceAlerts: false } } },
+    ]);
+    updateQueryBuilder.execute.mockResolvedValue({ affected: 1 });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should queue alerts for watches whose target or percent drop the offer meets', async () => {
+    watchQueryBuilder.getMany.mockResolvedValue([
+      { id: 'watch-target', userId: 'user-1', currency: 'USD', targetPrice: '85.00', dropPercent: null, baselinePrice: '100.00' },
+      { id: 'watch-drop', userId: 'user-1', currency: 'EUR', targetPrice: null, dropPercent: 15, baselinePrice: '50.00' },
+      { id: 'watch-not-yet', userId: 'user-1', currency: 'USD', targetPrice: '75.00', dropPercent: 25, baselinePrice: '100.00' },
+      { id: 'watch-opted-out', userId: 'user-2', currency: 'USD', targetPrice: '90.00', dropPercent: null, baselinePrice: '100.00' },
+    ]);
+
+    const queued = await service.evaluate(price, { price: 95, currency: 'USD' });
+
+    expect(queued).toBe(2);
+    expect(mockQueueService.addNotificationJob).toHaveBeenCalledWith({
+      userId: 'user-1',
+      type: 'price_alert',
+      data: expect.objectContaining({ watchId: 'watch-target', oldPrice: 95, newPrice: 80, currency: 'USD', targetPrice: 85 }),
+    });
+    expect(mockQueueService.addNotificationJob).toHaveBeenCalledWith({
+      userId: 'user-1',
+      type: 'price_alert',
+      data: expect.objectContaining({ watchId: 'watch-drop', oldPrice: 47.5, newPrice: 40, currency: 'EUR', dropPercent: 15 }),
+    });
+    // A repeat alert needs a lower price than the last one
+    expect(updateQueryBuilder.andWhere).toHaveBeenCalledWith(
+      '("lastAlertedPrice" IS NULL OR "lastAlertedPrice" > :newPrice)',
+      { newPrice: 80 },
+    );
+  });
+
+  it('should not alert again when the drop was already alerted', async () => {
+    watchQueryBuilder.getMany.mockResolvedValue([
+      { id: 'watch-target', userId: 'user-1', currency: 'USD', targetPrice: '85.00', dropPercent: null, baselinePrice: '100.00', lastAlertedPrice: '80.00' },
+    ]);
+    updateQueryBuilder.execute.mockResolvedValue({ affected: 0 });
+
+    const queued = await service.evaluate(price, { price: 80, currency: 'USD' });
+
+    expect(queued).toBe(0);
+    expect(mockQueueService.addNotificationJob).not.toHaveBeenCalled();
+  });
+
+  it('should take the first offer as the baseline for watches created with none', async () => {
+    watchQueryBuilder.getMany.mockResolvedValue([
+      { id: 'watch-drop', userId: 'user-1', currency: 'USD', targetPrice: null, dropPercent: 10, baselinePrice: null },
+    ]);
+
+    const queued = await service.evaluate(price, null);
+
+    expect(queued).toBe(0);
+    expect(mockPriceWatchRepository.update).toHaveBeenCalledWith('watch-drop', { baselinePrice: 80 });
+  });
+
+  it('should ignore used and out of stock offers', async () => {
+    await service.evaluate({ ...price, condition: 'used' }, null);
+    await service.evaluate({ ...price, inStock: false }, null);
+
+    expect(mockPriceWatchRepository.createQueryBuilder).not.toHaveBeenCalled();
+  });
+
+  it('should only list triggered watches of the given user', async () => {
+    mockPriceWatchRepository.find.mockResolvedValue([]);
+
+    await service.getTriggeredWatches('user-1');
+    const unscoped = await service.getTriggeredWatches(undefined);
+
+    expect(unscoped).toEqual([]);
+    expect(mockPriceWatchRepository.find).toHaveBeenCalledTimes(1);
+    expect(mockPriceWatchRepository.find).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ userId: 'user-1' }),
+    }));
+  });
+});
@@ -0,0 +1,151 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In, IsNull, Not } from 'typeorm';
+import { FxRatesService } from './fx-rates.service';
+import { QueueService } from '../../../common/queue/queue.service';
+import { PriceWatch } from '../../../database/entities/price-watch.entity';
+import { Price } from '../../../database/entities/price.entity';
+import { User } from '../../../database/entities/user.entity';
+
+export interface PriceAlertData {
+  watchId: string;
+  productId: string;
+  retailerId: string;
+  priceId: string;
+  productUrl: string;
+  // Both in the watch currency; oldPrice is null for an offer seen for the first time
+  oldPrice: number | null;
+  newPrice: number;
+  currency: string;
+  targetPrice: number | null;
+  dropPercent: number | null;
+  baselinePrice: number | null;
+}
+
+@Injectable()
+export class PriceWatchEvaluatorService {
+  private readonly logger = new Logger(PriceWatchEvaluatorService.name);
+
+  constructor(
+    @InjectRepository(PriceWatch)
+    private readonly priceWatchRepository: Repository<PriceWatch>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly fxRatesService: FxRatesService,
+    private readonly queueService: QueueService,
+  ) {}
+
+  /**
+   * Check a saved offer against active watches and queue a price_alert for each one it meets.
+   * Returns the number of alerts queued; never throws, so a failed check can't fail the save.
+   */
+  async evaluate(price: Price, previous: Pick<Price, 'price' | 'currency'> | null): Promise<number> {
+    try {
+      // Watches follow new, buyable offers; a cheap used listing is not a price drop
+      if (!price.inStock || (price.condition || 'new') !== 'new') {
+        return 0;
+      }
+
+      const watches = await this.priceWatchRepository
+        .createQueryBuilder('watch')
+        .where('watch.productId = :productId', { productId: price.productId })
+        .andWhere('watch.isActive = :isActive', { isActive: true })
+        .andWhere('(watch.retailerId IS NULL OR watch.retailerId = :retailerId)', { retailerId: price.retailerId })
+        .andWhere('(watch.expiresAt IS NULL OR watch.expiresAt > :now)', { now: new Date() })
+        .getMany();
+
+      if (watches.length === 0) {
+        return 0;
+      }
+
+      const [rateTable, users] = await Promise.all([
+        this.fxRatesService.getRateTable(),
+        this.userRepository.find({ where: { id: In(watches.map(watch => watch.userId)) } }),
+      ]);
+      const usersById = new Map(users.map(user => [user.id, user]));
+      let queued = 0;
+
+      for (const watch of watches) {
+        const newPrice = this.fxRatesService.convert(Number(price.price), price.currency, watch.currency, rateTable);
+        if (newPrice === null || newPrice === undefined) {
+          continue;
+        }
+
+        if (watch.baselinePrice === null || watch.baselinePrice === undefined) {
+          // Nothing was on offer when the watch was created; the first offer seen is the baseline
+          watch.baselinePrice = newPrice;
+          await this.priceWatchRepository.update(watch.id, { baselinePrice: newPrice });
+        }
+
+        const user = usersById.get(watch.userId);
+        if (!user || user.preferences?.notifications?.priceAlerts === false || !this.isTriggered(watch, newPrice)) {
+          continue;
+        }
+
+        // Only a new low alerts again; the conditional update stops concurrent saves alerting twice
+        const result = await this.priceWatchRepository
+          .createQueryBuilder()
+          .update(PriceWatch)
+          .set({ lastAlertedPrice: newPrice, lastAlertedAt: new Date(), alertCount: () => '"alertCount" + 1' })
+          .where('id = :id', { id: watch.id })
+          .andWhere('("lastAlertedPrice" IS NULL OR "lastAlertedPrice" > :newPrice)', { newPrice })
+          .execute();
+
+        if (!result.affected) {
+          continue;
+        }
+
+        const data: PriceAlertData = {
+          watchId: watch.id,
+          productId: price.productId,
+          retailerId: price.retailerId,
+          priceId: price.id,
+          productUrl: price.productUrl,
+          oldPrice: previous
+            ? this.fxRatesService.convert(Number(previous.price), previous.currency, watch.currency, rateTable) ?? null
+            : null,
+          newPrice,
+          currency: watch.currency,
+          targetPrice: watch.targetPrice !== null && watch.targetPrice !== undefined ? Number(watch.targetPrice) : null,
+          dropPercent: watch.dropPercent ?? null,
+          baselinePrice: Number(watch.baselinePrice),
+        };
+
+        await this.queueService.addNotificationJob({ userId: watch.userId, type: 'price_alert', data });
+        queued++;
+      }
+
+      if (queued > 0) {
+        this.logger.log(`Queued ${queued} price alerts for product ${price.productId}`);
+      }
+      return queued;
+    } catch (error) {
+      this.logger.error(`Failed to evaluate price watches for product ${price.productId}:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * A user's watches that have alerted, most recent first
+   */
+  async getTriggeredWatches(userId: string, limit = 50): Promise<PriceWatch[]> {
+    if (!userId) {
+      return [];
+    }
+
+    return await this.priceWatchRepository.find({
+      where: { userId, lastAlertedAt: Not(IsNull()) },
+      order: { lastAlertedAt: 'DESC' },
+      take: limit,
+    });
+  }
+
+  private isTriggered(watch: PriceWatch, newPrice: number): boolean {
+    if (watch.targetPrice !== null && watch.targetPrice !== undefined && newPrice <= Number(watch.targetPrice)) {
+      return true;
+    }
+
+    const baseline = Number(watch.baselinePrice);
+    return !!watch.dropPercent && baseline > 0 && newPrice <= baseline * (1 - watch.dropPercent / 100);
+  }
+}
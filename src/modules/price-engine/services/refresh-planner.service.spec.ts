@@ -0,0 +1,143 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { RefreshPlannerService } from './refresh-planner.service';
+import { Price } from '../../../database/entities/price.entity';
+import { CacheService } from '../../../common/cache/cache.service';
+import { QueueService } from '../../../common/queue/queue.service';
+
+describe('RefreshPlannerService', () => {
+  let service: RefreshPlannerService;
+
+  const mockPriceRepository = {
+    query: jest.fn(),
+  };
+
+  const mockCacheService = {
+    get: jest.fn(),
+    set: jest.fn(),
+  };
+
+  const mockQueueService = {
+    addPriceUpdateJob: jest.fn().mockResolvedValue(true),
+  };
+
+  const row = (productId: string, score: string) => ({
+    candidates: '40',
+    due: '3',
+    productId,
+    retailerId: 'retailer-123',
+    stalenessHours: '30.123',
+    popularity: '2.0794',
+    volatility: '0.012345',
+    targetIntervalHours: '10',
+    score,
+  });
+
+  // Collapse whitespace so assertions don't depend on the query's layout
+  const sql = () => (mockPriceRepository.query.mock.calls[0][0] as string).replace(/\s+/g, ' ');
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RefreshPlannerService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string, defaultValue?: string) => defaultValue) },
+        },
+        {
+          provide: getRepositoryToken(Price),
+          useValue: mockPriceRepository,
+        },
+        {
+          provide: CacheService,
+          useValue: mockCacheService,
+        },
+        {
+          provide: QueueService,
+          useValue: mockQueueService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<RefreshPlannerService>(RefreshPlannerService);
+    mockCacheService.get.mockResolvedValue(0);
+    mockPriceRepository.query.mockResolvedValue([row('product-1', '3.5'), row('product-2', '1.8'), row('product-3', '1.01')]);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('planBatch', () => {
+    it('should rank due pairs in the database and only load the batch', async () => {
+      const plan = await service.planBatch();
+
+      // 600 an hour over six runs
+      expect(mockPriceRepository.query.mock.calls[0][1]).toEqual([expect.any(Date), 72, 1, 24, 100]);
+      expect(sql()).toContain('WHERE "score" >= 1 ORDER BY "score" DESC LIMIT $5');
+      expect(plan).toMatchObject({ hourlyBudget: 600, remainingBudget: 600, candidates: 40, due: 3 });
+      expect(plan.batch.map(refresh => refresh.priority)).toEqual(['high', 'medium', 'low']);
+      expect(plan.batch[0]).toEqual({
+        productId: 'product-1',
+        retailerId: 'retailer-123',
+        priority: 'high',
+        score: 3.5,
+        targetIntervalHours: 10,
+        stalenessHours: 30.12,
+        popularity: 2.08,
+        volatility: 0.0123,
+      });
+    });
+
+    it('should age a pair by its most recently fetched offer', async () => {
+      await service.planBatch();
+
+      expect(sql()).toContain('MAX(p."updatedAt") AS "updatedAt"');
+    });
+
+    it('should count active, unexpired price watches as watchers', async () => {
+      await service.planBatch();
+
+      expect(sql()).toContain('FROM "price_watches" w WHERE w."isActive" = true AND (w."expiresAt" IS NULL OR w."expiresAt" > now())');
+      expect(sql()).toContain('2 * LN(1 + COALESCE(watchers."watchers", 0))');
+    });
+
+    it('should cap the batch at the budget left this hour', async () => {
+      mockCacheService.get.mockResolvedValue(580);
+
+      const plan = await service.planBatch(50);
+
+      expect(mockPriceRepository.query.mock.calls[0][1][4]).toBe(20);
+      expect(plan.remainingBudget).toBe(20);
+    });
+
+    it('should keep the counts when nothing is due', async () => {
+      mockPriceRepository.query.mockResolvedValue([{ candidates: '40', due: '0', productId: null }]);
+
+      const plan = await service.planBatch();
+
+      expect(plan).toMatchObject({ candidates: 40, due: 0, batch: [] });
+    });
+  });
+
+  describe('runScheduledRefresh', () => {
+    it('should enqueue the batch and record the spend', async () => {
+      const scheduled = await service.runScheduledRefresh();
+
+      expect(scheduled).toBe(3);
+      expect(mockQueueService.addPriceUpdateJob).toHaveBeenCalledWith({ productId: 'product-1', retailerId: 'retailer-123', priority: 'high' });
+      expect(mockCacheService.set).toHaveBeenCalledWith(expect.stringMatching(/^refresh_budget:/), 3, 3600);
+    });
+
+    it('should only charge the budget for jobs that were actually queued', async () => {
+      mockQueueService.addPriceUpdateJob.mockResolvedValueOnce(true).mockResolvedValueOnce(false).mockResolvedValueOnce(false);
+
+      const scheduled = await service.runScheduledRefresh();
+
+      expect(scheduled).toBe(1);
+      expect(mockQueueService.addPriceUpdateJob).toHaveBeenCalledTimes(3);
+      expect(mockCacheService.set).toHaveBeenCalledWith(expect.stringMatching(/^refresh_budget:/), 1, 3600);
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Repository } from 'typeorm';
+import { Price } from '../../../database/entities/price.entity';
+import { CacheService } from '../../../common/cache/cache.service';
+import { QueueService } from '../../../common/queue/queue.service';
+
+export interface PlannedRefresh {
+  productId: string;
+  retailerId: string;
+  priority: 'high' | 'medium' | 'low';
+  score: number;
+  targetIntervalHours: number;
+  stalenessHours: number;
+  popularity: number;
+  volatility: number;
+}
+
+export interface RefreshPlan {
+  generatedAt: Date;
+  hourlyBudget: number;
+  remainingBudget: number;
+  candidates: number;
+  due: number;
+  batch: PlannedRefresh[];
+}
+
+// The planner runs every 10 minutes, so each run may spend a sixth of the hourly budget
+const RUNS_PER_HOUR = 6;
+
+@Injectable()
+export class RefreshPlannerService {
+  private readonly logger = new Logger(RefreshPlannerService.name);
+  private readonly hourlyBudget: number;
+  private readonly baseIntervalHours: number;
+  private readonly minIntervalHours: number;
+  private readonly maxIntervalHours: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @InjectRepository(Price)
+    private readonly priceRepository: Repository<Price>,
+    private readonly cacheService: CacheService,
+    private readonly queueService: QueueService,
+  ) {
+    this.hourlyBudget = parseInt(this.configService.get<string>('REFRESH_BUDGET_PER_HOUR', '600'), 10);
+    this.baseIntervalHours = parseFloat(this.configService.get<string>('REFRESH_BASE_INTERVAL_HOURS', '24'));
+    this.minIntervalHours = parseFloat(this.configService.get<string>('REFRESH_MIN_INTERVAL_HOURS', '1'));
+    this.maxIntervalHours = parseFloat(this.configService.get<string>('REFRESH_MAX_INTERVAL_HOURS', '72'));
+  }
+
+  /**
+   * Enqueue the next batch of due price refreshes
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async runScheduledRefresh(): Promise<number> {
+    try {
+      const plan = await this.planBatch();
+
+      // Pairs that already have an update queued or running cost nothing more
+      let scheduled = 0;
+      for (const refresh of plan.batch) {
+        const added = await this.queueService.addPriceUpdateJob({
+          productId: refresh.productId,
+          retailerId: refresh.retailerId,
+          priority: refresh.priority,
+        });
+        if (added) {
+          scheduled++;
+        }
+      }
+
+      await this.recordSpend(scheduled);
+      this.logger.log(
+        `Scheduled ${scheduled} price refreshes (${plan.batch.length - scheduled} already queued, ` +
+        `${plan.due} due, ${plan.remainingBudget - scheduled} budget left)`,
+      );
+
+      return scheduled;
+    } catch (error) {
+      this.logger.error('Scheduled price refresh failed:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Work out which product/retailer pairs should refresh next, without enqueueing anything
+   */
+  async planBatch(limit?: number): Promise<RefreshPlan> {
+    const spent = (await this.cacheService.get<number>(this.budgetKey())) || 0;
+    const remainingBudget = Math.max(0, this.hourlyBudget - spent);
+    const batchSize = Math.min(limit || Math.ceil(this.hourlyBudget / RUNS_PER_HOUR), remainingBudget);
+
+    const rows = await this.getDuePairs(batchSize);
+    const batch: PlannedRefresh[] = rows
+      .filter(row => row.productId)
+      .map(row => {
+        const score = parseFloat(row.score);
+        return {
+          productId: row.productId,
+          retailerId: row.retailerId,
+          priority: score >= 3 ? 'high' : score >= 1.5 ? 'medium' : 'low',
+          score: Math.round(score * 100) / 100,
+          targetIntervalHours: Math.round(parseFloat(row.targetIntervalHours) * 100) / 100,
+          stalenessHours: Math.round(parseFloat(row.stalenessHours) * 100) / 100,
+          popularity: Math.round(parseFloat(row.popularity) * 100) / 100,
+          volatility: Math.round(parseFloat(row.volatility) * 10000) / 10000,
+        };
+      });
+
+    return {
+      generatedAt: new Date(),
+      hourlyBudget: this.hourlyBudget,
+      remainingBudget,
+      candidates: parseInt(rows[0]?.candidates, 10) || 0,
+      due: parseInt(rows[0]?.due, 10) || 0,
+      batch,
+    };
+  }
+
+  /**
+   * Score every active product/retailer pair we hold a price for and return the most overdue ones.
+   * Popular and volatile pairs shrink their interval; quiet ones drift towards the maximum.
+   * A pair is as fresh as its latest fetched offer, so offers a marketplace stopped listing don't age it.
+   * Popularity counts scans and active price watches; volatility is the coefficient of variation
+   * of the pair's price over the last two weeks. Every row carries the candidate and due counts,
+   * and one row without a pair comes back when nothing is due.
+   */
+  private async getDuePairs(limit: number): Promise<any[]> {
+    const since = new Date(Date.now() - 14 * 24 * 3600000);
+
+    return await this.priceRepository.query(
+      `WITH "pairs" AS (
+        SELECT p."productId", p."retailerId", MAX(p."updatedAt") AS "updatedAt", product."scanCount"
+        FROM "prices" p
+        INNER JOIN "products" product ON product."id" = p."productId" AND product."isActive" = true
+        INNER JOIN "retailers" retailer ON retailer."id" = p."retailerId" AND retailer."isActive" = true
+        GROUP BY p."productId", p."retailerId", product."scanCount"
+      ),
+      "volatility" AS (
+        SELECT h."productId", h."retailerId", COALESCE(STDDEV_POP(h."price") / NULLIF(AVG(h."price"), 0), 0) AS "volatility"
+        FROM "price_history" h
+        WHERE h."createdAt" > $1
+        GROUP BY h."productId", h."retailerId"
+      ),
+      "watchers" AS (
+        SELECT w."productId", COUNT(*) AS "watchers"
+        FROM "price_watches" w
+        WHERE w."isActive" = true AND (w."expiresAt" IS NULL OR w."expiresAt" > now())
+        GROUP BY w."productId"
+      ),
+      "signals" AS (
+        SELECT pairs."productId", pairs."retailerId",
+          EXTRACT(EPOCH FROM (now() - pairs."updatedAt")) / 3600 AS "stalenessHours",
+          LN(1 + COALESCE(pairs."scanCount", 0)) + 2 * LN(1 + COALESCE(watchers."watchers", 0)) AS "popularity",
+          COALESCE(volatility."volatility", 0) AS "volatility"
+        FROM "pairs" pairs
+        LEFT JOIN "volatility" volatility ON volatility."productId" = pairs."productId" AND volatility."retailerId" = pairs."retailerId"
+        LEFT JOIN "watchers" watchers ON watchers."productId" = pairs."productId"
+      ),
+      "intervals" AS (
+        SELECT signals.*, LEAST($2::float, GREATEST($3::float, $4::float / (1 + signals."popularity" * 0.5 + signals."volatility" * 20))) AS "targetIntervalHours"
+        FROM "signals" signals
+      ),
+      "scored" AS (
+        SELECT intervals.*, intervals."stalenessHours" / intervals."targetIntervalHours" AS "score"
+        FROM "intervals" intervals
+      )
+      SELECT counts."candidates", counts."due", batch.*
+      FROM (
+        SELECT (SELECT COUNT(*) FROM "pairs") AS "candidates", (SELECT COUNT(*) FROM "scored" WHERE "score" >= 1) AS "due"
+      ) counts
+      LEFT JOIN LATERAL (
+        SELECT * FROM "scored" WHERE "score" >= 1 ORDER BY "score" DESC LIMIT $5
+      ) batch ON true`,
+      [since, this.maxIntervalHours, this.minIntervalHours, this.baseIntervalHours, limit],
+    );
+  }
+
+  private async recordSpend(count: number): Promise<void> {
+    if (count === 0) {
+      return;
+    }
+
+    const key = this.budgetKey();
+    const spent = (await this.cacheService.get<number>(key)) || 0;
+    await this.cacheService.set(key, spent + count, 3600);
+  }
+
+  private budgetKey(): string {
+    return `refresh_budget:${new Date().toISOString().slice(0, 13)}`;
+  }
+}
@@ -0,0 +1,102 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  RetailerAdapter,
+  RetailerAdapterCapability,
+  RetailerAdapterConfigSchema,
+} from '../interfaces/price-engine.interface';
+import { Retailer } from '../../../database/entities/retailer.entity';
+
+export const RETAILER_ADAPTERS = 'RETAILER_ADAPTERS';
+
+export interface RetailerAdapterDescriptor {
+  adapterId: string;
+  capabilities: RetailerAdapterCapability[];
+  configSchema: RetailerAdapterConfigSchema;
+  configured: boolean;
+  missingConfig: string[];
+}
+
+@Injectable()
+export class RetailerAdapterRegistry {
+  private readonly logger = new Logger(RetailerAdapterRegistry.name);
+  private readonly adapters: Map<string, RetailerAdapter> = new Map();
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(RETAILER_ADAPTERS) adapters: RetailerAdapter[],
+  ) {
+    for (const adapter of adapters) {
+      this.register(adapter);
+    }
+  }
+
+  /**
+   * Register an adapter under its declared id
+   */
+  register(adapter: RetailerAdapter): void {
+    if (this.adapters.has(adapter.adapterId)) {
+      throw new Error(`Duplicate retailer adapter id: ${adapter.adapterId}`);
+    }
+
+    this.adapters.set(adapter.adapterId, adapter);
+    this.logger.log(`Registered retailer adapter: ${adapter.adapterId}`);
+  }
+
+  /**
+   * Get adapter by id
+   */
+  get(adapterId: string): RetailerAdapter | null {
+    return this.adapters.get(adapterId) || null;
+  }
+
+  /**
+   * Check whether an adapter id is registered
+   */
+  has(adapterId: string): boolean {
+    return this.adapters.has(adapterId);
+  }
+
+  /**
+   * Resolve the adapter bound to a retailer
+   */
+  resolve(retailer: Retailer): RetailerAdapter | null {
+    if (!retailer.adapterId) {
+      return null;
+    }
+
+    const adapter = this.get(retailer.adapterId);
+    if (!adapter) {
+      this.logger.warn(`Retailer ${retailer.name} is bound to unknown adapter: ${retailer.adapterId}`);
+    }
+
+    return adapter;
+  }
+
+  /**
+   * Check whether an adapter supports a capability
+   */
+  supports(adapterId: string, capability: RetailerAdapterCapability): boolean {
+    const adapter = this.get(adapterId);
+    return !!adapter && adapter.capabilities.includes(capability);
+  }
+
+  /**
+   * Describe all registered adapters and their configuration state
+   */
+  describe(): RetailerAdapterDescriptor[] {
+    return Array.from(this.adapters.values()).map(adapter => {
+      const missingConfig = Object.entries(adapter.configSchema)
+        .filter(([key, field]) => field.required && !this.configService.get(key))
+        .map(([key]) => key);
+
+      return {
+        adapterId: adapter.adapterId,
+        capabilities: adapter.capabilities,
+        configSchema: adapter.configSchema,
+        configured: missingConfig.length === 0,
+        missingConfig,
+      };
+    });
+  }
+}
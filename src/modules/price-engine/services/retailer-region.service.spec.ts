@@ -0,0 +1,55 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { RetailerRegionService } from './retailer-region.service';
+
+describe('RetailerRegionService', () => {
+  let service: RetailerRegionService;
+
+  const amazon = {
+    id: 'retailer-123',
+    name: 'Amazon',
+    country: 'US',
+    shipping: { internationalShipping: true },
+    regions: {
+      shipsTo: ['US', 'CA'],
+      marketplaces: {
+        AE: { marketplaceId: 'www.amazon.ae', endpoint: 'webservices.amazon.ae', currency: 'AED' },
+      },
+    },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [RetailerRegionService],
+    }).compile();
+
+    service = module.get<RetailerRegionService>(RetailerRegionService);
+  });
+
+  it('should serve countries the retailer ships to or has a storefront for', () => {
+    expect(service.servesCountry(amazon as any, 'ca')).toBe(true);
+    expect(service.servesCountry(amazon as any, 'AE')).toBe(true);
+    expect(service.servesCountry(amazon as any, 'SA')).toBe(false);
+    expect(service.servesCountry(amazon as any)).toBe(true);
+  });
+
+  it('should fall back to the home country and international shipping without regions', () => {
+    const domestic = { name: 'Walmart', country: 'US', shipping: { internationalShipping: false }, regions: null };
+    const international = { ...domestic, shipping: { internationalShipping: true } };
+
+    expect(service.servesCountry(domestic as any, 'US')).toBe(true);
+    expect(service.servesCountry(domestic as any, 'AE')).toBe(false);
+    expect(service.servesCountry(international as any, 'AE')).toBe(true);
+  });
+
+  it('should resolve the regional storefront for the shopper country', () => {
+    expect(service.resolveMarketplace(amazon as any, 'ae')).toEqual({
+      marketplaceId: 'www.amazon.ae',
+      endpoint: 'webservices.amazon.ae',
+      currency: 'AED',
+      country: 'AE',
+      storefront: 'AE',
+    });
+    expect(service.resolveMarketplace(amazon as any, 'CA')).toEqual({ country: 'CA', storefront: '' });
+    expect(service.resolveMarketplace(amazon as any)).toBeUndefined();
+  });
+});
@@ -0,0 +1,50 @@
+import { Injectable } from '@nestjs/common';
+import { Retailer } from '../../../database/entities/retailer.entity';
+import { RetailerMarketplace } from '../interfaces/price-engine.interface';
+
+@Injectable()
+export class RetailerRegionService {
+  /**
+   * Whether the retailer can sell to a shopper in the country. Retailers without regions
+   * fall back to their home country, or anywhere when they ship internationally.
+   */
+  servesCountry(retailer: Retailer, country?: string): boolean {
+    const code = this.normalize(country);
+    if (!code) {
+      return true;
+    }
+
+    const regions = retailer.regions;
+    if (!regions) {
+      return !retailer.country || this.normalize(retailer.country) === code || !!retailer.shipping?.internationalShipping;
+    }
+
+    if (regions.marketplaces && Object.keys(regions.marketplaces).some(key => this.normalize(key) === code)) {
+      return true;
+    }
+
+    return (regions.shipsTo || []).some(entry => entry === '*' || this.normalize(entry) === code);
+  }
+
+  /**
+   * The storefront to query for a shopper in the country: the retailer's regional marketplace
+   * for it when there is one, otherwise the default storefront delivering there
+   */
+  resolveMarketplace(retailer: Retailer, country?: string): RetailerMarketplace | undefined {
+    const code = this.normalize(country);
+    if (!code) {
+      return undefined;
+    }
+
+    const marketplaces = retailer.regions?.marketplaces || {};
+    const storefront = Object.keys(marketplaces).find(key => this.normalize(key) === code);
+
+    return storefront
+      ? { ...marketplaces[storefront], country: code, storefront: code }
+      : { country: code, storefront: '' };
+  }
+
+  private normalize(country?: string): string {
+    return (country || '').trim().toUpperCase();
+  }
+}
@@ -0,0 +1,134 @@
+import {
+  RetailerAdapter,
+  RetailerAdapterCapability,
+  RetailerAdapterConfigSchema,
+  RetailerMarketplace,
+} from '../interfaces/price-engine.interface';
+import { Product } from '../../../database/entities/product.entity';
+import { Retailer } from '../../../database/entities/retailer.entity';
+import { OfferCondition } from '../../../database/entities/price.entity';
+import { PriceResult } from '../price-engine.service';
+import { SandboxService } from '../../../common/sandbox/sandbox.service';
+
+const SELLER_CONDITIONS: OfferCondition[] = ['new', 'used', 'refurbished', 'open_box'];
+const CONDITION_DISCOUNT: { [condition in OfferCondition]: number } = {
+  new: 1,
+  used: 0.7,
+  refurbished: 0.8,
+  open_box: 0.9,
+};
+
+/**
+ * Offline stand-in for a retailer API adapter. Keeps the real adapter's id and capabilities
+ * and quotes deterministic prices from the sandbox fixtures.
+ */
+export class SandboxRetailerAdapter implements RetailerAdapter {
+  readonly adapterId: string;
+  readonly capabilities: RetailerAdapterCapability[];
+  // Nothing to configure offline
+  readonly configSchema: RetailerAdapterConfigSchema = {};
+
+  constructor(
+    adapter: Pick<RetailerAdapter, 'adapterId' | 'capabilities'>,
+    private readonly sandboxService: SandboxService,
+  ) {
+    this.adapterId = adapter.adapterId;
+    this.capabilities = adapter.capabilities;
+  }
+
+  async getProductPrice(product: Product, retailer: Retailer, marketplace?: RetailerMarketplace): Promise<PriceResult | null> {
+    return await this.sandboxService.simulate(this.adapterId, this.offerKey(product, marketplace), () =>
+      this.buildOffer(product, retailer, marketplace),
+    );
+  }
+
+  async getProductOffers(product: Product, retailer: Retailer, marketplace?: RetailerMarketplace): Promise<PriceResult[]> {
+    return await this.sandboxService.simulate(this.adapterId, this.offerKey(product, marketplace), () => {
+      const offer = this.buildOffer(product, retailer, marketplace);
+      const sellers = this.sandboxService.getRetailer(this.adapterId).sellers || 1;
+      const offers: PriceResult[] = [];
+
+      for (let i = 0; i < sellers; i++) {
+        const condition = SELLER_CONDITIONS[i % SELLER_CONDITIONS.length];
+        const spread = 0.95 + this.sandboxService.random(`seller:${this.offerKey(product, marketplace)}:${i}`) * 0.1;
+        offers.push({
+          ...offer,
+          price: this.roundPrice(offer.price * CONDITION_DISCOUNT[condition] * spread),
+          seller: {
+            id: `sandbox-${this.adapterId}-seller-${i + 1}`,
+            name: `${retailer.name} Sandbox Seller ${i + 1}`,
+            rating: Math.round((3.5 + this.sandboxService.random(`rating:${this.adapterId}:${i}`) * 1.5) * 10) / 10,
+            ratingCount: 50 + Math.floor(this.sandboxService.random(`ratings:${this.adapterId}:${i}`) * 5000),
+          },
+          condition,
+        });
+      }
+
+      return offers;
+    });
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  async getHealthStatus(): Promise<{ status: string; lastCheck: Date }> {
+    return { status: 'healthy', lastCheck: new Date() };
+  }
+
+  private buildOffer(product: Product, retailer: Retailer, marketplace?: RetailerMarketplace): PriceResult {
+    const key = this.offerKey(product, marketplace);
+    const fixture = this.sandboxService.findProduct(`${product.brand || ''} ${product.name}`);
+    const retailerFixture = this.sandboxService.getRetailer(this.adapterId);
+    const basePrice = fixture ? fixture.basePrice : 20 + Math.floor(this.sandboxService.random(`base:${product.id}`) * 480);
+
+    // Each retailer lands within ±5% of its usual position relative to the base price
+    const factor = (retailerFixture.priceFactor || 1) * (0.95 + this.sandboxService.random(`price:${key}`) * 0.1);
+    const price = this.roundPrice(basePrice * factor);
+    const onSale = this.sandboxService.random(`sale:${key}`) < 0.3;
+    const originalPrice = onSale ? this.roundPrice(price * 1.2) : undefined;
+    const inStock = this.sandboxService.random(`stock:${key}`) >= (retailerFixture.outOfStockRate || 0);
+    const domain = marketplace?.domain || retailer.domain;
+
+    return {
+      productId: product.id,
+      retailerId: retailer.id,
+      price,
+      currency: marketplace?.currency || retailer.currency,
+      originalPrice,
+      discount: originalPrice ? this.roundPrice(originalPrice - price) : undefined,
+      discountPercentage: originalPrice ? Math.round(((originalPrice - price) / originalPrice) * 100) : undefined,
+      productUrl: `https://${domain}/sandbox/products/${product.id}`,
+      imageUrl: `https://${domain}/sandbox/images/${product.id}.jpg`,
+      inStock,
+      stockQuantity: inStock ? 1 + Math.floor(this.sandboxService.random(`quantity:${key}`) * 50) : 0,
+      shippingCost: price >= 35 ? 0 : 4.99,
+      estimatedDelivery: `${2 + Math.floor(this.sandboxService.random(`delivery:${key}`) * 5)} days`,
+      availability: {
+        status: inStock ? 'in_stock' : 'out_of_stock',
+        message: inStock ? 'In stock' : 'Currently unavailable',
+        lastChecked: new Date(),
+      },
+      listing: {
+        title: `${product.brand ? `${product.brand} ` : ''}${product.name}`,
+        brand: product.brand,
+        gtin: product.upc || product.ean || product.isbn,
+        modelNumber: product.model,
+      },
+      metadata: {
+        source: 'api',
+        confidence: 1,
+        lastVerified: new Date(),
+        dataQuality: 'high',
+      },
+    };
+  }
+
+  private offerKey(product: Product, marketplace?: RetailerMarketplace): string {
+    return `${this.adapterId}:${product.id}:${marketplace ? marketplace.storefront : ''}`;
+  }
+
+  private roundPrice(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,180 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ScraperFixtureService } from './scraper-fixture.service';
+import { HtmlExtractionService } from './html-extraction.service';
+import { ScrapingService } from './scraping.service';
+import { ScraperFixture } from '../../../database/entities/scraper-fixture.entity';
+import { Retailer } from '../../../database/entities/retailer.entity';
+import { SandboxService } from '../../../common/sandbox/sandbox.service';
+
+describe('ScraperFixtureService', () => {
+  let service: ScraperFixtureService;
+
+  const selectors = {
+    productName: '#title',
+    price: '.price',
+    availability: '#availability',
+    image: '#main-image',
+  };
+
+  const page = `
+    <html><head>
+      <meta property="og:title" content="Acme Widget">
+      <meta property="product:price:amount" content="49.99">
+      <meta property="product:price:currency" content="USD">
+    </head><body>
+      <h1 id="title">Acme Widget</h1>
+      <span class="price">$49.99</span>
+      <div id="availability">In stock</div>
+      <img id="main-image" src="https://cdn.example.com/widget.jpg">
+    </body></html>`;
+
+  const mockRetailer = {
+    id: 'retailer-123',
+    name: 'Test Retailer',
+    scraperConfig: { enabled: true, selectors },
+  };
+
+  const mockFixtureRepository = {
+    create: jest.fn(fixture => fixture),
+    save: jest.fn(fixture => Promise.resolve({ id: 'fixture-123', ...fixture })),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    remove: jest.fn(),
+  };
+
+  const mockRetailerRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+  };
+
+  const mockScrapingService = {
+    fetchPage: jest.fn(),
+  };
+
+  const mockSandboxService = {
+    isEnabled: jest.fn().mockReturnValue(false),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ScraperFixtureService,
+        HtmlExtractionService,
+        {
+          provide: getRepositoryToken(ScraperFixture),
+          useValue: mockFixtureRepository,
+        },
+        {
+          provide: getRepositoryToken(Retailer),
+          useValue: mockRetailerRepository,
+        },
+        {
+          provide: ScrapingService,
+          useValue: mockScrapingService,
+        },
+        {
+          provide: SandboxService,
+          useValue: mockSandboxService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ScraperFixtureService>(ScraperFixtureService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const captureFixture = async (): Promise<ScraperFixture> => {
+    mockRetailerRepository.findOne.mockResolvedValue(mockRetailer);
+    return await service.capture('retailer-123', 'https://shop.example.com/widget', page);
+  };
+
+  it('should record the current extraction as the expected output on capture', async () => {
+    const fixture = await captureFixture();
+
+    expect(mockScrapingService.fetchPage).not.toHaveBeenCalled();
+    expect(fixture.expected.listing).toMatchObject({ source: 'opengraph', price: 49.99, title: 'Acme Widget' });
+    expect(fixture.expected.sources.css).toMatchObject({ price: 49.99, availability: 'in_stock' });
+    expect(fixture.selectors).toEqual(selectors);
+  });
+
+  it('should download the page when no HTML is supplied', async () => {
+    mockRetailerRepository.findOne.mockResolvedValue(mockRetailer);
+    mockScrapingService.fetchPage.mockResolvedValue(page);
+
+    const fixture = await service.capture('retailer-123', 'https://shop.example.com/widget');
+
+    expect(mockScrapingService.fetchPage).toHaveBeenCalledWith('https://shop.example.com/widget', mockRetailer);
+    expect(fixture.html).toBe(page);
+  });
+
+  it('should not download pages in sandbox mode', async () => {
+    mockRetailerRepository.findOne.mockResolvedValue(mockRetailer);
+    mockSandboxService.isEnabled.mockReturnValueOnce(true).mockReturnValueOnce(true);
+
+    await expect(service.capture('retailer-123', 'https://shop.example.com/widget')).rejects.toThrow('Sandbox mode does not download pages');
+    await expect(service.dryRun('retailer-123', { url: 'https://shop.example.com/widget' })).rejects.toThrow('Sandbox mode does not download pages');
+    expect(mockScrapingService.fetchPage).not.toHaveBeenCalled();
+  });
+
+  it('should pass fixtures whose output is unchanged', async () => {
+    const fixture = await captureFixture();
+
+    const result = service.evaluate(fixture, mockRetailer as any);
+
+    expect(result.passed).toBe(true);
+    expect(result.broken).toEqual([]);
+  });
+
+  it('should report the fields a selector change broke', async () => {
+    const fixture = await captureFixture();
+    const retailer = { ...mockRetailer, scraperConfig: { enabled: true, selectors: { ...selectors, availability: '.stock' } } };
+
+    const result = service.evaluate(fixture, retailer as any);
+
+    expect(result.passed).toBe(false);
+    expect(result.broken).toEqual(expect.arrayContaining([
+      expect.objectContaining({ scope: 'css', field: 'availability', expected: 'in_stock', actual: undefined }),
+    ]));
+  });
+
+  it('should summarise a regression run across fixtures', async () => {
+    const fixture = await captureFixture();
+    const brokenFixture = { ...fixture, id: 'fixture-456', html: page.replace('class="price"', 'class="amount"') };
+    mockFixtureRepository.find.mockResolvedValue([fixture, brokenFixture]);
+    mockRetailerRepository.find.mockResolvedValue([mockRetailer]);
+
+    const report = await service.runRegression();
+
+    expect(report.total).toBe(2);
+    expect(report.passed).toBe(1);
+    expect(report.results[1].broken.map(field => `${field.scope}.${field.field}`)).toContain('css.price');
+  });
+
+  it('should dry-run selector overrides against uploaded HTML', async () => {
+    mockRetailerRepository.findOne.mockResolvedValue(mockRetailer);
+
+    const result = await service.dryRun('retailer-123', { html: page, selectors: { price: '.missing' } });
+
+    expect(result.selectors.price).toBe('.missing');
+    expect(result.sources.map(source => source.source)).toEqual(['opengraph']);
+    expect(result.selectorMatches.find(match => match.field === 'price').matches).toBe(0);
+    expect(result.broken).toBeUndefined();
+  });
+
+  it('should parse selector overrides sent as a multipart field', () => {
+    expect(service.parseSelectors('{"price":".amount"}')).toEqual({ price: '.amount' });
+    expect(service.parseSelectors({ price: '.amount' })).toEqual({ price: '.amount' });
+    expect(service.parseSelectors(undefined)).toBeUndefined();
+    expect(() => service.parseSelectors('{price: .amount')).toThrow('selectors must be valid JSON');
+  });
+
+  it('should reject a dry run without a page', async () => {
+    mockRetailerRepository.findOne.mockResolvedValue(mockRetailer);
+
+    await expect(service.dryRun('retailer-123', {})).rejects.toThrow('Provide a fixtureId');
+  });
+});
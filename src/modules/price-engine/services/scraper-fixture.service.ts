@@ -0,0 +1,301 @@
+import { Injectable, Logger, Optional, NotFoundException, BadRequestException, ForbiddenException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ScraperFixture } from '../../../database/entities/scraper-fixture.entity';
+import { Retailer } from '../../../database/entities/retailer.entity';
+import {
+  HtmlExtractionService,
+  ExtractedListing,
+  ExtractionSource,
+  CssSelectors,
+  SelectorMatch,
+} from './html-extraction.service';
+import { ScrapingService } from './scraping.service';
+import { ScrapeDisallowedError } from './crawl-policy.service';
+import { SandboxService } from '../../../common/sandbox/sandbox.service';
+
+export interface FixtureFieldBreak {
+  // 'listing' is the merged result the scraper would return; the rest are individual sources
+  scope: 'listing' | ExtractionSource;
+  field: string;
+  expected: any;
+  actual: any;
+}
+
+export interface FixtureRegressionResult {
+  fixtureId: string;
+  retailerId: string;
+  retailerName?: string;
+  url: string;
+  capturedAt: Date;
+  passed: boolean;
+  broken: FixtureFieldBreak[];
+}
+
+export interface ScraperRegressionReport {
+  total: number;
+  passed: number;
+  failed: number;
+  results: FixtureRegressionResult[];
+  ranAt: Date;
+}
+
+export interface ScraperDryRunOptions {
+  fixtureId?: string;
+  html?: string;
+  url?: string;
+  // Overrides on top of the retailer's saved selectors, to try a fix before saving it
+  selectors?: Partial<CssSelectors>;
+}
+
+export interface ScraperDryRunResult {
+  retailerId: string;
+  selectors: CssSelectors | null;
+  listing: ExtractedListing | null;
+  sources: ExtractedListing[];
+  selectorMatches: SelectorMatch[];
+  // Only present when dry-running against a stored fixture
+  broken?: FixtureFieldBreak[];
+}
+
+@Injectable()
+export class ScraperFixtureService {
+  private readonly logger = new Logger(ScraperFixtureService.name);
+
+  constructor(
+    @InjectRepository(ScraperFixture)
+    private readonly fixtureRepository: Repository<ScraperFixture>,
+    @InjectRepository(Retailer)
+    private readonly retailerRepository: Repository<Retailer>,
+    private readonly htmlExtractionService: HtmlExtractionService,
+    // Not provided to the offline regression script, which never downloads pages
+    @Optional() private readonly scrapingService?: ScrapingService,
+    @Optional() private readonly sandboxService?: SandboxService,
+  ) {}
+
+  /**
+   * Store a product page and record what the current extraction finds on it as the expected output.
+   * The page is downloaded when no HTML is supplied.
+   */
+  async capture(retailerId: string, url: string, html?: string): Promise<ScraperFixture> {
+    const retailer = await this.getRetailer(retailerId);
+
+    try {
+      const page = html || await this.fetchPage(url, retailer);
+      const selectors = retailer.scraperConfig?.selectors || null;
+      const sources = this.htmlExtractionService.extractSources(page, selectors);
+
+      const fixture = await this.fixtureRepository.save(
+        this.fixtureRepository.create({
+          retailerId,
+          url,
+          html: page,
+          selectors,
+          expected: {
+            listing: this.htmlExtractionService.merge(sources),
+            sources: this.bySource(sources),
+          },
+          capturedAt: new Date(),
+        }),
+      );
+
+      this.logger.log(`Captured ${retailer.name} fixture ${fixture.id} from ${url} (${sources.length} sources)`);
+      return fixture;
+    } catch (error) {
+      this.logger.error(`Failed to capture fixture for ${retailer.name} from ${url}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * List stored fixtures without their HTML
+   */
+  async listFixtures(retailerId?: string): Promise<ScraperFixture[]> {
+    return await this.fixtureRepository.find({
+      select: ['id', 'retailerId', 'url', 'selectors', 'expected', 'capturedAt', 'createdAt', 'updatedAt'],
+      where: retailerId ? { retailerId } : {},
+      order: { capturedAt: 'DESC' },
+    });
+  }
+
+  async deleteFixture(id: string): Promise<void> {
+    const fixture = await this.getFixture(id);
+    await this.fixtureRepository.remove(fixture);
+    this.logger.log(`Scraper fixture deleted: ${id}`);
+  }
+
+  /**
+   * Selector overrides from a request body; multipart form fields arrive as JSON strings
+   */
+  parseSelectors(selectors?: Partial<CssSelectors> | string): Partial<CssSelectors> | undefined {
+    if (typeof selectors !== 'string') {
+      return selectors;
+    }
+
+    try {
+      return JSON.parse(selectors);
+    } catch (error) {
+      throw new BadRequestException('selectors must be valid JSON');
+    }
+  }
+
+  /**
+   * Run a retailer's selectors against a stored fixture, pasted HTML or a live URL without saving anything
+   */
+  async dryRun(retailerId: string, options: ScraperDryRunOptions): Promise<ScraperDryRunResult> {
+    const retailer = await this.getRetailer(retailerId);
+    const fixture = options.fixtureId ? await this.getFixture(options.fixtureId) : null;
+
+    let html = options.html;
+    if (!html && fixture) {
+      html = fixture.html;
+    } else if (!html && options.url) {
+      html = await this.fetchPage(options.url, retailer);
+    }
+    if (!html) {
+      throw new BadRequestException('Provide a fixtureId, a page upload, html or a url to dry-run against');
+    }
+
+    const savedSelectors = retailer.scraperConfig?.selectors;
+    const selectors = savedSelectors || options.selectors
+      ? { ...savedSelectors, ...options.selectors } as CssSelectors
+      : null;
+    const sources = this.htmlExtractionService.extractSources(html, selectors);
+    const listing = this.htmlExtractionService.merge(sources);
+
+    return {
+      retailerId,
+      selectors,
+      listing,
+      sources,
+      selectorMatches: selectors ? this.htmlExtractionService.inspectSelectors(html, selectors) : [],
+      broken: fixture ? this.compare(fixture.expected, listing, sources) : undefined,
+    };
+  }
+
+  /**
+   * Re-extract every stored fixture with its retailer's current selectors and report fields that no longer match
+   */
+  async runRegression(retailerId?: string): Promise<ScraperRegressionReport> {
+    try {
+      const fixtures = await this.fixtureRepository.find({
+        where: retailerId ? { retailerId } : {},
+        order: { capturedAt: 'ASC' },
+      });
+      const retailers = await this.retailerRepository.find();
+      const retailersById = new Map(retailers.map(retailer => [retailer.id, retailer]));
+
+      const results = fixtures.map(fixture => this.evaluate(fixture, retailersById.get(fixture.retailerId)));
+      const failed = results.filter(result => !result.passed);
+
+      for (const result of failed) {
+        this.logger.warn(
+          `Scraper fixture ${result.fixtureId} (${result.retailerName || result.retailerId}) broke: ` +
+          result.broken.map(field => `${field.scope}.${field.field}`).join(', '),
+        );
+      }
+
+      return {
+        total: results.length,
+        passed: results.length - failed.length,
+        failed: failed.length,
+        results,
+        ranAt: new Date(),
+      };
+    } catch (error) {
+      this.logger.error('Failed to run scraper fixture regression:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check one fixture against the retailer's selectors, falling back to those saved with the fixture
+   */
+  evaluate(fixture: ScraperFixture, retailer?: Retailer): FixtureRegressionResult {
+    const selectors = retailer?.scraperConfig?.selectors || fixture.selectors || undefined;
+    const sources = this.htmlExtractionService.extractSources(fixture.html, selectors);
+    const broken = this.compare(fixture.expected, this.htmlExtractionService.merge(sources), sources);
+
+    return {
+      fixtureId: fixture.id,
+      retailerId: fixture.retailerId,
+      retailerName: retailer?.name,
+      url: fixture.url,
+      capturedAt: fixture.capturedAt,
+      passed: broken.length === 0,
+      broken,
+    };
+  }
+
+  /**
+   * Fields the expected output had that are now missing or different. New fields are not a break.
+   */
+  private compare(
+    expected: ScraperFixture['expected'],
+    listing: ExtractedListing | null,
+    sources: ExtractedListing[],
+  ): FixtureFieldBreak[] {
+    const actualSources = this.bySource(sources);
+    const broken = this.compareFields('listing', expected.listing, listing);
+
+    for (const [source, fields] of Object.entries(expected.sources || {})) {
+      broken.push(...this.compareFields(source as ExtractionSource, fields, actualSources[source]));
+    }
+
+    return broken;
+  }
+
+  private compareFields(
+    scope: FixtureFieldBreak['scope'],
+    expected: { [field: string]: any } | null,
+    actual: { [field: string]: any } | undefined | null,
+  ): FixtureFieldBreak[] {
+    if (!expected) {
+      return [];
+    }
+
+    return Object.entries(expected)
+      .filter(([field, value]) => value !== undefined && value !== null
+        && JSON.stringify(value) !== JSON.stringify(actual ? actual[field] : undefined))
+      .map(([field, value]) => ({ scope, field, expected: value, actual: actual ? actual[field] : undefined }));
+  }
+
+  private async fetchPage(url: string, retailer: Retailer): Promise<string> {
+    if (this.sandboxService?.isEnabled()) {
+      throw new BadRequestException('Sandbox mode does not download pages; send the page html or use a stored fixture');
+    }
+
+    try {
+      return await this.scrapingService.fetchPage(url, retailer);
+    } catch (error) {
+      if (error instanceof ScrapeDisallowedError) {
+        throw new ForbiddenException(error.message);
+      }
+      throw error;
+    }
+  }
+
+  private bySource(sources: ExtractedListing[]): { [source: string]: ExtractedListing } {
+    const result: { [source: string]: ExtractedListing } = {};
+    for (const source of sources) {
+      result[source.source] = source;
+    }
+    return result;
+  }
+
+  private async getRetailer(retailerId: string): Promise<Retailer> {
+    const retailer = await this.retailerRepository.findOne({ where: { id: retailerId } });
+    if (!retailer) {
+      throw new NotFoundException(`Retailer with ID ${retailerId} not found`);
+    }
+    return retailer;
+  }
+
+  private async getFixture(id: string): Promise<ScraperFixture> {
+    const fixture = await this.fixtureRepository.findOne({ where: { id } });
+    if (!fixture) {
+      throw new NotFoundException(`Scraper fixture with ID ${id} not found`);
+    }
+    return fixture;
+  }
+}
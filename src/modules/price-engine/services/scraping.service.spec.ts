@@ -0,0 +1,144 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ScrapingService } from './scraping.service';
+import { HtmlExtractionService } from './html-extraction.service';
+import { ListingMatchService } from './listing-match.service';
+import { CrawlPolicyService } from './crawl-policy.service';
+import { Price } from '../../../database/entities/price.entity';
+
+describe('ScrapingService', () => {
+  let service: ScrapingService;
+
+  const mockProduct = {
+    id: 'product-123',
+    name: 'Widget 3000',
+    brand: 'Acme',
+    model: 'AW-3000',
+    sku: 'ACME-W3000',
+    upc: null,
+    ean: null,
+    isbn: null,
+  };
+
+  const mockRetailer = {
+    id: 'retailer-123',
+    name: 'Test Retailer',
+    domain: 'shop.example.com',
+    currency: 'USD',
+    scraperConfig: { enabled: true, selectors: null },
+  };
+
+  const productPage = (price: string) => `
+    <html><head>
+      <script type="application/ld+json">
+        {"@type": "Product", "name": "Acme Widget 3000", "brand": "Acme", "mpn": "AW-3000",
+         "offers": {"@type": "Offer", "price": "${price}", "priceCurrency": "USD", "availability": "https://schema.org/InStock"}}
+      </script>
+    </head></html>`;
+
+  const searchPage = `
+    <html><body>
+      <a href="/help/shipping-and-returns-policy">Shipping and returns policy</a>
+      <a href="/p/widget-3000-case">Acme Widget 3000 Protective Case</a>
+      <a href="/p/widget-3000">Acme Widget 3000 AW-3000</a>
+    </body></html>`;
+
+  const pages: { [url: string]: string } = {};
+  const mockFetch = jest.fn((url: string) => Promise.resolve(
+    pages[url] !== undefined
+      ? { ok: true, status: 200, text: () => Promise.resolve(pages[url]) }
+      : { ok: false, status: 404 },
+  ));
+
+  const mockQueryBuilder = {
+    select: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    orderBy: jest.fn().mockReturnThis(),
+    getOne: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    global.fetch = mockFetch as any;
+    Object.keys(pages).forEach(url => delete pages[url]);
+    mockQueryBuilder.getOne.mockResolvedValue(null);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ScrapingService,
+        HtmlExtractionService,
+        ListingMatchService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string, defaultValue?: string) => defaultValue) },
+        },
+        {
+          provide: CrawlPolicyService,
+          useValue: { schedule: jest.fn((retailer: any, url: string, fn: () => Promise<any>) => fn()) },
+        },
+        {
+          provide: getRepositoryToken(Price),
+          useValue: { createQueryBuilder: jest.fn().mockReturnValue(mockQueryBuilder) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ScrapingService>(ScrapingService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should fill URL templates and skip those the product cannot satisfy', () => {
+    expect(service.fillUrlTemplate('https://{domain}/s?k={query}', mockProduct as any, mockRetailer as any))
+      .toBe('https://shop.example.com/s?k=Acme%20Widget%203000');
+    expect(service.fillUrlTemplate('https://{domain}/upc/{gtin}', mockProduct as any, mockRetailer as any)).toBeNull();
+  });
+
+  it('should follow the best matching search result to the product page', async () => {
+    pages['https://shop.example.com/search?q=Acme%20Widget%203000'] = searchPage;
+    pages['https://shop.example.com/p/widget-3000'] = productPage('199.99');
+    pages['https://shop.example.com/p/widget-3000-case'] = productPage('19.99');
+
+    const result = await service.scrapeProductPrice(mockProduct as any, mockRetailer as any);
+
+    expect(result.price).toBe(199.99);
+    expect(result.productUrl).toBe('https://shop.example.com/p/widget-3000');
+    expect(mockFetch).not.toHaveBeenCalledWith('https://shop.example.com/p/widget-3000-case', expect.anything());
+  });
+
+  it('should go straight to the product page a previous scrape found', async () => {
+    mockQueryBuilder.getOne.mockResolvedValue({ productUrl: 'https://shop.example.com/p/widget-3000' });
+    pages['https://shop.example.com/p/widget-3000'] = productPage('189.99');
+
+    const result = await service.scrapeProductPrice(mockProduct as any, mockRetailer as any);
+
+    expect(result.price).toBe(189.99);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fall back to search when the product template page is gone', async () => {
+    const retailer = {
+      ...mockRetailer,
+      scraperConfig: { enabled: true, selectors: null, urlTemplates: { product: 'https://{domain}/sku/{sku}' } },
+    };
+    pages['https://shop.example.com/search?q=Acme%20Widget%203000'] = searchPage;
+    pages['https://shop.example.com/p/widget-3000'] = productPage('199.99');
+
+    const result = await service.scrapeProductPrice(mockProduct as any, retailer as any);
+
+    expect(mockFetch).toHaveBeenCalledWith('https://shop.example.com/sku/ACME-W3000', expect.anything());
+    expect(result.productUrl).toBe('https://shop.example.com/p/widget-3000');
+  });
+
+  it('should not price a product from the search results page itself', async () => {
+    pages['https://shop.example.com/search?q=Acme%20Widget%203000'] = `
+      <html><head><meta property="product:price:amount" content="9.99"></head><body></body></html>`;
+
+    const result = await service.scrapeProductPrice(mockProduct as any, mockRetailer as any);
+
+    expect(result).toBeNull();
+  });
+});
@@ -1,230 +1,302 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
 import { Product } from '../../../database/entities/product.entity';
 import { Retailer } from '../../../database/entities/retailer.entity';
+import { Price } from '../../../database/entities/price.entity';
 import { PriceResult } from '../price-engine.service';
+import { RetailerMarketplace } from '../interfaces/price-engine.interface';
+import { HtmlExtractionService, ExtractedListing } from './html-extraction.service';
+import { CrawlPolicyService, ScrapeDisallowedError } from './crawl-policy.service';
+import { ListingMatchService } from './listing-match.service';
+
+const DEFAULT_SEARCH_TEMPLATE = 'https://{domain}/search?q={query}';
 
 @Injectable()
 export class ScrapingService {
   private readonly logger = new Logger(ScrapingService.name);
 
-  constructor(private readonly configService: ConfigService) {}
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly htmlExtractionService: HtmlExtractionService,
+    private readonly crawlPolicyService: CrawlPolicyService,
+    private readonly listingMatchService: ListingMatchService,
+    @InjectRepository(Price)
+    private readonly priceRepository: Repository<Price>,
+  ) {}
 
   /**
-   * Scrape product price from retailer website
+   * Scrape product price from retailer website: go straight to a known or templated product page,
+   * otherwise search the site and follow the result that best matches the product.
+   * A regional marketplace with its own domain is scraped instead of the retailer's default site.
    */
-  async scrapeProductPrice(product: Product, retailer: Retailer): Promise<PriceResult | null> {
+  async scrapeProductPrice(product: Product, retailer: Retailer, marketplace?: RetailerMarketplace): Promise<PriceResult | null> {
     try {
       this.logger.log(`Scraping price from ${retailer.name} for product: ${product.name}`);
 
-      // Build product URL
-      const productUrl = this.buildProductUrl(product, retailer);
-      if (!productUrl) {
-        return null;
+      const templates = retailer.scraperConfig?.urlTemplates || {};
+      const searchUrl = this.fillUrlTemplate(templates.search || DEFAULT_SEARCH_TEMPLATE, product, retailer, marketplace);
+
+      // Older scrapes stored the search page itself, which is not worth revisiting
+      const knownUrl = await this.findKnownProductUrl(product, retailer, marketplace);
+      if (knownUrl && knownUrl !== searchUrl) {
+        const result = await this.tryProductPage(product, retailer, knownUrl);
+        if (result) {
+          return result;
+        }
+        this.logger.warn(`Known ${retailer.name} product page no longer yields a price, searching again: ${knownUrl}`);
       }
 
-      // Scrape the product page
-      const scrapedData = await this.scrapeProductPage(productUrl, retailer);
-      if (!scrapedData) {
-        return null;
+      const productPageUrl = this.fillUrlTemplate(templates.product, product, retailer, marketplace);
+      if (productPageUrl) {
+        const result = await this.tryProductPage(product, retailer, productPageUrl);
+        if (result) {
+          return result;
+        }
       }
 
-      // Extract price information
-      const priceInfo = this.extractPriceFromScrapedData(scrapedData, retailer);
-      if (!priceInfo) {
-        return null;
+      // GTIN lookups either redirect to the product page or list a handful of results
+      const gtinUrl = this.fillUrlTemplate(templates.gtin, product, retailer, marketplace);
+      if (gtinUrl) {
+        const html = await this.fetchPage(gtinUrl, retailer);
+        const listing = this.htmlExtractionService.extract(html, retailer.scraperConfig?.selectors);
+        if (listing && (listing.source === 'json_ld' || listing.source === 'microdata')) {
+          return this.toValidatedResult(product, retailer, gtinUrl, listing);
+        }
+
+        const result = await this.scrapeBestCandidate(product, retailer, gtinUrl, html);
+        if (result) {
+          return result;
+        }
       }
 
-      const result: PriceResult = {
-        productId: product.id,
-        retailerId: retailer.id,
-        price: priceInfo.price,
-        currency: priceInfo.currency,
-        originalPrice: priceInfo.originalPrice,
-        discount: priceInfo.discount,
-        discountPercentage: priceInfo.discountPercentage,
-        productUrl,
-        imageUrl: priceInfo.imageUrl,
-        inStock: priceInfo.inStock,
-        stockQuantity: priceInfo.stockQuantity,
-        shippingCost: priceInfo.shippingCost,
-        estimatedDelivery: priceInfo.estimatedDelivery,
-        availability: {
-          status: priceInfo.inStock ? 'in_stock' : 'out_of_stock',
-          message: priceInfo.availabilityMessage,
-          lastChecked: new Date(),
-        },
-        promotions: priceInfo.promotions,
-        ratings: priceInfo.ratings,
-        metadata: {
-          source: 'scraper',
-          confidence: 0.75,
-          lastVerified: new Date(),
-          dataQuality: 'medium',
-        },
-      };
+      if (!searchUrl) {
+        return null;
+      }
 
-      this.logger.log(`Successfully scraped ${retailer.name} price: $${priceInfo.price}`);
-      return result;
+      return await this.scrapeBestCandidate(product, retailer, searchUrl, await this.fetchPage(searchUrl, retailer));
     } catch (error) {
+      // Already logged by the crawl policy, and not a sign the retailer is unhealthy
+      if (error instanceof ScrapeDisallowedError) {
+        return null;
+      }
       this.logger.error(`Failed to scrape price from ${retailer.name}:`, error);
-      return null;
+      throw error;
     }
   }
 
   /**
-   * Build product URL for retailer
+   * Fill a retailer URL template from the product. Null when the template needs a value the product lacks.
    */
-  private buildProductUrl(product: Product, retailer: Retailer): string | null {
-    try {
-      const baseUrl = retailer.domain;
-      if (!baseUrl) {
-        return null;
-      }
-
-      // Simple URL building - in production, you'd have more sophisticated logic
-      const searchQuery = encodeURIComponent(`${product.brand} ${product.name}`);
-      return `https://${baseUrl}/search?q=${searchQuery}`;
-    } catch (error) {
-      this.logger.error('Failed to build product URL:', error);
+  fillUrlTemplate(
+    template: string | undefined,
+    product: Product,
+    retailer: Retailer,
+    marketplace?: RetailerMarketplace,
+  ): string | null {
+    const domain = marketplace?.domain || retailer.domain;
+    if (!template || !domain) {
       return null;
     }
-  }
 
-  /**
-   * Scrape product page
-   */
-  private async scrapeProductPage(url: string, retailer: Retailer): Promise<any> {
-    try {
-      const response = await fetch(url, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-          'Accept-Language': 'en-US,en;q=0.5',
-          'Accept-Encoding': 'gzip, deflate',
-          'Connection': 'keep-alive',
-        },
-      });
+    const values: { [placeholder: string]: string | undefined } = {
+      query: [product.brand, product.name].filter(Boolean).join(' '),
+      brand: product.brand,
+      name: product.name,
+      model: product.model,
+      sku: product.sku,
+      gtin: product.upc || product.ean || product.isbn,
+      domain,
+    };
 
-      if (!response.ok) {
-        throw new Error(`HTTP error: ${response.status}`);
+    let missing = false;
+    const url = template.replace(/\{(\w+)\}/g, (placeholder, key: string) => {
+      const value = values[key];
+      if (!value) {
+        missing = true;
+        return '';
       }
+      return key === 'domain' ? value : encodeURIComponent(value);
+    });
 
-      const html = await response.text();
-      return this.parseHtml(html, retailer);
-    } catch (error) {
-      this.logger.error('Failed to scrape product page:', error);
-      return null;
-    }
+    return missing ? null : url;
   }
 
   /**
-   * Parse HTML content
+   * The page a previous scrape priced this product from, so refreshes skip the search
    */
-  private parseHtml(html: string, retailer: Retailer): any {
-    try {
-      // This is a simplified parser - in production, you'd use a proper HTML parser
-      const selectors = retailer.scraperConfig?.selectors;
-      if (!selectors) {
-        return null;
-      }
-
-      // Extract product name
-      const productNameMatch = html.match(new RegExp(selectors.productName, 'i'));
-      const productName = productNameMatch ? productNameMatch[1] : '';
+  private async findKnownProductUrl(
+    product: Product,
+    retailer: Retailer,
+    marketplace?: RetailerMarketplace,
+  ): Promise<string | null> {
+    const price = await this.priceRepository
+      .createQueryBuilder('price')
+      .select(['price.id', 'price.productUrl'])
+      .where('price.productId = :productId', { productId: product.id })
+      .andWhere('price.retailerId = :retailerId', { retailerId: retailer.id })
+      .andWhere('price.marketplace = :marketplace', { marketplace: marketplace ? marketplace.storefront : '' })
+      .andWhere(`price.metadata->>'source' = :source`, { source: 'scraper' })
+      .andWhere('price.productUrl IS NOT NULL')
+      .orderBy('price.updatedAt', 'DESC')
+      .getOne();
 
-      // Extract price
-      const priceMatch = html.match(new RegExp(selectors.price, 'i'));
-      const price = priceMatch ? parseFloat(priceMatch[1].replace(/[^0-9.]/g, '')) : null;
+    return price ? price.productUrl : null;
+  }
 
-      // Extract availability
-      const availabilityMatch = html.match(new RegExp(selectors.availability, 'i'));
-      const availability = availabilityMatch ? availabilityMatch[1] : '';
+  /**
+   * Rank the links on a results page against the product and scrape the best one
+   */
+  private async scrapeBestCandidate(
+    product: Product,
+    retailer: Retailer,
+    resultsUrl: string,
+    html: string,
+  ): Promise<PriceResult | null> {
+    const candidates = this.htmlExtractionService.extractSearchCandidates(
+      html,
+      resultsUrl,
+      retailer.scraperConfig?.searchResultSelectors,
+    );
 
-      // Extract image
-      const imageMatch = html.match(new RegExp(selectors.image, 'i'));
-      const imageUrl = imageMatch ? imageMatch[1] : '';
+    const ranked = candidates
+      .map(candidate => ({
+        candidate,
+        match: this.listingMatchService.verify(product, { listing: { title: candidate.title } } as PriceResult),
+      }))
+      .filter(({ match }) => match.score !== null && match.status !== 'rejected')
+      .sort((a, b) => b.match.score - a.match.score);
 
-      return {
-        productName,
-        price,
-        availability,
-        imageUrl,
-        rawHtml: html,
-      };
-    } catch (error) {
-      this.logger.error('Failed to parse HTML:', error);
+    if (ranked.length === 0) {
+      this.logger.log(`No matching ${retailer.name} search result among ${candidates.length} links for ${product.name}`);
       return null;
     }
+
+    const best = ranked[0];
+    this.logger.log(`Following ${retailer.name} search result "${best.candidate.title}" (score ${best.match.score})`);
+    return await this.scrapeProductPage(product, retailer, best.candidate.url);
   }
 
   /**
-   * Extract price information from scraped data
+   * Scrape a product detail page
    */
-  private extractPriceFromScrapedData(scrapedData: any, retailer: Retailer): {
-    price: number;
-    currency: string;
-    originalPrice?: number;
-    discount?: number;
-    discountPercentage?: number;
-    inStock: boolean;
-    stockQuantity?: number;
-    shippingCost?: number;
-    estimatedDelivery?: string;
-    availabilityMessage: string;
-    imageUrl?: string;
-    promotions?: any[];
-    ratings?: any;
-  } | null {
+  private async scrapeProductPage(product: Product, retailer: Retailer, url: string): Promise<PriceResult | null> {
     try {
-      if (!scrapedData.price) {
-        return null;
+      const html = await this.fetchPage(url, retailer);
+      const listing = this.htmlExtractionService.extract(html, retailer.scraperConfig?.selectors);
+      return listing ? this.toValidatedResult(product, retailer, url, listing) : null;
+    } catch (error) {
+      if (!(error instanceof ScrapeDisallowedError)) {
+        this.logger.error('Failed to scrape product page:', error);
       }
+      throw error;
+    }
+  }
 
-      const currentPrice = scrapedData.price;
-      const currency = retailer.currency || 'USD';
-      const inStock = this.determineStockStatus(scrapedData.availability);
-      const availabilityMessage = scrapedData.availability || '';
-
-      return {
-        price: currentPrice,
-        currency,
-        inStock,
-        availabilityMessage,
-        imageUrl: scrapedData.imageUrl,
-      };
+  /**
+   * Scrape a direct product page, treating fetch failures as a miss so the caller can fall back to search
+   */
+  private async tryProductPage(product: Product, retailer: Retailer, url: string): Promise<PriceResult | null> {
+    try {
+      return await this.scrapeProductPage(product, retailer, url);
     } catch (error) {
-      this.logger.error('Failed to extract price from scraped data:', error);
+      if (error instanceof ScrapeDisallowedError) {
+        throw error;
+      }
       return null;
     }
   }
 
-  /**
-   * Determine stock status from availability text
-   */
-  private determineStockStatus(availabilityText: string): boolean {
-    if (!availabilityText) {
-      return false;
+  private toValidatedResult(product: Product, retailer: Retailer, url: string, listing: ExtractedListing): PriceResult | null {
+    const result = this.buildPriceResult(product, retailer, url, listing);
+    const problems = this.htmlExtractionService.validatePriceResult(result);
+    if (problems.length > 0) {
+      this.logger.warn(`Discarding ${retailer.name} scrape from ${listing.source}: ${problems.join('; ')}`);
+      return null;
     }
 
-    const inStockKeywords = ['in stock', 'available', 'add to cart', 'buy now'];
-    const outOfStockKeywords = ['out of stock', 'unavailable', 'sold out', 'coming soon'];
+    this.logger.log(`Successfully scraped ${retailer.name} price from ${listing.source}: $${result.price}`);
+    return result;
+  }
 
-    const lowerText = availabilityText.toLowerCase();
+  /**
+   * Download a page's HTML the way the scraper sees it, subject to the retailer's crawl policy
+   */
+  async fetchPage(url: string, retailer: Retailer): Promise<string> {
+    return await this.crawlPolicyService.schedule(retailer, url, async () => {
+      const response = await fetch(url, {
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
+          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+          'Accept-Language': 'en-US,en;q=0.5',
+          'Accept-Encoding': 'gzip, deflate',
+          'Connection': 'keep-alive',
+        },
+      });
 
-    for (const keyword of outOfStockKeywords) {
-      if (lowerText.includes(keyword)) {
-        return false;
+      if (!response.ok) {
+        throw new Error(`HTTP error: ${response.status}`);
       }
-    }
 
-    for (const keyword of inStockKeywords) {
-      if (lowerText.includes(keyword)) {
-        return true;
-      }
+      return await response.text();
+    });
+  }
+
+  /**
+   * Turn an extracted listing into a price result
+   */
+  private buildPriceResult(product: Product, retailer: Retailer, productUrl: string, listing: ExtractedListing): PriceResult {
+    // Pages without an explicit availability signal are assumed purchasable
+    const status = listing.availability || 'in_stock';
+    const structured = listing.source !== 'css';
+
+    return {
+      productId: product.id,
+      retailerId: retailer.id,
+      price: listing.price,
+      currency: listing.currency || retailer.currency || 'USD',
+      productUrl: this.absoluteUrl(listing.url, productUrl) || productUrl,
+      imageUrl: this.absoluteUrl(listing.imageUrl, productUrl),
+      inStock: status === 'in_stock' || status === 'limited',
+      shippingCost: listing.shippingCost,
+      availability: {
+        status,
+        message: listing.availabilityMessage || '',
+        lastChecked: new Date(),
+      },
+      ratings: listing.rating ? {
+        average: listing.rating.average,
+        count: listing.rating.count,
+        distribution: { five: 0, four: 0, three: 0, two: 0, one: 0 },
+      } : undefined,
+      seller: listing.sellerName ? { id: listing.sellerName, name: listing.sellerName } : undefined,
+      condition: listing.condition,
+      listing: {
+        title: listing.title,
+        brand: listing.brand,
+        gtin: listing.gtin,
+        modelNumber: listing.modelNumber,
+      },
+      metadata: {
+        source: 'scraper',
+        confidence: structured ? 0.85 : 0.65,
+        lastVerified: new Date(),
+        dataQuality: structured ? 'high' : 'medium',
+      },
+    };
+  }
+
+  private absoluteUrl(value: string | undefined, base: string): string | undefined {
+    if (!value) {
+      return undefined;
     }
 
-    return false;
+    try {
+      return new URL(value, base).toString();
+    } catch (error) {
+      return undefined;
+    }
   }
 
   /**
@@ -0,0 +1,145 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { StockTransitionService } from './stock-transition.service';
+import { QueueService } from '../../../common/queue/queue.service';
+import { StockEvent } from '../../../database/entities/stock-event.entity';
+import { RestockSubscription } from '../../../database/entities/restock-subscription.entity';
+
+describe('StockTransitionService', () => {
+  let service: StockTransitionService;
+
+  const price = {
+    id: 'price-123',
+    productId: 'product-123',
+    retailerId: 'retailer-123',
+    price: 99.99,
+    currency: 'USD',
+    inStock: true,
+    stockQuantity: 12,
+    productUrl: 'https://shop.example.com/p/123',
+  } as any;
+
+  const mockQueryBuilder = {
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    getMany: jest.fn(),
+    update: jest.fn().mockReturnThis(),
+    set: jest.fn().mockReturnThis(),
+    execute: jest.fn(),
+  };
+
+  const mockStockEventRepository = {
+    create: jest.fn(event => event),
+    save: jest.fn(event => Promise.resolve({ id: 'event-123', ...event })),
+  };
+
+  const mockSubscriptionRepository = {
+    createQueryBuilder: jest.fn().mockReturnValue(mockQueryBuilder),
+  };
+
+  const mockQueueService = {
+    addNotificationJob: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StockTransitionService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string, defaultValue?: string) => defaultValue) },
+        },
+        {
+          provide: getRepositoryToken(StockEvent),
+          useValue: mockStockEventRepository,
+        },
+        {
+          provide: getRepositoryToken(RestockSubscription),
+          useValue: mockSubscriptionRepository,
+        },
+        {
+          provide: QueueService,
+          useValue: mockQueueService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<StockTransitionService>(StockTransitionService);
+    mockQueryBuilder.getMany.mockResolvedValue([{ id: 'subscription-1', userId: 'user-1', notificationCount: 0 }]);
+    mockQueryBuilder.execute.mockResolvedValue({ affected: 1 });
+    jest.useFakeTimers().setSystemTime(new Date('2024-03-10T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.clearAllMocks();
+  });
+
+  it('should classify tracked stock transitions', () => {
+    expect(service.classify('out_of_stock', 'in_stock')).toBe('back_in_stock');
+    expect(service.classify('out_of_stock', 'limited')).toBe('back_in_stock');
+    expect(service.classify('in_stock', 'limited')).toBe('low_stock');
+    expect(service.classify('pre_order', 'in_stock')).toBe('released');
+    expect(service.classify('in_stock', 'out_of_stock')).toBeNull();
+    expect(service.classify('limited', 'in_stock')).toBeNull();
+  });
+
+  it('should fall back to inStock when the retailer gives no availability status', () => {
+    expect(service.getStatus({ inStock: false, availability: null })).toBe('out_of_stock');
+    expect(service.getStatus({ inStock: true, availability: { status: 'limited', message: '', lastChecked: new Date() } })).toBe('limited');
+  });
+
+  it('should record a restock and notify subscribers', async () => {
+    const event = await service.detect(price, { inStock: false, availability: null });
+
+    expect(event).toMatchObject({ transition: 'back_in_stock', fromStatus: 'out_of_stock', toStatus: 'in_stock', stockQuantity: 12 });
+    expect(mockQueueService.addNotificationJob).toHaveBeenCalledWith({
+      userId: 'user-1',
+      type: 'back_in_stock',
+      data: expect.objectContaining({ stockEventId: 'event-123', productId: 'product-123', price: 99.99 }),
+    });
+    expect(mockQueryBuilder.set).toHaveBeenCalledWith({ lastNotifiedAt: new Date('2024-03-10T12:00:00Z'), notificationCount: expect.any(Function) });
+    expect(mockQueryBuilder.where).toHaveBeenCalledWith('id = :id', { id: 'subscription-1' });
+  });
+
+  it('should not notify again when an offer flaps within the cooldown', async () => {
+    await service.detect(price, { inStock: false, availability: null });
+    // The first restock stamped lastNotifiedAt, so the claim for the next one matches nothing
+    mockQueryBuilder.execute.mockResolvedValue({ affected: 0 });
+    await service.detect(price, { inStock: false, availability: null });
+
+    expect(mockStockEventRepository.save).toHaveBeenCalledTimes(2);
+    expect(mockQueueService.addNotificationJob).toHaveBeenCalledTimes(1);
+    expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+      '(subscription.lastNotifiedAt IS NULL OR subscription.lastNotifiedAt < :cooldownStart)',
+      { cooldownStart: new Date('2024-03-09T12:00:00Z') },
+    );
+  });
+
+  it('should notify once when several sellers restock in the same run', async () => {
+    mockQueryBuilder.execute.mockResolvedValueOnce({ affected: 1 }).mockResolvedValueOnce({ affected: 0 });
+
+    await service.detect({ ...price, sellerId: 'seller-1' }, { inStock: false, availability: null });
+    await service.detect({ ...price, id: 'price-456', sellerId: 'seller-2' }, { inStock: false, availability: null });
+
+    expect(mockQueueService.addNotificationJob).toHaveBeenCalledTimes(1);
+    expect(mockQueueService.addNotificationJob).toHaveBeenCalledWith(expect.objectContaining({ data: expect.objectContaining({ priceId: 'price-123' }) }));
+  });
+
+  it('should record low stock without notifying subscribers', async () => {
+    const event = await service.detect(
+      { ...price, availability: { status: 'limited', message: 'Only 2 left', lastChecked: new Date() } },
+      { inStock: true, availability: { status: 'in_stock', message: '', lastChecked: new Date() } },
+    );
+
+    expect(event.transition).toBe('low_stock');
+    expect(mockQueueService.addNotificationJob).not.toHaveBeenCalled();
+  });
+
+  it('should ignore new offers and unchanged status', async () => {
+    expect(await service.detect(price, null)).toBeNull();
+    expect(await service.detect(price, { inStock: true, availability: null })).toBeNull();
+    expect(mockStockEventRepository.save).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,152 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { QueueService } from '../../../common/queue/queue.service';
+import { Price } from '../../../database/entities/price.entity';
+import { StockEvent, StockStatus, StockTransition } from '../../../database/entities/stock-event.entity';
+import { RestockSubscription } from '../../../database/entities/restock-subscription.entity';
+
+export type StockSnapshot = Pick<Price, 'inStock' | 'availability'>;
+
+export interface BackInStockData {
+  stockEventId: string;
+  productId: string;
+  retailerId: string;
+  priceId: string;
+  productUrl: string;
+  transition: StockTransition;
+  price: number;
+  currency: string;
+  stockQuantity: number | null;
+}
+
+@Injectable()
+export class StockTransitionService {
+  private readonly logger = new Logger(StockTransitionService.name);
+  private readonly notifyCooldownHours: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @InjectRepository(StockEvent)
+    private readonly stockEventRepository: Repository<StockEvent>,
+    @InjectRepository(RestockSubscription)
+    private readonly subscriptionRepository: Repository<RestockSubscription>,
+    private readonly queueService: QueueService,
+  ) {
+    this.notifyCooldownHours = parseFloat(this.configService.get<string>('RESTOCK_NOTIFY_COOLDOWN_HOURS', '24'));
+  }
+
+  /**
+   * Offer stock status: the retailer's availability status when it gave one, otherwise from inStock
+   */
+  getStatus(snapshot: StockSnapshot): StockStatus {
+    return snapshot.availability?.status || (snapshot.inStock ? 'in_stock' : 'out_of_stock');
+  }
+
+  /**
+   * Classify a status change; null for changes that aren't tracked, like selling out
+   */
+  classify(from: StockStatus, to: StockStatus): StockTransition | null {
+    const available = to === 'in_stock' || to === 'limited';
+
+    if (from === 'out_of_stock' && available) {
+      return 'back_in_stock';
+    }
+    if (from === 'pre_order' && available) {
+      return 'released';
+    }
+    if (from === 'in_stock' && to === 'limited') {
+      return 'low_stock';
+    }
+    return null;
+  }
+
+  /**
+   * Record a stock transition for a saved offer and notify restock subscribers when it became buyable.
+   * Never throws, so a failed check can't fail the save.
+   */
+  async detect(price: Price, previous: StockSnapshot | null): Promise<StockEvent | null> {
+    if (!previous) {
+      return null;
+    }
+
+    try {
+      const fromStatus = this.getStatus(previous);
+      const toStatus = this.getStatus(price);
+      const transition = this.classify(fromStatus, toStatus);
+      if (!transition) {
+        return null;
+      }
+
+      const event = await this.stockEventRepository.save(
+        this.stockEventRepository.create({
+          priceId: price.id,
+          productId: price.productId,
+          retailerId: price.retailerId,
+          marketplace: price.marketplace || '',
+          sellerId: price.sellerId || '',
+          condition: price.condition || 'new',
+          transition,
+          fromStatus,
+          toStatus,
+          stockQuantity: price.stockQuantity,
+          price: price.price,
+          currency: price.currency,
+        }),
+      );
+      this.logger.log(`Stock ${transition} for product ${price.productId} at retailer ${price.retailerId}`);
+
+      if (transition !== 'low_stock') {
+        await this.notifySubscribers(event, price);
+      }
+      return event;
+    } catch (error) {
+      this.logger.error(`Failed to record stock transition for product ${price.productId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Notify each subscriber at most once per cooldown window, so a flapping offer or several
+   * sellers restocking in the same run send a single notification
+   */
+  private async notifySubscribers(event: StockEvent, price: Price): Promise<void> {
+    const cooldownStart = new Date(Date.now() - this.notifyCooldownHours * 60 * 60 * 1000);
+    const subscriptions = await this.subscriptionRepository
+      .createQueryBuilder('subscription')
+      .where('subscription.productId = :productId', { productId: event.productId })
+      .andWhere('subscription.isActive = :isActive', { isActive: true })
+      .andWhere('(subscription.retailerId IS NULL OR subscription.retailerId = :retailerId)', { retailerId: event.retailerId })
+      .andWhere('(subscription.lastNotifiedAt IS NULL OR subscription.lastNotifiedAt < :cooldownStart)', { cooldownStart })
+      .getMany();
+
+    const data: BackInStockData = {
+      stockEventId: event.id,
+      productId: event.productId,
+      retailerId: event.retailerId,
+      priceId: event.priceId,
+      productUrl: price.productUrl,
+      transition: event.transition,
+      price: Number(event.price),
+      currency: event.currency,
+      stockQuantity: event.stockQuantity ?? null,
+    };
+
+    for (const subscription of subscriptions) {
+      // Claim the subscription first; another offer of the same product may have notified it since the lookup
+      const claim = await this.subscriptionRepository
+        .createQueryBuilder()
+        .update(RestockSubscription)
+        .set({ lastNotifiedAt: new Date(), notificationCount: () => '"notificationCount" + 1' })
+        .where('id = :id', { id: subscription.id })
+        .andWhere('("lastNotifiedAt" IS NULL OR "lastNotifiedAt" < :cooldownStart)', { cooldownStart })
+        .execute();
+      if (!claim.affected) {
+        continue;
+      }
+
+      await this.queueService.addNotificationJob({ userId: subscription.userId, type: 'back_in_stock', data });
+    }
+  }
+}
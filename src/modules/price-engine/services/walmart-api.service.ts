@@ -1,15 +1,24 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { PriceEngineService } from '../interfaces/price-engine.interface';
+import {
+  RetailerAdapter,
+  RetailerAdapterCapability,
+  RetailerAdapterConfigSchema,
+} from '../interfaces/price-engine.interface';
 import { Product } from '../../../database/entities/product.entity';
 import { Retailer } from '../../../database/entities/retailer.entity';
 import { PriceResult } from '../price-engine.service';
 
 @Injectable()
-export class WalmartApiService implements PriceEngineService {
+export class WalmartApiService implements RetailerAdapter {
   private readonly logger = new Logger(WalmartApiService.name);
   private readonly apiKey: string;
   private readonly baseUrl = 'https://developer.walmartlabs.com/docs';
+  readonly adapterId = 'walmart';
+  readonly capabilities: RetailerAdapterCapability[] = ['search', 'gtin_lookup', 'offers', 'stock'];
+  readonly configSchema: RetailerAdapterConfigSchema = {
+    WALMART_API_KEY: { type: 'string', required: true, description: 'Walmart Open API key' },
+  };
 
   constructor(private readonly configService: ConfigService) {
     this.apiKey = this.configService.get<string>('WALMART_API_KEY');
@@ -73,6 +82,12 @@ export class WalmartApiService implements PriceEngineService {
         },
         promotions: priceInfo.promotions,
         ratings: priceInfo.ratings,
+        listing: {
+          title: productDetails.name,
+          brand: productDetails.brandName,
+          gtin: productDetails.upc,
+          modelNumber: productDetails.modelNumber,
+        },
         metadata: {
           source: 'api',
           confidence: 0.90,
@@ -85,7 +100,7 @@ export class WalmartApiService implements PriceEngineService {
       return result;
     } catch (error) {
       this.logger.error('Failed to fetch Walmart price:', error);
-      return null;
+      throw error;
     }
   }
 
@@ -1,15 +1,24 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { PriceEngineService } from '../interfaces/price-engine.interface';
+import {
+  RetailerAdapter,
+  RetailerAdapterCapability,
+  RetailerAdapterConfigSchema,
+} from '../interfaces/price-engine.interface';
 import { Product } from '../../../database/entities/product.entity';
 import { Retailer } from '../../../database/entities/retailer.entity';
 import { PriceResult } from '../price-engine.service';
 
 @Injectable()
-export class ZalandoApiService implements PriceEngineService {
+export class ZalandoApiService implements RetailerAdapter {
   private readonly logger = new Logger(ZalandoApiService.name);
   private readonly apiKey: string;
   private readonly baseUrl = 'https://api.zalando.com';
+  readonly adapterId = 'zalando';
+  readonly capabilities: RetailerAdapterCapability[] = ['search', 'offers', 'stock'];
+  readonly configSchema: RetailerAdapterConfigSchema = {
+    ZALANDO_API_KEY: { type: 'string', required: true, description: 'Zalando partner API key' },
+  };
 
   constructor(private readonly configService: ConfigService) {
     this.apiKey = this.configService.get<string>('ZALANDO_API_KEY');
@@ -65,6 +74,11 @@ export class ZalandoApiService implements PriceEngineService {
         },
         promotions: priceInfo.promotions,
         ratings: priceInfo.ratings,
+        listing: {
+          title: item.name,
+          brand: item.brand?.name,
+          gtin: item.ean,
+        },
         metadata: {
           source: 'api',
           confidence: 0.87,
@@ -77,7 +91,7 @@ export class ZalandoApiService implements PriceEngineService {
       return result;
     } catch (error) {
       this.logger.error('Failed to fetch Zalando price:', error);
-      return null;
+      throw error;
     }
   }
 
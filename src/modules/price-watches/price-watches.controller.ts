@@ -0,0 +1,59 @@
+import { Controller, Get, Post, Put, Delete, Body, Param, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import { User } from '../../database/entities/user.entity';
+import { PriceWatchesService, CreatePriceWatchDto, UpdatePriceWatchDto } from './price-watches.service';
+
+@ApiTags('price-watches')
+@Controller('price-watches')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class PriceWatchesController {
+  constructor(private readonly priceWatchesService: PriceWatchesService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Watch a product for a target price or a percent drop' })
+  @ApiResponse({ status: 201, description: 'Price watch created successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid watch criteria' })
+  @ApiResponse({ status: 404, description: 'Product or retailer not found' })
+  async create(@GetUser() user: User, @Body() createPriceWatchDto: CreatePriceWatchDto) {
+    return await this.priceWatchesService.create(user, createPriceWatchDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get the current user\'s price watches' })
+  @ApiResponse({ status: 200, description: 'Price watches retrieved successfully' })
+  async findAll(@GetUser() user: User) {
+    return await this.priceWatchesService.findAll(user.id);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a price watch' })
+  @ApiResponse({ status: 200, description: 'Price watch retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Price watch not found' })
+  async findOne(@GetUser() user: User, @Param('id') id: string) {
+    return await this.priceWatchesService.findOne(user.id, id);
+  }
+
+  @Put(':id')
+  @ApiOperation({ summary: 'Update a price watch' })
+  @ApiResponse({ status: 200, description: 'Price watch updated successfully' })
+  @ApiResponse({ status: 404, description: 'Price watch not found' })
+  async update(
+    @GetUser() user: User,
+    @Param('id') id: string,
+    @Body() updatePriceWatchDto: UpdatePriceWatchDto,
+  ) {
+    return await this.priceWatchesService.update(user.id, id, updatePriceWatchDto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a price watch' })
+  @ApiResponse({ status: 200, description: 'Price watch deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Price watch not found' })
+  async delete(@GetUser() user: User, @Param('id') id: string) {
+    await this.priceWatchesService.delete(user.id, id);
+    return { message: 'Price watch deleted successfully' };
+  }
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { PriceWatchesService } from './price-watches.service';
+import { PriceWatchesController } from './price-watches.controller';
+import { DatabaseModule } from '../../database/database.module';
+import { PriceEngineModule } from '../price-engine/price-engine.module';
+
+@Module({
+  imports: [
+    ConfigModule,
+    DatabaseModule,
+    PriceEngineModule,
+  ],
+  providers: [PriceWatchesService],
+  controllers: [PriceWatchesController],
+  exports: [PriceWatchesService],
+})
+export class PriceWatchesModule {}
@@ -0,0 +1,133 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { PriceWatchesService } from './price-watches.service';
+import { PriceWatch } from '../../database/entities/price-watch.entity';
+import { Price } from '../../database/entities/price.entity';
+import { Product } from '../../database/entities/product.entity';
+import { Retailer } from '../../database/entities/retailer.entity';
+import { FxRatesService } from '../price-engine/services/fx-rates.service';
+
+describe('PriceWatchesService', () => {
+  let service: PriceWatchesService;
+
+  const user = { id: 'user-123', preferences: { currency: 'eur' } } as any;
+
+  const mockPriceWatchRepository = {
+    create: jest.fn(watch => ({ ...watch })),
+    save: jest.fn(watch => Promise.resolve({ id: 'watch-123', ...watch })),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    remove: jest.fn(),
+  };
+
+  const mockPriceRepository = {
+    find: jest.fn(),
+  };
+
+  const mockProductRepository = {
+    findOne: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PriceWatchesService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string, defaultValue?: string) => defaultValue) },
+        },
+        {
+          provide: getRepositoryToken(PriceWatch),
+          useValue: mockPriceWatchRepository,
+        },
+        {
+          provide: getRepositoryToken(Price),
+          useValue: mockPriceRepository,
+        },
+        {
+          provide: getRepositoryToken(Product),
+          useValue: mockProductRepository,
+        },
+        {
+          provide: getRepositoryToken(Retailer),
+          useValue: { findOne: jest.fn() },
+        },
+        {
+          provide: FxRatesService,
+          useValue: {
+            getRateTable: jest.fn().mockResolvedValue({ base: 'USD', rates: { USD: 1, EUR: 0.5 } }),
+            convert: jest.fn((amount: number, from: string) => from === 'USD' ? amount / 2 : amount),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PriceWatchesService>(PriceWatchesService);
+    mockProductRepository.findOne.mockResolvedValue({ id: 'product-123' });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should create a watch in the user currency with the lowest offer as baseline', async () => {
+      mockPriceRepository.find.mockResolvedValue([
+        { price: '120.00', currency: 'USD' },
+        { price: '70.00', currency: 'EUR' },
+      ]);
+
+      const result = await service.create(user, { productId: 'product-123', dropPercent: 10 });
+
+      expect(result).toMatchObject({
+        id: 'watch-123',
+        userId: 'user-123',
+        currency: 'EUR',
+        targetPrice: null,
+        dropPercent: 10,
+        baselinePrice: 60,
+      });
+      expect(mockPriceRepository.find).toHaveBeenCalledWith({
+        where: { productId: 'product-123', inStock: true, condition: 'new' },
+      });
+    });
+
+    it('should require a target price or a percent drop', async () => {
+      await expect(service.create(user, { productId: 'product-123' })).rejects.toThrow(BadRequestException);
+      await expect(service.create(user, { productId: 'product-123', dropPercent: 120 })).rejects.toThrow(BadRequestException);
+      await expect(service.create(user, { productId: 'product-123', targetPrice: 50, expiresAt: '2000-01-01' }))
+        .rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw when the product does not exist', async () => {
+      mockProductRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.create(user, { productId: 'missing', targetPrice: 50 })).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('update', () => {
+    it('should re-arm the watch when its criteria change', async () => {
+      mockPriceWatchRepository.findOne.mockResolvedValue({
+        id: 'watch-123',
+        userId: 'user-123',
+        targetPrice: 80,
+        dropPercent: null,
+        lastAlertedPrice: 79,
+      });
+
+      const result = await service.update('user-123', 'watch-123', { targetPrice: 70 });
+
+      expect(result).toMatchObject({ targetPrice: 70, lastAlertedPrice: null });
+    });
+
+    it('should only find watches owned by the user', async () => {
+      mockPriceWatchRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.update('other-user', 'watch-123', { isActive: false })).rejects.toThrow(NotFoundException);
+      expect(mockPriceWatchRepository.findOne).toHaveBeenCalledWith({ where: { id: 'watch-123', userId: 'other-user' } });
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { PriceWatch } from '../../database/entities/price-watch.entity';
+import { Price } from '../../database/entities/price.entity';
+import { Product } from '../../database/entities/product.entity';
+import { Retailer } from '../../database/entities/retailer.entity';
+import { User } from '../../database/entities/user.entity';
+import { FxRatesService } from '../price-engine/services/fx-rates.service';
+
+export interface CreatePriceWatchDto {
+  productId: string;
+  retailerId?: string;
+  targetPrice?: number;
+  dropPercent?: number;
+  // Defaults to the user's preferred currency
+  currency?: string;
+  expiresAt?: string;
+}
+
+export interface UpdatePriceWatchDto {
+  targetPrice?: number | null;
+  dropPercent?: number | null;
+  expiresAt?: string | null;
+  isActive?: boolean;
+}
+
+@Injectable()
+export class PriceWatchesService {
+  private readonly logger = new Logger(PriceWatchesService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    @InjectRepository(PriceWatch)
+    private readonly priceWatchRepository: Repository<PriceWatch>,
+    @InjectRepository(Price)
+    private readonly priceRepository: Repository<Price>,
+    @InjectRepository(Product)
+    private readonly productRepository: Repository<Product>,
+    @InjectRepository(Retailer)
+    private readonly retailerRepository: Repository<Retailer>,
+    private readonly fxRatesService: FxRatesService,
+  ) {}
+
+  /**
+   * Watch a product, taking the lowest current offer as the baseline for percent drops
+   */
+  async create(user: User, dto: CreatePriceWatchDto): Promise<PriceWatch> {
+    try {
+      const product = await this.productRepository.findOne({ where: { id: dto.productId } });
+      if (!product) {
+        throw new NotFoundException(`Product with ID ${dto.productId} not found`);
+      }
+      if (dto.retailerId && !await this.retailerRepository.findOne({ where: { id: dto.retailerId } })) {
+        throw new NotFoundException(`Retailer with ID ${dto.retailerId} not found`);
+      }
+
+      const watch = this.priceWatchRepository.create({
+        userId: user.id,
+        productId: dto.productId,
+        retailerId: dto.retailerId,
+        currency: (dto.currency || user.preferences?.currency || this.configService.get<string>('DEFAULT_CURRENCY', 'USD')).toUpperCase(),
+        isActive: true,
+      });
+      this.applyCriteria(watch, dto);
+      watch.baselinePrice = await this.getLowestPrice(watch);
+
+      const savedWatch = await this.priceWatchRepository.save(watch);
+      this.logger.log(`Price watch created: ${savedWatch.id}`);
+      return savedWatch;
+    } catch (error) {
+      this.logger.error(`Failed to create price watch for product ${dto.productId}:`, error);
+      throw error;
+    }
+  }
+
+  async findAll(userId: string): Promise<PriceWatch[]> {
+    try {
+      return await this.priceWatchRepository.find({
+        where: { userId },
+        order: { createdAt: 'DESC' },
+      });
+    } catch (error) {
+      this.logger.error(`Failed to find price watches for user ${userId}:`, error);
+      return [];
+    }
+  }
+
+  async findOne(userId: string, id: string): Promise<PriceWatch> {
+    const watch = await this.priceWatchRepository.findOne({ where: { id, userId } });
+    if (!watch) {
+      throw new NotFoundException(`Price watch with ID ${id} not found`);
+    }
+    return watch;
+  }
+
+  /**
+   * Update a watch. New criteria re-arm it, so the next qualifying offer alerts even if it's not a new low.
+   */
+  async update(userId: string, id: string, dto: UpdatePriceWatchDto): Promise<PriceWatch> {
+    try {
+      const watch = await this.findOne(userId, id);
+
+      if (dto.targetPrice !== undefined || dto.dropPercent !== undefined || dto.expiresAt !== undefined) {
+        this.applyCriteria(watch, {
+          targetPrice: dto.targetPrice !== undefined ? dto.targetPrice : watch.targetPrice,
+          dropPercent: dto.dropPercent !== undefined ? dto.dropPercent : watch.dropPercent,
+          expiresAt: dto.expiresAt !== undefined ? dto.expiresAt : undefined,
+        });
+        watch.lastAlertedPrice = null;
+      }
+      if (dto.isActive !== undefined) {
+        watch.isActive = dto.isActive;
+      }
+
+      const updatedWatch = await this.priceWatchRepository.save(watch);
+      this.logger.log(`Price watch updated: ${updatedWatch.id}`);
+      return updatedWatch;
+    } catch (error) {
+      this.logger.error(`Failed to update price watch ${id}:`, error);
+      throw error;
+    }
+  }
+
+  async delete(userId: string, id: string): Promise<void> {
+    try {
+      const watch = await this.findOne(userId, id);
+      await this.priceWatchRepository.remove(watch);
+      this.logger.log(`Price watch deleted: ${id}`);
+    } catch (error) {
+      this.logger.error(`Failed to delete price watch ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Validate and set target price, percent drop and expiry; at least one of target or drop is required
+   */
+  private applyCriteria(
+    watch: PriceWatch,
+    criteria: { targetPrice?: number | null; dropPercent?: number | null; expiresAt?: string | null },
+  ): void {
+    const targetPrice = criteria.targetPrice !== null && criteria.targetPrice !== undefined ? Number(criteria.targetPrice) : null;
+    const dropPercent = criteria.dropPercent !== null && criteria.dropPercent !== undefined ? Number(criteria.dropPercent) : null;
+
+    if (targetPrice === null && dropPercent === null) {
+      throw new BadRequestException('Set a targetPrice, a dropPercent or both');
+    }
+    if (targetPrice !== null && !(targetPrice > 0)) {
+      throw new BadRequestException('targetPrice must be a positive amount');
+    }
+    if (dropPercent !== null && !(dropPercent > 0 && dropPercent < 100)) {
+      throw new BadRequestException('dropPercent must be between 0 and 100');
+    }
+
+    watch.targetPrice = targetPrice;
+    watch.dropPercent = dropPercent;
+
+    if (criteria.expiresAt === null) {
+      watch.expiresAt = null;
+    } else if (criteria.expiresAt !== undefined) {
+      const expiresAt = new Date(criteria.expiresAt);
+      if (isNaN(expiresAt.getTime()) || expiresAt.getTime() <= Date.now()) {
+        throw new BadRequestException('expiresAt must be a future date');
+      }
+      watch.expiresAt = expiresAt;
+    }
+  }
+
+  /**
+   * Lowest new, in-stock offer in the watch currency, or null when there is none to compare with
+   */
+  private async getLowestPrice(watch: PriceWatch): Promise<number | null> {
+    const [prices, rateTable] = await Promise.all([
+      this.priceRepository.find({
+        where: {
+          productId: watch.productId,
+          ...(watch.retailerId ? { retailerId: watch.retailerId } : {}),
+          inStock: true,
+          condition: 'new',
+        },
+      }),
+      this.fxRatesService.getRateTable(),
+    ]);
+
+    const converted = prices
+      .map(price => this.fxRatesService.convert(Number(price.price), price.currency, watch.currency, rateTable))
+      .filter(amount => amount !== null && amount !== undefined);
+
+    return converted.length > 0 ? Math.min(...converted) : null;
+  }
+}
@@ -3,6 +3,11 @@ import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagg
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { PricesService } from './prices.service';
 import { Public } from '../auth/decorators/public.decorator';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import { User } from '../../database/entities/user.entity';
+import { PriceComparisonOptions } from '../price-engine/price-engine.service';
+import { OfferCondition } from '../../database/entities/price.entity';
+import { ParseOfferConditionsPipe } from '../../common/pipes/parse-offer-conditions.pipe';
 
 @ApiTags('prices')
 @Controller('prices')
@@ -13,8 +18,19 @@ export class PricesController {
   @Public()
   @ApiOperation({ summary: 'Get prices for a product' })
   @ApiResponse({ status: 200, description: 'Prices retrieved successfully' })
-  async getProductPrices(@Param('productId') productId: string) {
-    return await this.pricesService.getProductPrices(productId);
+  async getProductPrices(
+    @Param('productId') productId: string,
+    @Query('currency') currency?: string,
+    @Query('country') country?: string,
+    @Query('includeReturnCost') includeReturnCost?: string,
+    @Query('condition', ParseOfferConditionsPipe) condition?: OfferCondition[],
+  ) {
+    return await this.pricesService.getProductPrices(productId, {
+      currency,
+      country,
+      includeReturnCost: includeReturnCost === 'true',
+      condition,
+    });
   }
 
   @Get('history/:productId')
@@ -29,6 +45,21 @@ export class PricesController {
     return await this.pricesService.getPriceHistory(productId, retailerId, days);
   }
 
+  @Get('forecast/:productId')
+  @Public()
+  @ApiOperation({ summary: 'Get a buy-now-or-wait forecast for a product' })
+  @ApiResponse({ status: 200, description: 'Forecast retrieved successfully' })
+  async getPriceForecast(
+    @Param('productId') productId: string,
+    @Query('currency') currency?: string,
+    @Query('days') days?: string,
+  ) {
+    return await this.pricesService.getPriceForecast(productId, {
+      currency,
+      horizonDays: days ? parseInt(days, 10) : undefined,
+    });
+  }
+
   @Get('lowest')
   @Public()
   @ApiOperation({ summary: 'Get lowest prices across all retailers' })
@@ -49,17 +80,18 @@ export class PricesController {
   @Public()
   @ApiOperation({ summary: 'Compare prices for multiple products' })
   @ApiResponse({ status: 200, description: 'Price comparison completed successfully' })
-  async comparePrices(@Body() body: { productIds: string[] }) {
-    return await this.pricesService.comparePrices(body.productIds);
+  async comparePrices(@Body() body: { productIds: string[] } & PriceComparisonOptions) {
+    const { productIds, ...options } = body;
+    return await this.pricesService.comparePrices(productIds, options);
   }
 
   @Get('alerts')
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'Get price alerts for users' })
+  @ApiOperation({ summary: 'Get price watches that have alerted for the current user' })
   @ApiResponse({ status: 200, description: 'Price alerts retrieved successfully' })
-  async getPriceAlerts() {
-    return await this.pricesService.getPriceAlerts();
+  async getPriceAlerts(@GetUser() user: User) {
+    return await this.pricesService.getPriceAlerts(user.id);
   }
 
   @Get(':id')
@@ -3,9 +3,16 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { Price } from '../../database/entities/price.entity';
 import { PriceHistory } from '../../database/entities/price-history.entity';
+import { PriceHistoryRollup } from '../../database/entities/price-history-rollup.entity';
+import { PriceWatch } from '../../database/entities/price-watch.entity';
 import { Product } from '../../database/entities/product.entity';
 import { Retailer } from '../../database/entities/retailer.entity';
-import { PriceEngineService } from '../price-engine/price-engine.service';
+import {
+  PriceEngineService,
+  PriceComparisonOptions,
+  PriceComparisonResult,
+} from '../price-engine/price-engine.service';
+import { PriceForecast, PriceForecastOptions } from '../price-engine/services/price-forecast.service';
 import { CacheService } from '../../common/cache/cache.service';
 
 @Injectable()
@@ -28,24 +35,12 @@ export class PricesService {
   /**
    * Get prices for a product
    */
-  async getProductPrices(productId: string): Promise<any> {
+  async getProductPrices(productId: string, options: PriceComparisonOptions = {}): Promise<PriceComparisonResult> {
     try {
       this.logger.log(`Getting prices for product: ${productId}`);
 
-      // Check cache first
-      const cachedPrices = await this.cacheService.getCachedPrices(productId);
-      if (cachedPrices) {
-        this.logger.log(`Cache hit for product prices: ${productId}`);
-        return cachedPrices;
-      }
-
-      // Get from price engine
-      const priceComparison = await this.priceEngineService.getProductPrices(productId);
-
-      // Cache results
-      await this.cacheService.cachePrices(productId, priceComparison.prices);
-
-      return priceComparison;
+      // The price engine caches raw retailer prices; conversion happens per request
+      return await this.priceEngineService.getProductPrices(productId, options);
     } catch (error) {
       this.logger.error(`Failed to get prices for product ${productId}:`, error);
       throw error;
@@ -102,7 +97,11 @@ export class PricesService {
   /**
    * Get price history for a product
    */
-  async getPriceHistory(productId: string, retailerId?: string, days = 30): Promise<PriceHistory[]> {
+  async getPriceHistory(
+    productId: string,
+    retailerId?: string,
+    days = 30,
+  ): Promise<PriceHistory[] | PriceHistoryRollup[]> {
     try {
       return await this.priceEngineService.getPriceHistory(productId, retailerId, days);
     } catch (error) {
@@ -111,6 +110,18 @@ export class PricesService {
     }
   }
 
+  /**
+   * Get a buy-or-wait forecast for a product
+   */
+  async getPriceForecast(productId: string, options: PriceForecastOptions = {}): Promise<PriceForecast> {
+    try {
+      return await this.priceEngineService.getPriceForecast(productId, options);
+    } catch (error) {
+      this.logger.error(`Failed to get price forecast for product ${productId}:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Get lowest prices across all retailers
    */
@@ -131,11 +142,11 @@ export class PricesService {
   }
 
   /**
-   * Get price alerts
+   * Get the user's price watches that have alerted
    */
-  async getPriceAlerts(): Promise<any[]> {
+  async getPriceAlerts(userId: string): Promise<PriceWatch[]> {
     try {
-      return await this.priceEngineService.getPriceAlerts();
+      return await this.priceEngineService.getPriceAlerts(userId);
     } catch (error) {
       this.logger.error('Failed to get price alerts:', error);
       return [];
@@ -260,10 +271,10 @@ export class PricesService {
   /**
    * Get price comparison for multiple products
    */
-  async comparePrices(productIds: string[]): Promise<any> {
+  async comparePrices(productIds: string[], options: PriceComparisonOptions = {}): Promise<any> {
     try {
       const comparisons = await Promise.all(
-        productIds.map(id => this.getProductPrices(id))
+        productIds.map(id => this.getProductPrices(id, options))
       );
 
       return {
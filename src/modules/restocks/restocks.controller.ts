@@ -0,0 +1,61 @@
+import { Controller, Get, Post, Delete, Body, Param, Query, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { Public } from '../auth/decorators/public.decorator';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import { User } from '../../database/entities/user.entity';
+import { RestocksService, CreateRestockSubscriptionDto } from './restocks.service';
+
+@ApiTags('restocks')
+@Controller('restocks')
+export class RestocksController {
+  constructor(private readonly restocksService: RestocksService) {}
+
+  @Get('recent')
+  @Public()
+  @ApiOperation({ summary: 'Get offers recently back in stock or released from pre-order' })
+  @ApiResponse({ status: 200, description: 'Recent restocks retrieved successfully' })
+  async getRecentRestocks(
+    @Query('category') category?: string,
+    @Query('country') country?: string,
+    @Query('days') days?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return await this.restocksService.getRecentRestocks({
+      category,
+      country,
+      days: days ? parseInt(days, 10) : undefined,
+      limit: limit ? parseInt(limit, 10) : undefined,
+    });
+  }
+
+  @Post('subscriptions')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get notified when a product is back in stock' })
+  @ApiResponse({ status: 201, description: 'Restock subscription created successfully' })
+  @ApiResponse({ status: 404, description: 'Product or retailer not found' })
+  async subscribe(@GetUser() user: User, @Body() createRestockSubscriptionDto: CreateRestockSubscriptionDto) {
+    return await this.restocksService.subscribe(user.id, createRestockSubscriptionDto);
+  }
+
+  @Get('subscriptions')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get the current user\'s restock subscriptions' })
+  @ApiResponse({ status: 200, description: 'Restock subscriptions retrieved successfully' })
+  async getSubscriptions(@GetUser() user: User) {
+    return await this.restocksService.getSubscriptions(user.id);
+  }
+
+  @Delete('subscriptions/:id')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Delete a restock subscription' })
+  @ApiResponse({ status: 200, description: 'Restock subscription deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Restock subscription not found' })
+  async unsubscribe(@GetUser() user: User, @Param('id') id: string) {
+    await this.restocksService.unsubscribe(user.id, id);
+    return { message: 'Restock subscription deleted successfully' };
+  }
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { RestocksService } from './restocks.service';
+import { RestocksController } from './restocks.controller';
+import { DatabaseModule } from '../../database/database.module';
+import { PriceEngineModule } from '../price-engine/price-engine.module';
+
+@Module({
+  imports: [
+    ConfigModule,
+    DatabaseModule,
+    PriceEngineModule,
+  ],
+  providers: [RestocksService],
+  controllers: [RestocksController],
+  exports: [RestocksService],
+})
+export class RestocksModule {}
@@ -0,0 +1,135 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NotFoundException } from '@nestjs/common';
+import { RestocksService } from './restocks.service';
+import { StockEvent } from '../../database/entities/stock-event.entity';
+import { RestockSubscription } from '../../database/entities/restock-subscription.entity';
+import { Product } from '../../database/entities/product.entity';
+import { Retailer } from '../../database/entities/retailer.entity';
+import { RetailerRegionService } from '../price-engine/services/retailer-region.service';
+
+describe('RestocksService', () => {
+  let service: RestocksService;
+
+  const mockEventQueryBuilder = {
+    leftJoinAndSelect: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    orderBy: jest.fn().mockReturnThis(),
+    take: jest.fn().mockReturnThis(),
+    getMany: jest.fn(),
+  };
+
+  const mockSubscriptionQueryBuilder = {
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    getOne: jest.fn(),
+  };
+
+  const mockSubscriptionRepository = {
+    createQueryBuilder: jest.fn().mockReturnValue(mockSubscriptionQueryBuilder),
+    create: jest.fn(subscription => subscription),
+    save: jest.fn(subscription => Promise.resolve({ id: 'subscription-123', ...subscription })),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    remove: jest.fn(),
+  };
+
+  const mockRetailerRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+  };
+
+  const mockProductRepository = {
+    findOne: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RestocksService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string, defaultValue?: string) => defaultValue) },
+        },
+        {
+          provide: getRepositoryToken(StockEvent),
+          useValue: { createQueryBuilder: jest.fn().mockReturnValue(mockEventQueryBuilder) },
+        },
+        {
+          provide: getRepositoryToken(RestockSubscription),
+          useValue: mockSubscriptionRepository,
+        },
+        {
+          provide: getRepositoryToken(Product),
+          useValue: mockProductRepository,
+        },
+        {
+          provide: getRepositoryToken(Retailer),
+          useValue: mockRetailerRepository,
+        },
+        {
+          provide: RetailerRegionService,
+          useValue: {
+            servesCountry: jest.fn((retailer: any, country: string) => retailer.country === country),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<RestocksService>(RestocksService);
+    mockEventQueryBuilder.getMany.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('subscribe', () => {
+    it('should reactivate an existing subscription instead of adding another', async () => {
+      mockProductRepository.findOne.mockResolvedValue({ id: 'product-123' });
+      mockSubscriptionQueryBuilder.getOne.mockResolvedValue({ id: 'subscription-123', userId: 'user-123', productId: 'product-123', isActive: false });
+
+      const result = await service.subscribe('user-123', { productId: 'product-123' });
+
+      expect(result).toMatchObject({ id: 'subscription-123', isActive: true });
+      expect(mockSubscriptionRepository.create).not.toHaveBeenCalled();
+      expect(mockSubscriptionQueryBuilder.andWhere).toHaveBeenCalledWith('subscription.retailerId IS NULL', { retailerId: undefined });
+    });
+
+    it('should throw when the product does not exist', async () => {
+      mockProductRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.subscribe('user-123', { productId: 'missing' })).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('getRecentRestocks', () => {
+    it('should filter restocks by category and by retailers serving the country', async () => {
+      mockRetailerRepository.find.mockResolvedValue([
+        { id: 'retailer-us', country: 'US' },
+        { id: 'retailer-de', country: 'DE' },
+      ]);
+
+      await service.getRecentRestocks({ category: 'Electronics', country: 'DE' });
+
+      expect(mockEventQueryBuilder.where).toHaveBeenCalledWith(
+        'event.transition IN (:...transitions)',
+        { transitions: ['back_in_stock', 'released'] },
+      );
+      expect(mockEventQueryBuilder.andWhere).toHaveBeenCalledWith('LOWER(product.category) = LOWER(:category)', { category: 'Electronics' });
+      expect(mockEventQueryBuilder.andWhere).toHaveBeenCalledWith('event.retailerId IN (:...retailerIds)', { retailerIds: ['retailer-de'] });
+      expect(mockEventQueryBuilder.take).toHaveBeenCalledWith(50);
+    });
+
+    it('should return nothing when no retailer serves the country', async () => {
+      mockRetailerRepository.find.mockResolvedValue([{ id: 'retailer-us', country: 'US' }]);
+
+      const result = await service.getRecentRestocks({ country: 'JP' });
+
+      expect(result).toEqual([]);
+      expect(mockEventQueryBuilder.getMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { StockEvent } from '../../database/entities/stock-event.entity';
+import { RestockSubscription } from '../../database/entities/restock-subscription.entity';
+import { Product } from '../../database/entities/product.entity';
+import { Retailer } from '../../database/entities/retailer.entity';
+import { RetailerRegionService } from '../price-engine/services/retailer-region.service';
+
+export interface CreateRestockSubscriptionDto {
+  productId: string;
+  retailerId?: string;
+}
+
+export interface RecentRestockOptions {
+  category?: string;
+  // Only retailers that deliver to this country
+  country?: string;
+  days?: number;
+  limit?: number;
+}
+
+@Injectable()
+export class RestocksService {
+  private readonly logger = new Logger(RestocksService.name);
+  private readonly recentDays: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @InjectRepository(StockEvent)
+    private readonly stockEventRepository: Repository<StockEvent>,
+    @InjectRepository(RestockSubscription)
+    private readonly subscriptionRepository: Repository<RestockSubscription>,
+    @InjectRepository(Product)
+    private readonly productRepository: Repository<Product>,
+    @InjectRepository(Retailer)
+    private readonly retailerRepository: Repository<Retailer>,
+    private readonly retailerRegionService: RetailerRegionService,
+  ) {
+    this.recentDays = parseInt(this.configService.get<string>('RESTOCK_RECENT_DAYS', '7'), 10);
+  }
+
+  /**
+   * Subscribe a user to restocks of a product; subscribing again reactivates the existing subscription
+   */
+  async subscribe(userId: string, dto: CreateRestockSubscriptionDto): Promise<RestockSubscription> {
+    try {
+      const product = await this.productRepository.findOne({ where: { id: dto.productId } });
+      if (!product) {
+        throw new NotFoundException(`Product with ID ${dto.productId} not found`);
+      }
+      if (dto.retailerId && !await this.retailerRepository.findOne({ where: { id: dto.retailerId } })) {
+        throw new NotFoundException(`Retailer with ID ${dto.retailerId} not found`);
+      }
+
+      const existing = await this.subscriptionRepository
+        .createQueryBuilder('subscription')
+        .where('subscription.userId = :userId', { userId })
+        .andWhere('subscription.productId = :productId', { productId: dto.productId })
+        .andWhere(dto.retailerId ? 'subscription.retailerId = :retailerId' : 'subscription.retailerId IS NULL', { retailerId: dto.retailerId })
+        .getOne();
+
+      const subscription = existing || this.subscriptionRepository.create({
+        userId,
+        productId: dto.productId,
+        retailerId: dto.retailerId,
+      });
+      subscription.isActive = true;
+
+      const savedSubscription = await this.subscriptionRepository.save(subscription);
+      this.logger.log(`Restock subscription saved: ${savedSubscription.id}`);
+      return savedSubscription;
+    } catch (error) {
+      this.logger.error(`Failed to subscribe to restocks of product ${dto.productId}:`, error);
+      throw error;
+    }
+  }
+
+  async getSubscriptions(userId: string): Promise<RestockSubscription[]> {
+    try {
+      return await this.subscriptionRepository.find({
+        where: { userId, isActive: true },
+        order: { createdAt: 'DESC' },
+      });
+    } catch (error) {
+      this.logger.error(`Failed to find restock subscriptions for user ${userId}:`, error);
+      return [];
+    }
+  }
+
+  async unsubscribe(userId: string, id: string): Promise<void> {
+    try {
+      const subscription = await this.subscriptionRepository.findOne({ where: { id, userId } });
+      if (!subscription) {
+        throw new NotFoundException(`Restock subscription with ID ${id} not found`);
+      }
+
+      await this.subscriptionRepository.remove(subscription);
+      this.logger.log(`Restock subscription deleted: ${id}`);
+    } catch (error) {
+      this.logger.error(`Failed to delete restock subscription ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Offers that came back in stock or were released from pre-order, most recent first
+   */
+  async getRecentRestocks(options: RecentRestockOptions = {}): Promise<StockEvent[]> {
+    const days = options.days || this.recentDays;
+    const limit = Math.min(options.limit || 50, 200);
+    if (!(days > 0)) {
+      throw new BadRequestException('days must be a positive number');
+    }
+
+    try {
+      const query = this.stockEventRepository
+        .createQueryBuilder('event')
+        .leftJoinAndSelect('event.product', 'product')
+        .leftJoinAndSelect('event.retailer', 'retailer')
+        .where('event.transition IN (:...transitions)', { transitions: ['back_in_stock', 'released'] })
+        .andWhere('event.createdAt >= :since', { since: new Date(Date.now() - days * 24 * 60 * 60 * 1000) });
+
+      if (options.category) {
+        query.andWhere('LOWER(product.category) = LOWER(:category)', { category: options.category });
+      }
+
+      if (options.country) {
+        const retailers = await this.retailerRepository.find({ where: { isActive: true } });
+        const retailerIds = retailers
+          .filter(retailer => this.retailerRegionService.servesCountry(retailer, options.country))
+          .map(retailer => retailer.id);
+        if (retailerIds.length === 0) {
+          return [];
+        }
+        query.andWhere('event.retailerId IN (:...retailerIds)', { retailerIds });
+      }
+
+      return await query
+        .orderBy('event.createdAt', 'DESC')
+        .take(limit)
+        .getMany();
+    } catch (error) {
+      this.logger.error('Failed to get recent restocks:', error);
+      return [];
+    }
+  }
+}
@@ -1,7 +1,7 @@
 import { Controller, Get, Post, Put, Delete, Body, Param, Query, UseGuards } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
-import { RetailersService, CreateRetailerDto, UpdateRetailerDto } from './retailers.service';
+import { RetailersService, CreateRetailerDto, UpdateRetailerDto, TestApifyActorDto } from './retailers.service';
 import { Public } from '../auth/decorators/public.decorator';
 
 @ApiTags('retailers')
@@ -73,6 +73,18 @@ export class RetailersController {
     return await this.retailersService.update(id, updateRetailerDto);
   }
 
+  @Post(':id/apify/test')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Test the retailer Apify actor config against a product URL (admin only)' })
+  @ApiResponse({ status: 201, description: 'Actor run and mapped price result' })
+  async testApifyActor(
+    @Param('id') id: string,
+    @Body() testDto: TestApifyActorDto,
+  ) {
+    return await this.retailersService.testApifyActor(id, testDto);
+  }
+
   @Put(':id/health')
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
@@ -3,11 +3,15 @@ import { RetailersService } from './retailers.service';
 import { RetailersController } from './retailers.controller';
 import { DatabaseModule } from '../../database/database.module';
 import { CacheModule } from '../../common/cache/cache.module';
+import { RateLimitModule } from '../../common/rate-limit/rate-limit.module';
+import { PriceEngineModule } from '../price-engine/price-engine.module';
 
 @Module({
   imports: [
     DatabaseModule,
     CacheModule,
+    RateLimitModule,
+    PriceEngineModule,
   ],
   providers: [RetailersService],
   controllers: [RetailersController],
@@ -1,8 +1,10 @@
-import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { Retailer } from '../../database/entities/retailer.entity';
 import { CacheService } from '../../common/cache/cache.service';
+import { RateLimitService } from '../../common/rate-limit/rate-limit.service';
+import { ApifyService, ApifyActorConfig, ApifyActorTestResult } from '../price-engine/services/apify.service';
 
 export interface CreateRetailerDto {
   name: string;
@@ -10,6 +12,7 @@ export interface CreateRetailerDto {
   logo?: string;
   country?: string;
   currency?: string;
+  adapterId?: string;
   apiConfig?: any;
   scraperConfig?: any;
   trustScore?: number;
@@ -17,6 +20,11 @@ export interface CreateRetailerDto {
   reviewCount?: number;
   shipping?: any;
   returnPolicy?: any;
+  promotionPolicy?: any;
+  crawlPolicy?: any;
+  regions?: any;
+  affiliateConfig?: any;
+  feedConfig?: any;
 }
 
 export interface UpdateRetailerDto {
@@ -25,6 +33,7 @@ export interface UpdateRetailerDto {
   logo?: string;
   country?: string;
   currency?: string;
+  adapterId?: string;
   apiConfig?: any;
   scraperConfig?: any;
   trustScore?: number;
@@ -32,9 +41,20 @@ export interface UpdateRetailerDto {
   reviewCount?: number;
   shipping?: any;
   returnPolicy?: any;
+  promotionPolicy?: any;
+  crawlPolicy?: any;
+  regions?: any;
+  affiliateConfig?: any;
+  feedConfig?: any;
   isActive?: boolean;
 }
 
+export interface TestApifyActorDto {
+  productUrl: string;
+  // Try an unsaved config; the retailer's saved one is used when omitted
+  apify?: ApifyActorConfig;
+}
+
 @Injectable()
 export class RetailersService {
   private readonly logger = new Logger(RetailersService.name);
@@ -43,6 +63,8 @@ export class RetailersService {
     @InjectRepository(Retailer)
     private readonly retailerRepository: Repository<Retailer>,
     private readonly cacheService: CacheService,
+    private readonly rateLimitService: RateLimitService,
+    private readonly apifyService: ApifyService,
   ) {}
 
   /**
@@ -51,6 +73,7 @@ export class RetailersService {
   async create(createRetailerDto: CreateRetailerDto): Promise<Retailer> {
     try {
       this.logger.log(`Creating retailer: ${createRetailerDto.name}`);
+      this.validateScraperConfig(createRetailerDto.scraperConfig);
 
       const retailer = this.retailerRepository.create(createRetailerDto);
       const savedRetailer = await this.retailerRepository.save(retailer);
@@ -130,6 +153,7 @@ export class RetailersService {
         throw new NotFoundException(`Retailer with ID ${id} not found`);
       }
 
+      this.validateScraperConfig(updateRetailerDto.scraperConfig);
       Object.assign(retailer, updateRetailerDto);
       const updatedRetailer = await this.retailerRepository.save(retailer);
 
@@ -141,6 +165,21 @@ export class RetailersService {
     }
   }
 
+  /**
+   * Run the retailer's Apify actor, or an unsaved config, against one product URL
+   */
+  async testApifyActor(id: string, testDto: TestApifyActorDto): Promise<ApifyActorTestResult> {
+    const retailer = await this.findById(id);
+    if (!retailer) {
+      throw new NotFoundException(`Retailer with ID ${id} not found`);
+    }
+    if (!testDto.productUrl) {
+      throw new BadRequestException('productUrl is required');
+    }
+
+    return await this.apifyService.testActor(retailer, testDto.productUrl, testDto.apify);
+  }
+
   /**
    * Delete retailer
    */
@@ -193,10 +232,13 @@ export class RetailersService {
    */
   async getHealthStatus(id: string): Promise<any> {
     try {
+      // API budget is live state, so it is read on every call rather than cached
+      const apiBudget = await this.rateLimitService.getBudget(`retailer:${id}`);
+
       // Check cache first
       const cachedHealth = await this.cacheService.getCachedRetailerHealth(id);
       if (cachedHealth) {
-        return cachedHealth;
+        return { ...cachedHealth, apiBudget };
       }
 
       const retailer = await this.findById(id);
@@ -212,6 +254,7 @@ export class RetailersService {
         errorCount: retailer.metadata?.errorCount || 0,
         successCount: retailer.metadata?.successCount || 0,
         averageResponseTime: retailer.metadata?.averageResponseTime || 0,
+        circuits: retailer.metadata?.circuits || {},
         apiEnabled: retailer.isApiEnabled,
         scraperEnabled: retailer.isScraperEnabled,
       };
@@ -219,7 +262,7 @@ export class RetailersService {
       // Cache the result
       await this.cacheService.cacheRetailerHealth(id, healthStatus);
 
-      return healthStatus;
+      return { ...healthStatus, apiBudget };
     } catch (error) {
       this.logger.error(`Failed to get health status for retailer ${id}:`, error);
       return null;
@@ -283,4 +326,18 @@ export class RetailersService {
       return null;
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Reject scraper configs whose Apify actor settings could not run
+   */
+  private validateScraperConfig(scraperConfig: any): void {
+    if (!scraperConfig || scraperConfig.apify === undefined || scraperConfig.apify === null) {
+      return;
+    }
+
+    const problems = this.apifyService.validateActorConfig(scraperConfig.apify);
+    if (problems.length > 0) {
+      throw new BadRequestException(`Invalid Apify actor config: ${problems.join('; ')}`);
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { AppModule } from '../src/app.module';
+import { PriceEngineService } from '../src/modules/price-engine/price-engine.service';
+import { ScraperFixtureService } from '../src/modules/price-engine/services/scraper-fixture.service';
+import { AiNormalizationService } from '../src/modules/ai-normalization/ai-normalization.service';
+import { Product } from '../src/database/entities/product.entity';
+import { Retailer } from '../src/database/entities/retailer.entity';
+import { Price } from '../src/database/entities/price.entity';
+
+describe('Sandbox pricing (e2e)', () => {
+  let app: INestApplication;
+  let productRepository: Repository<Product>;
+  let retailerRepository: Repository<Retailer>;
+  let priceRepository: Repository<Price>;
+  let product: Product;
+  let retailer: Retailer;
+
+  beforeAll(async () => {
+    process.env.SANDBOX_MODE = 'true';
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+
+    productRepository = app.get(getRepositoryToken(Product));
+    retailerRepository = app.get(getRepositoryToken(Retailer));
+    priceRepository = app.get(getRepositoryToken(Price));
+
+    retailer = await retailerRepository.save(retailerRepository.create({
+      name: `Sandbox Walmart ${Date.now()}`,
+      domain: 'sandbox.walmart.test',
+      country: 'US',
+      currency: 'USD',
+      adapterId: 'walmart',
+      apiConfig: { hasApi: true, status: 'active' },
+      isActive: true,
+    }));
+    product = await productRepository.save(productRepository.create({
+      name: 'Air Max 90',
+      brand: 'Nike',
+      model: 'CN8490-002',
+    }));
+  });
+
+  afterAll(async () => {
+    await priceRepository.delete({ productId: product.id });
+    await productRepository.delete(product.id);
+    await retailerRepository.delete(retailer.id);
+    await app.close();
+    delete process.env.SANDBOX_MODE;
+  });
+
+  it('prices a product offline through the sandbox adapters', async () => {
+    const comparison = await app.get(PriceEngineService).getProductPrices(product.id);
+    const offer = comparison.prices.find(price => price.retailerId === retailer.id);
+
+    expect(offer).toBeDefined();
+    expect(offer.metadata.source).toBe('api');
+    expect(offer.productUrl).toBe(`https://sandbox.walmart.test/sandbox/products/${product.id}`);
+    expect(offer.match.status).not.toBe('rejected');
+  });
+
+  it('scrapes offline instead of loading the product page', async () => {
+    const offer = await app.get(PriceEngineService).scrapeProductPrice(retailer.id, 'https://sandbox.walmart.test/ip/123', product.id);
+
+    expect(offer.metadata.source).toBe('scraper');
+    expect(offer.productUrl).toBe(`https://sandbox.walmart.test/sandbox/products/${product.id}`);
+  });
+
+  it('refuses to download pages for fixture capture and dry runs', async () => {
+    const fixtures = app.get(ScraperFixtureService);
+
+    await expect(fixtures.capture(retailer.id, 'https://sandbox.walmart.test/ip/123')).rejects.toThrow('Sandbox mode does not download pages');
+    await expect(fixtures.dryRun(retailer.id, { url: 'https://sandbox.walmart.test/ip/123' })).rejects.toThrow('Sandbox mode does not download pages');
+  });
+
+  it('normalizes with the sandbox LLM provider', async () => {
+    const result = await app.get(AiNormalizationService).normalizeProduct({ productName: 'nike air max 90 sneakers' });
+
+    expect(result.normalizedBrand).toBe('Nike');
+    expect(result.normalizedSubcategory).toBe('Sneakers');
+  });
+});